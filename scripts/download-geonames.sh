@@ -0,0 +1,26 @@
+#!/bin/bash
+
+# Télécharge le jeu de données GeoNames utilisé pour le géocodage inverse hors ligne
+# Usage : ./download-geonames.sh [cities15000|cities5000|cities1000|cities500]
+
+set -e
+
+CITIES="${1:-cities15000}"
+BASE_URL="https://download.geonames.org/export/dump"
+TARGET_DIR="$(cd "$(dirname "$0")/.." && pwd)/supabase/functions/_shared/geonames"
+
+echo "🌍 Téléchargement du jeu de données GeoNames ($CITIES)"
+echo "========================================"
+
+mkdir -p "$TARGET_DIR"
+cd "$TARGET_DIR"
+
+curl -fsSL -o "$CITIES.zip" "$BASE_URL/$CITIES.zip"
+unzip -o -q "$CITIES.zip" "$CITIES.txt"
+rm "$CITIES.zip"
+
+curl -fsSL -o admin1CodesASCII.txt "$BASE_URL/admin1CodesASCII.txt"
+curl -fsSL -o countryInfo.txt "$BASE_URL/countryInfo.txt"
+
+echo "✅ Fichiers enregistrés dans $TARGET_DIR"
+echo "   Activez-les avec GEOCODER_PROVIDER=geonames pour process-photo-metadata"
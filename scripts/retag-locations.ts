@@ -0,0 +1,128 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read
+
+/**
+ * Réattribue les lieux-dits des photos et journées existantes à partir du jeu de données
+ * GeoNames local, sans envoyer les coordonnées à un service tiers. Renseigne aussi le lieu
+ * structuré (colonnes place_*) des lignes importées avant son introduction.
+ *
+ * Usage :
+ *   deno run --allow-net --allow-env --allow-read scripts/retag-locations.ts [--album <id>] [--only-missing] [--dry-run]
+ *
+ * Variables d'environnement :
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ *   GEOCODER_GEONAMES_DIR (facultatif, par défaut supabase/functions/_shared/geonames)
+ *   GEOCODER_GEONAMES_MAX_KM (facultatif, 50 km par défaut)
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { parse } from "https://deno.land/std@0.177.0/flags/mod.ts";
+import { createGeocoder, geocoderConfigFromEnv } from "../supabase/functions/_shared/geocoding.ts";
+import { readGeoNamesDataset } from "../supabase/functions/_shared/geonamesFiles.ts";
+import { PlaceColumns, placeLabel, placeToColumns } from "../supabase/functions/_shared/places.ts";
+
+const PAGE_SIZE = 1000;
+
+const args = parse(Deno.args, {
+  string: ["album"],
+  boolean: ["only-missing", "dry-run"],
+});
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL");
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error("❌ SUPABASE_URL et SUPABASE_SERVICE_ROLE_KEY sont requis");
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const config = geocoderConfigFromEnv((name) => name === "GEOCODER_PROVIDER" ? "geonames" : Deno.env.get(name));
+const geocoder = createGeocoder(config, { geonames: await readGeoNamesDataset(config.geonamesDir) });
+
+interface LocatedRow extends PlaceColumns {
+  id: string;
+  latitude: number;
+  longitude: number;
+  location_name: string | null;
+}
+
+/**
+ * Recalcule le lieu-dit des lignes géolocalisées d'une table
+ * @returns Le nombre de lignes modifiées (ou à modifier en --dry-run)
+ */
+async function retagTable(table: "photos" | "day_entries"): Promise<number> {
+  console.log(`📍 Lieux-dits de ${table}...`);
+  let updated = 0;
+  let scanned = 0;
+
+  let from = 0;
+  for (;;) {
+    let query = supabase
+      .from(table)
+      .select("id, latitude, longitude, location_name, place_locality, place_municipality, place_region, place_country, place_country_code")
+      .not("latitude", "is", null)
+      .not("longitude", "is", null)
+      // La position par défaut d'un album ne désigne pas un lieu réel
+      .neq("location_source", "album-default")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (args.album) query = query.eq("album_id", args.album);
+    if (args["only-missing"]) query = query.is("place_country", null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data || []) as LocatedRow[];
+    let updatedInPage = 0;
+    for (const row of rows) {
+      const place = await geocoder.reverse(Number(row.latitude), Number(row.longitude), config.language);
+      if (!place) continue;
+
+      // Une photo affiche aussi son quartier, une journée seulement le niveau principal
+      const locationName = placeLabel(place, { detailed: table === "photos" })!;
+      const columns = placeToColumns(place);
+      const unchanged = locationName === row.location_name &&
+        (Object.keys(columns) as (keyof PlaceColumns)[]).every((key) => columns[key] === row[key]);
+      if (unchanged) continue;
+
+      updated++;
+      if (args["dry-run"]) {
+        console.log(`   ${row.id}: ${row.location_name ?? "(aucun)"} → ${locationName}`);
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ location_name: locationName, ...columns })
+        .eq("id", row.id);
+
+      if (updateError) {
+        console.error(`❌ Erreur pour ${table} ${row.id}:`, updateError);
+        updated--;
+      } else {
+        updatedInPage++;
+      }
+    }
+
+    scanned += rows.length;
+    if (rows.length < PAGE_SIZE) break;
+    // Avec --only-missing, les lignes corrigées sortent du filtre : la page suivante commence plus tôt
+    from += rows.length - (args["only-missing"] ? updatedInPage : 0);
+  }
+
+  console.log(`✅ ${table}: ${updated} lieu${updated !== 1 ? "x" : ""}-dit${updated !== 1 ? "s" : ""} ${args["dry-run"] ? "à modifier" : "modifié" + (updated !== 1 ? "s" : "")} sur ${scanned}`);
+  return updated;
+}
+
+try {
+  await retagTable("photos");
+  const updatedDays = await retagTable("day_entries");
+
+  if (updatedDays > 0 && !args["dry-run"]) {
+    console.log("ℹ️  Les titres des journées reprennent le lieu-dit : relancez update-day-titles pour les régénérer");
+  }
+} catch (error) {
+  console.error("❌ Erreur lors de la réattribution des lieux-dits:", error);
+  Deno.exit(1);
+}
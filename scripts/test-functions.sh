@@ -0,0 +1,21 @@
+#!/bin/bash
+
+# Lance les tests des edge functions contre la pile Supabase locale
+# Prérequis : Supabase CLI et Deno, pile démarrée avec `supabase start` (qui sert aussi les fonctions)
+# Usage : ./test-functions.sh [fichier de test...]
+
+set -e
+
+ROOT_DIR="$(cd "$(dirname "$0")/.." && pwd)"
+cd "$ROOT_DIR"
+
+echo "🧪 Tests des edge functions"
+echo "========================================"
+
+# URL et clés de la pile locale
+eval "$(supabase status -o env)"
+export SUPABASE_URL="$API_URL"
+export SUPABASE_ANON_KEY="$ANON_KEY"
+export SUPABASE_SERVICE_ROLE_KEY="$SERVICE_ROLE_KEY"
+
+deno test --allow-net --allow-env "${@:-supabase/functions/tests/}"
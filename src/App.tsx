@@ -5,12 +5,19 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/components/auth/AuthProvider";
 import { AuthPage } from "@/components/auth/AuthPage";
+import { I18nProvider } from "@/i18n/I18nProvider";
 import { AlbumList } from "@/components/album/AlbumList";
 import AlbumView from "./pages/AlbumView";
 import DayView from "./pages/DayView";
 import AlbumPrint from './pages/AlbumPrint';
 import Memories from "./pages/Memories";
+import Places from "./pages/Places";
+import Timeline from "./pages/Timeline";
 import Slideshow from "./pages/Slideshow";
+import SharedAlbumView from "./pages/SharedAlbumView";
+import SharedDayView from "./pages/SharedDayView";
+import SharedSlideshow from "./pages/SharedSlideshow";
+import { SharedAlbumProvider } from "@/components/share/SharedAlbumProvider";
 import NotFound from "./pages/NotFound";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -32,46 +39,64 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/auth" element={<AuthPage />} />
-            <Route path="/" element={
-              <ProtectedRoute>
-                <AlbumList />
-              </ProtectedRoute>
-            } />
-            <Route path="/album/:albumId" element={
-              <ProtectedRoute>
-                <AlbumView />
-              </ProtectedRoute>
-            } />
-            <Route path="/album/:albumId/day/:dayId" element={
-              <ProtectedRoute>
-                <DayView />
-              </ProtectedRoute>
-            } />
-            <Route path="/album/:albumId/print" element={
-              <ProtectedRoute>
-                <AlbumPrint />
-              </ProtectedRoute>
-            } />
-            <Route path="/album/:albumId/slideshow" element={
-              <ProtectedRoute>
-                <Slideshow />
-              </ProtectedRoute>
-            } />
-            <Route path="/memories" element={
-              <ProtectedRoute>
-                <Memories />
-              </ProtectedRoute>
-            } />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <I18nProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/auth" element={<AuthPage />} />
+              <Route path="/" element={
+                <ProtectedRoute>
+                  <AlbumList />
+                </ProtectedRoute>
+              } />
+              <Route path="/album/:albumId" element={
+                <ProtectedRoute>
+                  <AlbumView />
+                </ProtectedRoute>
+              } />
+              <Route path="/album/:albumId/day/:dayId" element={
+                <ProtectedRoute>
+                  <DayView />
+                </ProtectedRoute>
+              } />
+              <Route path="/album/:albumId/print" element={
+                <ProtectedRoute>
+                  <AlbumPrint />
+                </ProtectedRoute>
+              } />
+              <Route path="/album/:albumId/slideshow" element={
+                <ProtectedRoute>
+                  <Slideshow />
+                </ProtectedRoute>
+              } />
+              <Route path="/memories" element={
+                <ProtectedRoute>
+                  <Memories />
+                </ProtectedRoute>
+              } />
+              <Route path="/places" element={
+                <ProtectedRoute>
+                  <Places />
+                </ProtectedRoute>
+              } />
+              <Route path="/timeline" element={
+                <ProtectedRoute>
+                  <Timeline />
+                </ProtectedRoute>
+              } />
+              {/* Liens de partage : publics, en lecture seule */}
+              <Route path="/share/:token" element={<SharedAlbumProvider />}>
+                <Route index element={<SharedAlbumView />} />
+                <Route path="day/:dayId" element={<SharedDayView />} />
+                <Route path="slideshow" element={<SharedSlideshow />} />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </I18nProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
@@ -1,8 +1,9 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, MapPin } from 'lucide-react';
+import { updateAlbumMetadata } from '@/utils/albumMetadata';
+import { useI18n } from '@/i18n/useI18n';
 
 interface UpdateAlbumMetadataButtonProps {
   albumId: string;
@@ -11,28 +12,48 @@ interface UpdateAlbumMetadataButtonProps {
 export const UpdateAlbumMetadataButton = ({ albumId }: UpdateAlbumMetadataButtonProps) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const { toast } = useToast();
+  const { t, locale } = useI18n();
 
   const handleUpdateMetadata = async () => {
     setIsUpdating(true);
-    
+
     try {
-      const { data, error } = await supabase.functions.invoke('update-album-metadata', {
-        body: { albumId }
-      });
+      // Simulation d'abord, pour annoncer ce qui changera
+      const preview = await updateAlbumMetadata(albumId, { dryRun: true, language: locale });
 
-      if (error) {
-        console.error('Erreur lors de la mise à jour des métadonnées:', error);
+      if (preview.photosUpdated === 0 && preview.dayEntriesUpdated === 0) {
         toast({
-          title: "Erreur",
-          description: "Impossible de mettre à jour les métadonnées de l'album",
-          variant: "destructive",
+          title: t.metadata.upToDate,
+          description: t.metadata.noChanges,
         });
         return;
       }
 
-      toast({
-        title: "Succès",
-        description: `${data.photosUpdated} photos et ${data.dayEntriesUpdated} journées mises à jour`,
+      const { createdDays, updatedDays, deletedDays } = preview.diff;
+      if (!confirm(t.metadata.confirm(preview.photosUpdated, createdDays.length, updatedDays.length, deletedDays.length))) {
+        return;
+      }
+
+      const progressToast = toast({
+        title: t.metadata.progressTitle,
+        description: t.metadata.steps.loading,
+      });
+
+      const data = await updateAlbumMetadata(albumId, {
+        language: locale,
+        onProgress: ({ step, done, total }) => {
+          progressToast.update({
+            id: progressToast.id,
+            title: t.metadata.progressTitle,
+            description: `${t.metadata.steps[step]} ${done}/${total}`,
+          });
+        }
+      });
+
+      progressToast.update({
+        id: progressToast.id,
+        title: t.metadata.successTitle,
+        description: t.metadata.success(data.photosUpdated, data.dayEntriesUpdated),
       });
 
       // Recharger la page pour voir les changements
@@ -41,10 +62,10 @@ export const UpdateAlbumMetadataButton = ({ albumId }: UpdateAlbumMetadataButton
       }, 1000);
 
     } catch (error) {
-      console.error('Erreur:', error);
+      console.error('Erreur lors de la mise à jour des métadonnées:', error);
       toast({
-        title: "Erreur",
-        description: "Une erreur inattendue s'est produite",
+        title: t.metadata.errorTitle,
+        description: t.metadata.error,
         variant: "destructive",
       });
     } finally {
@@ -53,8 +74,8 @@ export const UpdateAlbumMetadataButton = ({ albumId }: UpdateAlbumMetadataButton
   };
 
   return (
-    <Button 
-      onClick={handleUpdateMetadata} 
+    <Button
+      onClick={handleUpdateMetadata}
       disabled={isUpdating}
       variant="outline"
       size="sm"
@@ -62,14 +83,14 @@ export const UpdateAlbumMetadataButton = ({ albumId }: UpdateAlbumMetadataButton
       {isUpdating ? (
         <>
           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-          Mise à jour...
+          {t.metadata.updating}
         </>
       ) : (
         <>
           <MapPin className="mr-2 h-4 w-4" />
-          Coordonnées & lieux
+          {t.metadata.button}
         </>
       )}
     </Button>
   );
-};
\ No newline at end of file
+};
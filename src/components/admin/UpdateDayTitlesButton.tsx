@@ -3,32 +3,70 @@ import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { useI18n } from '@/i18n/useI18n';
 
-export const UpdateDayTitlesButton = () => {
+interface UpdateDayTitlesButtonProps {
+  // Limiter la régénération à un album ; par défaut, tous les albums de l'utilisateur
+  albumId?: string;
+}
+
+export const UpdateDayTitlesButton = ({ albumId }: UpdateDayTitlesButtonProps) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const { toast } = useToast();
+  const { t } = useI18n();
 
   const handleUpdateTitles = async () => {
     setIsUpdating(true);
     
     try {
+      // Simulation d'abord, pour annoncer ce qui changera
+      const { data: preview, error: previewError } = await supabase.functions.invoke('update-day-titles', {
+        body: { albumId, dryRun: true }
+      });
+
+      if (previewError) {
+        console.error('Erreur lors de la simulation des titres:', previewError);
+        toast({
+          title: t.common.error,
+          description: t.dayTitles.updateError,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const changes: { before: string | null; after: string }[] = preview.changes || [];
+      if (changes.length === 0) {
+        toast({
+          title: t.dayTitles.upToDate,
+          description: preview.skippedCustom > 0
+            ? t.dayTitles.noChangesKeptCustom(preview.skippedCustom)
+            : t.dayTitles.noChanges,
+        });
+        return;
+      }
+
+      const examples = changes.slice(0, 5).map(change => `• ${change.before || t.dayTitles.untitled} → ${change.after}`).join('\n');
+      if (!confirm(t.dayTitles.confirmChanges(changes.length, `${examples}${changes.length > 5 ? '\n…' : ''}`))) {
+        return;
+      }
+
       const { data, error } = await supabase.functions.invoke('update-day-titles', {
-        body: {}
+        body: { albumId }
       });
 
       if (error) {
         console.error('Erreur lors de la mise à jour des titres:', error);
         toast({
-          title: "Erreur",
-          description: "Impossible de mettre à jour les titres des journées",
+          title: t.common.error,
+          description: t.dayTitles.updateError,
           variant: "destructive",
         });
         return;
       }
 
       toast({
-        title: "Succès",
-        description: data.message || "Titres des journées mis à jour avec succès",
+        title: t.dayTitles.success,
+        description: t.dayTitles.updated(data.updated ?? 0),
       });
 
       // Recharger la page pour voir les changements
@@ -37,8 +75,8 @@ export const UpdateDayTitlesButton = () => {
     } catch (error) {
       console.error('Erreur:', error);
       toast({
-        title: "Erreur",
-        description: "Une erreur inattendue s'est produite",
+        title: t.common.error,
+        description: t.dayTitles.unexpectedError,
         variant: "destructive",
       });
     } finally {
@@ -56,10 +94,10 @@ export const UpdateDayTitlesButton = () => {
       {isUpdating ? (
         <>
           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-          Mise à jour...
+          {t.dayTitles.updating}
         </>
       ) : (
-        'Mettre à jour les titres'
+        t.dayTitles.update
       )}
     </Button>
   );
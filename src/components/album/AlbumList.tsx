@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
@@ -6,13 +6,17 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
-import { Plus, Calendar, MapPin, MoreVertical, Edit, Trash, LogOut, Camera, Heart, Menu } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
+import { Plus, Calendar, MapPin, MoreVertical, Edit, Trash, LogOut, Camera, Heart, Menu, Globe, Users, Mail, MessageCircle, CalendarRange } from 'lucide-react';
+import { useI18n } from '@/i18n/useI18n';
+import { LanguageSelect } from '@/i18n/LanguageSelect';
+import { isAlbumRole } from '@shared/albumRoles';
+import { compareAlbumsByPeriod, formatAlbumPeriod, groupAlbumsByYear } from '@/utils/albumPeriod';
 
 interface Album {
   id: string;
@@ -20,29 +24,43 @@ interface Album {
   description: string | null;
   year: number;
   month: number;
+  // Période du voyage, déduite des photos sauf si dates_are_custom
+  start_date: string | null;
+  end_date: string | null;
+  dates_are_custom: boolean;
   created_at: string;
+  // Propriétaire : les albums d'autrui sont ceux partagés avec l'utilisateur
+  user_id: string;
   photo_count?: number;
 }
 
+interface PendingInvitation {
+  id: string;
+  album_title: string;
+  role: string;
+  invited_by_email: string | null;
+}
+
 export function AlbumList() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { t, dateLocale } = useI18n();
   const [albums, setAlbums] = useState<Album[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [answeringId, setAnsweringId] = useState<string>();
+  const [activity, setActivity] = useState<Record<string, { comments: number; reactions: number }>>({});
   const [loading, setLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingAlbum, setEditingAlbum] = useState<Album | null>(null);
   const [newAlbumTitle, setNewAlbumTitle] = useState('');
   const [newAlbumDescription, setNewAlbumDescription] = useState('');
+  const [customDates, setCustomDates] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
 
-  useEffect(() => {
-    if (user) {
-      fetchAlbums();
-    }
-  }, [user]);
-
-  const fetchAlbums = async () => {
+  const fetchAlbums = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('albums')
@@ -52,35 +70,89 @@ export function AlbumList() {
           description,
           year,
           month,
+          start_date,
+          end_date,
+          dates_are_custom,
           created_at,
+          user_id,
           photos (count)
-        `)
-        .order('year', { ascending: false })
-        .order('month', { ascending: false });
+        `);
 
       if (error) throw error;
 
       const albumsWithCounts = data.map(album => ({
         ...album,
         photo_count: album.photos?.[0]?.count || 0
-      }));
+      })).sort(compareAlbumsByPeriod);
 
       setAlbums(albumsWithCounts);
     } catch (error) {
       console.error('Erreur lors du chargement des albums:', error);
-      toast.error('Erreur lors du chargement des albums');
+      toast.error(t.albums.loadError);
     } finally {
       setLoading(false);
     }
+  }, [t]);
+
+  // Invitations adressées à l'email du compte, pour des albums qu'il ne peut pas encore lire
+  const fetchInvitations = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_pending_album_invitations');
+    if (error) {
+      console.error('Erreur lors du chargement des invitations:', error);
+      return;
+    }
+    setInvitations(data || []);
+  }, []);
+
+  // Commentaires et réactions des autres membres depuis la dernière visite de chaque album
+  const fetchActivity = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_album_activity_counts');
+    if (error) {
+      console.error('Erreur lors du chargement de l\'activité:', error);
+      return;
+    }
+    setActivity(Object.fromEntries((data || []).map(row => [
+      row.album_id,
+      { comments: Number(row.comment_count), reactions: Number(row.reaction_count) }
+    ])));
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      fetchAlbums();
+      fetchInvitations();
+      fetchActivity();
+    }
+  }, [user, fetchAlbums, fetchInvitations, fetchActivity]);
+
+  const answerInvitation = async (invitationId: string, accept: boolean) => {
+    setAnsweringId(invitationId);
+    try {
+      const { error } = accept
+        ? await supabase.rpc('accept_album_invitation', { p_invitation_id: invitationId })
+        : await supabase.from('album_invitations').delete().eq('id', invitationId);
+
+      if (error) throw error;
+
+      toast.success(accept ? t.albums.invitationAccepted : t.albums.invitationDeclined);
+      fetchInvitations();
+      if (accept) fetchAlbums();
+    } catch (error) {
+      console.error('Erreur lors de la réponse à l\'invitation:', error);
+      toast.error(t.albums.invitationError);
+    } finally {
+      setAnsweringId(undefined);
+    }
   };
 
   const createAlbum = async () => {
     if (!newAlbumTitle.trim()) {
-      toast.error('Le titre est requis');
+      toast.error(t.albums.titleRequired);
       return;
     }
 
     try {
+      // Mois de création, remplacé par la période du voyage dès les premières photos
       const now = new Date();
       const { error } = await supabase
         .from('albums')
@@ -94,32 +166,40 @@ export function AlbumList() {
 
       if (error) throw error;
 
-      toast.success('Album créé avec succès');
+      toast.success(t.albums.created);
       setCreateDialogOpen(false);
       setNewAlbumTitle('');
       setNewAlbumDescription('');
       fetchAlbums();
     } catch (error) {
       console.error('Erreur lors de la création:', error);
-      toast.error('Erreur lors de la création de l\'album');
+      toast.error(t.albums.createError);
     }
   };
 
   const updateAlbum = async () => {
     if (!editingAlbum || !newAlbumTitle.trim()) return;
 
+    if (customDates && (!startDate || !endDate || endDate < startDate)) {
+      toast.error(t.albums.invalidDates);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from('albums')
         .update({
           title: newAlbumTitle,
-          description: newAlbumDescription || null
+          description: newAlbumDescription || null,
+          // Sans dates fixées, la période est recalculée d'après les photos
+          dates_are_custom: customDates,
+          ...(customDates && { start_date: startDate, end_date: endDate })
         })
         .eq('id', editingAlbum.id);
 
       if (error) throw error;
 
-      toast.success('Album modifié avec succès');
+      toast.success(t.albums.updated);
       setEditDialogOpen(false);
       setEditingAlbum(null);
       setNewAlbumTitle('');
@@ -127,12 +207,12 @@ export function AlbumList() {
       fetchAlbums();
     } catch (error) {
       console.error('Erreur lors de la modification:', error);
-      toast.error('Erreur lors de la modification de l\'album');
+      toast.error(t.albums.updateError);
     }
   };
 
   const deleteAlbum = async (albumId: string) => {
-    if (!confirm('Êtes-vous sûr de vouloir supprimer cet album ? Cette action est irréversible.')) {
+    if (!confirm(t.albums.confirmDelete)) {
       return;
     }
 
@@ -144,11 +224,11 @@ export function AlbumList() {
 
       if (error) throw error;
 
-      toast.success('Album supprimé avec succès');
+      toast.success(t.albums.deleted);
       fetchAlbums();
     } catch (error) {
       console.error('Erreur lors de la suppression:', error);
-      toast.error('Erreur lors de la suppression de l\'album');
+      toast.error(t.albums.deleteError);
     }
   };
 
@@ -156,20 +236,20 @@ export function AlbumList() {
     setEditingAlbum(album);
     setNewAlbumTitle(album.title);
     setNewAlbumDescription(album.description || '');
+    setCustomDates(album.dates_are_custom);
+    setStartDate(album.start_date || '');
+    setEndDate(album.end_date || '');
     setEditDialogOpen(true);
   };
 
-  const getMonthName = (month: number) => {
-    const date = new Date(2000, month - 1, 1);
-    return format(date, 'MMMM', { locale: fr });
-  };
+  const albumsByYear = groupAlbumsByYear(albums);
 
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Chargement de vos albums...</p>
+          <p className="text-muted-foreground">{t.albums.loading}</p>
         </div>
       </div>
     );
@@ -186,11 +266,12 @@ export function AlbumList() {
                 <Camera className="h-6 w-6 text-primary" />
               </div>
               <div>
-                <h1 className="text-xl font-bold text-foreground">PhotoAlbum</h1>
-                <p className="text-sm text-muted-foreground">Mes Albums</p>
+                <h1 className="text-xl font-bold text-foreground">{t.common.appName}</h1>
+                <p className="text-sm text-muted-foreground">{t.albums.subtitle}</p>
               </div>
             </div>
             <div className="flex items-center gap-4">
+              {isMobile && <LanguageSelect />}
               {isMobile ? (
                 // Menu mobile unique
                 <DropdownMenu>
@@ -202,16 +283,24 @@ export function AlbumList() {
                   <DropdownMenuContent align="end" className="z-[9999] bg-background border border-border shadow-lg">
                     <DropdownMenuItem onClick={() => navigate('/memories')}>
                       <Heart className="h-4 w-4 mr-2" />
-                      Souvenirs
+                      {t.albums.memories}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/places')}>
+                      <Globe className="h-4 w-4 mr-2" />
+                      {t.albums.places}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/timeline')}>
+                      <CalendarRange className="h-4 w-4 mr-2" />
+                      {t.albums.timeline}
                     </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => setCreateDialogOpen(true)}>
                       <Plus className="h-4 w-4 mr-2" />
-                      Nouvel Album
+                      {t.albums.newAlbum}
                     </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={signOut}>
                       <LogOut className="h-4 w-4 mr-2" />
-                      Déconnexion
+                      {t.common.signOut}
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -224,7 +313,17 @@ export function AlbumList() {
                     className="bg-gradient-to-r from-pink-500/10 to-purple-500/10 border-pink-500/20 hover:from-pink-500/20 hover:to-purple-500/20"
                   >
                     <Heart className="h-4 w-4 mr-2" />
-                    Souvenirs
+                    {t.albums.memories}
+                  </Button>
+
+                  <Button variant="outline" onClick={() => navigate('/places')}>
+                    <Globe className="h-4 w-4 mr-2" />
+                    {t.albums.places}
+                  </Button>
+
+                  <Button variant="outline" onClick={() => navigate('/timeline')}>
+                    <CalendarRange className="h-4 w-4 mr-2" />
+                    {t.albums.timeline}
                   </Button>
                   
                   <Button 
@@ -232,12 +331,14 @@ export function AlbumList() {
                     className="bg-gradient-sky hover:opacity-90"
                   >
                     <Plus className="h-4 w-4 mr-2" />
-                    Nouvel Album
+                    {t.albums.newAlbum}
                   </Button>
                   
+                  <LanguageSelect />
+
                   <Button variant="outline" onClick={signOut}>
                     <LogOut className="h-4 w-4 mr-2" />
-                    Déconnexion
+                    {t.common.signOut}
                   </Button>
                 </>
               )}
@@ -248,79 +349,139 @@ export function AlbumList() {
 
       {/* Content */}
       <main className="max-w-7xl mx-auto px-6 py-8">
+        {invitations.length > 0 && (
+          <section className="mb-8 space-y-3">
+            <h2 className="font-semibold">{t.albums.invitations}</h2>
+            {invitations.map(invitation => (
+              <Card key={invitation.id} className="border-card-border">
+                <CardContent className="p-4 flex items-center gap-4">
+                  <Mail className="h-5 w-5 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{invitation.album_title}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {t.albums.invitedBy(invitation.invited_by_email)}
+                      {isAlbumRole(invitation.role) && ` · ${t.albums.roles[invitation.role]}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => answerInvitation(invitation.id, false)}
+                    disabled={answeringId === invitation.id}
+                  >
+                    {t.albums.decline}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => answerInvitation(invitation.id, true)}
+                    disabled={answeringId === invitation.id}
+                    className="bg-gradient-sky hover:opacity-90"
+                  >
+                    {t.albums.accept}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </section>
+        )}
+
         {albums.length === 0 ? (
           <div className="text-center py-16">
             <div className="p-4 bg-muted/30 rounded-full w-16 h-16 mx-auto mb-4 flex items-center justify-center">
               <Camera className="h-8 w-8 text-muted-foreground" />
             </div>
-            <h3 className="text-xl font-semibold mb-2">Aucun album trouvé</h3>
+            <h3 className="text-xl font-semibold mb-2">{t.albums.empty}</h3>
             <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-              Créez votre premier album photo pour commencer à organiser vos souvenirs par lieux et dates.
+              {t.albums.emptyHint}
             </p>
             <Button onClick={() => setCreateDialogOpen(true)} className="bg-gradient-sky hover:opacity-90">
               <Plus className="h-4 w-4 mr-2" />
-              Créer mon premier album
+              {t.albums.createFirst}
             </Button>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {albums.map((album) => (
-              <Card 
-                key={album.id} 
-                className="hover:shadow-medium transition-all duration-200 cursor-pointer border-card-border group"
-                onClick={() => navigate(`/album/${album.id}`)}
-              >
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0">
-                      <CardTitle className="text-lg truncate group-hover:text-primary transition-colors">
-                        {album.title}
-                      </CardTitle>
-                      <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
-                        <Calendar className="h-3 w-3" />
-                        <span>{getMonthName(album.month)} {album.year}</span>
-                      </div>
-                    </div>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={(e) => {
-                          e.stopPropagation();
-                          openEditDialog(album);
-                        }}>
-                          <Edit className="h-4 w-4 mr-2" />
-                          Modifier
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          className="text-destructive"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteAlbum(album.id);
-                          }}
-                        >
-                          <Trash className="h-4 w-4 mr-2" />
-                          Supprimer
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  {album.description && (
-                    <CardDescription className="mb-3 line-clamp-2">
-                      {album.description}
-                    </CardDescription>
-                  )}
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <MapPin className="h-3 w-3" />
-                    <span>{album.photo_count || 0} photo{(album.photo_count || 0) !== 1 ? 's' : ''}</span>
-                  </div>
-                </CardContent>
-              </Card>
+          <div className="space-y-10">
+            {albumsByYear.map(group => (
+              <section key={group.year}>
+                <h2 className="text-lg font-semibold mb-4">{group.year}</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                  {group.albums.map((album) => (
+                    <Card 
+                      key={album.id} 
+                      className="hover:shadow-medium transition-all duration-200 cursor-pointer border-card-border group"
+                      onClick={() => navigate(`/album/${album.id}`)}
+                    >
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <CardTitle className="text-lg truncate group-hover:text-primary transition-colors">
+                              {album.title}
+                            </CardTitle>
+                            <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
+                              <Calendar className="h-3 w-3" />
+                              <span>{formatAlbumPeriod(album, dateLocale)}</span>
+                            </div>
+                          </div>
+                          {album.user_id !== user?.id ? (
+                            <Badge variant="secondary" className="flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              {t.albums.shared}
+                            </Badge>
+                          ) : (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                  <MoreVertical className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={(e) => {
+                                  e.stopPropagation();
+                                  openEditDialog(album);
+                                }}>
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  {t.common.edit}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem 
+                                  className="text-destructive"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    deleteAlbum(album.id);
+                                  }}
+                                >
+                                  <Trash className="h-4 w-4 mr-2" />
+                                  {t.common.delete}
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {album.description && (
+                          <CardDescription className="mb-3 line-clamp-2">
+                            {album.description}
+                          </CardDescription>
+                        )}
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <MapPin className="h-3 w-3" />
+                          <span>{t.common.photoCount(album.photo_count || 0)}</span>
+                          {activity[album.id] && (
+                            <Badge
+                              variant="default"
+                              className="ml-auto flex items-center gap-1"
+                              title={t.albums.newActivity(activity[album.id].comments, activity[album.id].reactions)}
+                            >
+                              <MessageCircle className="h-3 w-3" />
+                              {activity[album.id].comments + activity[album.id].reactions}
+                            </Badge>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </section>
             ))}
           </div>
         )}
@@ -330,36 +491,36 @@ export function AlbumList() {
       <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Créer un nouvel album</DialogTitle>
+            <DialogTitle>{t.albums.createTitle}</DialogTitle>
             <DialogDescription>
-              Ajoutez un titre et une description pour votre nouvel album
+              {t.albums.createDescription}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="title">Titre</Label>
+              <Label htmlFor="title">{t.albums.titleLabel}</Label>
               <Input
                 id="title"
-                placeholder="Nom de l'album"
+                placeholder={t.albums.titlePlaceholder}
                 value={newAlbumTitle}
                 onChange={(e) => setNewAlbumTitle(e.target.value)}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="description">Description (optionnel)</Label>
+              <Label htmlFor="description">{t.albums.descriptionLabel}</Label>
               <Input
                 id="description"
-                placeholder="Description de l'album"
+                placeholder={t.albums.descriptionPlaceholder}
                 value={newAlbumDescription}
                 onChange={(e) => setNewAlbumDescription(e.target.value)}
               />
             </div>
             <div className="flex gap-2 justify-end">
               <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
-                Annuler
+                {t.common.cancel}
               </Button>
               <Button onClick={createAlbum} className="bg-gradient-sky hover:opacity-90">
-                Créer
+                {t.common.create}
               </Button>
             </div>
           </div>
@@ -370,36 +531,61 @@ export function AlbumList() {
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Modifier l'album</DialogTitle>
+            <DialogTitle>{t.albums.editTitle}</DialogTitle>
             <DialogDescription>
-              Modifiez le titre et la description de votre album
+              {t.albums.editDescription}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="edit-title">Titre</Label>
+              <Label htmlFor="edit-title">{t.albums.titleLabel}</Label>
               <Input
                 id="edit-title"
-                placeholder="Nom de l'album"
+                placeholder={t.albums.titlePlaceholder}
                 value={newAlbumTitle}
                 onChange={(e) => setNewAlbumTitle(e.target.value)}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-description">Description (optionnel)</Label>
+              <Label htmlFor="edit-description">{t.albums.descriptionLabel}</Label>
               <Input
                 id="edit-description"
-                placeholder="Description de l'album"
+                placeholder={t.albums.descriptionPlaceholder}
                 value={newAlbumDescription}
                 onChange={(e) => setNewAlbumDescription(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="edit-custom-dates">{t.albums.customDates}</Label>
+                <Switch id="edit-custom-dates" checked={customDates} onCheckedChange={setCustomDates} />
+              </div>
+              {customDates ? (
+                <div className="flex gap-2">
+                  <Input
+                    type="date"
+                    aria-label={t.albums.startDate}
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                  <Input
+                    type="date"
+                    aria-label={t.albums.endDate}
+                    value={endDate}
+                    min={startDate || undefined}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">{t.albums.automaticDates}</p>
+              )}
+            </div>
             <div className="flex gap-2 justify-end">
               <Button variant="outline" onClick={() => setEditDialogOpen(false)}>
-                Annuler
+                {t.common.cancel}
               </Button>
               <Button onClick={updateAlbum} className="bg-gradient-earth hover:opacity-90">
-                Sauvegarder
+                {t.common.save}
               </Button>
             </div>
           </div>
@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LogOut, Mail, UserMinus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { AlbumMember } from '@/hooks/useAlbumMembers';
+import { useI18n } from '@/i18n/useI18n';
+import { AlbumRole, INVITABLE_ROLES } from '@shared/albumRoles';
+
+interface AlbumMembersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albumId: string;
+  members: AlbumMember[];
+  isOwner: boolean;
+  onMembersChanged: () => void;
+  // Appelé quand l'utilisateur quitte l'album
+  onLeft: () => void;
+}
+
+interface AlbumInvitation {
+  id: string;
+  email: string;
+  role: string;
+}
+
+type InvitableRole = Exclude<AlbumRole, 'owner'>;
+
+const isInvitableRole = (role: string): role is InvitableRole =>
+  INVITABLE_ROLES.includes(role as InvitableRole);
+
+export function AlbumMembersModal({ open, onOpenChange, albumId, members, isOwner, onMembersChanged, onLeft }: AlbumMembersModalProps) {
+  const { user } = useAuth();
+  const { t } = useI18n();
+  const [invitations, setInvitations] = useState<AlbumInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InvitableRole>('editor');
+  const [inviting, setInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string>();
+
+  const fetchInvitations = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('album_invitations')
+      .select('id, email, role')
+      .eq('album_id', albumId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des invitations:', error);
+      return;
+    }
+    setInvitations(data || []);
+  }, [albumId]);
+
+  useEffect(() => {
+    if (open) {
+      setEmail('');
+      setRole('editor');
+      if (isOwner) fetchInvitations();
+    }
+  }, [open, isOwner, fetchInvitations]);
+
+  const handleInvite = async () => {
+    if (!user) return;
+
+    const address = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+$/.test(address)) {
+      toast.error(t.members.invalidEmail);
+      return;
+    }
+    if (members.some(member => member.email?.toLowerCase() === address)) {
+      toast.error(t.members.alreadyMember);
+      return;
+    }
+
+    setInviting(true);
+    try {
+      const { error } = await supabase
+        .from('album_invitations')
+        .insert({ album_id: albumId, email: address, role, invited_by: user.id });
+
+      if (error) {
+        // Contrainte d'unicité (album, email)
+        if (error.code === '23505') {
+          toast.error(t.members.invitationPending);
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(t.members.invited, {
+        description: t.members.invitedDescription
+      });
+      setEmail('');
+      fetchInvitations();
+    } catch (error) {
+      console.error('Erreur lors de l\'invitation:', error);
+      toast.error(t.members.inviteError);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleCancelInvitation = async (invitationId: string) => {
+    setBusyId(invitationId);
+    try {
+      const { error } = await supabase
+        .from('album_invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) throw error;
+      fetchInvitations();
+    } catch (error) {
+      console.error('Erreur lors de l\'annulation de l\'invitation:', error);
+      toast.error(t.members.cancelInvitationError);
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, nextRole: InvitableRole) => {
+    setBusyId(memberId);
+    try {
+      const { error } = await supabase
+        .from('album_members')
+        .update({ role: nextRole })
+        .eq('id', memberId);
+
+      if (error) throw error;
+      onMembersChanged();
+    } catch (error) {
+      console.error('Erreur lors du changement de rôle:', error);
+      toast.error(t.members.roleChangeError);
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  const handleRemove = async (member: AlbumMember) => {
+    const leaving = member.user_id === user?.id;
+    if (!confirm(leaving
+      ? t.members.confirmLeave
+      : t.members.confirmRemove(member.email))) {
+      return;
+    }
+
+    setBusyId(member.id);
+    try {
+      const { error } = await supabase
+        .from('album_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      if (leaving) {
+        toast.success(t.members.left);
+        onLeft();
+      } else {
+        onMembersChanged();
+      }
+    } catch (error) {
+      console.error('Erreur lors du retrait du membre:', error);
+      toast.error(t.members.removeError);
+    } finally {
+      setBusyId(undefined);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.members.title}</DialogTitle>
+          <DialogDescription>
+            {t.members.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {members.map(member => {
+              const isSelf = member.user_id === user?.id;
+              return (
+                <div key={member.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {member.email || t.members.unknownAddress}
+                      {isSelf && <span className="text-muted-foreground font-normal"> ({t.members.you})</span>}
+                    </p>
+                  </div>
+                  {isOwner && isInvitableRole(member.role) ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => isInvitableRole(value) && handleRoleChange(member.id, value)}
+                        disabled={busyId === member.id}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INVITABLE_ROLES.map(option => (
+                            <SelectItem key={option} value={option}>
+                              {t.members.roles[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemove(member)}
+                        disabled={busyId === member.id}
+                        title={t.members.remove}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="outline">{t.members.roles[member.role]}</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {isOwner && invitations.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">{t.members.pendingInvitations}</Label>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center gap-3 rounded-md border border-dashed p-3">
+                  <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <p className="flex-1 min-w-0 text-sm truncate">{invitation.email}</p>
+                  {isInvitableRole(invitation.role) && (
+                    <Badge variant="outline">{t.members.roles[invitation.role]}</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCancelInvitation(invitation.id)}
+                    disabled={busyId === invitation.id}
+                    title={t.members.cancelInvitation}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {isOwner && (
+            <>
+              <Separator />
+
+              {/* Nouvelle invitation */}
+              <div className="space-y-3">
+                <Label htmlFor="invite-email" className="text-sm font-medium">{t.members.inviteByEmail}</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder={t.members.emailPlaceholder}
+                  onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                />
+                <Select value={role} onValueChange={(value) => isInvitableRole(value) && setRole(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_ROLES.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {t.members.roles[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {!isOwner && user && (
+            <Button
+              variant="outline"
+              className="text-destructive hover:text-destructive"
+              onClick={() => {
+                const self = members.find(member => member.user_id === user.id);
+                if (self) handleRemove(self);
+              }}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              {t.members.leave}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t.common.close}
+          </Button>
+          {isOwner && (
+            <Button onClick={handleInvite} disabled={inviting || !email.trim()}>
+              {t.members.invite}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
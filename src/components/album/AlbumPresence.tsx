@@ -0,0 +1,50 @@
+import React from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { AlbumViewer } from '@/hooks/useAlbumRealtime';
+import { useI18n } from '@/i18n/useI18n';
+
+interface AlbumPresenceProps {
+  viewers: AlbumViewer[];
+  // Journée affichée : les membres sur la même journée sont mis en avant
+  dayId?: string;
+}
+
+// Au-delà, un compteur « +n » remplace les avatars
+const MAX_AVATARS = 4;
+
+const initialOf = (viewer: AlbumViewer) => (viewer.email || '?').charAt(0).toUpperCase();
+
+/**
+ * Autres membres qui consultent l'album en ce moment
+ */
+export const AlbumPresence = ({ viewers, dayId }: AlbumPresenceProps) => {
+  const { t } = useI18n();
+
+  if (viewers.length === 0) return null;
+
+  const label = (viewer: AlbumViewer) => {
+    const name = viewer.email || t.presence.someone;
+    return dayId && viewer.day_id === dayId ? t.presence.viewingDay(name) : t.presence.viewingAlbum(name);
+  };
+
+  return (
+    <div
+      className="flex items-center -space-x-2"
+      title={viewers.map(label).join('\n')}
+    >
+      {viewers.slice(0, MAX_AVATARS).map(viewer => (
+        <Avatar
+          key={viewer.user_id}
+          className={`h-8 w-8 border-2 border-background ${dayId && viewer.day_id === dayId ? 'ring-2 ring-primary' : ''}`}
+        >
+          <AvatarFallback className="text-xs">{initialOf(viewer)}</AvatarFallback>
+        </Avatar>
+      ))}
+      {viewers.length > MAX_AVATARS && (
+        <Avatar className="h-8 w-8 border-2 border-background">
+          <AvatarFallback className="text-xs">+{viewers.length - MAX_AVATARS}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+};
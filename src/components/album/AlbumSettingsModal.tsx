@@ -0,0 +1,478 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LocateFixed } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { getTimeZoneOffset, timeZoneFromCoordinates } from '@shared/timezone';
+import { CameraDevice, getCameraDevice, parseClockOffset } from '@/utils/cameraClock';
+import { calculateAutomaticDayTitle, DayForTitle } from '@/utils/dayTitleFormatter';
+import { updateAlbumMetadata } from '@/utils/albumMetadata';
+import { DAY_TITLE_TOKENS, DEFAULT_DAY_TITLE_TEMPLATES, invalidDayTitleTokens } from '@shared/dayTitle';
+import { DEFAULT_EXIF_PRIVACY, EXIF_PRIVACY_LEVELS, ExifPrivacy, isExifPrivacy } from '@shared/exifPrivacy';
+import { useI18n } from '@/i18n/useI18n';
+
+interface AlbumSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  album: {
+    id: string;
+    timezone: string | null;
+    day_cutoff_hour: number;
+    default_latitude: number | null;
+    default_longitude: number | null;
+    day_title_template: string | null;
+    exif_privacy: string;
+  };
+  onSaved: () => void;
+}
+
+const formatOffset = (timeZone: string) => {
+  const offset = getTimeZoneOffset(timeZone, new Date());
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `UTC${sign}${hours}:${minutes}`;
+};
+
+// De minuit à midi, comme la contrainte de albums.day_cutoff_hour
+const CUTOFF_HOURS = Array.from({ length: 13 }, (_, hour) => hour);
+
+/**
+ * Interprète une coordonnée saisie
+ * @returns La valeur, null si le champ est vide, ou undefined si la saisie est invalide
+ */
+const parseCoordinate = (value: string, limit: number): number | null | undefined => {
+  const trimmed = value.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const coordinate = Number(trimmed);
+  return isNaN(coordinate) || Math.abs(coordinate) > limit ? undefined : coordinate;
+};
+
+// Journée d'exemple pour l'aperçu, quand l'album n'en a encore aucune
+const SAMPLE_DAY: DayForTitle = {
+  date: new Date().toISOString().split('T')[0],
+  photo_count: 12,
+  place_locality: 'Vieux-Port',
+  place_municipality: 'Marseille',
+  place_region: 'Provence-Alpes-Côte d\'Azur',
+  place_country: 'France',
+  place_country_code: 'FR'
+};
+
+interface AlbumDevice {
+  device: CameraDevice;
+  count: number;
+}
+
+export function AlbumSettingsModal({ open, onOpenChange, album, onSaved }: AlbumSettingsModalProps) {
+  const { t, locale } = useI18n();
+  const [timeZone, setTimeZone] = useState<string>('');
+  const [dayCutoffHour, setDayCutoffHour] = useState(0);
+  const [defaultLatitudeInput, setDefaultLatitudeInput] = useState('');
+  const [defaultLongitudeInput, setDefaultLongitudeInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [inferring, setInferring] = useState(false);
+  const [devices, setDevices] = useState<AlbumDevice[]>([]);
+  const [shiftDeviceKey, setShiftDeviceKey] = useState<string>();
+  const [shiftOffsetInput, setShiftOffsetInput] = useState('');
+  const [shifting, setShifting] = useState(false);
+  const [dayTitleTemplate, setDayTitleTemplate] = useState('');
+  // null : journée d'exemple
+  const [previewDay, setPreviewDay] = useState<DayForTitle | null>(null);
+  const [exifPrivacy, setExifPrivacy] = useState<ExifPrivacy>(DEFAULT_EXIF_PRIVACY);
+
+  const timeZones = useMemo<string[]>(() => {
+    // Intl.supportedValuesOf n'est pas encore décrit par la lib ES2020 de TypeScript
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+    const supported = intl.supportedValuesOf?.('timeZone') ?? [];
+    return supported.includes('UTC') ? supported : ['UTC', ...supported];
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setTimeZone(album.timezone || '');
+      setDayCutoffHour(album.day_cutoff_hour);
+      setDefaultLatitudeInput(album.default_latitude?.toString() ?? '');
+      setDefaultLongitudeInput(album.default_longitude?.toString() ?? '');
+      setDayTitleTemplate(album.day_title_template || '');
+      setExifPrivacy(isExifPrivacy(album.exif_privacy) ? album.exif_privacy : DEFAULT_EXIF_PRIVACY);
+    }
+  }, [open, album.timezone, album.day_cutoff_hour, album.default_latitude, album.default_longitude, album.day_title_template, album.exif_privacy]);
+
+  const defaultLatitude = parseCoordinate(defaultLatitudeInput, 90);
+  const defaultLongitude = parseCoordinate(defaultLongitudeInput, 180);
+  // Les deux coordonnées sont renseignées ensemble, ou aucune
+  const isDefaultPositionValid = defaultLatitude !== undefined && defaultLongitude !== undefined
+    && (defaultLatitude === null) === (defaultLongitude === null);
+
+  const invalidTokens = invalidDayTitleTokens(dayTitleTemplate);
+  const dayTitlePreview = calculateAutomaticDayTitle(
+    previewDay ?? { ...SAMPLE_DAY, custom_label: t.albumSettings.sampleLabel },
+    1,
+    { locale, template: dayTitleTemplate }
+  );
+
+  // Première journée de l'album, pour un aperçu du titre sur des données réelles
+  useEffect(() => {
+    if (!open) return;
+
+    supabase
+      .rpc('get_day_entries_with_photo_count', { album_id: album.id })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Erreur lors du chargement des journées:', error);
+          return;
+        }
+        const firstDay = data?.find(day => day.photo_count > 0);
+        setPreviewDay(firstDay
+          ? { ...firstDay, cover_photo: { location_name: firstDay.cover_photo_location_name } }
+          : null);
+      });
+  }, [open, album.id]);
+
+  // Appareils ayant pris les photos de l'album
+  useEffect(() => {
+    if (!open) return;
+    setShiftDeviceKey(undefined);
+    setShiftOffsetInput('');
+
+    supabase
+      .from('photos')
+      .select('camera_make, camera_model, camera_serial')
+      .eq('album_id', album.id)
+      .not('taken_at', 'is', null)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Erreur lors du chargement des appareils:', error);
+          return;
+        }
+
+        const groups = new Map<string, AlbumDevice>();
+        (data || []).forEach(photo => {
+          const device = getCameraDevice({
+            cameraMake: photo.camera_make,
+            cameraModel: photo.camera_model,
+            cameraSerial: photo.camera_serial
+          });
+          const group = groups.get(device.key);
+          if (group) {
+            group.count++;
+          } else {
+            groups.set(device.key, { device, count: 1 });
+          }
+        });
+        setDevices(Array.from(groups.values()));
+      });
+  }, [open, album.id]);
+
+  // Fuseau de la première photo géolocalisée de l'album
+  const inferTimeZone = async () => {
+    setInferring(true);
+    try {
+      const { data, error } = await supabase
+        .from('photos')
+        .select('latitude, longitude')
+        .eq('album_id', album.id)
+        .eq('location_source', 'exif')
+        .order('taken_at')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const inferred = data && timeZoneFromCoordinates(Number(data.latitude), Number(data.longitude));
+      if (inferred) {
+        setTimeZone(inferred);
+      } else {
+        toast.error(t.albumSettings.noGeotaggedPhoto);
+      }
+    } catch (error) {
+      console.error('Erreur lors de la détection du fuseau:', error);
+      toast.error(t.albumSettings.inferTimeZoneError);
+    } finally {
+      setInferring(false);
+    }
+  };
+
+  // Décaler l'heure de toutes les photos d'un appareil déjà dans l'album
+  const handleShiftDevice = async () => {
+    const target = devices.find(d => d.device.key === shiftDeviceKey);
+    const offset = parseClockOffset(shiftOffsetInput);
+    if (!target || !offset) return;
+
+    setShifting(true);
+    try {
+      const { data: count, error } = await supabase.rpc('shift_album_photo_times', {
+        p_album_id: album.id,
+        // Valeurs normalisées comme en base : sans espaces, vides à null
+        p_camera_make: target.device.make ?? null,
+        p_camera_model: target.device.model ?? null,
+        p_camera_serial: target.device.serial ?? null,
+        p_offset_minutes: offset
+      });
+
+      if (error) throw error;
+
+      // Les positions déduites (interpolation, traces) dépendent de l'heure des photos : les recalculer
+      if (count > 0) {
+        try {
+          await updateAlbumMetadata(album.id, { language: locale });
+        } catch (metadataError) {
+          console.error('Erreur lors du recalcul des positions:', metadataError);
+          toast.warning(t.albumSettings.relocateError);
+        }
+      }
+
+      toast.success(t.albumSettings.shifted(count));
+      setShiftOffsetInput('');
+      onSaved();
+    } catch (error) {
+      console.error('Erreur lors de la correction de l\'horloge:', error);
+      toast.error(t.albumSettings.shiftError);
+    } finally {
+      setShifting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('albums')
+        .update({
+          timezone: timeZone || null,
+          day_cutoff_hour: dayCutoffHour,
+          default_latitude: defaultLatitude,
+          default_longitude: defaultLongitude,
+          // Vide : modèle par défaut de la langue de chacun
+          day_title_template: dayTitleTemplate.trim() || null,
+          exif_privacy: exifPrivacy
+        })
+        .eq('id', album.id);
+
+      if (error) throw error;
+
+      // Le jour local des photos a été recalculé en base : les journées suivent
+      if ((timeZone || null) !== album.timezone || dayCutoffHour !== album.day_cutoff_hour) {
+        const { error: rebucketError } = await supabase.rpc('rebucket_album_days', { p_album_id: album.id });
+        if (rebucketError) throw rebucketError;
+      }
+
+      toast.success(t.albumSettings.saved);
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement des paramètres:', error);
+      toast.error(t.albumSettings.saveError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.albumSettings.title}</DialogTitle>
+          <DialogDescription>
+            {t.albumSettings.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Fuseau horaire */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.albumSettings.timeZone}</Label>
+            <div className="flex gap-2">
+              <Select value={timeZone} onValueChange={setTimeZone}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t.albumSettings.timeZonePlaceholder} />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {timeZones.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')} ({formatOffset(zone)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={inferTimeZone}
+                disabled={inferring}
+                title={t.albumSettings.inferTimeZone}
+              >
+                <LocateFixed className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t.albumSettings.timeZoneHint}
+            </p>
+          </div>
+
+          {/* Heure de changement de jour */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.albumSettings.dayCutoff}</Label>
+            <Select
+              value={dayCutoffHour.toString()}
+              onValueChange={(value) => setDayCutoffHour(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUTOFF_HOURS.map(hour => (
+                  <SelectItem key={hour} value={hour.toString()}>
+                    {hour === 0 ? t.albumSettings.midnight : `${hour.toString().padStart(2, '0')}:00`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t.albumSettings.dayCutoffHint}
+            </p>
+          </div>
+
+          {/* Position par défaut */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.albumSettings.defaultPosition}</Label>
+            <div className="flex gap-2">
+              <Input
+                value={defaultLatitudeInput}
+                onChange={(e) => setDefaultLatitudeInput(e.target.value)}
+                placeholder={t.albumSettings.latitude}
+                inputMode="decimal"
+              />
+              <Input
+                value={defaultLongitudeInput}
+                onChange={(e) => setDefaultLongitudeInput(e.target.value)}
+                placeholder={t.albumSettings.longitude}
+                inputMode="decimal"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {isDefaultPositionValid
+                ? t.albumSettings.defaultPositionHint
+                : t.albumSettings.invalidPosition}
+            </p>
+          </div>
+
+          {/* Modèle de titre des journées */}
+          <div className="space-y-3">
+            <Label htmlFor="day-title-template" className="text-sm font-medium">{t.albumSettings.dayTitle}</Label>
+            <Input
+              id="day-title-template"
+              value={dayTitleTemplate}
+              onChange={(e) => setDayTitleTemplate(e.target.value)}
+              placeholder={DEFAULT_DAY_TITLE_TEMPLATES[locale]}
+            />
+            <div className="rounded-md border bg-muted/50 px-3 py-2 text-sm">
+              <span className="text-muted-foreground">{t.albumSettings.preview}</span>
+              <span className="font-medium">{dayTitlePreview}</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {[...DAY_TITLE_TOKENS.map(token => `{${token}}`), '{date:dd/MM}'].map(token => (
+                <Badge
+                  key={token}
+                  variant="outline"
+                  className="cursor-pointer font-mono text-xs"
+                  onClick={() => setDayTitleTemplate(current => current + token)}
+                >
+                  {token}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {invalidTokens.length > 0
+                ? t.albumSettings.invalidTokens(invalidTokens)
+                : t.albumSettings.dayTitleHint}
+            </p>
+          </div>
+
+          {/* Métadonnées des copies partagées */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.albumSettings.exifPrivacy}</Label>
+            <Select value={exifPrivacy} onValueChange={(value) => setExifPrivacy(value as ExifPrivacy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXIF_PRIVACY_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>
+                    {t.exifPrivacy[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t.albumSettings.exifPrivacyHint}
+            </p>
+          </div>
+
+          {devices.length > 0 && (
+            <>
+              <Separator />
+
+              {/* Correction de l'horloge d'un appareil */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">{t.albumSettings.shiftDevice}</Label>
+                <Select value={shiftDeviceKey} onValueChange={setShiftDeviceKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t.albumSettings.chooseDevice} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {devices.map(({ device, count }) => (
+                      <SelectItem key={device.key} value={device.key}>
+                        {t.camera.deviceLabel(device.name, device.serial)} ({t.common.photoCount(count)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    value={shiftOffsetInput}
+                    onChange={(e) => setShiftOffsetInput(e.target.value)}
+                    placeholder="+01:00"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleShiftDevice}
+                    disabled={!shiftDeviceKey || !parseClockOffset(shiftOffsetInput) || shifting}
+                  >
+                    {t.albumSettings.shift}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t.albumSettings.shiftHint}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t.common.cancel}
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !isDefaultPositionValid || invalidTokens.length > 0}>
+            {t.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Edit2, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useI18n } from '@/i18n/useI18n';
+
+interface DayTitleEditorProps {
+  dayId: string;
+  // Titre affiché : saisi à la main, sinon calculé selon le modèle de l'album
+  title: string;
+  automaticTitle: string;
+  isCustom: boolean;
+  onSaved: (title: string, isCustom: boolean) => void;
+  // Lecteur d'un album partagé : titre affiché sans bouton de modification
+  readOnly?: boolean;
+  className?: string;
+}
+
+/**
+ * Titre d'une journée modifiable sur place. Un titre vide, ou identique au titre automatique,
+ * rend la journée au modèle de l'album.
+ */
+export function DayTitleEditor({ dayId, title, automaticTitle, isCustom, onSaved, readOnly = false, className = '' }: DayTitleEditorProps) {
+  const { t } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(title);
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setValue(title);
+    setEditing(true);
+  };
+
+  const save = async (input: string) => {
+    const trimmed = input.trim();
+    const custom = trimmed !== '' && trimmed !== automaticTitle;
+    // Le titre automatique est aussi enregistré, pour les écrans qui lisent la colonne
+    const nextTitle = custom ? trimmed : automaticTitle;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('day_entries')
+        .update({ title: nextTitle, title_is_custom: custom })
+        .eq('id', dayId);
+
+      if (error) throw error;
+
+      onSaved(nextTitle, custom);
+      setEditing(false);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement du titre:', error);
+      toast.error(t.day.titleSaveError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <span className={`inline-flex items-center gap-1 min-w-0 ${className}`}>
+        <span className="truncate" title={isCustom ? t.day.automaticTitle(automaticTitle) : undefined}>
+          {title}
+        </span>
+        {!readOnly && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0 flex-shrink-0 opacity-60 hover:opacity-100"
+            onClick={startEditing}
+            title={t.day.editTitle}
+          >
+            <Edit2 className="h-3 w-3" />
+          </Button>
+        )}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`inline-flex items-center gap-1 min-w-0 ${className}`} onClick={(e) => e.stopPropagation()}>
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save(value);
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        placeholder={automaticTitle}
+        className="h-7 text-sm"
+        disabled={saving}
+        autoFocus
+      />
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0 flex-shrink-0" onClick={() => save(value)} disabled={saving} title={t.common.save}>
+        <Check className="h-4 w-4" />
+      </Button>
+      {isCustom && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0 flex-shrink-0"
+          onClick={() => save('')}
+          disabled={saving}
+          title={t.day.resetTitle}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      )}
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0 flex-shrink-0" onClick={() => setEditing(false)} disabled={saving} title={t.common.cancel}>
+        <X className="h-4 w-4" />
+      </Button>
+    </span>
+  );
+}
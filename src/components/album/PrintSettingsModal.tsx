@@ -15,6 +15,9 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { RotateCcw } from 'lucide-react';
 import { PrintSettings, usePrintSettings } from '@/hooks/usePrintSettings';
+import { useI18n } from '@/i18n/useI18n';
+
+const PHOTOS_PER_ROW = [1, 2, 3, 4, 5];
 
 interface PrintSettingsModalProps {
   open: boolean;
@@ -22,6 +25,7 @@ interface PrintSettingsModalProps {
 }
 
 export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalProps) {
+  const { t } = useI18n();
   const { settings, updateSettings, resetSettings } = usePrintSettings();
   const [localSettings, setLocalSettings] = useState<PrintSettings>(settings);
 
@@ -46,26 +50,26 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
   };
 
   const colorPresets = [
-    { name: 'Blanc', value: '#ffffff' },
-    { name: 'Crème', value: '#fefcf0' },
-    { name: 'Gris clair', value: '#f8fafc' },
-    { name: 'Beige', value: '#f5f5dc' },
+    { name: t.print.colors.white, value: '#ffffff' },
+    { name: t.print.colors.cream, value: '#fefcf0' },
+    { name: t.print.colors.lightGray, value: '#f8fafc' },
+    { name: t.print.colors.beige, value: '#f5f5dc' },
   ];
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Paramètres d'impression</DialogTitle>
+          <DialogTitle>{t.print.settingsTitle}</DialogTitle>
           <DialogDescription>
-            Configurez l'apparence de votre album imprimé
+            {t.print.settingsDescription}
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
           {/* Couleur de fond */}
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Couleur de fond</Label>
+            <Label className="text-sm font-medium">{t.print.backgroundColor}</Label>
             <div className="grid grid-cols-2 gap-2">
               {colorPresets.map((preset) => (
                 <button
@@ -92,7 +96,7 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
                 onChange={(e) => setLocalSettings(prev => ({ ...prev, backgroundColor: e.target.value }))}
                 className="w-16 h-8 p-1 border-border"
               />
-              <Label className="text-sm text-muted-foreground">Couleur personnalisée</Label>
+              <Label className="text-sm text-muted-foreground">{t.print.customColor}</Label>
             </div>
           </div>
 
@@ -100,7 +104,7 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
 
           {/* Nombre de photos par ligne */}
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Photos par ligne</Label>
+            <Label className="text-sm font-medium">{t.print.photosPerRow}</Label>
             <Select 
               value={localSettings.photosPerRow.toString()} 
               onValueChange={(value) => setLocalSettings(prev => ({ ...prev, photosPerRow: parseInt(value) }))}
@@ -109,11 +113,9 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="1">1 photo par ligne</SelectItem>
-                <SelectItem value="2">2 photos par ligne</SelectItem>
-                <SelectItem value="3">3 photos par ligne</SelectItem>
-                <SelectItem value="4">4 photos par ligne</SelectItem>
-                <SelectItem value="5">5 photos par ligne</SelectItem>
+                {PHOTOS_PER_ROW.map(count => (
+                  <SelectItem key={count} value={String(count)}>{t.print.perRow(count)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -122,7 +124,7 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
 
           {/* Orientation */}
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Orientation</Label>
+            <Label className="text-sm font-medium">{t.print.orientation}</Label>
             <RadioGroup 
               value={localSettings.orientation} 
               onValueChange={(value: 'portrait' | 'landscape') => setLocalSettings(prev => ({ ...prev, orientation: value }))}
@@ -130,11 +132,11 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
             >
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="portrait" id="portrait" />
-                <Label htmlFor="portrait" className="text-sm">Portrait</Label>
+                <Label htmlFor="portrait" className="text-sm">{t.print.portrait}</Label>
               </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="landscape" id="landscape" />
-                <Label htmlFor="landscape" className="text-sm">Paysage</Label>
+                <Label htmlFor="landscape" className="text-sm">{t.print.landscape}</Label>
               </div>
             </RadioGroup>
           </div>
@@ -143,14 +145,14 @@ export function PrintSettingsModal({ open, onOpenChange }: PrintSettingsModalPro
         <DialogFooter className="flex justify-between">
           <Button variant="outline" onClick={handleReset} className="flex items-center gap-2">
             <RotateCcw className="h-4 w-4" />
-            Réinitialiser
+            {t.print.reset}
           </Button>
           <div className="flex gap-2">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
-              Annuler
+              {t.common.cancel}
             </Button>
             <Button onClick={handleSave}>
-              Sauvegarder
+              {t.common.save}
             </Button>
           </div>
         </DialogFooter>
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Copy, Link2, Lock } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { shareUrl } from '@/utils/sharedAlbum';
+import { useI18n } from '@/i18n/useI18n';
+import { EXIF_PRIVACY_LEVELS, ExifPrivacy, isExifPrivacy } from '@shared/exifPrivacy';
+
+interface ShareAlbumModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albumId: string;
+  // Journées proposées pour un lien vers une seule d'entre elles
+  days: { id: string; date: string; calculatedTitle: string }[];
+}
+
+interface AlbumShare {
+  id: string;
+  token: string;
+  label: string | null;
+  day_entry_id: string | null;
+  password_hash: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  exif_privacy: string | null;
+  created_at: string;
+}
+
+// Valeur du sélecteur de journée pour tout l'album, et du sélecteur de métadonnées pour le réglage de l'album
+const WHOLE_ALBUM = 'album';
+const ALBUM_PRIVACY = 'album';
+
+const shareStatus = (share: AlbumShare): 'revoked' | 'expired' | null => {
+  if (share.revoked_at) return 'revoked';
+  if (share.expires_at && new Date(share.expires_at) <= new Date()) return 'expired';
+  return null;
+};
+
+export function ShareAlbumModal({ open, onOpenChange, albumId, days }: ShareAlbumModalProps) {
+  const { user } = useAuth();
+  const { t, dateLocale } = useI18n();
+  const [shares, setShares] = useState<AlbumShare[]>([]);
+  const [label, setLabel] = useState('');
+  const [dayId, setDayId] = useState(WHOLE_ALBUM);
+  const [password, setPassword] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [privacy, setPrivacy] = useState<string>(ALBUM_PRIVACY);
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string>();
+
+  const fetchShares = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('album_shares')
+      .select('id, token, label, day_entry_id, password_hash, expires_at, revoked_at, exif_privacy, created_at')
+      .eq('album_id', albumId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Erreur lors du chargement des liens de partage:', error);
+      return;
+    }
+    setShares(data || []);
+  }, [albumId]);
+
+  useEffect(() => {
+    if (open) {
+      setLabel('');
+      setDayId(WHOLE_ALBUM);
+      setPassword('');
+      setExpiresOn('');
+      setPrivacy(ALBUM_PRIVACY);
+      fetchShares();
+    }
+  }, [open, fetchShares]);
+
+  const dayTitles = new Map(days.map(day => [day.id, day.calculatedTitle]));
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success(t.share.linkCopied);
+    } catch {
+      toast.error(t.share.copyError);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase
+        .from('album_shares')
+        .insert({
+          album_id: albumId,
+          user_id: user.id,
+          day_entry_id: dayId === WHOLE_ALBUM ? null : dayId,
+          label: label.trim() || null,
+          // Fin de la journée choisie, dans le fuseau du navigateur
+          expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+          exif_privacy: isExifPrivacy(privacy) ? privacy : null
+        })
+        .select('id, token')
+        .single();
+
+      if (error) throw error;
+
+      // Le mot de passe est haché en base, jamais stocké en clair
+      if (password) {
+        const { error: passwordError } = await supabase.rpc('set_album_share_password', {
+          p_share_id: data.id,
+          p_password: password
+        });
+        if (passwordError) throw passwordError;
+      }
+
+      await copyLink(data.token);
+      setLabel('');
+      setPassword('');
+      setExpiresOn('');
+      fetchShares();
+    } catch (error) {
+      console.error('Erreur lors de la création du lien de partage:', error);
+      toast.error(t.share.createError);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    setRevokingId(shareId);
+    try {
+      const { error } = await supabase
+        .from('album_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', shareId);
+
+      if (error) throw error;
+
+      toast.success(t.share.linkRevoked);
+      fetchShares();
+    } catch (error) {
+      console.error('Erreur lors de la révocation du lien:', error);
+      toast.error(t.share.revokeError);
+    } finally {
+      setRevokingId(undefined);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.share.title}</DialogTitle>
+          <DialogDescription>
+            {t.share.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              {shares.map(share => {
+                const status = shareStatus(share);
+                return (
+                  <div key={share.id} className={`flex items-center gap-3 rounded-md border p-3 ${status ? 'opacity-60' : ''}`}>
+                    <Link2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate flex items-center gap-1">
+                        {share.label || (share.day_entry_id ? dayTitles.get(share.day_entry_id) : null) || t.share.wholeAlbum}
+                        {share.password_hash && <Lock className="h-3 w-3 text-muted-foreground flex-shrink-0" />}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {share.expires_at
+                          ? t.share.until(format(new Date(share.expires_at), 'd MMM yyyy', { locale: dateLocale }))
+                          : t.share.noExpiry}
+                        {isExifPrivacy(share.exif_privacy) && ` · ${t.exifPrivacy[share.exif_privacy]}`}
+                      </p>
+                    </div>
+                    {status ? (
+                      <Badge variant="outline">{t.share[status]}</Badge>
+                    ) : (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => copyLink(share.token)} title={t.share.copyLink}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRevoke(share.id)}
+                          disabled={revokingId === share.id}
+                          title={t.share.revokeLink}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {shares.length > 0 && <Separator />}
+
+          {/* Nouveau lien */}
+          <div className="space-y-3">
+            <Label htmlFor="share-label" className="text-sm font-medium">{t.share.newLink}</Label>
+            <Input
+              id="share-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={t.share.labelPlaceholder}
+            />
+            <Select value={dayId} onValueChange={setDayId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-72">
+                <SelectItem value={WHOLE_ALBUM}>{t.share.wholeAlbum}</SelectItem>
+                {days.map(day => (
+                  <SelectItem key={day.id} value={day.id}>
+                    {day.calculatedTitle}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="share-password" className="text-sm font-medium">{t.share.password}</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={t.share.optional}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="share-expires" className="text-sm font-medium">{t.share.expiration}</Label>
+            <Input
+              id="share-expires"
+              type="date"
+              value={expiresOn}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t.share.expirationHint}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.share.privacy}</Label>
+            <Select value={privacy} onValueChange={setPrivacy}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALBUM_PRIVACY}>{t.share.albumPrivacy}</SelectItem>
+                {EXIF_PRIVACY_LEVELS.map((level: ExifPrivacy) => (
+                  <SelectItem key={level} value={level}>
+                    {t.exifPrivacy[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t.share.privacyHint}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t.common.close}
+          </Button>
+          <Button onClick={handleCreate} disabled={creating}>
+            {t.share.create}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Route, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Locale } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { AlbumTrack } from '@/hooks/useAlbumTracks';
+import { ParsedTrack, parseTrackFile } from '@/utils/trackParser';
+import { updateAlbumMetadata } from '@/utils/albumMetadata';
+import { useI18n } from '@/i18n/useI18n';
+import type { Json } from '@/integrations/supabase/types';
+
+interface TrackUploadModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albumId: string;
+  tracks: AlbumTrack[];
+  onTracksChanged: () => void;
+}
+
+const DEFAULT_MAX_GAP_MINUTES = 15;
+
+// null pour une trace sans horodatage
+const formatPeriod = (locale: Locale, startedAt?: string | Date | null, endedAt?: string | Date | null) => {
+  if (!startedAt || !endedAt) return null;
+  return `${format(new Date(startedAt), 'd MMM yyyy HH:mm', { locale })} → ${format(new Date(endedAt), 'd MMM yyyy HH:mm', { locale })}`;
+};
+
+export function TrackUploadModal({ open, onOpenChange, albumId, tracks, onTracksChanged }: TrackUploadModalProps) {
+  const { user } = useAuth();
+  const { t, locale, dateLocale } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsedTrack, setParsedTrack] = useState<ParsedTrack | null>(null);
+  const [maxGapInput, setMaxGapInput] = useState(String(DEFAULT_MAX_GAP_MINUTES));
+  const [importing, setImporting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string>();
+
+  useEffect(() => {
+    if (open) {
+      setParsedTrack(null);
+      setMaxGapInput(String(DEFAULT_MAX_GAP_MINUTES));
+    }
+  }, [open]);
+
+  const maxGapMinutes = parseInt(maxGapInput, 10);
+  const isMaxGapValid = !isNaN(maxGapMinutes) && maxGapMinutes > 0;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setParsedTrack(await parseTrackFile(file));
+    } catch (error) {
+      console.error('Erreur lors de la lecture de la trace:', error);
+      toast.error(error instanceof Error ? error.message : t.tracks.unreadable);
+      setParsedTrack(null);
+    }
+  };
+
+  /**
+   * Recalcule côté serveur les positions déduites, les lieux-dits et les journées de l'album,
+   * y compris pour les photos positionnées par une trace supprimée
+   * @returns Le nombre de photos modifiées, ou null si le recalcul a échoué
+   */
+  const relocatePhotos = async (): Promise<number | null> => {
+    try {
+      const result = await updateAlbumMetadata(albumId, { language: locale });
+      return result.photosUpdated;
+    } catch (error) {
+      console.error('Erreur lors du recalcul des positions:', error);
+      toast.warning(t.tracks.relocateError);
+      return null;
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsedTrack || !user || !isMaxGapValid) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase
+        .from('album_tracks')
+        .insert({
+          album_id: albumId,
+          user_id: user.id,
+          name: parsedTrack.name,
+          source_format: parsedTrack.format,
+          points: parsedTrack.points as unknown as Json,
+          point_count: parsedTrack.points.length,
+          started_at: parsedTrack.startedAt?.toISOString() ?? null,
+          ended_at: parsedTrack.endedAt?.toISOString() ?? null,
+          max_gap_minutes: maxGapMinutes
+        });
+
+      if (error) throw error;
+
+      // Une trace sans horodatage est seulement affichée sur la carte
+      const located = parsedTrack.startedAt ? await relocatePhotos() : 0;
+
+      toast.success(located > 0 ? t.tracks.importedWithPhotos(located) : t.tracks.imported);
+      setParsedTrack(null);
+      onTracksChanged();
+    } catch (error) {
+      console.error('Erreur lors de l\'import de la trace:', error);
+      toast.error(t.tracks.importError);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (trackId: string) => {
+    setDeletingId(trackId);
+    try {
+      const { error } = await supabase
+        .from('album_tracks')
+        .delete()
+        .eq('id', trackId);
+
+      if (error) throw error;
+
+      await relocatePhotos();
+      toast.success(t.tracks.deleted);
+      onTracksChanged();
+    } catch (error) {
+      console.error('Erreur lors de la suppression de la trace:', error);
+      toast.error(t.tracks.deleteError);
+    } finally {
+      setDeletingId(undefined);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.tracks.title}</DialogTitle>
+          <DialogDescription>
+            {t.tracks.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {tracks.length > 0 && (
+            <div className="space-y-2">
+              {tracks.map(track => (
+                <div key={track.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <Route className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{track.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatPeriod(dateLocale, track.started_at, track.ended_at) ?? t.tracks.untimed} · {t.tracks.points(track.point_count)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(track.id)}
+                    disabled={deletingId === track.id}
+                    title={t.tracks.deleteTrack}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tracks.length > 0 && <Separator />}
+
+          {/* Nouvelle trace */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">{t.tracks.importTrack}</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.kml,.geojson,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {t.tracks.chooseFile}
+            </Button>
+
+            {parsedTrack && (
+              <div className="rounded-md bg-muted/50 p-3">
+                <p className="text-sm font-medium truncate">{parsedTrack.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatPeriod(dateLocale, parsedTrack.startedAt, parsedTrack.endedAt) ?? t.tracks.untimed} · {t.tracks.points(parsedTrack.points.length)}
+                </p>
+                {!parsedTrack.startedAt && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t.tracks.untimedHint}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="track-max-gap" className="text-sm font-medium">{t.tracks.maxGap}</Label>
+            <Input
+              id="track-max-gap"
+              type="number"
+              min={1}
+              value={maxGapInput}
+              onChange={(e) => setMaxGapInput(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t.tracks.maxGapHint}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t.tracks.close}
+          </Button>
+          <Button onClick={handleImport} disabled={!parsedTrack || !isMaxGapValid || importing}>
+            {t.tracks.import}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
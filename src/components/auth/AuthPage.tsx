@@ -8,9 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { Eye, EyeOff, Camera, MapPin } from 'lucide-react';
+import { useI18n } from '@/i18n/useI18n';
+import { LanguageSelect } from '@/i18n/LanguageSelect';
 
 export function AuthPage() {
   const { user, signIn, signUp } = useAuth();
+  const { t } = useI18n();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -23,7 +26,7 @@ export function AuthPage() {
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
-      toast.error('Veuillez remplir tous les champs');
+      toast.error(t.auth.missingFields);
       return;
     }
 
@@ -32,21 +35,21 @@ export function AuthPage() {
     setLoading(false);
 
     if (error) {
-      toast.error(error.message || 'Erreur de connexion');
+      toast.error(error.message || t.auth.signInError);
     } else {
-      toast.success('Connexion réussie !');
+      toast.success(t.auth.signInSuccess);
     }
   };
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
-      toast.error('Veuillez remplir tous les champs');
+      toast.error(t.auth.missingFields);
       return;
     }
 
     if (password.length < 6) {
-      toast.error('Le mot de passe doit contenir au moins 6 caractères');
+      toast.error(t.auth.passwordTooShort);
       return;
     }
 
@@ -56,17 +59,18 @@ export function AuthPage() {
 
     if (error) {
       if (error.message.includes('already registered')) {
-        toast.error('Cette adresse email est déjà utilisée');
+        toast.error(t.auth.emailTaken);
       } else {
-        toast.error(error.message || 'Erreur lors de l\'inscription');
+        toast.error(error.message || t.auth.signUpError);
       }
     } else {
-      toast.success('Compte créé ! Vérifiez votre email pour confirmer votre inscription.');
+      toast.success(t.auth.signUpSuccess);
     }
   };
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-ocean p-6">
+    <div className="min-h-screen flex items-center justify-center bg-gradient-ocean p-6 relative">
+      <LanguageSelect className="absolute top-6 right-6 bg-card" />
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
           <div className="flex items-center justify-center gap-3 mb-4">
@@ -77,39 +81,39 @@ export function AuthPage() {
               <MapPin className="h-8 w-8 text-secondary" />
             </div>
           </div>
-          <h1 className="text-3xl font-bold text-white mb-2">PhotoAlbum</h1>
-          <p className="text-white/80">Organisez vos souvenirs par lieux et dates</p>
+          <h1 className="text-3xl font-bold text-white mb-2">{t.common.appName}</h1>
+          <p className="text-white/80">{t.auth.tagline}</p>
         </div>
 
         <Card className="shadow-strong border-card-border">
           <CardHeader>
-            <CardTitle className="text-center">Bienvenue</CardTitle>
+            <CardTitle className="text-center">{t.auth.welcome}</CardTitle>
             <CardDescription className="text-center">
-              Connectez-vous ou créez un compte pour gérer vos albums photo
+              {t.auth.intro}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="signin" className="w-full">
               <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="signin">Connexion</TabsTrigger>
-                <TabsTrigger value="signup">Inscription</TabsTrigger>
+                <TabsTrigger value="signin">{t.auth.signInTab}</TabsTrigger>
+                <TabsTrigger value="signup">{t.auth.signUpTab}</TabsTrigger>
               </TabsList>
               
               <TabsContent value="signin">
                 <form onSubmit={handleSignIn} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
+                    <Label htmlFor="signin-email">{t.auth.email}</Label>
                     <Input
                       id="signin-email"
                       type="email"
-                      placeholder="votre@email.com"
+                      placeholder={t.auth.emailPlaceholder}
                       value={email}
                       onChange={(e) => setEmail(e.target.value)}
                       className="border-input-border"
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signin-password">Mot de passe</Label>
+                    <Label htmlFor="signin-password">{t.auth.password}</Label>
                     <div className="relative">
                       <Input
                         id="signin-password"
@@ -135,7 +139,7 @@ export function AuthPage() {
                     </div>
                   </div>
                   <Button type="submit" className="w-full bg-gradient-sky hover:opacity-90" disabled={loading}>
-                    {loading ? 'Connexion...' : 'Se connecter'}
+                    {loading ? t.auth.signingIn : t.auth.signIn}
                   </Button>
                 </form>
               </TabsContent>
@@ -143,18 +147,18 @@ export function AuthPage() {
               <TabsContent value="signup">
                 <form onSubmit={handleSignUp} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
+                    <Label htmlFor="signup-email">{t.auth.email}</Label>
                     <Input
                       id="signup-email"
                       type="email"
-                      placeholder="votre@email.com"
+                      placeholder={t.auth.emailPlaceholder}
                       value={email}
                       onChange={(e) => setEmail(e.target.value)}
                       className="border-input-border"
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-password">Mot de passe</Label>
+                    <Label htmlFor="signup-password">{t.auth.password}</Label>
                     <div className="relative">
                       <Input
                         id="signup-password"
@@ -179,11 +183,11 @@ export function AuthPage() {
                       </Button>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Minimum 6 caractères
+                      {t.auth.passwordHint}
                     </p>
                   </div>
                   <Button type="submit" className="w-full bg-gradient-earth hover:opacity-90" disabled={loading}>
-                    {loading ? 'Création...' : 'Créer un compte'}
+                    {loading ? t.auth.signingUp : t.auth.signUp}
                   </Button>
                 </form>
               </TabsContent>
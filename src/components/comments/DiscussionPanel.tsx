@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { CornerDownRight, MessageCircle, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useAlbumMembers } from '@/hooks/useAlbumMembers';
+import { DiscussionComment, DiscussionTarget, useDiscussion } from '@/hooks/useDiscussion';
+import { useI18n } from '@/i18n/useI18n';
+
+interface DiscussionPanelProps {
+  albumId: string;
+  target: DiscussionTarget;
+  className?: string;
+}
+
+// Au-delà, les réponses ne sont plus décalées pour rester lisibles sur mobile
+const MAX_THREAD_DEPTH = 3;
+
+interface CommentFormProps {
+  placeholder: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+const CommentForm = ({ placeholder, onSubmit, onCancel, autoFocus }: CommentFormProps) => {
+  const { t } = useI18n();
+  const [body, setBody] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setSending(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch (error) {
+      console.error('Erreur lors de l\'envoi du commentaire:', error);
+      toast.error(t.discussion.sendError);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-end gap-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={2000}
+        autoFocus={autoFocus}
+        className="min-h-[40px] resize-none text-sm"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSubmit();
+          }
+          if (e.key === 'Escape' && onCancel) onCancel();
+        }}
+      />
+      <Button size="icon" onClick={handleSubmit} disabled={sending || !body.trim()} title={t.discussion.send}>
+        <Send className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Réactions et commentaires des membres de l'album sur une photo ou une journée.
+ * Chacun peut supprimer ses commentaires, le propriétaire de l'album tous
+ */
+export const DiscussionPanel = ({ albumId, target, className }: DiscussionPanelProps) => {
+  const { user } = useAuth();
+  const { t, dateLocale } = useI18n();
+  const { isOwner, memberName } = useAlbumMembers(albumId);
+  const { comments, reactions, addComment, deleteComment, toggleReaction } = useDiscussion(albumId, target);
+  const [replyTo, setReplyTo] = useState<string>();
+
+  const repliesByParent = new Map<string | null, DiscussionComment[]>();
+  comments.forEach(comment => {
+    const replies = repliesByParent.get(comment.parent_id) || [];
+    replies.push(comment);
+    repliesByParent.set(comment.parent_id, replies);
+  });
+
+  const handleToggleReaction = async (emoji: string) => {
+    try {
+      await toggleReaction(emoji);
+    } catch (error) {
+      console.error('Erreur lors de la réaction:', error);
+      toast.error(t.discussion.reactionError);
+    }
+  };
+
+  const handleDelete = async (comment: DiscussionComment) => {
+    const hasReplies = repliesByParent.has(comment.id);
+    if (!confirm(hasReplies
+      ? t.discussion.confirmDeleteThread
+      : t.discussion.confirmDelete)) {
+      return;
+    }
+
+    try {
+      await deleteComment(comment.id);
+    } catch (error) {
+      console.error('Erreur lors de la suppression du commentaire:', error);
+      toast.error(t.discussion.deleteError);
+    }
+  };
+
+  const renderComment = (comment: DiscussionComment, depth: number): React.ReactNode => {
+    const replies = repliesByParent.get(comment.id) || [];
+    const canDelete = comment.user_id === user?.id || isOwner;
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_THREAD_DEPTH ? 'ml-4 border-l pl-3' : ''}>
+        <div className="group py-2">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground truncate">{memberName(comment.user_id)}</span>
+            <span>{format(parseISO(comment.created_at), t.discussion.dateFormat, { locale: dateLocale })}</span>
+          </div>
+          <p className="text-sm whitespace-pre-line break-words">{comment.body}</p>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-muted-foreground"
+              onClick={() => setReplyTo(replyTo === comment.id ? undefined : comment.id)}
+            >
+              <CornerDownRight className="h-3 w-3 mr-1" />
+              {t.discussion.reply}
+            </Button>
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(comment)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                {t.common.delete}
+              </Button>
+            )}
+          </div>
+          {replyTo === comment.id && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder={t.discussion.replyTo(memberName(comment.user_id))}
+                autoFocus
+                onSubmit={async (body) => {
+                  await addComment(body, comment.id);
+                  setReplyTo(undefined);
+                }}
+                onCancel={() => setReplyTo(undefined)}
+              />
+            </div>
+          )}
+        </div>
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const threads = repliesByParent.get(null) || [];
+
+  return (
+    <div className={`space-y-4 ${className || ''}`}>
+      {/* Réactions */}
+      <div className="flex flex-wrap gap-2">
+        {reactions.map(reaction => (
+          <Button
+            key={reaction.emoji}
+            variant={reaction.mine ? 'secondary' : 'outline'}
+            size="sm"
+            className={`h-8 px-2 ${reaction.mine ? 'ring-1 ring-primary' : ''}`}
+            onClick={() => handleToggleReaction(reaction.emoji)}
+            title={reaction.userIds.map(memberName).join(', ') || undefined}
+          >
+            <span>{reaction.emoji}</span>
+            {reaction.userIds.length > 0 && (
+              <span className="ml-1 text-xs">{reaction.userIds.length}</span>
+            )}
+          </Button>
+        ))}
+      </div>
+
+      {/* Commentaires */}
+      <div>
+        <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+          <MessageCircle className="h-4 w-4" />
+          {comments.length === 0 ? t.discussion.noComments : t.discussion.comments(comments.length)}
+        </div>
+        <div className="divide-y">
+          {threads.map(comment => renderComment(comment, 0))}
+        </div>
+      </div>
+
+      <CommentForm placeholder={t.discussion.addComment} onSubmit={(body) => addComment(body)} />
+    </div>
+  );
+};
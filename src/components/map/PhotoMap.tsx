@@ -1,20 +1,32 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import type { Polyline } from 'leaflet';
 import { MapPin } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useI18n } from '@/i18n/useI18n';
 
 interface PhotoLocation {
   id: string;
   latitude: number;
   longitude: number;
   title: string;
+  // Lieu détaillé affiché sous le titre (quartier, commune, région...)
+  placeName?: string;
   date: string;
   photoCount: number;
   selected?: boolean;
+  // Position estimée (trace, photo voisine, position par défaut) plutôt que GPS
+  inferred?: boolean;
 }
 
+// Tracé d'une trace GPS : suite de positions [latitude, longitude]
+export type TrackLine = [number, number][];
+
 interface PhotoMapProps {
   locations: PhotoLocation[];
   selectedLocationId?: string;
   onLocationClick?: (locationId: string) => void;
+  tracks?: TrackLine[];
   center?: [number, number];
   zoom?: number;
   className?: string;
@@ -24,11 +36,18 @@ export function PhotoMap({
   locations, 
   selectedLocationId, 
   onLocationClick, 
+  tracks = [],
   className = ""
 }: PhotoMapProps) {
+  const { t } = useI18n();
   const mapRef = useRef<HTMLDivElement>(null);
   const leafletMapRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
+  const [mapReady, setMapReady] = useState(false);
+  const [showInferred, setShowInferred] = useState(true);
+
+  const hasInferred = locations.some(location => location.inferred);
+  const visibleLocations = showInferred ? locations : locations.filter(location => !location.inferred);
 
   useEffect(() => {
     if (!mapRef.current) return;
@@ -91,6 +110,7 @@ export function PhotoMap({
             }
             
             // Add initial markers after map is ready
+            setMapReady(true);
             updateMarkers(L);
           });
         }
@@ -109,7 +129,7 @@ export function PhotoMap({
 
   // Function to update markers
   const updateMarkers = (L: any) => {
-    if (!leafletMapRef.current || locations.length === 0) return;
+    if (!leafletMapRef.current) return;
     
     // Clear existing markers
     markersRef.current.forEach(marker => {
@@ -118,18 +138,19 @@ export function PhotoMap({
     markersRef.current = [];
 
     // Add new markers
-    locations.forEach((location) => {
+    visibleLocations.forEach((location) => {
       const isSelected = location.id === selectedLocationId;
+      const color = isSelected ? '#ef4444' : '#3b82f6';
       
-      // Create simple circular marker
+      // Create simple circular marker, hollow and dashed when the position is estimated
       const markerIcon = L.divIcon({
         className: 'custom-simple-marker',
         html: `<div style="
-          background-color: ${isSelected ? '#ef4444' : '#3b82f6'}; 
+          background-color: ${location.inferred ? 'rgba(255,255,255,0.85)' : color}; 
           width: 12px;
           height: 12px;
           border-radius: 50%;
-          border: 2px solid white;
+          border: 2px ${location.inferred ? `dashed ${color}` : 'solid white'};
           box-shadow: 0 2px 6px rgba(0,0,0,0.3);
         "></div>`,
         iconSize: [12, 12],
@@ -145,8 +166,10 @@ export function PhotoMap({
       marker.bindPopup(`
         <div style="text-align: center; padding: 5px;">
           <h4 style="margin: 0 0 5px 0; font-weight: 600;">${location.title}</h4>
+          ${location.placeName ? `<p style="margin: 0 0 3px 0; font-size: 12px;">${location.placeName}</p>` : ''}
           <p style="margin: 0 0 3px 0; color: #666; font-size: 12px;">${location.date}</p>
-          <p style="margin: 0; font-size: 12px;">${location.photoCount} photo${location.photoCount !== 1 ? 's' : ''}</p>
+          <p style="margin: 0; font-size: 12px;">${t.common.photoCount(location.photoCount)}</p>
+          ${location.inferred ? `<p style="margin: 3px 0 0 0; color: #666; font-size: 11px; font-style: italic;">${t.map.inferredPosition}</p>` : ''}
         </div>
       `);
 
@@ -157,13 +180,39 @@ export function PhotoMap({
     });
   };
 
+  // Traces GPS, dessinées sous les marqueurs
+  useEffect(() => {
+    const map = leafletMapRef.current;
+    if (!map || !mapReady) return;
+
+    let cancelled = false;
+    let lines: Polyline[] = [];
+
+    import('leaflet').then((L) => {
+      if (cancelled) return;
+      lines = tracks
+        .filter(track => track.length > 1)
+        .map(track => L.polyline(track, {
+          color: '#f97316',
+          weight: 3,
+          opacity: 0.8,
+          interactive: false
+        }).addTo(map));
+    });
+
+    return () => {
+      cancelled = true;
+      lines.forEach(line => map.removeLayer(line));
+    };
+  }, [tracks, mapReady]);
+
   // Separate effect for updating markers
   useEffect(() => {
     if (!leafletMapRef.current) return;
     
     const L = window.L || require('leaflet');
     updateMarkers(L);
-  }, [locations, selectedLocationId, onLocationClick]);
+  }, [locations, selectedLocationId, onLocationClick, showInferred, t]);
 
   // Handle selected location change
   useEffect(() => {
@@ -180,9 +229,9 @@ export function PhotoMap({
       <div className={`flex items-center justify-center h-full bg-muted/20 ${className}`}>
         <div className="text-center">
           <MapPin className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-          <h3 className="text-lg font-semibold mb-2">Aucune photo géolocalisée</h3>
+          <h3 className="text-lg font-semibold mb-2">{t.map.empty}</h3>
           <p className="text-muted-foreground">
-            Ajoutez des photos avec des données de localisation pour voir la carte
+            {t.map.emptyHint}
           </p>
         </div>
       </div>
@@ -190,7 +239,13 @@ export function PhotoMap({
   }
 
   return (
-    <div className={`${className}`}>
+    <div className={`relative ${className}`}>
+      {hasInferred && (
+        <div className="absolute top-3 right-3 z-[1000] flex items-center gap-2 rounded-md bg-background/90 px-3 py-2 shadow">
+          <Switch id="show-inferred-locations" checked={showInferred} onCheckedChange={setShowInferred} />
+          <Label htmlFor="show-inferred-locations" className="text-xs">{t.map.showInferred}</Label>
+        </div>
+      )}
       <div 
         ref={mapRef} 
         className="w-full h-full rounded-lg border"
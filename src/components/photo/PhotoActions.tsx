@@ -6,17 +6,24 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useI18n } from '@/i18n/useI18n';
 
 interface PhotoActionsProps {
   photo: {
     id: string;
     title: string | null;
     file_path: string;
+    thumbnail_path?: string | null;
+    medium_path?: string | null;
+    large_path?: string | null;
+    live_video_path?: string | null;
     is_favorite: boolean;
   };
   onPhotoUpdated: () => void;
   onPhotoDeleted: () => void;
   onSetAsCover: () => void;
+  // Un éditeur ne supprime que les photos qu'il a envoyées
+  canDelete?: boolean;
   isEditingTitle?: boolean;
   editingTitle?: string;
   onStartEditingTitle?: () => void;
@@ -30,6 +37,7 @@ export const PhotoActions = ({
   onPhotoUpdated, 
   onPhotoDeleted, 
   onSetAsCover,
+  canDelete = true,
   isEditingTitle = false,
   editingTitle = '',
   onStartEditingTitle,
@@ -37,21 +45,34 @@ export const PhotoActions = ({
   onCancelEditing,
   onEditingTitleChange
 }: PhotoActionsProps) => {
+  const { t } = useI18n();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const handleDeletePhoto = async () => {
     setIsDeleting(true);
     try {
-      // Delete from storage
+      // Delete from storage (with the Live Photo video, if any)
       const { error: storageError } = await supabase.storage
         .from('photos')
-        .remove([photo.file_path]);
+        .remove([photo.file_path, photo.live_video_path].filter(Boolean));
 
       if (storageError) {
         console.warn('Erreur lors de la suppression du fichier:', storageError);
       }
 
+      // Delete derivatives
+      const derivativePaths = [photo.thumbnail_path, photo.medium_path, photo.large_path].filter(Boolean);
+      if (derivativePaths.length > 0) {
+        const { error: derivativesError } = await supabase.storage
+          .from('thumbnails')
+          .remove(derivativePaths);
+
+        if (derivativesError) {
+          console.warn('Erreur lors de la suppression des dérivés:', derivativesError);
+        }
+      }
+
       // Delete from database
       const { error: dbError } = await supabase
         .from('photos')
@@ -60,12 +81,12 @@ export const PhotoActions = ({
 
       if (dbError) throw dbError;
       
-      toast.success('Photo supprimée');
+      toast.success(t.photo.deleted);
       setShowDeleteDialog(false);
       onPhotoDeleted();
     } catch (error) {
       console.error('Erreur lors de la suppression:', error);
-      toast.error('Erreur lors de la suppression');
+      toast.error(t.photo.deleteError);
     } finally {
       setIsDeleting(false);
     }
@@ -120,15 +141,17 @@ export const PhotoActions = ({
           <DropdownMenuContent align="end" className="z-[9999] bg-background">
             <DropdownMenuItem onClick={onSetAsCover}>
               <Image className="h-4 w-4 mr-2" />
-              Miniature du jour
-            </DropdownMenuItem>
-            <DropdownMenuItem 
-              onClick={() => setShowDeleteDialog(true)}
-              className="text-destructive focus:text-destructive"
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Supprimer
+              {t.photo.setAsCover}
             </DropdownMenuItem>
+            {canDelete && (
+              <DropdownMenuItem 
+                onClick={() => setShowDeleteDialog(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {t.common.delete}
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -137,15 +160,15 @@ export const PhotoActions = ({
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent className="z-[9999]">
           <AlertDialogHeader>
-            <AlertDialogTitle>Supprimer la photo</AlertDialogTitle>
+            <AlertDialogTitle>{t.photo.deleteTitle}</AlertDialogTitle>
             <AlertDialogDescription>
-              Êtes-vous sûr de vouloir supprimer cette photo ? Cette action est irréversible.
+              {t.photo.confirmDelete}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogCancel>{t.common.cancel}</AlertDialogCancel>
             <AlertDialogAction onClick={handleDeletePhoto} disabled={isDeleting}>
-              {isDeleting ? 'Suppression...' : 'Supprimer'}
+              {isDeleting ? t.photo.deleting : t.common.delete}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
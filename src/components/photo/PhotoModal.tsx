@@ -2,9 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ChevronLeft, ChevronRight, Heart, Trash2, Edit3, Check, X } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Heart, Trash2, Edit3, Check, X, Download, CirclePlay } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getDerivativeMedia, getOriginalMedia } from '@/utils/photoUrls';
+import { useMediaUrl } from '@/hooks/useMediaUrls';
+import { getShareableOriginal } from '@/utils/shareableMedia';
+import { DEFAULT_EXIF_PRIVACY, ExifPrivacy } from '@shared/exifPrivacy';
+import { DiscussionPanel } from '@/components/comments/DiscussionPanel';
+import { useI18n } from '@/i18n/useI18n';
 
 interface PhotoModalProps {
   isOpen: boolean;
@@ -12,11 +18,25 @@ interface PhotoModalProps {
   photo: {
     id: string;
     title: string | null;
+    filename?: string;
+    mime_type?: string | null;
     file_path: string;
+    thumbnail_path?: string | null;
+    medium_path?: string | null;
+    large_path?: string | null;
+    media_type?: string;
+    live_video_path?: string | null;
     is_favorite: boolean;
   } | null;
   albumTitle: string;
   dayTitle: string;
+  // Métadonnées laissées dans l'original téléchargé
+  exifPrivacy?: ExifPrivacy;
+  // Lecteur d'un album partagé : ni titre ni favori modifiables
+  canEdit?: boolean;
+  canDelete?: boolean;
+  // Album de la photo : affiche réactions et commentaires sous la photo
+  albumId?: string;
   photos: Array<{
     id: string;
     title: string | null;
@@ -27,11 +47,25 @@ interface PhotoModalProps {
   onPhotoUpdate: () => void;
 }
 
-export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photos, onNavigate, onPhotoUpdate }: PhotoModalProps) => {
-  const [imageUrl, setImageUrl] = useState<string>('');
+export const PhotoModal = ({
+  isOpen,
+  onClose,
+  photo,
+  albumTitle,
+  dayTitle,
+  exifPrivacy = DEFAULT_EXIF_PRIVACY,
+  canEdit = true,
+  canDelete = true,
+  albumId,
+  photos,
+  onNavigate,
+  onPhotoUpdate
+}: PhotoModalProps) => {
+  const [playingLive, setPlayingLive] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState<string>('');
   const { toast } = useToast();
+  const { t } = useI18n();
   
   useEffect(() => {
     if (photo) {
@@ -39,32 +73,18 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
     }
   }, [photo]);
 
+  // Le dérivé 2048px suffit à l'affichage plein écran ; une vidéo sans poster est affichée par le lecteur
+  const imageMedia = !isOpen || !photo?.file_path ? null
+    : photo.large_path ? getDerivativeMedia(photo.large_path)
+    : photo.media_type === 'video' ? null
+    : getOriginalMedia(photo.file_path);
+  // Vidéo, ou vidéo compagnon d'une Live Photo, lue depuis l'original
+  const videoPath = photo?.media_type === 'video' ? photo.file_path : photo?.live_video_path;
+  const imageUrl = useMediaUrl(imageMedia) ?? '';
+  const videoUrl = useMediaUrl(isOpen && videoPath ? getOriginalMedia(videoPath) : null) ?? '';
+
   useEffect(() => {
-    const getSignedUrl = async () => {
-      if (!photo || !photo.file_path) return;
-      
-      try {
-        const { data, error } = await supabase.storage
-          .from('photos')
-          .createSignedUrl(photo.file_path, 3600); // 1 hour expiry
-        
-        if (error) {
-          console.error('Erreur lors de la génération de l\'URL signée:', error);
-          return;
-        }
-        
-        setImageUrl(data.signedUrl);
-      } catch (error) {
-        console.error('Erreur:', error);
-        setImageUrl(''); // Clear the image URL if there's an error
-      }
-    };
-    
-    if (isOpen && photo && photo.file_path) {
-      getSignedUrl();
-    } else {
-      setImageUrl(''); // Clear URL when modal is closed or no photo
-    }
+    setPlayingLive(false);
   }, [isOpen, photo]);
 
   const handleUpdateTitle = async () => {
@@ -82,8 +102,8 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
       photo.title = editTitle || null;
 
       toast({
-        title: "Titre mis à jour",
-        description: "Le titre de la photo a été modifié avec succès."
+        title: t.photo.titleUpdated,
+        description: t.photo.titleUpdatedDescription
       });
 
       setIsEditing(false);
@@ -91,8 +111,8 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
     } catch (error) {
       console.error('Erreur lors de la mise à jour du titre:', error);
       toast({
-        title: "Erreur",
-        description: "Impossible de mettre à jour le titre.",
+        title: t.common.error,
+        description: t.photo.titleUpdateError,
         variant: "destructive"
       });
     }
@@ -110,10 +130,10 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
       if (error) throw error;
 
       toast({
-        title: photo.is_favorite ? "Retiré des favoris" : "Ajouté aux favoris",
+        title: photo.is_favorite ? t.photo.favoriteRemoved : t.photo.favoriteAdded,
         description: photo.is_favorite 
-          ? "La photo a été retirée des favoris." 
-          : "La photo a été ajoutée aux favoris."
+          ? t.photo.favoriteRemovedDescription 
+          : t.photo.favoriteAddedDescription
       });
 
       // Update local photo object to reflect changes immediately
@@ -123,8 +143,43 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
     } catch (error) {
       console.error('Erreur lors de la mise à jour des favoris:', error);
       toast({
-        title: "Erreur",
-        description: "Impossible de modifier le statut favori.",
+        title: t.common.error,
+        description: t.photo.favoriteError,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDownloadOriginal = async () => {
+    if (!photo) return;
+
+    try {
+      const link = document.createElement('a');
+
+      if (exifPrivacy === 'keep') {
+        // L'original (HEIC compris) est servi tel qu'il a été importé
+        const { data, error } = await supabase.storage
+          .from('photos')
+          .createSignedUrl(photo.file_path, 60, { download: photo.filename || true });
+
+        if (error) throw error;
+
+        link.href = data.signedUrl;
+        link.click();
+        return;
+      }
+
+      // Copie sans position exacte ni numéros de série, préparée dans le navigateur
+      const { blob, filename } = await getShareableOriginal(photo, exifPrivacy);
+      link.href = URL.createObjectURL(blob);
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 60 * 1000);
+    } catch (error) {
+      console.error('Erreur lors du téléchargement:', error);
+      toast({
+        title: t.common.error,
+        description: t.photo.downloadError,
         variant: "destructive"
       });
     }
@@ -133,7 +188,7 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
   const handleDeletePhoto = async () => {
     if (!photo) return;
     
-    if (!confirm('Êtes-vous sûr de vouloir supprimer cette photo ? Cette action est irréversible.')) {
+    if (!confirm(t.photo.confirmDelete)) {
       return;
     }
     
@@ -152,15 +207,27 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
         }
       }
 
-      // Supprimer le fichier du storage
+      // Supprimer le fichier du storage (et la vidéo d'une Live Photo)
       const { error: storageError } = await supabase.storage
         .from('photos')
-        .remove([photo.file_path]);
+        .remove([photo.file_path, photo.live_video_path].filter(Boolean));
 
       if (storageError) {
         console.warn('Erreur lors de la suppression du fichier:', storageError);
       }
 
+      // Supprimer les dérivés redimensionnés
+      const derivativePaths = [photo.thumbnail_path, photo.medium_path, photo.large_path].filter(Boolean);
+      if (derivativePaths.length > 0) {
+        const { error: derivativesError } = await supabase.storage
+          .from('thumbnails')
+          .remove(derivativePaths);
+
+        if (derivativesError) {
+          console.warn('Erreur lors de la suppression des dérivés:', derivativesError);
+        }
+      }
+
       // Supprimer l'entrée de la base de données
       const { error: dbError } = await supabase
         .from('photos')
@@ -170,8 +237,8 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
       if (dbError) throw dbError;
 
       toast({
-        title: "Photo supprimée",
-        description: "La photo a été supprimée avec succès."
+        title: t.photo.deleted,
+        description: t.photo.deletedDescription
       });
 
       // Déclencher la mise à jour des données en premier
@@ -189,8 +256,8 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
     } catch (error) {
       console.error('Erreur lors de la suppression:', error);
       toast({
-        title: "Erreur",
-        description: "Impossible de supprimer la photo.",
+        title: t.common.error,
+        description: t.photo.deleteFailed,
         variant: "destructive"
       });
     }
@@ -202,6 +269,8 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
   const hasPrevious = currentIndex > 0;
   const hasNext = currentIndex < photos.length - 1;
 
+  const isVideo = photo.media_type === 'video';
+
   const goToPrevious = () => {
     if (hasPrevious) {
       onNavigate(photos[currentIndex - 1].id);
@@ -218,7 +287,7 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl w-full max-h-[90vh] overflow-hidden z-[9999]">
+      <DialogContent className="max-w-4xl w-full max-h-[90vh] overflow-y-auto z-[9999]">
         <DialogHeader>
           <DialogTitle className="text-center">
             <div className="space-y-2">
@@ -232,7 +301,7 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
                     <Input
                       value={editTitle}
                       onChange={(e) => setEditTitle(e.target.value)}
-                      placeholder="Titre de la photo"
+                      placeholder={t.photo.titlePlaceholder}
                       className="text-center"
                       onKeyDown={(e) => {
                         if (e.key === 'Enter') handleUpdateTitle();
@@ -258,10 +327,12 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
                   </div>
                 ) : (
                   <div className="flex items-center gap-2">
-                    <span>{photo.title || 'Photo sans titre'}</span>
-                    <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)}>
-                      <Edit3 className="h-4 w-4" />
-                    </Button>
+                    <span>{photo.title || t.photo.untitled}</span>
+                    {canEdit && (
+                      <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)}>
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 )}
               </div>
@@ -272,21 +343,47 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
                   size="sm"
                   variant={photo.is_favorite ? "default" : "outline"}
                   onClick={handleToggleFavorite}
+                  disabled={!canEdit}
                   className="flex items-center gap-2"
                 >
                   <Heart className={`h-4 w-4 ${photo.is_favorite ? 'fill-current' : ''}`} />
-                  {photo.is_favorite ? 'Favori' : 'Ajouter aux favoris'}
+                  {photo.is_favorite ? t.photo.favorite : t.photo.addToFavorites}
                 </Button>
                 
+                {photo.live_video_path && (
+                  <Button
+                    size="sm"
+                    variant={playingLive ? "default" : "outline"}
+                    onClick={() => setPlayingLive(!playingLive)}
+                    disabled={!videoUrl}
+                    className="flex items-center gap-2"
+                  >
+                    <CirclePlay className="h-4 w-4" />
+                    Live
+                  </Button>
+                )}
+
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={handleDeletePhoto}
-                  className="flex items-center gap-2 text-destructive hover:text-destructive"
+                  onClick={handleDownloadOriginal}
+                  className="flex items-center gap-2"
                 >
-                  <Trash2 className="h-4 w-4" />
-                  Supprimer
+                  <Download className="h-4 w-4" />
+                  {t.photo.original}
                 </Button>
+
+                {canDelete && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleDeletePhoto}
+                    className="flex items-center gap-2 text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {t.common.delete}
+                  </Button>
+                )}
               </div>
             </div>
           </DialogTitle>
@@ -305,14 +402,28 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
             <ChevronLeft className="h-6 w-6" />
           </Button>
 
-          <img
-            src={imageUrl}
-            alt={photo.title || 'Photo'}
-            className="max-w-full max-h-full object-contain rounded-md"
-            onError={(e) => {
-              console.error('Erreur de chargement de l\'image:', imageUrl);
-            }}
-          />
+          {isVideo || (playingLive && videoUrl) ? (
+            <video
+              key={videoUrl}
+              src={videoUrl || undefined}
+              poster={imageUrl || undefined}
+              controls={isVideo}
+              autoPlay={!isVideo}
+              muted={!isVideo}
+              playsInline
+              className="max-w-full max-h-[70vh] object-contain rounded-md"
+              onEnded={() => setPlayingLive(false)}
+            />
+          ) : (
+            <img
+              src={imageUrl}
+              alt={photo.title || 'Photo'}
+              className="max-w-full max-h-full object-contain rounded-md"
+              onError={(e) => {
+                console.error('Erreur de chargement de l\'image:', imageUrl);
+              }}
+            />
+          )}
 
           {/* Bouton suivant */}
           <Button
@@ -331,6 +442,10 @@ export const PhotoModal = ({ isOpen, onClose, photo, albumTitle, dayTitle, photo
             {currentIndex + 1} / {photos.length}
           </div>
         </div>
+
+        {albumId && (
+          <DiscussionPanel albumId={albumId} target={{ photoId: photo.id }} className="border-t pt-4" />
+        )}
       </DialogContent>
     </Dialog>
   );
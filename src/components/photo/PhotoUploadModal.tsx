@@ -1,29 +1,64 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { Upload, X, Image as ImageIcon, MapPin, Calendar, FileArchive } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, X, Image as ImageIcon, MapPin, Calendar, FileArchive, CheckCircle2, AlertCircle, Loader2, Clock, RotateCcw, Copy, Film, Camera, Target } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { parse } from 'exifr';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import JSZip from 'jszip';
+import { PhotoMetadata } from '@/utils/photoUpload';
+import { useUploadQueue, UploadStatus } from '@/hooks/useUploadQueue';
+import { isHeicFile, decodeHeic } from '@/utils/heicDecoder';
+import { computeContentHash, computePerceptualHash, hammingDistance, NEAR_DUPLICATE_THRESHOLD } from '@/utils/photoHashes';
+import { isVideoFile, parseVideoMetadata } from '@/utils/videoMetadata';
+import { extractVideoPoster, formatDuration } from '@/utils/videoPoster';
+import { offsetTimeToUtc, parseUtcOffset } from '@shared/timezone';
+import { isInferredLocation } from '@shared/locationSource';
+import { fetchAllPages } from '@shared/pagination';
+import { useI18n } from '@/i18n/useI18n';
+import {
+  CameraDevice,
+  getCameraDevice,
+  shiftPhotoTime,
+  parseClockOffset,
+  formatClockOffset,
+  offsetFromReference
+} from '@/utils/cameraClock';
+
+type DuplicateAction = 'skip' | 'replace' | 'keep';
+
+interface DuplicateMatch {
+  kind: 'exact' | 'near';
+  // Absent quand le doublon est un autre fichier de la même sélection
+  photoId?: string;
+  filename: string;
+}
 
 interface PhotoFile {
   file: File;
+  // Version JPEG des photos HEIC ou poster des vidéos, utilisée pour l'aperçu et les dérivés
+  displayFile?: File;
+  // Vidéo compagnon d'une Live Photo (même nom de fichier, extension .mov)
+  companionVideo?: File;
   id: string;
   preview: string;
-  metadata?: {
-    date?: Date;
-    latitude?: number;
-    longitude?: number;
-    locationName?: string;
-    dayTitle?: string;
-  };
+  // Métadonnées lues dans le fichier, avant correction d'horloge et traitement serveur
+  sourceMetadata?: PhotoMetadata;
+  metadata?: PhotoMetadata;
+  duplicate?: DuplicateMatch;
+  duplicateAction?: DuplicateAction;
 }
 
+// Position enregistrée par l'appareil ou saisie, par opposition à une estimation
+const hasMeasuredLocation = (metadata?: PhotoMetadata) =>
+  metadata?.locationSource === 'exif' || metadata?.locationSource === 'manual';
+
 interface PhotoUploadModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -38,30 +73,81 @@ export function PhotoUploadModal({
   onUploadComplete 
 }: PhotoUploadModalProps) {
   const { user } = useAuth();
+  const { t, locale } = useI18n();
   const [files, setFiles] = useState<PhotoFile[]>([]);
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem('uploadConcurrency')) || 3);
   const [processingMetadata, setProcessingMetadata] = useState(false);
   const [extractingZip, setExtractingZip] = useState(false);
+  // Décalage d'horloge saisi pour chaque appareil (clé de CameraDevice)
+  const [clockOffsetInputs, setClockOffsetInputs] = useState<Record<string, string>>({});
+  const [referenceDeviceKey, setReferenceDeviceKey] = useState<string>();
+  const [referencePhotoId, setReferencePhotoId] = useState<string>();
+  const [referenceTime, setReferenceTime] = useState('');
+
+  const queue = useUploadQueue(albumId, user?.id, {
+    concurrency,
+    locale,
+    onRestored: (count) => {
+      toast.info(t.upload.resumed(count));
+      onOpenChange(true);
+    },
+    onDrained: ({ done, failed }) => {
+      onUploadComplete();
+
+      if (failed > 0) {
+        toast.error(t.upload.failed(failed));
+        return;
+      }
+
+      toast.success(t.upload.done(done));
+      queue.clearFinished();
+      onOpenChange(false);
+    }
+  });
 
   const createFileId = () => `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
 
-  const processFileMetadata = async (file: File): Promise<PhotoFile['metadata']> => {
+  const processFileMetadata = async (file: File): Promise<PhotoMetadata> => {
+    // Les vidéos n'ont pas d'EXIF : date et GPS sont lus dans le conteneur MP4/MOV
+    if (isVideoFile(file)) {
+      const { date, utcOffset, make, model, latitude, longitude, duration } = await parseVideoMetadata(file);
+      return {
+        date, utcOffset, cameraMake: make, cameraModel: model, latitude, longitude, duration, mediaType: 'video',
+        locationSource: latitude !== undefined ? 'exif' : undefined
+      };
+    }
+
     try {
       const exifData = await parse(file);
-      const metadata: PhotoFile['metadata'] = {};
+      const metadata: PhotoMetadata = {};
 
       // Extract date
       if (exifData?.DateTimeOriginal || exifData?.DateTime || exifData?.CreateDate) {
         const dateStr = exifData.DateTimeOriginal || exifData.DateTime || exifData.CreateDate;
-        metadata.date = new Date(dateStr);
+        // exifr lit l'heure EXIF dans le fuseau du navigateur : on en garde l'heure affichée par l'appareil
+        metadata.localTime = format(new Date(dateStr), "yyyy-MM-dd'T'HH:mm:ss");
+
+        const utcOffset = parseUtcOffset(exifData.OffsetTimeOriginal || exifData.OffsetTime);
+        if (utcOffset !== undefined) {
+          metadata.utcOffset = utcOffset;
+          metadata.date = offsetTimeToUtc(metadata.localTime, utcOffset);
+        } else {
+          // Provisoire : process-photo-metadata la recalcule dans le fuseau de l'album
+          metadata.date = new Date(dateStr);
+        }
       }
 
+      // Appareil, pour corriger son horloge si besoin
+      metadata.cameraMake = exifData?.Make;
+      metadata.cameraModel = exifData?.Model;
+      metadata.cameraSerial = exifData?.BodySerialNumber || exifData?.SerialNumber;
+
       // Extract GPS coordinates (sans géolocalisation inverse pour l'instant)
       if (exifData?.latitude && exifData?.longitude) {
         metadata.latitude = parseFloat(exifData.latitude);
         metadata.longitude = parseFloat(exifData.longitude);
+        metadata.locationSource = 'exif';
       }
 
       return metadata;
@@ -77,22 +163,31 @@ export function PhotoUploadModal({
       const photosMetadata = photos.map(photo => ({
         id: photo.id,
         date: photo.metadata?.date,
-        latitude: photo.metadata?.latitude,
-        longitude: photo.metadata?.longitude,
-        locationName: photo.metadata?.locationName
+        localTime: photo.metadata?.localTime,
+        utcOffset: photo.metadata?.utcOffset,
+        // Seules les positions réelles sont envoyées : les estimations sont recalculées
+        ...(hasMeasuredLocation(photo.metadata) && {
+          latitude: photo.metadata?.latitude,
+          longitude: photo.metadata?.longitude,
+          locationSource: photo.metadata?.locationSource,
+          place: photo.metadata?.place,
+          locationName: photo.metadata?.locationName
+        })
       }));
 
       const { data, error } = await supabase.functions.invoke('process-photo-metadata', {
         body: { 
           photos: photosMetadata, 
           albumId, 
-          userId: user?.id 
+          deviceTimeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          // Langue des lieux-dits et des titres de journées
+          language: locale
         }
       });
 
       if (error) {
         console.error('Erreur lors du traitement des métadonnées:', error);
-        toast.error('Erreur lors du traitement des métadonnées');
+        toast.error(t.upload.metadataError);
         return photos;
       }
 
@@ -101,36 +196,205 @@ export function PhotoUploadModal({
       photos.forEach(photo => {
         const processedPhoto = processedPhotos.find((p: any) => p.id === photo.id);
         if (processedPhoto && photo.metadata) {
+          if (processedPhoto.date) photo.metadata.date = new Date(processedPhoto.date);
           photo.metadata.latitude = processedPhoto.latitude;
           photo.metadata.longitude = processedPhoto.longitude;
+          photo.metadata.locationSource = processedPhoto.locationSource;
+          photo.metadata.place = processedPhoto.place;
           photo.metadata.locationName = processedPhoto.locationName;
+          photo.metadata.dayPlace = processedPhoto.dayPlace;
           photo.metadata.dayTitle = processedPhoto.dayTitle;
         }
       });
 
+      // Fuseau déduit à l'import : il devient celui de l'album pour que les jours restent cohérents
+      if (data.timeZone && data.timeZoneSource !== 'album') {
+        const { error: timeZoneError } = await supabase
+          .from('albums')
+          .update({ timezone: data.timeZone })
+          .eq('id', albumId);
+
+        if (timeZoneError) {
+          console.warn('Impossible d\'enregistrer le fuseau de l\'album:', timeZoneError);
+        } else {
+          // Le jour local des photos déjà importées a été recalculé en base : les journées suivent
+          const { error: rebucketError } = await supabase.rpc('rebucket_album_days', { p_album_id: albumId });
+          if (rebucketError) console.warn('Impossible de réaligner les journées de l\'album:', rebucketError);
+
+          if (data.timeZoneSource === 'gps') toast.info(t.upload.albumTimeZone(data.timeZone));
+        }
+      }
+
       return photos;
     } catch (error) {
       console.error('Erreur lors de l\'appel à l\'edge function:', error);
-      toast.error('Erreur lors du traitement des métadonnées');
+      toast.error(t.upload.metadataError);
       return photos;
     }
   };
 
+  // Signaler les photos déjà présentes dans l'album ou en double dans la sélection
+  const flagDuplicates = async (photos: PhotoFile[]) => {
+    // Toutes les photos de l'album : les empreintes perceptuelles se comparent une à une
+    const { data: existingPhotos, error } = await fetchAllPages((from, to) =>
+      supabase
+        .from('photos')
+        .select('id, filename, content_hash, perceptual_hash')
+        .eq('album_id', albumId)
+        .order('id')
+        .range(from, to)
+    );
+
+    if (error) {
+      console.warn('Impossible de vérifier les doublons:', error);
+      return photos;
+    }
+
+    const selectedHashes = new Map<string, string>();
+    let duplicateCount = 0;
+
+    photos.forEach(photo => {
+      const { contentHash, perceptualHash } = photo.metadata || {};
+      const exactMatch = contentHash && existingPhotos.find(p => p.content_hash === contentHash);
+
+      if (exactMatch) {
+        photo.duplicate = { kind: 'exact', photoId: exactMatch.id, filename: exactMatch.filename };
+      } else if (contentHash && selectedHashes.has(contentHash)) {
+        photo.duplicate = { kind: 'exact', filename: selectedHashes.get(contentHash)! };
+      } else if (perceptualHash) {
+        let closest: { id: string; filename: string; distance: number } | undefined;
+        existingPhotos.forEach(p => {
+          if (!p.perceptual_hash) return;
+          const distance = hammingDistance(perceptualHash, p.perceptual_hash);
+          if (distance <= NEAR_DUPLICATE_THRESHOLD && (!closest || distance < closest.distance)) {
+            closest = { id: p.id, filename: p.filename, distance };
+          }
+        });
+        if (closest) {
+          photo.duplicate = { kind: 'near', photoId: closest.id, filename: closest.filename };
+        }
+      }
+
+      if (contentHash && !selectedHashes.has(contentHash)) {
+        selectedHashes.set(contentHash, photo.file.name);
+      }
+
+      if (photo.duplicate) {
+        // Un doublon exact est ignoré par défaut, une photo similaire est conservée
+        photo.duplicateAction = photo.duplicate.kind === 'exact' ? 'skip' : 'keep';
+        duplicateCount++;
+      }
+    });
+
+    if (duplicateCount > 0) {
+      toast.warning(t.upload.duplicatesFound(duplicateCount));
+    }
+
+    return photos;
+  };
+
+  const setDuplicateAction = (fileId: string, action: DuplicateAction) => {
+    setFiles(prev => prev.map(f => f.id === fileId ? { ...f, duplicateAction: action } : f));
+  };
+
+  // Appareils présents dans la sélection, avec leurs photos datées
+  const devices = useMemo(() => {
+    const groups = new Map<string, { device: CameraDevice; photos: PhotoFile[] }>();
+    files.forEach(photo => {
+      if (!photo.sourceMetadata?.date) return;
+      const device = getCameraDevice(photo.sourceMetadata);
+      if (!groups.has(device.key)) groups.set(device.key, { device, photos: [] });
+      groups.get(device.key)!.photos.push(photo);
+    });
+    return Array.from(groups.values());
+  }, [files]);
+
+  const getClockOffset = (deviceKey: string) => parseClockOffset(clockOffsetInputs[deviceKey] || '');
+  const hasInvalidClockOffset = devices.some(({ device }) => getClockOffset(device.key) === undefined);
+
+  // Déduire le décalage d'un appareil de l'heure réelle d'une de ses photos
+  const applyReferencePhoto = () => {
+    const photo = files.find(f => f.id === referencePhotoId);
+    if (!referenceDeviceKey || !photo?.sourceMetadata?.localTime || !referenceTime) return;
+
+    const offset = offsetFromReference(photo.sourceMetadata.localTime, referenceTime);
+    setClockOffsetInputs(prev => ({ ...prev, [referenceDeviceKey]: formatClockOffset(offset) }));
+    setReferenceDeviceKey(undefined);
+  };
+
+  // Refaire le regroupement par jour et l'interpolation des coordonnées avec les heures corrigées
+  const applyClockOffsets = async () => {
+    setProcessingMetadata(true);
+
+    const corrected = files.map(photo => {
+      if (!photo.sourceMetadata) return photo;
+      const offset = getClockOffset(getCameraDevice(photo.sourceMetadata).key) || 0;
+      return { ...photo, metadata: shiftPhotoTime(photo.sourceMetadata, offset) };
+    });
+
+    setFiles(await applyCoordinatesAndLocationLogic(corrected));
+    setProcessingMetadata(false);
+    toast.success(t.upload.clocksCorrected);
+  };
+
+  // Associer chaque vidéo .mov d'une Live Photo à l'image du même nom
+  const pairLivePhotos = (files: File[]) => {
+    const baseName = (file: File) => file.name.toLowerCase().replace(/\.[^/.]+$/, '');
+    const stills = new Map(
+      files.filter(file => !isVideoFile(file)).map(file => [baseName(file), file])
+    );
+    const companions = new Map<File, File>();
+
+    const remaining = files.filter(file => {
+      const still = /\.mov$/i.test(file.name) && stills.get(baseName(file));
+      if (!still) return true;
+      companions.set(still, file);
+      return false;
+    });
+
+    return { files: remaining, companions };
+  };
+
   // Fonction pour traiter les fichiers par batches avec limitation des requêtes simultanées
-  const processBatch = async (files: File[], batchSize: number = 5) => {
+  const processBatch = async (files: File[], companions: Map<File, File>, batchSize: number = 5) => {
     const results: PhotoFile[] = [];
     
     for (let i = 0; i < files.length; i += batchSize) {
       const batch = files.slice(i, i + batchSize);
       const batchPromises = batch.map(async (file) => {
         const id = createFileId();
-        const preview = URL.createObjectURL(file);
-        const metadata = await processFileMetadata(file);
+        let displayFile: File | undefined;
+        if (isHeicFile(file)) {
+          try {
+            displayFile = await decodeHeic(file, file.name);
+          } catch (error) {
+            console.warn(`Décodage HEIC impossible pour ${file.name}:`, error);
+          }
+        } else if (isVideoFile(file)) {
+          try {
+            displayFile = await extractVideoPoster(file);
+          } catch (error) {
+            console.warn(`Aperçu vidéo impossible pour ${file.name}:`, error);
+          }
+        }
+
+        const preview = URL.createObjectURL(displayFile || file);
+        // Les EXIF (date, GPS) sont lus sur l'original, y compris pour les HEIC
+        const [metadata, contentHash, perceptualHash] = await Promise.all([
+          processFileMetadata(file),
+          computeContentHash(file),
+          displayFile || !isVideoFile(file) ? computePerceptualHash(displayFile || file) : undefined
+        ]);
+        metadata.contentHash = contentHash;
+        metadata.perceptualHash = perceptualHash;
         
         return {
           file,
+          displayFile,
+          companionVideo: companions.get(file),
           id,
           preview,
+          sourceMetadata: { ...metadata },
           metadata
         };
       });
@@ -148,13 +412,13 @@ export function PhotoUploadModal({
     }
     
     // Appliquer la logique de coordonnées et lieux-dits
-    const processedResults = await applyCoordinatesAndLocationLogic(results);
+    const processedResults = await flagDuplicates(await applyCoordinatesAndLocationLogic(results));
     setFiles(processedResults);
     
     return processedResults;
   };
 
-  // Fonction pour extraire les images d'un fichier ZIP
+  // Fonction pour extraire les images et vidéos d'un fichier ZIP
   const extractImagesFromZip = async (zipFile: File): Promise<File[]> => {
     setExtractingZip(true);
     const extractedFiles: File[] = [];
@@ -171,15 +435,19 @@ export function PhotoUploadModal({
           const filename = relativePath.split('/').pop() || relativePath;
           const extension = filename.toLowerCase().split('.').pop() || '';
           const imageExtensions = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'heic', 'heif'];
+          const videoExtensions = ['mp4', 'm4v', 'mov'];
           
-          if (imageExtensions.includes(extension)) {
+          if (imageExtensions.includes(extension) || videoExtensions.includes(extension)) {
             // Créer un File object avec le bon type MIME
             let mimeType = 'image/jpeg';
             if (extension === 'png') mimeType = 'image/png';
             else if (extension === 'gif') mimeType = 'image/gif';
             else if (extension === 'bmp') mimeType = 'image/bmp';
             else if (extension === 'webp') mimeType = 'image/webp';
-            else if (extension === 'heic' || extension === 'heif') mimeType = 'image/heic';
+            else if (extension === 'heic') mimeType = 'image/heic';
+            else if (extension === 'heif') mimeType = 'image/heif';
+            else if (extension === 'mp4' || extension === 'm4v') mimeType = 'video/mp4';
+            else if (extension === 'mov') mimeType = 'video/quicktime';
             
             const imageFile = new File([blob], filename, { 
               type: mimeType,
@@ -191,11 +459,11 @@ export function PhotoUploadModal({
         }
       }
       
-      toast.success(`${extractedFiles.length} image${extractedFiles.length !== 1 ? 's' : ''} extraite${extractedFiles.length !== 1 ? 's' : ''} du ZIP`);
+      toast.success(t.upload.zipExtracted(extractedFiles.length));
       return extractedFiles;
     } catch (error) {
       console.error('Erreur lors de l\'extraction du ZIP:', error);
-      toast.error('Erreur lors de l\'extraction du fichier ZIP');
+      toast.error(t.upload.zipError);
       return [];
     } finally {
       setExtractingZip(false);
@@ -205,8 +473,10 @@ export function PhotoUploadModal({
   const handleFileSelect = useCallback(async (selectedFiles: FileList) => {
     setProcessingMetadata(true);
     setFiles([]); // Reset pour affichage progressif
+    setClockOffsetInputs({});
+    setReferenceDeviceKey(undefined);
     
-    // Séparer les fichiers ZIP des images
+    // Séparer les fichiers ZIP des images et vidéos
     const zipFiles: File[] = [];
     const imageFiles: File[] = [];
     
@@ -215,20 +485,23 @@ export function PhotoUploadModal({
       
       if (file.type === 'application/zip' || file.name.toLowerCase().endsWith('.zip')) {
         zipFiles.push(file);
-      } else if (file.type.startsWith('image/')) {
+      } else if (file.type.startsWith('image/') || isHeicFile(file) || isVideoFile(file)) {
         imageFiles.push(file);
       } else {
-        toast.error(`${file.name} n'est pas un format supporté (image ou ZIP)`);
+        toast.error(t.upload.unsupported(file.name));
       }
     }
     
     // Traiter les fichiers ZIP d'abord
-    const allFiles: File[] = [...imageFiles];
+    const selectedMedia: File[] = [...imageFiles];
     
     for (const zipFile of zipFiles) {
       const extractedImages = await extractImagesFromZip(zipFile);
-      allFiles.push(...extractedImages);
+      selectedMedia.push(...extractedImages);
     }
+
+    // Les vidéos des Live Photos accompagnent leur image au lieu d'être importées seules
+    const { files: allFiles, companions } = pairLivePhotos(selectedMedia);
     
     if (allFiles.length === 0) {
       setProcessingMetadata(false);
@@ -236,16 +509,12 @@ export function PhotoUploadModal({
     }
     
     // Traitement par batches pour améliorer les performances
-    await processBatch(allFiles, 5);
+    await processBatch(allFiles, companions, 5);
     
     setProcessingMetadata(false);
     
-    const totalMessage = zipFiles.length > 0 
-      ? `${allFiles.length} image${allFiles.length !== 1 ? 's' : ''} ajoutée${allFiles.length !== 1 ? 's' : ''} (${zipFiles.length} ZIP traité${zipFiles.length !== 1 ? 's' : ''})`
-      : `${allFiles.length} image${allFiles.length !== 1 ? 's' : ''} ajoutée${allFiles.length !== 1 ? 's' : ''}`;
-    
-    toast.success(totalMessage);
-  }, []);
+    toast.success(t.upload.filesAdded(allFiles.length, zipFiles.length));
+  }, [t]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -269,117 +538,72 @@ export function PhotoUploadModal({
     });
   };
 
-  const uploadFiles = async () => {
+  const uploadFiles = () => {
     if (files.length === 0 || !user) return;
 
-    setUploading(true);
-    setUploadProgress(0);
+    const skippedFiles = files.filter(f => f.duplicateAction === 'skip');
+    const filesToUpload = files.filter(f => f.duplicateAction !== 'skip');
 
-    try {
-      const uploadPromises = files.map(async (photoFile, index) => {
-        const fileExt = photoFile.file.name.split('.').pop();
-        const fileName = `${user.id}/${albumId}/${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-        
-        // Upload to storage
-        const { data: storageData, error: storageError } = await supabase.storage
-          .from('photos')
-          .upload(fileName, photoFile.file);
+    skippedFiles.forEach(f => URL.revokeObjectURL(f.preview));
+    if (skippedFiles.length > 0) {
+      toast.info(t.upload.duplicatesSkipped(skippedFiles.length));
+    }
 
-        if (storageError) throw storageError;
+    // Les fichiers passent dans la file : les aperçus restent utilisés par celle-ci
+    queue.enqueue(filesToUpload.map(f => ({
+      ...f,
+      replacePhotoId: f.duplicateAction === 'replace' ? f.duplicate?.photoId : undefined
+    })));
+    setFiles([]);
 
-        // Create thumbnail (simple resize for now, could be enhanced)
-        const thumbnailFileName = `${user.id}/${albumId}/thumb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-        
-        // For simplicity, we'll use the same file as thumbnail
-        // In a real app, you'd resize the image first
-        const { error: thumbnailError } = await supabase.storage
-          .from('thumbnails')
-          .upload(thumbnailFileName, photoFile.file);
-
-        if (thumbnailError) console.warn('Erreur thumbnail:', thumbnailError);
-
-        // Save to database
-        const { data: photoData, error: dbError } = await supabase
-          .from('photos')
-          .insert({
-            album_id: albumId,
-            user_id: user.id,
-            filename: photoFile.file.name,
-            file_path: fileName,
-            thumbnail_path: thumbnailFileName,
-            taken_at: photoFile.metadata?.date?.toISOString(),
-            latitude: photoFile.metadata?.latitude,
-            longitude: photoFile.metadata?.longitude,
-            location_name: photoFile.metadata?.locationName,
-            file_size: photoFile.file.size,
-            mime_type: photoFile.file.type,
-            title: photoFile.metadata?.locationName || photoFile.file.name.replace(/\.[^/.]+$/, "")
-          })
-          .select()
-          .single();
-
-        if (dbError) throw dbError;
-
-        // Create or update day entry for this photo
-        if (photoFile.metadata?.date) {
-          const photoDate = photoFile.metadata.date.toISOString().split('T')[0]; // YYYY-MM-DD format
-          
-          // Check if day entry already exists
-          const { data: existingDay } = await supabase
-            .from('day_entries')
-            .select('id')
-            .eq('album_id', albumId)
-            .eq('date', photoDate)
-            .single();
-
-          if (!existingDay) {
-            // Create new day entry
-            await supabase
-              .from('day_entries')
-              .insert({
-                album_id: albumId,
-                user_id: user.id,
-                date: photoDate,
-                title: photoFile.metadata.dayTitle || photoFile.metadata.locationName || `Photos du ${new Date(photoDate).toLocaleDateString('fr-FR')}`,
-                latitude: photoFile.metadata.latitude,
-                longitude: photoFile.metadata.longitude,
-                location_name: photoFile.metadata.locationName,
-                cover_photo_id: photoData.id
-              });
-          }
-        }
+    if (filesToUpload.length === 0 && !queue.isRunning) {
+      onOpenChange(false);
+    }
+  };
 
-        // Update progress
-        const progress = ((index + 1) / files.length) * 100;
-        setUploadProgress(progress);
-      });
+  const uploadCount = files.filter(f => f.duplicateAction !== 'skip').length;
 
-      await Promise.all(uploadPromises);
-      
-      toast.success(`${files.length} photo${files.length !== 1 ? 's' : ''} uploadée${files.length !== 1 ? 's' : ''} avec succès`);
-      
-      // Clean up
-      files.forEach(file => URL.revokeObjectURL(file.preview));
-      setFiles([]);
-      onUploadComplete();
-      onOpenChange(false);
-      
-    } catch (error) {
-      console.error('Erreur upload:', error);
-      toast.error('Erreur lors de l\'upload des photos');
-    } finally {
-      setUploading(false);
-      setUploadProgress(0);
+  const updateConcurrency = (value: string) => {
+    setConcurrency(Number(value));
+    localStorage.setItem('uploadConcurrency', value);
+  };
+
+  const renderStatus = (status: UploadStatus) => {
+    switch (status) {
+      case 'pending':
+        return <Clock className="h-3 w-3" />;
+      case 'uploading':
+        return <Loader2 className="h-3 w-3 animate-spin" />;
+      case 'done':
+        return <CheckCircle2 className="h-3 w-3 text-green-600" />;
+      case 'failed':
+        return <AlertCircle className="h-3 w-3 text-destructive" />;
+    }
+  };
+
+  // Une vidéo sans poster (codec non décodable par le navigateur) s'affiche avec une icône
+  const renderPreview = (item: { file: File; displayFile?: File; preview: string }, className: string) => {
+    if (isVideoFile(item.file) && !item.displayFile) {
+      return (
+        <div className={`${className} bg-muted flex items-center justify-center`}>
+          <Film className="h-1/2 w-1/2 text-muted-foreground" />
+        </div>
+      );
     }
+    return <img src={item.preview} alt={t.upload.previewAlt} className={`${className} object-cover`} />;
   };
 
+  const uploadProgress = queue.counts.total > 0
+    ? ((queue.counts.done + queue.counts.failed) / queue.counts.total) * 100
+    : 0;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col z-[9999]">
         <DialogHeader>
-          <DialogTitle>Ajouter des photos</DialogTitle>
+          <DialogTitle>{t.upload.title}</DialogTitle>
           <DialogDescription>
-            Glissez-déposez vos photos ou fichiers ZIP, ou cliquez pour les sélectionner. Les métadonnées de date et lieu seront automatiquement extraites.
+            {t.upload.description}
           </DialogDescription>
         </DialogHeader>
 
@@ -393,7 +617,7 @@ export function PhotoUploadModal({
               const input = document.createElement('input');
               input.type = 'file';
               input.multiple = true;
-              input.accept = 'image/*,.zip';
+              input.accept = 'image/*,video/mp4,video/quicktime,.heic,.heif,.mov,.zip';
               input.onchange = (e) => {
                 const files = (e.target as HTMLInputElement).files;
                 if (files) handleFileSelect(files);
@@ -407,20 +631,94 @@ export function PhotoUploadModal({
               <Upload className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             )}
             <h3 className="text-lg font-medium mb-2">
-              {extractingZip ? 'Extraction du ZIP...' : 'Sélectionnez vos photos'}
+              {extractingZip ? t.upload.extractingZip : t.upload.select}
             </h3>
             <p className="text-muted-foreground mb-4">
-              {extractingZip ? 'Veuillez patienter...' : 'Glissez-déposez vos fichiers ici ou cliquez pour parcourir'}
+              {extractingZip ? t.upload.pleaseWait : t.upload.dropHint}
             </p>
             <p className="text-sm text-muted-foreground">
-              Formats supportés: JPG, PNG, HEIC, ZIP, etc.
+              {t.upload.formats}
             </p>
           </div>
 
           {processingMetadata && (
             <div className="text-center py-4">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
-              <p className="text-sm text-muted-foreground">Extraction des métadonnées...</p>
+              <p className="text-sm text-muted-foreground">{t.upload.extractingMetadata}</p>
+            </div>
+          )}
+
+          {/* Horloges des appareils */}
+          {files.length > 0 && devices.length > 0 && !processingMetadata && (
+            <div className="border border-border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  {t.upload.deviceClocks}
+                </h4>
+                <Button size="sm" variant="outline" onClick={applyClockOffsets} disabled={hasInvalidClockOffset}>
+                  {t.upload.applyOffsets}
+                </Button>
+              </div>
+              {devices.map(({ device, photos }) => (
+                <div key={device.key} className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Camera className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <span className="truncate flex-1">
+                      {t.camera.deviceLabel(device.name, device.serial)} <span className="text-muted-foreground">({photos.length})</span>
+                    </span>
+                    <Input
+                      value={clockOffsetInputs[device.key] || ''}
+                      onChange={(e) => setClockOffsetInputs(prev => ({ ...prev, [device.key]: e.target.value }))}
+                      placeholder="+00:00"
+                      className={`h-8 w-24 ${getClockOffset(device.key) === undefined ? 'border-destructive' : ''}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8"
+                      title={t.upload.alignOnPhoto}
+                      onClick={() => {
+                        setReferenceDeviceKey(referenceDeviceKey === device.key ? undefined : device.key);
+                        setReferencePhotoId(undefined);
+                        setReferenceTime('');
+                      }}
+                    >
+                      <Target className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {referenceDeviceKey === device.key && (
+                    <div className="flex items-center gap-2 pl-6">
+                      <Select value={referencePhotoId} onValueChange={setReferencePhotoId}>
+                        <SelectTrigger className="h-8 flex-1 min-w-0 text-xs">
+                          <SelectValue placeholder={t.upload.referencePhoto} />
+                        </SelectTrigger>
+                        <SelectContent className="z-[10000]">
+                          {photos.filter(p => p.sourceMetadata?.localTime).map(p => (
+                            <SelectItem key={p.id} value={p.id}>
+                              {p.file.name} ({format(parseISO(p.sourceMetadata.localTime), 'dd/MM HH:mm')})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="datetime-local"
+                        step="1"
+                        value={referenceTime}
+                        onChange={(e) => setReferenceTime(e.target.value)}
+                        className="h-8 w-52 text-xs"
+                        title={t.upload.actualTime}
+                      />
+                      <Button size="sm" className="h-8" onClick={applyReferencePhoto} disabled={!referencePhotoId || !referenceTime}>
+                        {t.upload.compute}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {t.upload.offsetHint}
+              </p>
             </div>
           )}
 
@@ -431,11 +729,7 @@ export function PhotoUploadModal({
                 {files.map((photoFile) => (
                   <div key={photoFile.id} className="bg-card border border-card-border rounded-lg p-4">
                     <div className="flex gap-3">
-                      <img
-                        src={photoFile.preview}
-                        alt="Preview"
-                        className="w-20 h-20 object-cover rounded-md flex-shrink-0"
-                      />
+                      {renderPreview(photoFile, 'w-20 h-20 rounded-md flex-shrink-0')}
                       <div className="flex-1 min-w-0">
                         <div className="flex items-start justify-between mb-2">
                           <h4 className="font-medium text-sm truncate">{photoFile.file.name}</h4>
@@ -454,11 +748,20 @@ export function PhotoUploadModal({
                             <ImageIcon className="h-3 w-3" />
                             <span>{(photoFile.file.size / 1024 / 1024).toFixed(1)} MB</span>
                           </div>
+
+                          {(photoFile.metadata?.duration || photoFile.companionVideo) && (
+                            <div className="flex items-center gap-1">
+                              <Film className="h-3 w-3" />
+                              <span>
+                                {photoFile.companionVideo ? 'Live Photo' : formatDuration(photoFile.metadata.duration)}
+                              </span>
+                            </div>
+                          )}
                           
                           {photoFile.metadata?.date && (
                             <div className="flex items-center gap-1">
                               <Calendar className="h-3 w-3" />
-                              <span>{format(photoFile.metadata.date, 'dd/MM/yyyy HH:mm')}</span>
+                              <span>{format(photoFile.metadata.localTime ? parseISO(photoFile.metadata.localTime) : photoFile.metadata.date, 'dd/MM/yyyy HH:mm')}</span>
                             </div>
                           )}
                           
@@ -469,9 +772,38 @@ export function PhotoUploadModal({
                                 {photoFile.metadata.locationName || 
                                  `${photoFile.metadata.latitude?.toFixed(4)}, ${photoFile.metadata.longitude?.toFixed(4)}`}
                               </span>
+                              {isInferredLocation(photoFile.metadata.locationSource) && (
+                                <span className="flex-shrink-0 italic">{t.upload.estimated}</span>
+                              )}
                             </div>
                           )}
                         </div>
+
+                        {photoFile.duplicate && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <span className={`flex items-center gap-1 text-xs min-w-0 ${photoFile.duplicate.kind === 'exact' ? 'text-destructive' : 'text-amber-600'}`}>
+                              <Copy className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">
+                                {photoFile.duplicate.kind === 'exact' ? t.upload.duplicateOf : t.upload.similarTo} {photoFile.duplicate.filename}
+                              </span>
+                            </span>
+                            <Select
+                              value={photoFile.duplicateAction}
+                              onValueChange={(value) => setDuplicateAction(photoFile.id, value as DuplicateAction)}
+                            >
+                              <SelectTrigger className="h-6 w-36 text-xs flex-shrink-0">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="z-[10000]">
+                                <SelectItem value="skip">{t.upload.skip}</SelectItem>
+                                {photoFile.duplicate.photoId && (
+                                  <SelectItem value="replace">{t.upload.replace}</SelectItem>
+                                )}
+                                <SelectItem value="keep">{t.upload.keepBoth}</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -480,28 +812,72 @@ export function PhotoUploadModal({
             </div>
           )}
 
-          {/* Upload Progress */}
-          {uploading && (
+          {/* Upload Queue */}
+          {queue.items.length > 0 && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span>Upload en cours...</span>
+                <span>
+                  {queue.isRunning ? t.upload.uploading : t.upload.uploaded} ({queue.counts.done}/{queue.counts.total})
+                </span>
                 <span>{Math.round(uploadProgress)}%</span>
               </div>
               <Progress value={uploadProgress} className="w-full" />
+              <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                {queue.items.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2 text-xs">
+                    {renderPreview(item, 'w-6 h-6 rounded flex-shrink-0')}
+                    <span className="truncate flex-1">{item.file.name}</span>
+                    <span className="flex items-center gap-1 text-muted-foreground flex-shrink-0" title={item.error}>
+                      {renderStatus(item.status)}
+                      {t.upload.status[item.status]}
+                      {item.status === 'pending' && item.attempts > 0 && t.upload.attempt(item.attempts + 1)}
+                    </span>
+                    {item.status !== 'uploading' && item.status !== 'done' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => queue.removeItem(item.id)}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
           )}
 
           {/* Actions */}
-          <div className="flex gap-2 justify-end border-t border-border pt-4">
-            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={uploading || extractingZip}>
-              Annuler
+          <div className="flex gap-2 items-center justify-end border-t border-border pt-4">
+            <div className="flex items-center gap-2 mr-auto text-sm text-muted-foreground">
+              <span>{t.upload.concurrency}</span>
+              <Select value={String(concurrency)} onValueChange={updateConcurrency}>
+                <SelectTrigger className="h-8 w-16">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[10000]">
+                  {[1, 2, 3, 4, 6].map(value => (
+                    <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {queue.counts.failed > 0 && !queue.isRunning && (
+              <Button variant="outline" onClick={queue.retryFailed}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {t.upload.retryFailed(queue.counts.failed)}
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={extractingZip}>
+              {queue.isRunning ? t.upload.continueInBackground : t.common.cancel}
             </Button>
             <Button 
               onClick={uploadFiles} 
-              disabled={files.length === 0 || uploading || processingMetadata || extractingZip}
+              disabled={files.length === 0 || processingMetadata || extractingZip}
               className="bg-gradient-sky hover:opacity-90"
             >
-              {uploading ? 'Upload...' : `Uploader ${files.length} photo${files.length !== 1 ? 's' : ''}`}
+              {t.upload.upload(uploadCount)}
             </Button>
           </div>
         </div>
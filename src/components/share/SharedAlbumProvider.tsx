@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Outlet, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link2Off, Lock } from 'lucide-react';
+import { fetchSharedAlbum, ShareAccessError } from '@/utils/sharedAlbum';
+import { REFRESH_MARGIN_MS } from '@/utils/mediaUrls';
+import { calculateDayTitle } from '@/utils/dayTitleFormatter';
+import { useI18n } from '@/i18n/useI18n';
+import { dayNumberOf } from '@shared/dayTitle';
+import { SharedAlbumContext } from '@/hooks/useSharedAlbum';
+import { ShareFailureReason, SharedAlbumPayload } from '@shared/sharedAlbum';
+
+/**
+ * Pages publiques d'un lien de partage : ouvre le lien (mot de passe compris) une fois pour toutes ses pages,
+ * et le rouvre avant l'expiration des URLs signées
+ */
+export function SharedAlbumProvider() {
+  const { token } = useParams<{ token: string }>();
+  const [shared, setShared] = useState<SharedAlbumPayload | null>(null);
+  const [failure, setFailure] = useState<ShareFailureReason>();
+  const [password, setPassword] = useState<string>();
+  const [passwordInput, setPasswordInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const { t, locale } = useI18n();
+
+  const openShare = useCallback(async (candidate?: string) => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const payload = await fetchSharedAlbum(token, candidate);
+      setShared(payload);
+      setPassword(candidate);
+      setFailure(undefined);
+    } catch (error) {
+      if (error instanceof ShareAccessError) {
+        setShared(null);
+        setFailure(error.reason);
+      } else {
+        console.error('Erreur lors de l\'ouverture du lien de partage:', error);
+        setFailure('not_found');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    openShare();
+  }, [openShare]);
+
+  // Nouvelles URLs signées peu avant l'expiration des précédentes
+  useEffect(() => {
+    if (!shared) return;
+    const delay = Math.max(shared.urls_expire_at - REFRESH_MARGIN_MS - Date.now(), 0);
+    const timer = setTimeout(() => openShare(password), delay);
+    return () => clearTimeout(timer);
+  }, [shared, password, openShare]);
+
+  // Numérotées depuis la première journée de l'album, même quand une seule est partagée
+  const days = useMemo(() => {
+    if (!shared) return [];
+    const coverLocations = new Map(shared.photos.map(photo => [photo.id, photo.location_name]));
+    return shared.days.map(day => ({
+      ...day,
+      calculatedTitle: calculateDayTitle(
+        { ...day, cover_photo: { location_name: day.cover_photo_id ? coverLocations.get(day.cover_photo_id) : null } },
+        dayNumberOf(day.date, shared.album.first_date ?? day.date),
+        { locale, template: shared.album.day_title_template }
+      )
+    }));
+  }, [shared, locale]);
+
+  if (loading && !shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!shared || !token) {
+    const needsPassword = failure === 'password_required' || failure === 'invalid_password';
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader className="text-center">
+            {needsPassword
+              ? <Lock className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+              : <Link2Off className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />}
+            <CardTitle>{needsPassword ? t.share.protectedAlbum : t.share.unavailable}</CardTitle>
+            <CardDescription>
+              {failure === 'invalid_password'
+                ? t.share.failures.invalid_password
+                : needsPassword
+                  ? t.share.passwordHint
+                  : t.share.failures[failure ?? 'not_found']}
+            </CardDescription>
+          </CardHeader>
+          {needsPassword && (
+            <CardContent>
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (passwordInput) openShare(passwordInput);
+                }}
+              >
+                <Input
+                  type="password"
+                  value={passwordInput}
+                  onChange={(e) => setPasswordInput(e.target.value)}
+                  placeholder={t.share.password}
+                  autoFocus
+                />
+                <Button type="submit" className="w-full" disabled={loading || !passwordInput}>
+                  {t.share.openAlbum}
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <SharedAlbumContext.Provider value={{ token, shared, days }}>
+      <Outlet />
+    </SharedAlbumContext.Provider>
+  );
+}
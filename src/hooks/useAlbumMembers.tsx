@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useI18n } from '@/i18n/useI18n';
+import { AlbumRole, hasAlbumRole, isAlbumRole } from '@shared/albumRoles';
+
+export interface AlbumMember {
+  id: string;
+  user_id: string;
+  role: AlbumRole;
+  email: string | null;
+}
+
+/**
+ * Membres d'un album et rôle de l'utilisateur connecté
+ */
+export function useAlbumMembers(albumId: string | undefined) {
+  const { user } = useAuth();
+  const { t } = useI18n();
+  const [members, setMembers] = useState<AlbumMember[]>([]);
+
+  const fetchMembers = useCallback(async () => {
+    if (!albumId) return;
+
+    const { data, error } = await supabase
+      .from('album_members')
+      .select('id, user_id, role, email')
+      .eq('album_id', albumId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Erreur lors du chargement des membres:', error);
+      return;
+    }
+
+    setMembers((data || []).filter(member => isAlbumRole(member.role)) as AlbumMember[]);
+  }, [albumId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const role = members.find(member => member.user_id === user?.id)?.role;
+
+  // Nom affiché pour la personne qui a envoyé une photo
+  const memberName = useCallback((userId: string) => {
+    if (userId === user?.id) return t.members.you;
+    return members.find(member => member.user_id === userId)?.email || t.members.formerMember;
+  }, [members, user?.id, t]);
+
+  return {
+    members,
+    role,
+    // Tant que les membres ne sont pas chargés, les actions restent masquées plutôt que d'échouer
+    canEdit: hasAlbumRole(role, 'editor'),
+    isOwner: hasAlbumRole(role, 'owner'),
+    memberName,
+    refetch: fetchMembers
+  };
+}
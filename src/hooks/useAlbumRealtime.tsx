@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+
+export interface AlbumChange {
+  table: 'photos' | 'day_entries';
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+}
+
+export interface AlbumViewer {
+  user_id: string;
+  email: string | null;
+  // Journée consultée, absente sur la vue de l'album
+  day_id?: string;
+}
+
+// Un envoi de photos produit une rafale d'événements : un seul rechargement à la fin
+const CHANGES_DEBOUNCE_MS = 800;
+
+/**
+ * Changements des photos et journées d'un album, et membres qui le consultent en ce moment
+ * (hors utilisateur connecté)
+ * @param onChanges Appelé une fois par rafale de changements. Les suppressions ne sont pas filtrées
+ * par album : seul l'identifiant de la ligne supprimée est connu
+ */
+export function useAlbumRealtime(
+  albumId: string | undefined,
+  onChanges: (changes: AlbumChange[]) => void,
+  dayId?: string
+) {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<AlbumViewer[]>([]);
+  const onChangesRef = useRef(onChanges);
+  onChangesRef.current = onChanges;
+
+  useEffect(() => {
+    if (!albumId || !user) return;
+
+    let pending: AlbumChange[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const queueChange = (table: AlbumChange['table']) =>
+      (payload: RealtimePostgresChangesPayload<{ id: string }>) => {
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (!row?.id) return;
+
+        pending.push({ table, eventType: payload.eventType, id: row.id });
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const changes = pending;
+          pending = [];
+          onChangesRef.current(changes);
+        }, CHANGES_DEBOUNCE_MS);
+      };
+
+    // Canal privé : les règles RLS de realtime.messages le réservent aux membres de l'album
+    const channel = supabase.channel(`album:${albumId}`, {
+      config: { private: true, presence: { key: user.id } }
+    });
+
+    (['photos', 'day_entries'] as const).forEach(table => {
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `album_id=eq.${albumId}` }, queueChange(table))
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `album_id=eq.${albumId}` }, queueChange(table))
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, queueChange(table));
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<AlbumViewer>();
+        setViewers(Object.entries(state)
+          .filter(([key]) => key !== user.id)
+          .map(([, presences]) => presences[presences.length - 1]));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ user_id: user.id, email: user.email ?? null, day_id: dayId });
+        } else if (status === 'CHANNEL_ERROR') {
+          console.warn('Mises à jour en direct indisponibles pour cet album');
+        }
+      });
+
+    return () => {
+      clearTimeout(timer);
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [albumId, dayId, user]);
+
+  return { viewers };
+}
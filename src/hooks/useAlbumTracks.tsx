@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { TrackPoint } from '@shared/tracks';
+
+export interface AlbumTrack {
+  id: string;
+  name: string;
+  source_format: string;
+  points: TrackPoint[];
+  point_count: number;
+  started_at: string | null;
+  ended_at: string | null;
+  max_gap_minutes: number;
+}
+
+/**
+ * Traces GPS importées pour un album
+ */
+export function useAlbumTracks(albumId: string | undefined) {
+  const [tracks, setTracks] = useState<AlbumTrack[]>([]);
+
+  const fetchTracks = useCallback(async () => {
+    if (!albumId) return;
+
+    const { data, error } = await supabase
+      .from('album_tracks')
+      .select('id, name, source_format, points, point_count, started_at, ended_at, max_gap_minutes')
+      .eq('album_id', albumId)
+      .order('started_at');
+
+    if (error) {
+      console.error('Erreur lors du chargement des traces:', error);
+      return;
+    }
+
+    // points est une colonne JSONB : son contenu est garanti par l'import
+    setTracks((data || []).map(track => ({ ...track, points: track.points as unknown as TrackPoint[] })));
+  }, [albumId]);
+
+  useEffect(() => {
+    fetchTracks();
+  }, [fetchTracks]);
+
+  return {
+    tracks,
+    refetch: fetchTracks
+  };
+}
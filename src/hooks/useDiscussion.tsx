@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+
+// Liste reprise par la contrainte CHECK de reactions.emoji
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '👍', '🎉'];
+
+// Photo ou journée commentée
+export type DiscussionTarget = { photoId: string } | { dayEntryId: string };
+
+export interface DiscussionComment {
+  id: string;
+  parent_id: string | null;
+  user_id: string;
+  body: string;
+  created_at: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+  mine: boolean;
+}
+
+const targetColumns = (target: DiscussionTarget) =>
+  'photoId' in target
+    ? { photo_id: target.photoId, day_entry_id: null }
+    : { photo_id: null, day_entry_id: target.dayEntryId };
+
+/**
+ * Commentaires et réactions des membres d'un album sur une photo ou une journée
+ */
+export function useDiscussion(albumId: string | undefined, target: DiscussionTarget | null) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<DiscussionComment[]>([]);
+  const [reactions, setReactions] = useState<{ emoji: string; user_id: string }[]>([]);
+
+  const photoId = target && 'photoId' in target ? target.photoId : null;
+  const dayEntryId = target && 'dayEntryId' in target ? target.dayEntryId : null;
+
+  // isCancelled : la cible a changé entre-temps, la réponse concerne l'ancienne photo ou journée
+  const fetchDiscussion = useCallback(async (isCancelled: () => boolean = () => false) => {
+    if (!photoId && !dayEntryId) {
+      setComments([]);
+      setReactions([]);
+      return;
+    }
+
+    const column = photoId ? 'photo_id' : 'day_entry_id';
+    const id = photoId || dayEntryId!;
+
+    const [commentsResult, reactionsResult] = await Promise.all([
+      supabase.from('comments').select('id, parent_id, user_id, body, created_at').eq(column, id).order('created_at'),
+      supabase.from('reactions').select('emoji, user_id').eq(column, id).order('created_at')
+    ]);
+
+    if (isCancelled()) return;
+
+    if (commentsResult.error) {
+      console.error('Erreur lors du chargement des commentaires:', commentsResult.error);
+    } else {
+      setComments(commentsResult.data || []);
+    }
+
+    if (reactionsResult.error) {
+      console.error('Erreur lors du chargement des réactions:', reactionsResult.error);
+    } else {
+      setReactions(reactionsResult.data || []);
+    }
+  }, [photoId, dayEntryId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComments([]);
+    setReactions([]);
+    fetchDiscussion(() => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchDiscussion]);
+
+  const addComment = async (body: string, parentId?: string) => {
+    if (!albumId || !target || !user) return;
+
+    const { error } = await supabase
+      .from('comments')
+      .insert({ album_id: albumId, ...targetColumns(target), parent_id: parentId ?? null, user_id: user.id, body: body.trim() });
+
+    if (error) throw error;
+    await fetchDiscussion();
+  };
+
+  // Supprime aussi les réponses (ON DELETE CASCADE)
+  const deleteComment = async (commentId: string) => {
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) throw error;
+    await fetchDiscussion();
+  };
+
+  const toggleReaction = async (emoji: string) => {
+    if (!albumId || !target || !user) return;
+
+    const mine = reactions.some(reaction => reaction.emoji === emoji && reaction.user_id === user.id);
+
+    const { error } = mine
+      ? await supabase
+        .from('reactions')
+        .delete()
+        .eq(photoId ? 'photo_id' : 'day_entry_id', photoId || dayEntryId!)
+        .eq('user_id', user.id)
+        .eq('emoji', emoji)
+      : await supabase
+        .from('reactions')
+        .insert({ album_id: albumId, ...targetColumns(target), user_id: user.id, emoji });
+
+    if (error) throw error;
+    await fetchDiscussion();
+  };
+
+  const reactionSummaries: ReactionSummary[] = REACTION_EMOJIS.map(emoji => {
+    const userIds = reactions.filter(reaction => reaction.emoji === emoji).map(reaction => reaction.user_id);
+    return { emoji, userIds, mine: !!user && userIds.includes(user.id) };
+  });
+
+  return {
+    comments,
+    reactions: reactionSummaries,
+    addComment,
+    deleteComment,
+    toggleReaction,
+    refetch: () => fetchDiscussion()
+  };
+}
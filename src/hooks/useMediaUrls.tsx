@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getCachedMediaUrl,
+  getSignedMediaUrls,
+  MediaRef,
+  mediaKey,
+  parseMediaKey,
+  REFRESH_MARGIN_MS
+} from '@/utils/mediaUrls';
+import { getPhotoMedia, PhotoPaths } from '@/utils/photoUrls';
+import type { DerivativeSize } from '@/utils/imageDerivatives';
+
+type MaybeMediaRef = MediaRef | null | undefined;
+
+/**
+ * URLs signées d'une liste de médias, renouvelées avant leur expiration
+ * @returns Une fonction donnant l'URL d'un média, undefined tant qu'elle n'est pas signée
+ */
+export function useMediaUrls(refs: MaybeMediaRef[]): (ref: MaybeMediaRef) => string | undefined {
+  // Clés dédoublonnées et triées : une dépendance stable d'un rendu à l'autre
+  const signature = Array.from(new Set(refs.filter(Boolean).map(ref => mediaKey(ref!)))).sort().join('\n');
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    if (!signature) return;
+
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    getSignedMediaUrls(signature.split('\n').map(parseMediaKey)).then(signed => {
+      if (cancelled) return;
+      setUrls(new Map(Array.from(signed, ([key, entry]) => [key, entry.url])));
+
+      // Nouvelle signature peu après que la plus proche expiration entre dans la marge de renouvellement
+      const nextExpiry = Math.min(...Array.from(signed.values(), entry => entry.expiresAt));
+      if (isFinite(nextExpiry)) {
+        const delay = Math.max(nextExpiry - REFRESH_MARGIN_MS - Date.now(), 0) + 1000;
+        refreshTimer = setTimeout(() => setRefreshCount(count => count + 1), delay);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(refreshTimer);
+    };
+  }, [signature, refreshCount]);
+
+  return useCallback(
+    (ref: MaybeMediaRef) => ref ? getCachedMediaUrl(ref) ?? urls.get(mediaKey(ref)) : undefined,
+    [urls]
+  );
+}
+
+/**
+ * URL signée d'un seul média
+ */
+export function useMediaUrl(ref: MaybeMediaRef): string | undefined {
+  return useMediaUrls([ref])(ref);
+}
+
+/**
+ * URLs d'affichage d'une liste de photos à une taille donnée
+ * @returns Une fonction donnant l'URL d'une photo de la liste
+ */
+export function usePhotoUrls(
+  photos: (PhotoPaths | null | undefined)[],
+  size: DerivativeSize
+): (photo: PhotoPaths | null | undefined) => string | undefined {
+  const mediaUrl = useMediaUrls(photos.map(photo => photo && getPhotoMedia(photo, size)));
+  return useCallback(
+    (photo: PhotoPaths | null | undefined) => photo ? mediaUrl(getPhotoMedia(photo, size)) : undefined,
+    [mediaUrl, size]
+  );
+}
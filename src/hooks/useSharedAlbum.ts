@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { SharedAlbumPayload, SharedDay } from '@shared/sharedAlbum';
+
+export interface SharedDayWithTitle extends SharedDay {
+  calculatedTitle: string;
+}
+
+interface SharedAlbumContextType {
+  token: string;
+  shared: SharedAlbumPayload;
+  days: SharedDayWithTitle[];
+}
+
+export const SharedAlbumContext = createContext<SharedAlbumContextType | undefined>(undefined);
+
+/**
+ * Lien de partage ouvert par SharedAlbumProvider
+ */
+export function useSharedAlbum() {
+  const context = useContext(SharedAlbumContext);
+  if (context === undefined) {
+    throw new Error('useSharedAlbum must be used within a SharedAlbumProvider');
+  }
+  return context;
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { uploadPhoto, PhotoMetadata } from '@/utils/photoUpload';
+import type { AppLocale } from '@shared/dayTitle';
+import {
+  StoredUploadItem,
+  saveUploadItem,
+  deleteUploadItem,
+  getUnfinishedUploadItems
+} from '@/utils/uploadQueueStore';
+
+export type { UploadStatus } from '@/utils/uploadQueueStore';
+
+export interface UploadQueueItem extends StoredUploadItem {
+  preview: string;
+}
+
+export interface QueuedPhoto {
+  id: string;
+  file: File;
+  displayFile?: File;
+  companionVideo?: File;
+  preview: string;
+  metadata?: PhotoMetadata;
+  replacePhotoId?: string;
+}
+
+interface UploadQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  // Appelé quand il ne reste plus rien à envoyer
+  onDrained?: (summary: { done: number; failed: number }) => void;
+  // Appelé quand des envois interrompus ont été retrouvés au chargement
+  onRestored?: (count: number) => void;
+  // Langue des titres provisoires des journées créées
+  locale?: AppLocale;
+}
+
+const RETRY_BASE_DELAY = 1000;
+
+const toStoredItem = ({ preview, ...item }: UploadQueueItem): StoredUploadItem => item;
+
+const persist = (item: UploadQueueItem) => {
+  saveUploadItem(toStoredItem(item)).catch(error => {
+    console.warn('Impossible de sauvegarder la file d\'upload:', error);
+  });
+};
+
+export function useUploadQueue(
+  albumId: string,
+  userId: string | undefined,
+  options: UploadQueueOptions = {}
+) {
+  const { concurrency = 3, maxAttempts = 3 } = options;
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const itemsRef = useRef<UploadQueueItem[]>([]);
+  const activeRef = useRef(0);
+  const runningRef = useRef(false);
+  const settingsRef = useRef({ concurrency, maxAttempts });
+  const optionsRef = useRef(options);
+
+  settingsRef.current = { concurrency, maxAttempts };
+  optionsRef.current = options;
+
+  const commit = useCallback((next: UploadQueueItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadQueueItem>, shouldPersist = true) => {
+    const next = itemsRef.current.map(item => item.id === id ? { ...item, ...changes } : item);
+    commit(next);
+    const updated = next.find(item => item.id === id);
+    if (updated && shouldPersist) persist(updated);
+  }, [commit]);
+
+  const checkDrained = useCallback(() => {
+    if (!runningRef.current || activeRef.current > 0) return;
+    if (itemsRef.current.some(item => item.status === 'pending')) return;
+
+    runningRef.current = false;
+    optionsRef.current.onDrained?.({
+      done: itemsRef.current.filter(item => item.status === 'done').length,
+      failed: itemsRef.current.filter(item => item.status === 'failed').length
+    });
+  }, []);
+
+  const pump = useCallback(() => {
+    const now = Date.now();
+
+    while (activeRef.current < settingsRef.current.concurrency) {
+      const next = itemsRef.current.find(item =>
+        item.status === 'pending' && (item.nextAttemptAt ?? 0) <= now
+      );
+      if (!next) break;
+
+      runningRef.current = true;
+      activeRef.current++;
+      const attempts = next.attempts + 1;
+      updateItem(next.id, { status: 'uploading', attempts, error: undefined });
+
+      uploadPhoto(next.file, next.metadata, {
+        userId: next.userId,
+        albumId: next.albumId,
+        storageKey: next.id,
+        replacePhotoId: next.replacePhotoId,
+        displaySource: next.displayFile,
+        companionVideo: next.companionVideo,
+        locale: optionsRef.current.locale
+      })
+        .then(() => {
+          updateItem(next.id, { status: 'done', error: undefined }, false);
+          deleteUploadItem(next.id).catch(error => {
+            console.warn('Impossible de retirer l\'élément de la file:', error);
+          });
+        })
+        .catch(error => {
+          console.error(`Erreur upload ${next.file.name}:`, error);
+          const message = error?.message || 'Erreur inconnue';
+
+          if (attempts < settingsRef.current.maxAttempts) {
+            // Backoff exponentiel : 1s, 2s, 4s...
+            const delay = RETRY_BASE_DELAY * 2 ** (attempts - 1);
+            updateItem(next.id, { status: 'pending', error: message, nextAttemptAt: Date.now() + delay });
+            setTimeout(pump, delay);
+          } else {
+            updateItem(next.id, { status: 'failed', error: message });
+          }
+        })
+        .finally(() => {
+          activeRef.current--;
+          pump();
+          checkDrained();
+        });
+    }
+  }, [updateItem, checkDrained]);
+
+  // Reprendre les envois interrompus lors d'une visite précédente
+  useEffect(() => {
+    if (!albumId || !userId) return;
+    let cancelled = false;
+
+    getUnfinishedUploadItems(albumId)
+      .then(storedItems => {
+        if (cancelled) return;
+
+        const knownIds = new Set(itemsRef.current.map(item => item.id));
+        const restored: UploadQueueItem[] = storedItems
+          .filter(item => item.userId === userId && !knownIds.has(item.id))
+          .map(item => ({
+            ...item,
+            // Un envoi coupé en plein vol est à refaire
+            status: item.status === 'uploading' ? 'pending' : item.status,
+            nextAttemptAt: undefined,
+            preview: URL.createObjectURL(item.displayFile || item.file)
+          }));
+
+        if (restored.length === 0) return;
+
+        commit([...itemsRef.current, ...restored]);
+        optionsRef.current.onRestored?.(restored.length);
+        pump();
+      })
+      .catch(error => {
+        console.warn('Impossible de lire la file d\'upload:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [albumId, userId, commit, pump]);
+
+  // Un changement de limite s'applique immédiatement
+  useEffect(() => {
+    pump();
+  }, [concurrency, pump]);
+
+  const enqueue = useCallback((photos: QueuedPhoto[]) => {
+    if (!userId) return;
+
+    const now = Date.now();
+    const newItems: UploadQueueItem[] = photos.map((photo, index) => ({
+      id: photo.id,
+      albumId,
+      userId,
+      file: photo.file,
+      displayFile: photo.displayFile,
+      companionVideo: photo.companionVideo,
+      metadata: photo.metadata,
+      replacePhotoId: photo.replacePhotoId,
+      preview: photo.preview,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now + index
+    }));
+
+    commit([...itemsRef.current, ...newItems]);
+    newItems.forEach(persist);
+    pump();
+  }, [albumId, userId, commit, pump]);
+
+  const retryFailed = useCallback(() => {
+    const failedIds = new Set(itemsRef.current.filter(item => item.status === 'failed').map(item => item.id));
+    if (failedIds.size === 0) return;
+
+    const next = itemsRef.current.map(item => failedIds.has(item.id)
+      ? { ...item, status: 'pending' as const, attempts: 0, nextAttemptAt: undefined }
+      : item
+    );
+    commit(next);
+    next.filter(item => failedIds.has(item.id)).forEach(persist);
+    pump();
+  }, [commit, pump]);
+
+  const removeItem = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item || item.status === 'uploading') return;
+
+    URL.revokeObjectURL(item.preview);
+    commit(itemsRef.current.filter(i => i.id !== id));
+    deleteUploadItem(id).catch(error => {
+      console.warn('Impossible de retirer l\'élément de la file:', error);
+    });
+    checkDrained();
+  }, [commit, checkDrained]);
+
+  const clearFinished = useCallback(() => {
+    itemsRef.current
+      .filter(item => item.status === 'done')
+      .forEach(item => URL.revokeObjectURL(item.preview));
+    commit(itemsRef.current.filter(item => item.status !== 'done'));
+  }, [commit]);
+
+  const counts = {
+    total: items.length,
+    pending: items.filter(item => item.status === 'pending').length,
+    uploading: items.filter(item => item.status === 'uploading').length,
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length
+  };
+
+  return {
+    items,
+    counts,
+    isRunning: counts.pending + counts.uploading > 0,
+    enqueue,
+    retryFailed,
+    removeItem,
+    clearFinished
+  };
+}
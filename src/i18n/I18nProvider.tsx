@@ -0,0 +1,70 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { AppLocale, dateFnsLocale, resolveLocale } from '@shared/dayTitle';
+import { I18nContext } from './useI18n';
+import { CATALOGS } from './catalogs';
+
+// Langue retenue avant la connexion, et en attendant la préférence enregistrée
+const STORAGE_KEY = 'locale';
+
+const initialLocale = (): AppLocale =>
+  resolveLocale(localStorage.getItem(STORAGE_KEY) || navigator.language);
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [locale, setLocaleState] = useState<AppLocale>(initialLocale);
+
+  // Préférence enregistrée du compte, prioritaire sur celle du navigateur
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('user_preferences')
+      .select('locale')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Erreur lors du chargement des préférences:', error);
+          return;
+        }
+        if (data) {
+          const preferred = resolveLocale(data.locale);
+          localStorage.setItem(STORAGE_KEY, preferred);
+          setLocaleState(preferred);
+        }
+      });
+  }, [user]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(async (next: AppLocale) => {
+    setLocaleState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ user_id: user.id, locale: next }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Erreur lors de l\'enregistrement de la langue:', error);
+      toast.error(CATALOGS[next].preferences.languageSaveError);
+    }
+  }, [user]);
+
+  return (
+    <I18nContext.Provider value={{
+      locale,
+      setLocale,
+      t: CATALOGS[locale],
+      dateLocale: dateFnsLocale(locale),
+    }}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
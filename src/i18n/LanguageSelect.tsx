@@ -0,0 +1,31 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { APP_LOCALES, AppLocale } from '@shared/dayTitle';
+import { useI18n } from './useI18n';
+
+// Chaque langue est désignée dans sa propre langue
+const LANGUAGE_NAMES: Record<AppLocale, string> = {
+  fr: 'Français',
+  en: 'English',
+};
+
+export function LanguageSelect({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={(value) => setLocale(value as AppLocale)}>
+      <SelectTrigger className={`w-[130px] ${className}`} aria-label={t.common.language}>
+        <Languages className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[9999]">
+        {APP_LOCALES.map(option => (
+          <SelectItem key={option} value={option}>
+            {LANGUAGE_NAMES[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,6 @@
+import type { AppLocale } from '@shared/dayTitle';
+import { fr, Messages } from './fr';
+import { en } from './en';
+
+// Catalogues par langue, aussi pour les textes enregistrés hors des composants
+export const CATALOGS: Record<AppLocale, Messages> = { fr, en };
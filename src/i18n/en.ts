@@ -0,0 +1,495 @@
+/**
+ * Catalogue anglais
+ */
+
+import type { Messages } from './fr';
+
+const plural = (count: number, singular: string, pluralForm: string) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+export const en: Messages = {
+  common: {
+    appName: 'PhotoAlbum',
+    back: 'Back',
+    backToAlbums: 'Back to albums',
+    backToAlbum: 'Back to album',
+    close: 'Close',
+    cancel: 'Cancel',
+    create: 'Create',
+    save: 'Save',
+    edit: 'Edit',
+    delete: 'Delete',
+    signOut: 'Sign out',
+    error: 'Error',
+    language: 'Language',
+    photoCount: (count: number) => plural(count, 'photo', 'photos'),
+  },
+
+  auth: {
+    tagline: 'Organize your memories by place and date',
+    welcome: 'Welcome',
+    intro: 'Sign in or create an account to manage your photo albums',
+    signInTab: 'Sign in',
+    signUpTab: 'Sign up',
+    email: 'Email',
+    emailPlaceholder: 'you@example.com',
+    password: 'Password',
+    passwordHint: 'At least 6 characters',
+    signIn: 'Sign in',
+    signingIn: 'Signing in...',
+    signUp: 'Create an account',
+    signingUp: 'Creating...',
+    missingFields: 'Please fill in all fields',
+    passwordTooShort: 'The password must be at least 6 characters long',
+    signInError: 'Sign-in failed',
+    signInSuccess: 'Signed in!',
+    emailTaken: 'This email address is already in use',
+    signUpError: 'Sign-up failed',
+    signUpSuccess: 'Account created! Check your email to confirm your registration.',
+  },
+
+  albums: {
+    subtitle: 'My Albums',
+    memories: 'Memories',
+    places: 'Places',
+    timeline: 'Timeline',
+    newAlbum: 'New Album',
+    loading: 'Loading your albums...',
+    empty: 'No albums yet',
+    emptyHint: 'Create your first photo album to start organizing your memories by place and date.',
+    createFirst: 'Create my first album',
+    createTitle: 'Create a new album',
+    createDescription: 'Add a title and a description for your new album',
+    editTitle: 'Edit album',
+    editDescription: 'Change the title and description of your album',
+    titleLabel: 'Title',
+    titlePlaceholder: 'Album name',
+    descriptionLabel: 'Description (optional)',
+    descriptionPlaceholder: 'Album description',
+    customDates: 'Set trip dates',
+    startDate: 'First day',
+    endDate: 'Last day',
+    automaticDates: 'From the first to the last day of the album\'s photos.',
+    invalidDates: 'The last day must come after the first',
+    confirmDelete: 'Are you sure you want to delete this album? This cannot be undone.',
+    titleRequired: 'A title is required',
+    loadError: 'Could not load albums',
+    created: 'Album created',
+    createError: 'Could not create the album',
+    updated: 'Album updated',
+    updateError: 'Could not update the album',
+    deleted: 'Album deleted',
+    deleteError: 'Could not delete the album',
+    shared: 'Shared',
+    roles: { owner: 'Owner', editor: 'Editor', viewer: 'Viewer' },
+    invitations: 'Invitations',
+    invitedBy: (email: string | null) => email ? `Invited by ${email}` : 'Invitation',
+    accept: 'Join',
+    decline: 'Decline',
+    invitationAccepted: 'You joined the album',
+    invitationDeclined: 'Invitation declined',
+    invitationError: 'Could not answer the invitation',
+    newActivity: (comments: number, reactions: number) =>
+      `Since your last visit: ${plural(comments, 'comment', 'comments')}, ${plural(reactions, 'reaction', 'reactions')}`,
+  },
+
+  places: {
+    title: 'Places',
+    summary: (photoCount: number, countryCount: number) =>
+      `${plural(photoCount, 'photo', 'photos')} in ${plural(countryCount, 'country', 'countries')}`,
+    empty: 'No known places',
+    emptyHint: 'Geotagged photos will appear here, grouped by country, region and city.',
+    choose: 'Choose a country, a region or a city',
+    unknownRegion: 'Unknown region',
+    unknownMunicipality: 'Unknown city',
+    mostRecent: (count: number) => `(${count} most recent)`,
+    loadError: 'Could not load places',
+    photosLoadError: 'Could not load photos',
+  },
+
+  timeline: {
+    title: 'Timeline',
+    summary: (albumCount: number, yearCount: number) =>
+      `${plural(albumCount, 'trip', 'trips')} over ${plural(yearCount, 'year', 'years')}`,
+    empty: 'No albums',
+    emptyHint: 'Your trips will appear here, placed on the year from the dates of their photos.',
+    days: (count: number) => plural(count, 'day', 'days'),
+    undated: 'No dated photos',
+    loadError: 'Could not load the timeline',
+  },
+
+  memories: {
+    title: 'Memories',
+    loading: 'Loading memories...',
+    empty: 'No photos found',
+    emptyHint: 'Add photos to your albums to create memories.',
+    untitledAlbum: 'Untitled album',
+    photoAlt: 'Memory photo',
+    playing: 'Autoplay',
+    paused: 'Paused',
+  },
+
+  map: {
+    empty: 'No geotagged photos',
+    emptyHint: 'Add photos with location data to see the map',
+    inferredPosition: 'Estimated position',
+    showInferred: 'Estimated positions',
+  },
+
+  photo: {
+    setAsCover: 'Use as day cover',
+    deleteTitle: 'Delete photo',
+    confirmDelete: 'Are you sure you want to delete this photo? This cannot be undone.',
+    deleting: 'Deleting...',
+    deleted: 'Photo deleted',
+    deleteError: 'Could not delete the photo',
+    untitled: 'Untitled photo',
+    favoriteAlt: 'Favorite photo',
+    titlePlaceholder: 'Photo title',
+    titleUpdated: 'Title updated',
+    titleUpdatedDescription: 'The photo title was updated.',
+    titleUpdateError: 'Could not update the title.',
+    favorite: 'Favorite',
+    addToFavorites: 'Add to favorites',
+    favoriteAdded: 'Added to favorites',
+    favoriteAddedDescription: 'The photo was added to favorites.',
+    favoriteRemoved: 'Removed from favorites',
+    favoriteRemovedDescription: 'The photo was removed from favorites.',
+    favoriteError: 'Could not change the favorite status.',
+    original: 'Original',
+    downloadError: 'Could not download the original.',
+    deletedDescription: 'The photo was deleted.',
+    deleteFailed: 'Could not delete the photo.',
+  },
+
+  metadata: {
+    button: 'Coordinates & places',
+    updating: 'Updating...',
+    steps: {
+      loading: 'Loading',
+      locations: 'Positions',
+      places: 'Place names',
+      titles: 'Titles',
+      photos: 'Saving photos',
+      days: 'Saving days',
+    },
+    upToDate: 'Metadata up to date',
+    noChanges: 'No changes',
+    confirm: (photoCount: number, created: number, updated: number, deleted: number) =>
+      `${plural(photoCount, 'photo', 'photos')} to update\n` +
+      `Days: ${created} to create, ${updated} to update, ${deleted} to delete\n\n` +
+      'Apply these changes?',
+    progressTitle: 'Updating metadata',
+    successTitle: 'Done',
+    success: (photoCount: number, dayCount: number) =>
+      `${plural(photoCount, 'photo', 'photos')} and ${plural(dayCount, 'day', 'days')} updated`,
+    errorTitle: 'Error',
+    error: 'Could not update the album metadata',
+  },
+
+  print: {
+    settingsTitle: 'Print settings',
+    settingsDescription: 'Set up how your printed album looks',
+    backgroundColor: 'Background color',
+    colors: { white: 'White', cream: 'Cream', lightGray: 'Light gray', beige: 'Beige' },
+    customColor: 'Custom color',
+    photosPerRow: 'Photos per row',
+    perRow: (count: number) => `${plural(count, 'photo', 'photos')} per row`,
+    orientation: 'Orientation',
+    portrait: 'Portrait',
+    landscape: 'Landscape',
+    reset: 'Reset',
+    title: (album: string) => `Print - ${album}`,
+    daysWithContent: (count: number) => `${plural(count, 'day', 'days')} with content`,
+    visitedPlaces: 'Places visited',
+  },
+
+  tracks: {
+    title: 'GPS tracks',
+    description: 'Photos without GPS are placed along the track, according to when they were taken',
+    untimed: 'Track without timestamps',
+    points: (count: number) => plural(count, 'point', 'points'),
+    deleteTrack: 'Delete track',
+    importTrack: 'Import a track',
+    chooseFile: 'Choose a GPX, KML or GeoJSON file',
+    untimedHint: 'Without timestamps, the track is only shown on the map.',
+    maxGap: 'Maximum gap (minutes)',
+    maxGapHint: 'A photo is only placed if the track recorded a point within this gap.',
+    close: 'Close',
+    import: 'Import',
+    unreadable: 'Unreadable track',
+    imported: 'Track imported',
+    importedWithPhotos: (count: number) =>
+      `Track imported, ${plural(count, 'photo geotagged', 'photos geotagged')}`,
+    importError: 'Could not import the track',
+    deleted: 'Track deleted',
+    deleteError: 'Could not delete the track',
+    relocateError: 'Photo positions could not be recalculated',
+  },
+
+  camera: {
+    deviceLabel: (name: string | undefined, serial: string | undefined) =>
+      name ? (serial ? `${name} (S/N ${serial})` : name) : 'Unknown camera',
+  },
+
+  exifPrivacy: {
+    keep: 'All metadata',
+    coarse: 'Rounded position (~10 km)',
+    strip: 'No position',
+  },
+
+  albumSettings: {
+    title: 'Album settings',
+    description: 'Photos are grouped by day according to the local time of the trip',
+    timeZone: 'Time zone',
+    timeZonePlaceholder: 'Not set (UTC)',
+    inferTimeZone: 'Detect from geotagged photos',
+    timeZoneHint: 'Used for photos whose camera did not record a UTC offset.',
+    noGeotaggedPhoto: 'No geotagged photo in this album',
+    inferTimeZoneError: 'Could not detect the time zone',
+    dayCutoff: 'Start of day',
+    midnight: 'Midnight',
+    dayCutoffHint: 'Photos taken before this time belong to the previous day.',
+    defaultPosition: 'Default position',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    defaultPositionHint: 'Given on import to days without any geotagged photo. Leave empty to keep them off the map.',
+    invalidPosition: 'Invalid coordinates: enter a latitude and a longitude in decimal degrees.',
+    dayTitle: 'Day titles',
+    preview: 'Preview: ',
+    sampleLabel: 'Hike',
+    invalidTokens: (tokens: string[]) => `Unknown tokens: ${tokens.join(', ')}`,
+    dayTitleHint: 'Leave empty for the default template. {date:…} takes a date pattern, for example {date:dd/MM/yyyy}.',
+    exifPrivacy: 'Metadata of shared originals',
+    exifPrivacyHint: 'Applies to downloaded originals and to share links that do not override it: camera serial numbers are removed too. Metadata is kept in the album.',
+    shiftDevice: 'Fix a camera clock',
+    chooseDevice: 'Choose a camera',
+    shift: 'Shift',
+    shiftHint: 'The time of every photo from this camera is shifted, then the days are recalculated.',
+    shifted: (count: number) => plural(count, 'photo shifted', 'photos shifted'),
+    shiftError: 'Could not fix the photo times',
+    relocateError: 'Times fixed, but estimated positions could not be recalculated',
+    saved: 'Album settings saved',
+    saveError: 'Could not save the settings',
+  },
+
+  upload: {
+    previewAlt: 'Preview',
+    title: 'Add photos',
+    description: 'Drag and drop your photos, videos or ZIP files, or click to select them. Date and place metadata will be extracted automatically.',
+    select: 'Select your photos',
+    dropHint: 'Drag and drop your files here or click to browse',
+    extractingZip: 'Extracting ZIP...',
+    pleaseWait: 'Please wait...',
+    formats: 'Supported formats: JPG, PNG, HEIC, MP4, MOV, ZIP, etc.',
+    extractingMetadata: 'Extracting metadata...',
+    deviceClocks: 'Camera clocks',
+    applyOffsets: 'Apply offsets',
+    alignOnPhoto: 'Align on a photo whose actual time is known',
+    referencePhoto: 'Reference photo',
+    actualTime: 'Actual time of the photo',
+    compute: 'Compute',
+    offsetHint: 'Offset to add to the camera time, for example +01:00 for a camera still on winter time.',
+    estimated: '(estimated)',
+    duplicateOf: 'Duplicate of',
+    similarTo: 'Similar to',
+    skip: 'Skip',
+    replace: 'Replace',
+    keepBoth: 'Keep both',
+    uploading: 'Uploading...',
+    uploaded: 'Upload finished',
+    status: { pending: 'Waiting', uploading: 'Sending...', done: 'Sent', failed: 'Failed' },
+    attempt: (attempt: number) => ` (attempt ${attempt})`,
+    concurrency: 'Parallel uploads',
+    retryFailed: (count: number) => `Retry failed (${count})`,
+    continueInBackground: 'Continue in background',
+    upload: (count: number) => `Upload ${plural(count, 'photo', 'photos')}`,
+    resumed: (count: number) => `Resuming ${plural(count, 'interrupted upload', 'interrupted uploads')}`,
+    failed: (count: number) => `${plural(count, 'photo', 'photos')} failed, you can retry the upload`,
+    done: (count: number) => `${plural(count, 'photo', 'photos')} uploaded`,
+    metadataError: 'Could not process the metadata',
+    albumTimeZone: (timeZone: string) => `Album time zone: ${timeZone}`,
+    duplicatesFound: (count: number) => `${plural(count, 'possible duplicate', 'possible duplicates')} found`,
+    clocksCorrected: 'Camera times corrected',
+    zipExtracted: (count: number) => `${plural(count, 'file', 'files')} extracted from the ZIP`,
+    zipError: 'Could not extract the ZIP file',
+    unsupported: (filename: string) => `${filename} is not a supported format (image, video or ZIP)`,
+    filesAdded: (count: number, zipCount: number) =>
+      `${plural(count, 'file', 'files')} added` +
+      (zipCount > 0 ? ` (${plural(zipCount, 'ZIP', 'ZIPs')} processed)` : ''),
+    duplicatesSkipped: (count: number) => `${plural(count, 'duplicate', 'duplicates')} skipped`,
+    dayFallbackTitle: (date: string) => `Photos from ${date}`,
+  },
+
+  album: {
+    notFound: 'Album not found',
+    loadError: 'Could not load the album',
+    actions: 'Actions',
+    print: 'Print',
+    slideshow: 'Slideshow',
+    share: 'Share',
+    members: 'Members',
+    generateThumbnails: 'Generate missing thumbnails',
+    generatingThumbnails: 'Generating thumbnails...',
+    generatingThumbnailsProgress: (done: number, total: number) => `Generating thumbnails... ${done}/${total}`,
+    thumbnailsGenerated: (count: number) => `${plural(count, 'thumbnail', 'thumbnails')} generated`,
+    thumbnailsPartial: (done: number, failed: number) =>
+      `${plural(done, 'thumbnail', 'thumbnails')} generated, ${failed} failed`,
+    thumbnailsError: 'Could not generate the thumbnails',
+    days: 'Album days',
+    noPhotos: 'No photos yet',
+    dayThumbnailAlt: 'Day thumbnail',
+  },
+
+  day: {
+    notFound: 'Day not found',
+    loadError: 'Could not load the data',
+    photos: 'Photos of the day',
+    noPhotos: 'No photos for this day',
+    playVideo: 'Play video',
+    addedBy: (name: string) => `Added by ${name}`,
+    mapEmptyHint: 'The photos of this day have no location data',
+    story: 'Story of the day',
+    storyPlaceholder: 'Tell the story of your day...',
+    noStory: 'No story for this day',
+    customLabelPlaceholder: 'Day label ({custom} token of the title)',
+    discussion: 'Discussion',
+    saving: 'Saving...',
+    descriptionSaved: 'Description saved',
+    saveError: 'Could not save',
+    coverSet: 'Photo set as day cover',
+    coverError: 'Could not set the day cover',
+    titleUpdated: 'Title updated',
+    updateError: 'Could not save the change',
+    favoriteAdded: 'Photo added to favorites',
+    favoriteRemoved: 'Photo removed from favorites',
+    thumbnailAlt: 'Thumbnail',
+    editTitle: 'Edit title',
+    automaticTitle: (title: string) => `Automatic title: ${title}`,
+    resetTitle: 'Back to the automatic title',
+    titleSaveError: 'Could not save the day title',
+  },
+
+  dayTitles: {
+    update: 'Update titles',
+    updating: 'Updating...',
+    updateError: 'Could not update the day titles',
+    upToDate: 'Titles up to date',
+    noChanges: 'No changes',
+    noChangesKeptCustom: (count: number) =>
+      `No changes, ${plural(count, 'custom title', 'custom titles')} kept`,
+    untitled: '(untitled)',
+    confirmChanges: (count: number, examples: string) =>
+      `${plural(count, 'day title', 'day titles')} will change:\n${examples}`,
+    success: 'Done',
+    updated: (count: number) => `${plural(count, 'day title', 'day titles')} updated`,
+    unexpectedError: 'An unexpected error occurred',
+  },
+
+  slideshow: {
+    title: (album: string) => `Slideshow - ${album}`,
+    loading: 'Loading the slideshow...',
+    empty: 'No photos in this album',
+    emptyHint: 'Add photos to this album to create a slideshow.',
+    photoAlt: 'Slideshow photo',
+    playing: 'Autoplay',
+    paused: 'Paused',
+  },
+
+  share: {
+    title: 'Share album',
+    description: 'A link gives read-only access, without an account, to the album or one of its days',
+    revoked: 'Revoked',
+    expired: 'Expired',
+    wholeAlbum: 'Whole album',
+    until: (date: string) => `Until ${date}`,
+    noExpiry: 'No expiry',
+    copyLink: 'Copy link',
+    revokeLink: 'Revoke link',
+    linkCopied: 'Link copied',
+    copyError: 'Could not copy the link',
+    createError: 'Could not create the share link',
+    linkRevoked: 'Link revoked',
+    revokeError: 'Could not revoke the link',
+    newLink: 'New link',
+    labelPlaceholder: 'Link name (for example: Family)',
+    password: 'Password',
+    optional: 'Optional',
+    expiration: 'Expiry',
+    expirationHint: 'Leave empty for a link that stays valid until revoked.',
+    privacy: 'Metadata of originals',
+    albumPrivacy: 'Album setting',
+    privacyHint: 'Positions shown on the link\'s map follow the same setting.',
+    create: 'Create and copy link',
+    protectedAlbum: 'Protected album',
+    unavailable: 'Link unavailable',
+    passwordHint: 'Enter the password shared with the link.',
+    openAlbum: 'Open album',
+    previewUnavailable: 'Preview unavailable',
+    failures: {
+      not_found: 'This share link does not exist',
+      password_required: 'This link is password protected',
+      invalid_password: 'Incorrect password',
+      expired: 'This share link has expired',
+      revoked: 'This share link has been revoked',
+    },
+  },
+
+  members: {
+    title: 'Album members',
+    description: 'Editors add photos and edit titles and stories, viewers browse the album',
+    roles: { owner: 'Owner', editor: 'Editor', viewer: 'Viewer' },
+    you: 'you',
+    formerMember: 'a former member',
+    unknownAddress: 'Unknown address',
+    remove: 'Remove from album',
+    pendingInvitations: 'Pending invitations',
+    cancelInvitation: 'Cancel invitation',
+    inviteByEmail: 'Invite by email',
+    emailPlaceholder: 'address@email.com',
+    leave: 'Leave album',
+    invite: 'Invite',
+    invalidEmail: 'Invalid email address',
+    alreadyMember: 'This person is already a member of the album',
+    invitationPending: 'An invitation is already pending for this address',
+    invited: 'Invitation saved',
+    invitedDescription: 'It will appear in this person\'s album list once they sign in with this address.',
+    inviteError: 'Could not send the invitation',
+    cancelInvitationError: 'Could not cancel the invitation',
+    roleChangeError: 'Could not change the role',
+    confirmLeave: 'Leave this album? You will need a new invitation to come back.',
+    confirmRemove: (email: string | null) => `Remove ${email || 'this member'} from the album?`,
+    left: 'You left the album',
+    removeError: 'Could not remove the member',
+  },
+
+  discussion: {
+    send: 'Send',
+    reply: 'Reply',
+    replyTo: (name: string) => `Reply to ${name}...`,
+    addComment: 'Add a comment...',
+    noComments: 'No comments',
+    comments: (count: number) => plural(count, 'comment', 'comments'),
+    dateFormat: "d MMM 'at' HH:mm",
+    sendError: 'Could not send the comment',
+    reactionError: 'Could not save the reaction',
+    confirmDeleteThread: 'Delete this comment and its replies?',
+    confirmDelete: 'Delete this comment?',
+    deleteError: 'Could not delete the comment',
+  },
+
+  presence: {
+    someone: 'A member',
+    viewingDay: (name: string) => `${name} is viewing this day`,
+    viewingAlbum: (name: string) => `${name} is viewing the album`,
+  },
+
+  preferences: {
+    languageSaveError: 'Could not save the language',
+  },
+
+  notFound: {
+    message: 'Oops! Page not found',
+    home: 'Return to Home',
+  },
+};
@@ -0,0 +1,495 @@
+/**
+ * Catalogue français (langue de référence : les autres catalogues reprennent sa forme)
+ */
+
+const plural = (count: number, singular: string, pluralForm: string) =>
+  `${count} ${count > 1 ? pluralForm : singular}`;
+
+export const fr = {
+  common: {
+    appName: 'PhotoAlbum',
+    back: 'Retour',
+    backToAlbums: 'Retour aux albums',
+    backToAlbum: 'Retour à l\'album',
+    close: 'Fermer',
+    cancel: 'Annuler',
+    create: 'Créer',
+    save: 'Sauvegarder',
+    edit: 'Modifier',
+    delete: 'Supprimer',
+    signOut: 'Déconnexion',
+    error: 'Erreur',
+    language: 'Langue',
+    photoCount: (count: number) => plural(count, 'photo', 'photos'),
+  },
+
+  auth: {
+    tagline: 'Organisez vos souvenirs par lieux et dates',
+    welcome: 'Bienvenue',
+    intro: 'Connectez-vous ou créez un compte pour gérer vos albums photo',
+    signInTab: 'Connexion',
+    signUpTab: 'Inscription',
+    email: 'Email',
+    emailPlaceholder: 'votre@email.com',
+    password: 'Mot de passe',
+    passwordHint: 'Minimum 6 caractères',
+    signIn: 'Se connecter',
+    signingIn: 'Connexion...',
+    signUp: 'Créer un compte',
+    signingUp: 'Création...',
+    missingFields: 'Veuillez remplir tous les champs',
+    passwordTooShort: 'Le mot de passe doit contenir au moins 6 caractères',
+    signInError: 'Erreur de connexion',
+    signInSuccess: 'Connexion réussie !',
+    emailTaken: 'Cette adresse email est déjà utilisée',
+    signUpError: 'Erreur lors de l\'inscription',
+    signUpSuccess: 'Compte créé ! Vérifiez votre email pour confirmer votre inscription.',
+  },
+
+  albums: {
+    subtitle: 'Mes Albums',
+    memories: 'Souvenirs',
+    places: 'Lieux',
+    timeline: 'Chronologie',
+    newAlbum: 'Nouvel Album',
+    loading: 'Chargement de vos albums...',
+    empty: 'Aucun album trouvé',
+    emptyHint: 'Créez votre premier album photo pour commencer à organiser vos souvenirs par lieux et dates.',
+    createFirst: 'Créer mon premier album',
+    createTitle: 'Créer un nouvel album',
+    createDescription: 'Ajoutez un titre et une description pour votre nouvel album',
+    editTitle: 'Modifier l\'album',
+    editDescription: 'Modifiez le titre et la description de votre album',
+    titleLabel: 'Titre',
+    titlePlaceholder: 'Nom de l\'album',
+    descriptionLabel: 'Description (optionnel)',
+    descriptionPlaceholder: 'Description de l\'album',
+    customDates: 'Fixer les dates du voyage',
+    startDate: 'Premier jour',
+    endDate: 'Dernier jour',
+    automaticDates: 'Du premier au dernier jour des photos de l\'album.',
+    invalidDates: 'Le dernier jour doit suivre le premier',
+    confirmDelete: 'Êtes-vous sûr de vouloir supprimer cet album ? Cette action est irréversible.',
+    titleRequired: 'Le titre est requis',
+    loadError: 'Erreur lors du chargement des albums',
+    created: 'Album créé avec succès',
+    createError: 'Erreur lors de la création de l\'album',
+    updated: 'Album modifié avec succès',
+    updateError: 'Erreur lors de la modification de l\'album',
+    deleted: 'Album supprimé avec succès',
+    deleteError: 'Erreur lors de la suppression de l\'album',
+    shared: 'Partagé',
+    roles: { owner: 'Propriétaire', editor: 'Éditeur', viewer: 'Lecteur' },
+    invitations: 'Invitations',
+    invitedBy: (email: string | null) => email ? `Invitation de ${email}` : 'Invitation',
+    accept: 'Rejoindre',
+    decline: 'Refuser',
+    invitationAccepted: 'Vous avez rejoint l\'album',
+    invitationDeclined: 'Invitation refusée',
+    invitationError: 'Erreur lors de la réponse à l\'invitation',
+    newActivity: (comments: number, reactions: number) =>
+      `Depuis votre dernière visite : ${plural(comments, 'commentaire', 'commentaires')}, ${plural(reactions, 'réaction', 'réactions')}`,
+  },
+
+  places: {
+    title: 'Lieux',
+    summary: (photoCount: number, countryCount: number) =>
+      `${plural(photoCount, 'photo', 'photos')} dans ${countryCount} pays`,
+    empty: 'Aucun lieu connu',
+    emptyHint: 'Les photos géolocalisées apparaîtront ici, classées par pays, région et commune.',
+    choose: 'Choisissez un pays, une région ou une commune',
+    unknownRegion: 'Région inconnue',
+    unknownMunicipality: 'Commune inconnue',
+    mostRecent: (count: number) => `(${count} plus récentes)`,
+    loadError: 'Erreur lors du chargement des lieux',
+    photosLoadError: 'Erreur lors du chargement des photos',
+  },
+
+  timeline: {
+    title: 'Chronologie',
+    summary: (albumCount: number, yearCount: number) =>
+      `${plural(albumCount, 'voyage', 'voyages')} sur ${plural(yearCount, 'année', 'années')}`,
+    empty: 'Aucun album',
+    emptyHint: 'Vos voyages apparaîtront ici, placés sur l\'année d\'après les dates de leurs photos.',
+    days: (count: number) => plural(count, 'jour', 'jours'),
+    undated: 'Sans photo datée',
+    loadError: 'Erreur lors du chargement de la chronologie',
+  },
+
+  memories: {
+    title: 'Souvenirs',
+    loading: 'Chargement des souvenirs...',
+    empty: 'Aucune photo trouvée',
+    emptyHint: 'Ajoutez des photos à vos albums pour créer des souvenirs.',
+    untitledAlbum: 'Album sans titre',
+    photoAlt: 'Photo souvenir',
+    playing: 'Lecture automatique',
+    paused: 'En pause',
+  },
+
+  map: {
+    empty: 'Aucune photo géolocalisée',
+    emptyHint: 'Ajoutez des photos avec des données de localisation pour voir la carte',
+    inferredPosition: 'Position estimée',
+    showInferred: 'Positions estimées',
+  },
+
+  photo: {
+    setAsCover: 'Miniature du jour',
+    deleteTitle: 'Supprimer la photo',
+    confirmDelete: 'Êtes-vous sûr de vouloir supprimer cette photo ? Cette action est irréversible.',
+    deleting: 'Suppression...',
+    deleted: 'Photo supprimée',
+    deleteError: 'Erreur lors de la suppression',
+    untitled: 'Photo sans titre',
+    favoriteAlt: 'Photo favorite',
+    titlePlaceholder: 'Titre de la photo',
+    titleUpdated: 'Titre mis à jour',
+    titleUpdatedDescription: 'Le titre de la photo a été modifié avec succès.',
+    titleUpdateError: 'Impossible de mettre à jour le titre.',
+    favorite: 'Favori',
+    addToFavorites: 'Ajouter aux favoris',
+    favoriteAdded: 'Ajouté aux favoris',
+    favoriteAddedDescription: 'La photo a été ajoutée aux favoris.',
+    favoriteRemoved: 'Retiré des favoris',
+    favoriteRemovedDescription: 'La photo a été retirée des favoris.',
+    favoriteError: 'Impossible de modifier le statut favori.',
+    original: 'Original',
+    downloadError: 'Impossible de télécharger l\'original.',
+    deletedDescription: 'La photo a été supprimée avec succès.',
+    deleteFailed: 'Impossible de supprimer la photo.',
+  },
+
+  metadata: {
+    button: 'Coordonnées & lieux',
+    updating: 'Mise à jour...',
+    steps: {
+      loading: 'Chargement',
+      locations: 'Positions',
+      places: 'Lieux-dits',
+      titles: 'Titres',
+      photos: 'Enregistrement des photos',
+      days: 'Enregistrement des journées',
+    },
+    upToDate: 'Métadonnées à jour',
+    noChanges: 'Aucun changement',
+    confirm: (photoCount: number, created: number, updated: number, deleted: number) =>
+      `${plural(photoCount, 'photo', 'photos')} à mettre à jour\n` +
+      `Journées : ${created} à créer, ${updated} à modifier, ${deleted} à supprimer\n\n` +
+      'Appliquer ces changements ?',
+    progressTitle: 'Mise à jour des métadonnées',
+    successTitle: 'Succès',
+    success: (photoCount: number, dayCount: number) =>
+      `${plural(photoCount, 'photo', 'photos')} et ${plural(dayCount, 'journée', 'journées')} mises à jour`,
+    errorTitle: 'Erreur',
+    error: 'Impossible de mettre à jour les métadonnées de l\'album',
+  },
+
+  print: {
+    settingsTitle: 'Paramètres d\'impression',
+    settingsDescription: 'Configurez l\'apparence de votre album imprimé',
+    backgroundColor: 'Couleur de fond',
+    colors: { white: 'Blanc', cream: 'Crème', lightGray: 'Gris clair', beige: 'Beige' },
+    customColor: 'Couleur personnalisée',
+    photosPerRow: 'Photos par ligne',
+    perRow: (count: number) => `${plural(count, 'photo', 'photos')} par ligne`,
+    orientation: 'Orientation',
+    portrait: 'Portrait',
+    landscape: 'Paysage',
+    reset: 'Réinitialiser',
+    title: (album: string) => `Impression - ${album}`,
+    daysWithContent: (count: number) => `${plural(count, 'journée', 'journées')} avec contenu`,
+    visitedPlaces: 'Lieux visités',
+  },
+
+  tracks: {
+    title: 'Traces GPS',
+    description: 'Les photos sans GPS sont positionnées d\'après la trace, selon leur heure de prise de vue',
+    untimed: 'Trace sans horodatage',
+    points: (count: number) => plural(count, 'point', 'points'),
+    deleteTrack: 'Supprimer la trace',
+    importTrack: 'Importer une trace',
+    chooseFile: 'Choisir un fichier GPX, KML ou GeoJSON',
+    untimedHint: 'Sans horodatage, la trace est seulement affichée sur la carte.',
+    maxGap: 'Écart maximal (minutes)',
+    maxGapHint: 'Une photo n\'est positionnée que si la trace a enregistré un point à moins de cet écart.',
+    close: 'Fermer',
+    import: 'Importer',
+    unreadable: 'Trace illisible',
+    imported: 'Trace importée',
+    importedWithPhotos: (count: number) =>
+      `Trace importée, ${plural(count, 'photo géolocalisée', 'photos géolocalisées')}`,
+    importError: 'Erreur lors de l\'import de la trace',
+    deleted: 'Trace supprimée',
+    deleteError: 'Erreur lors de la suppression de la trace',
+    relocateError: 'Les positions des photos n\'ont pas pu être recalculées',
+  },
+
+  camera: {
+    deviceLabel: (name: string | undefined, serial: string | undefined) =>
+      name ? (serial ? `${name} (n° ${serial})` : name) : 'Appareil inconnu',
+  },
+
+  exifPrivacy: {
+    keep: 'Toutes les métadonnées',
+    coarse: 'Position arrondie (~10 km)',
+    strip: 'Sans position',
+  },
+
+  albumSettings: {
+    title: 'Paramètres de l\'album',
+    description: 'Les photos sont regroupées par jour selon l\'heure locale du voyage',
+    timeZone: 'Fuseau horaire',
+    timeZonePlaceholder: 'Non défini (UTC)',
+    inferTimeZone: 'Détecter d\'après les photos géolocalisées',
+    timeZoneHint: 'Utilisé pour les photos dont l\'appareil n\'a pas enregistré de décalage horaire.',
+    noGeotaggedPhoto: 'Aucune photo géolocalisée dans cet album',
+    inferTimeZoneError: 'Impossible de détecter le fuseau horaire',
+    dayCutoff: 'Début de journée',
+    midnight: 'Minuit',
+    dayCutoffHint: 'Les photos prises avant cette heure sont rattachées à la veille.',
+    defaultPosition: 'Position par défaut',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    defaultPositionHint: 'Attribuée à l\'import aux journées sans aucune photo géolocalisée. Laisser vide pour ne pas les placer sur la carte.',
+    invalidPosition: 'Coordonnées invalides : renseigner une latitude et une longitude en degrés décimaux.',
+    dayTitle: 'Titre des journées',
+    preview: 'Aperçu : ',
+    sampleLabel: 'Randonnée',
+    invalidTokens: (tokens: string[]) => `Jetons non reconnus : ${tokens.join(', ')}`,
+    dayTitleHint: 'Laisser vide pour le modèle par défaut. {date:…} accepte un motif de date, par exemple {date:dd/MM/yyyy}.',
+    exifPrivacy: 'Métadonnées des originaux partagés',
+    exifPrivacyHint: 'S\'applique aux originaux téléchargés et aux liens de partage qui ne le remplacent pas : les numéros de série de l\'appareil sont aussi retirés. Les métadonnées restent conservées dans l\'album.',
+    shiftDevice: 'Corriger l\'horloge d\'un appareil',
+    chooseDevice: 'Choisir un appareil',
+    shift: 'Décaler',
+    shiftHint: 'L\'heure de toutes les photos de l\'appareil est décalée, puis les journées sont recalculées.',
+    shifted: (count: number) => plural(count, 'photo recalée', 'photos recalées'),
+    shiftError: 'Impossible de corriger l\'heure des photos',
+    relocateError: 'Heures corrigées, mais les positions déduites n\'ont pas pu être recalculées',
+    saved: 'Paramètres de l\'album enregistrés',
+    saveError: 'Erreur lors de l\'enregistrement',
+  },
+
+  upload: {
+    previewAlt: 'Aperçu',
+    title: 'Ajouter des photos',
+    description: 'Glissez-déposez vos photos, vidéos ou fichiers ZIP, ou cliquez pour les sélectionner. Les métadonnées de date et lieu seront automatiquement extraites.',
+    select: 'Sélectionnez vos photos',
+    dropHint: 'Glissez-déposez vos fichiers ici ou cliquez pour parcourir',
+    extractingZip: 'Extraction du ZIP...',
+    pleaseWait: 'Veuillez patienter...',
+    formats: 'Formats supportés: JPG, PNG, HEIC, MP4, MOV, ZIP, etc.',
+    extractingMetadata: 'Extraction des métadonnées...',
+    deviceClocks: 'Horloge des appareils',
+    applyOffsets: 'Appliquer les décalages',
+    alignOnPhoto: 'Caler sur une photo dont l\'heure réelle est connue',
+    referencePhoto: 'Photo de référence',
+    actualTime: 'Heure réelle de la photo',
+    compute: 'Calculer',
+    offsetHint: 'Décalage à ajouter à l\'heure de l\'appareil, par exemple +01:00 pour un appareil resté à l\'heure d\'hiver.',
+    estimated: '(estimée)',
+    duplicateOf: 'Doublon de',
+    similarTo: 'Similaire à',
+    skip: 'Ignorer',
+    replace: 'Remplacer',
+    keepBoth: 'Garder les deux',
+    uploading: 'Upload en cours...',
+    uploaded: 'Upload terminé',
+    status: { pending: 'En attente', uploading: 'Envoi...', done: 'Envoyée', failed: 'Échec' },
+    attempt: (attempt: number) => ` (essai ${attempt})`,
+    concurrency: 'Envois simultanés',
+    retryFailed: (count: number) => `Réessayer les échecs (${count})`,
+    continueInBackground: 'Continuer en arrière-plan',
+    upload: (count: number) => `Uploader ${plural(count, 'photo', 'photos')}`,
+    resumed: (count: number) => `Reprise de ${plural(count, 'upload interrompu', 'uploads interrompus')}`,
+    failed: (count: number) => `${plural(count, 'photo', 'photos')} en échec, vous pouvez relancer l'envoi`,
+    done: (count: number) => `${plural(count, 'photo uploadée', 'photos uploadées')} avec succès`,
+    metadataError: 'Erreur lors du traitement des métadonnées',
+    albumTimeZone: (timeZone: string) => `Fuseau horaire de l'album : ${timeZone}`,
+    duplicatesFound: (count: number) => plural(count, 'doublon potentiel détecté', 'doublons potentiels détectés'),
+    clocksCorrected: 'Heures des appareils corrigées',
+    zipExtracted: (count: number) => `${plural(count, 'fichier extrait', 'fichiers extraits')} du ZIP`,
+    zipError: 'Erreur lors de l\'extraction du fichier ZIP',
+    unsupported: (filename: string) => `${filename} n'est pas un format supporté (image, vidéo ou ZIP)`,
+    filesAdded: (count: number, zipCount: number) =>
+      plural(count, 'fichier ajouté', 'fichiers ajoutés') +
+      (zipCount > 0 ? ` (${plural(zipCount, 'ZIP traité', 'ZIP traités')})` : ''),
+    duplicatesSkipped: (count: number) => plural(count, 'doublon ignoré', 'doublons ignorés'),
+    dayFallbackTitle: (date: string) => `Photos du ${date}`,
+  },
+
+  album: {
+    notFound: 'Album non trouvé',
+    loadError: 'Erreur lors du chargement de l\'album',
+    actions: 'Actions',
+    print: 'Imprimer',
+    slideshow: 'Diaporama',
+    share: 'Partager',
+    members: 'Membres',
+    generateThumbnails: 'Générer les vignettes manquantes',
+    generatingThumbnails: 'Génération des vignettes...',
+    generatingThumbnailsProgress: (done: number, total: number) => `Génération des vignettes... ${done}/${total}`,
+    thumbnailsGenerated: (count: number) => plural(count, 'vignette générée', 'vignettes générées'),
+    thumbnailsPartial: (done: number, failed: number) =>
+      `${plural(done, 'vignette générée', 'vignettes générées')}, ${failed} en erreur`,
+    thumbnailsError: 'Erreur lors de la génération des vignettes',
+    days: 'Jours de l\'album',
+    noPhotos: 'Aucune photo encore',
+    dayThumbnailAlt: 'Vignette du jour',
+  },
+
+  day: {
+    notFound: 'Journée non trouvée',
+    loadError: 'Erreur lors du chargement des données',
+    photos: 'Photos de la journée',
+    noPhotos: 'Aucune photo pour cette journée',
+    playVideo: 'Lire la vidéo',
+    addedBy: (name: string) => `Ajoutée par ${name}`,
+    mapEmptyHint: 'Les photos de cette journée n\'ont pas de données de localisation',
+    story: 'Récit de la journée',
+    storyPlaceholder: 'Racontez votre journée...',
+    noStory: 'Aucun récit pour cette journée',
+    customLabelPlaceholder: 'Libellé de la journée (jeton {custom} du titre)',
+    discussion: 'Échanges',
+    saving: 'Sauvegarde...',
+    descriptionSaved: 'Description sauvegardée',
+    saveError: 'Erreur lors de la sauvegarde',
+    coverSet: 'Photo définie comme miniature du jour',
+    coverError: 'Erreur lors de la définition de la miniature',
+    titleUpdated: 'Titre modifié',
+    updateError: 'Erreur lors de la modification',
+    favoriteAdded: 'Photo ajoutée aux favoris',
+    favoriteRemoved: 'Photo retirée des favoris',
+    thumbnailAlt: 'Vignette',
+    editTitle: 'Modifier le titre',
+    automaticTitle: (title: string) => `Titre automatique : ${title}`,
+    resetTitle: 'Revenir au titre automatique',
+    titleSaveError: 'Impossible d\'enregistrer le titre de la journée',
+  },
+
+  dayTitles: {
+    update: 'Mettre à jour les titres',
+    updating: 'Mise à jour...',
+    updateError: 'Impossible de mettre à jour les titres des journées',
+    upToDate: 'Titres à jour',
+    noChanges: 'Aucun changement',
+    noChangesKeptCustom: (count: number) =>
+      `Aucun changement, ${plural(count, 'titre personnalisé conservé', 'titres personnalisés conservés')}`,
+    untitled: '(sans titre)',
+    confirmChanges: (count: number, examples: string) =>
+      `${plural(count, 'titre de journée sera modifié', 'titres de journée seront modifiés')} :\n${examples}`,
+    success: 'Succès',
+    updated: (count: number) => `${plural(count, 'titre de journée mis à jour', 'titres de journée mis à jour')} avec succès`,
+    unexpectedError: 'Une erreur inattendue s\'est produite',
+  },
+
+  slideshow: {
+    title: (album: string) => `Diaporama - ${album}`,
+    loading: 'Chargement du diaporama...',
+    empty: 'Aucune photo dans cet album',
+    emptyHint: 'Ajoutez des photos à cet album pour créer un diaporama.',
+    photoAlt: 'Photo diaporama',
+    playing: 'Lecture automatique',
+    paused: 'En pause',
+  },
+
+  share: {
+    title: 'Partager l\'album',
+    description: 'Un lien donne accès en lecture seule, sans compte, à l\'album ou à l\'une de ses journées',
+    revoked: 'Révoqué',
+    expired: 'Expiré',
+    wholeAlbum: 'Tout l\'album',
+    until: (date: string) => `Jusqu'au ${date}`,
+    noExpiry: 'Sans expiration',
+    copyLink: 'Copier le lien',
+    revokeLink: 'Révoquer le lien',
+    linkCopied: 'Lien copié',
+    copyError: 'Impossible de copier le lien',
+    createError: 'Erreur lors de la création du lien de partage',
+    linkRevoked: 'Lien révoqué',
+    revokeError: 'Erreur lors de la révocation du lien',
+    newLink: 'Nouveau lien',
+    labelPlaceholder: 'Nom du lien (par exemple : Famille)',
+    password: 'Mot de passe',
+    optional: 'Facultatif',
+    expiration: 'Expiration',
+    expirationHint: 'Laisser vide pour un lien valable jusqu\'à sa révocation.',
+    privacy: 'Métadonnées des originaux',
+    albumPrivacy: 'Réglage de l\'album',
+    privacyHint: 'Les positions affichées sur la carte du lien suivent le même réglage.',
+    create: 'Créer et copier le lien',
+    protectedAlbum: 'Album protégé',
+    unavailable: 'Lien indisponible',
+    passwordHint: 'Saisissez le mot de passe communiqué avec le lien.',
+    openAlbum: 'Ouvrir l\'album',
+    previewUnavailable: 'Aperçu indisponible',
+    failures: {
+      not_found: 'Ce lien de partage n\'existe pas',
+      password_required: 'Ce lien est protégé par un mot de passe',
+      invalid_password: 'Mot de passe incorrect',
+      expired: 'Ce lien de partage a expiré',
+      revoked: 'Ce lien de partage a été révoqué',
+    },
+  },
+
+  members: {
+    title: 'Membres de l\'album',
+    description: 'Les éditeurs ajoutent des photos et modifient titres et récits, les lecteurs consultent l\'album',
+    roles: { owner: 'Propriétaire', editor: 'Éditeur', viewer: 'Lecteur' },
+    you: 'vous',
+    formerMember: 'un ancien membre',
+    unknownAddress: 'Adresse inconnue',
+    remove: 'Retirer de l\'album',
+    pendingInvitations: 'Invitations en attente',
+    cancelInvitation: 'Annuler l\'invitation',
+    inviteByEmail: 'Inviter par email',
+    emailPlaceholder: 'adresse@email.com',
+    leave: 'Quitter l\'album',
+    invite: 'Inviter',
+    invalidEmail: 'Adresse email invalide',
+    alreadyMember: 'Cette personne est déjà membre de l\'album',
+    invitationPending: 'Une invitation est déjà en attente pour cette adresse',
+    invited: 'Invitation enregistrée',
+    invitedDescription: 'Elle apparaîtra dans la liste des albums de cette personne, une fois connectée avec cette adresse.',
+    inviteError: 'Erreur lors de l\'invitation',
+    cancelInvitationError: 'Erreur lors de l\'annulation de l\'invitation',
+    roleChangeError: 'Erreur lors du changement de rôle',
+    confirmLeave: 'Quitter cet album ? Il faudra une nouvelle invitation pour y revenir.',
+    confirmRemove: (email: string | null) => `Retirer ${email || 'ce membre'} de l'album ?`,
+    left: 'Vous avez quitté l\'album',
+    removeError: 'Erreur lors du retrait du membre',
+  },
+
+  discussion: {
+    send: 'Envoyer',
+    reply: 'Répondre',
+    replyTo: (name: string) => `Répondre à ${name}...`,
+    addComment: 'Ajouter un commentaire...',
+    noComments: 'Aucun commentaire',
+    comments: (count: number) => plural(count, 'commentaire', 'commentaires'),
+    dateFormat: 'd MMM à HH:mm',
+    sendError: 'Erreur lors de l\'envoi du commentaire',
+    reactionError: 'Erreur lors de la réaction',
+    confirmDeleteThread: 'Supprimer ce commentaire et ses réponses ?',
+    confirmDelete: 'Supprimer ce commentaire ?',
+    deleteError: 'Erreur lors de la suppression du commentaire',
+  },
+
+  presence: {
+    someone: 'Un membre',
+    viewingDay: (name: string) => `${name} regarde cette journée`,
+    viewingAlbum: (name: string) => `${name} consulte l'album`,
+  },
+
+  preferences: {
+    languageSaveError: 'Erreur lors de l\'enregistrement de la langue',
+  },
+
+  notFound: {
+    message: 'Oups ! Page introuvable',
+    home: 'Retour à l\'accueil',
+  },
+};
+
+export type Messages = typeof fr;
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { Locale } from 'date-fns';
+import type { AppLocale } from '@shared/dayTitle';
+import type { Messages } from './fr';
+
+interface I18nContextType {
+  locale: AppLocale;
+  setLocale: (locale: AppLocale) => Promise<void>;
+  t: Messages;
+  // Locale date-fns pour les dates affichées
+  dateLocale: Locale;
+}
+
+export const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+}
@@ -14,12 +14,213 @@ export type Database = {
   }
   public: {
     Tables: {
+      album_invitations: {
+        Row: {
+          album_id: string
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          email: string
+          id?: string
+          invited_by: string
+          role: string
+          updated_at?: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_invitations_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      album_members: {
+        Row: {
+          activity_seen_at: string | null
+          album_id: string
+          created_at: string
+          email: string | null
+          id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_seen_at?: string | null
+          album_id: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          role: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_seen_at?: string | null
+          album_id?: string
+          created_at?: string
+          email?: string | null
+          id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_members_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      album_shares: {
+        Row: {
+          album_id: string
+          created_at: string
+          day_entry_id: string | null
+          exif_privacy: string | null
+          expires_at: string | null
+          id: string
+          label: string | null
+          password_hash: string | null
+          revoked_at: string | null
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          day_entry_id?: string | null
+          exif_privacy?: string | null
+          expires_at?: string | null
+          id?: string
+          label?: string | null
+          password_hash?: string | null
+          revoked_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          day_entry_id?: string | null
+          exif_privacy?: string | null
+          expires_at?: string | null
+          id?: string
+          label?: string | null
+          password_hash?: string | null
+          revoked_at?: string | null
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_shares_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "album_shares_day_entry_id_fkey"
+            columns: ["day_entry_id"]
+            isOneToOne: false
+            referencedRelation: "day_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      album_tracks: {
+        Row: {
+          album_id: string
+          created_at: string
+          ended_at: string | null
+          id: string
+          max_gap_minutes: number
+          name: string
+          point_count: number
+          points: Json
+          source_format: string
+          started_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          max_gap_minutes?: number
+          name: string
+          point_count?: number
+          points?: Json
+          source_format: string
+          started_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          max_gap_minutes?: number
+          name?: string
+          point_count?: number
+          points?: Json
+          source_format?: string
+          started_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_tracks_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       albums: {
         Row: {
           created_at: string
+          dates_are_custom: boolean
+          day_cutoff_hour: number
+          day_title_template: string | null
+          default_latitude: number | null
+          default_longitude: number | null
           description: string | null
+          end_date: string | null
+          exif_privacy: string
           id: string
           month: number
+          start_date: string | null
+          timezone: string | null
           title: string
           updated_at: string
           user_id: string
@@ -27,9 +228,18 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          dates_are_custom?: boolean
+          day_cutoff_hour?: number
+          day_title_template?: string | null
+          default_latitude?: number | null
+          default_longitude?: number | null
           description?: string | null
+          end_date?: string | null
+          exif_privacy?: string
           id?: string
           month: number
+          start_date?: string | null
+          timezone?: string | null
           title: string
           updated_at?: string
           user_id: string
@@ -37,9 +247,18 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          dates_are_custom?: boolean
+          day_cutoff_hour?: number
+          day_title_template?: string | null
+          default_latitude?: number | null
+          default_longitude?: number | null
           description?: string | null
+          end_date?: string | null
+          exif_privacy?: string
           id?: string
           month?: number
+          start_date?: string | null
+          timezone?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -47,18 +266,88 @@ export type Database = {
         }
         Relationships: []
       }
+      comments: {
+        Row: {
+          album_id: string
+          body: string
+          created_at: string
+          day_entry_id: string | null
+          id: string
+          parent_id: string | null
+          photo_id: string | null
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          body: string
+          created_at?: string
+          day_entry_id?: string | null
+          id?: string
+          parent_id?: string | null
+          photo_id?: string | null
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          body?: string
+          created_at?: string
+          day_entry_id?: string | null
+          id?: string
+          parent_id?: string | null
+          photo_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_day_entry_id_fkey"
+            columns: ["day_entry_id"]
+            isOneToOne: false
+            referencedRelation: "day_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       day_entries: {
         Row: {
           album_id: string
           cover_photo_id: string | null
           created_at: string
+          custom_label: string | null
           date: string
           description: string | null
           id: string
           latitude: number | null
           location_name: string | null
+          location_source: string
           longitude: number | null
+          place_country: string | null
+          place_country_code: string | null
+          place_locality: string | null
+          place_municipality: string | null
+          place_region: string | null
           title: string | null
+          title_is_custom: boolean
           updated_at: string
           user_id: string
         }
@@ -66,13 +355,21 @@ export type Database = {
           album_id: string
           cover_photo_id?: string | null
           created_at?: string
+          custom_label?: string | null
           date: string
           description?: string | null
           id?: string
           latitude?: number | null
           location_name?: string | null
+          location_source?: string
           longitude?: number | null
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
           title?: string | null
+          title_is_custom?: boolean
           updated_at?: string
           user_id: string
         }
@@ -80,13 +377,21 @@ export type Database = {
           album_id?: string
           cover_photo_id?: string | null
           created_at?: string
+          custom_label?: string | null
           date?: string
           description?: string | null
           id?: string
           latitude?: number | null
           location_name?: string | null
+          location_source?: string
           longitude?: number | null
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
           title?: string | null
+          title_is_custom?: boolean
           updated_at?: string
           user_id?: string
         }
@@ -107,60 +412,159 @@ export type Database = {
           },
         ]
       }
+      geocode_cache: {
+        Row: {
+          created_at: string
+          language: string
+          latitude_key: number
+          location_name: string | null
+          longitude_key: number
+          place_country: string | null
+          place_country_code: string | null
+          place_locality: string | null
+          place_municipality: string | null
+          place_region: string | null
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          language: string
+          latitude_key: number
+          location_name?: string | null
+          longitude_key: number
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          language?: string
+          latitude_key?: number
+          location_name?: string | null
+          longitude_key?: number
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       photos: {
         Row: {
           album_id: string
+          camera_make: string | null
+          camera_model: string | null
+          camera_serial: string | null
+          content_hash: string | null
           created_at: string
+          duration_seconds: number | null
           file_path: string
           file_size: number | null
           filename: string
           id: string
           is_favorite: boolean
+          large_path: string | null
           latitude: number | null
+          live_video_path: string | null
+          local_date: string | null
           location_name: string | null
+          location_source: string
           longitude: number | null
+          media_type: string
+          medium_path: string | null
           mime_type: string | null
+          perceptual_hash: string | null
+          place_country: string | null
+          place_country_code: string | null
+          place_locality: string | null
+          place_municipality: string | null
+          place_region: string | null
           taken_at: string | null
           thumbnail_path: string | null
           title: string | null
           updated_at: string
           user_id: string
+          utc_offset_minutes: number | null
         }
         Insert: {
           album_id: string
+          camera_make?: string | null
+          camera_model?: string | null
+          camera_serial?: string | null
+          content_hash?: string | null
           created_at?: string
+          duration_seconds?: number | null
           file_path: string
           file_size?: number | null
           filename: string
           id?: string
           is_favorite?: boolean
+          large_path?: string | null
           latitude?: number | null
+          live_video_path?: string | null
+          local_date?: string | null
           location_name?: string | null
+          location_source?: string
           longitude?: number | null
+          media_type?: string
+          medium_path?: string | null
           mime_type?: string | null
+          perceptual_hash?: string | null
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
           taken_at?: string | null
           thumbnail_path?: string | null
           title?: string | null
           updated_at?: string
           user_id: string
+          utc_offset_minutes?: number | null
         }
         Update: {
           album_id?: string
+          camera_make?: string | null
+          camera_model?: string | null
+          camera_serial?: string | null
+          content_hash?: string | null
           created_at?: string
+          duration_seconds?: number | null
           file_path?: string
           file_size?: number | null
           filename?: string
           id?: string
           is_favorite?: boolean
+          large_path?: string | null
           latitude?: number | null
+          live_video_path?: string | null
+          local_date?: string | null
           location_name?: string | null
+          location_source?: string
           longitude?: number | null
+          media_type?: string
+          medium_path?: string | null
           mime_type?: string | null
+          perceptual_hash?: string | null
+          place_country?: string | null
+          place_country_code?: string | null
+          place_locality?: string | null
+          place_municipality?: string | null
+          place_region?: string | null
           taken_at?: string | null
           thumbnail_path?: string | null
           title?: string | null
           updated_at?: string
           user_id?: string
+          utc_offset_minutes?: number | null
         }
         Relationships: [
           {
@@ -172,11 +576,104 @@ export type Database = {
           },
         ]
       }
+      reactions: {
+        Row: {
+          album_id: string
+          created_at: string
+          day_entry_id: string | null
+          emoji: string
+          id: string
+          photo_id: string | null
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          day_entry_id?: string | null
+          emoji: string
+          id?: string
+          photo_id?: string | null
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          day_entry_id?: string | null
+          emoji?: string
+          id?: string
+          photo_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reactions_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reactions_day_entry_id_fkey"
+            columns: ["day_entry_id"]
+            isOneToOne: false
+            referencedRelation: "day_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reactions_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_preferences: {
+        Row: {
+          created_at: string
+          locale: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          locale?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          locale?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_album_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      compute_photo_local_date: {
+        Args: {
+          p_album_id: string
+          p_taken_at: string
+          p_utc_offset_minutes: number
+        }
+        Returns: string
+      }
+      get_album_activity_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          album_id: string
+          comment_count: number
+          reaction_count: number
+        }[]
+      }
       get_day_entries_with_photo_count: {
         Args: { album_id: string }
         Returns: {
@@ -184,16 +681,99 @@ export type Database = {
           cover_photo_id: string
           cover_photo_latitude: number
           cover_photo_location_name: string
+          cover_photo_location_source: string
           cover_photo_longitude: number
           cover_photo_thumbnail_path: string
           cover_photo_title: string
+          custom_label: string
           date: string
           id: string
           location_name: string
           photo_count: number
+          place_country: string
+          place_country_code: string
+          place_locality: string
+          place_municipality: string
+          place_region: string
           title: string
+          title_is_custom: boolean
+        }[]
+      }
+      get_pending_album_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          album_id: string
+          album_title: string
+          created_at: string
+          id: string
+          invited_by_email: string
+          role: string
+        }[]
+      }
+      get_place_hierarchy: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          country: string
+          country_code: string
+          municipality: string
+          photo_count: number
+          region: string
+        }[]
+      }
+      has_album_role: {
+        Args: { p_album_id: string; p_min_role: string }
+        Returns: boolean
+      }
+      is_album_target: {
+        Args: { p_album_id: string; p_day_entry_id: string; p_photo_id: string }
+        Returns: boolean
+      }
+      mark_album_activity_seen: {
+        Args: { p_album_id: string }
+        Returns: undefined
+      }
+      open_album_share: {
+        Args: { p_password: string; p_token: string }
+        Returns: {
+          album_id: string
+          day_entry_id: string
+          exif_privacy: string
+          expires_at: string
+          label: string
+          share_id: string
+          status: string
         }[]
       }
+      realtime_album_id: {
+        Args: { p_topic: string }
+        Returns: string
+      }
+      refresh_album_dates: {
+        Args: { p_album_id: string }
+        Returns: undefined
+      }
+      rebucket_album_days: {
+        Args: { p_album_id: string }
+        Returns: undefined
+      }
+      set_album_share_password: {
+        Args: { p_password: string; p_share_id: string }
+        Returns: undefined
+      }
+      shift_album_photo_times: {
+        Args: {
+          p_album_id: string
+          p_camera_make: string
+          p_camera_model: string
+          p_camera_serial: string
+          p_offset_minutes: number
+        }
+        Returns: number
+      }
+      storage_album_id: {
+        Args: { p_name: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -4,10 +4,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Printer } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
 import { PhotoMap } from '@/components/map/PhotoMap';
 import { usePrintSettings } from '@/hooks/usePrintSettings';
+import { usePhotoUrls } from '@/hooks/useMediaUrls';
+import { calculateDayTitle } from '@/utils/dayTitleFormatter';
+import { dayNumberOf } from '@shared/dayTitle';
+import { useI18n } from '@/i18n/useI18n';
+import { formatAlbumPeriod } from '@/utils/albumPeriod';
 
 interface Album {
   id: string;
@@ -15,12 +18,15 @@ interface Album {
   description: string | null;
   year: number;
   month: number;
+  start_date: string | null;
+  end_date: string | null;
+  day_title_template: string | null;
 }
 
 interface DayEntry {
   id: string;
   date: string;
-  title: string | null;
+  title: string;
   description: string | null;
   location_name: string | null;
   cover_photo?: {
@@ -30,6 +36,8 @@ interface DayEntry {
   favorite_photos: {
     id: string;
     file_path: string;
+    medium_path: string | null;
+    large_path: string | null;
     title: string | null;
   }[];
 }
@@ -39,17 +47,20 @@ export default function AlbumPrint() {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { settings } = usePrintSettings();
+  const { t, locale, dateLocale } = useI18n();
   const [album, setAlbum] = useState<Album | null>(null);
   const [dayEntries, setDayEntries] = useState<DayEntry[]>([]);
   const [allFavoritePhotos, setAllFavoritePhotos] = useState<any[]>([]);
   const [mapLocations, setMapLocations] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const mediumUrl = usePhotoUrls(allFavoritePhotos, 'medium');
+  const largeUrl = usePhotoUrls(dayEntries.flatMap(day => day.favorite_photos), 'large');
 
   useEffect(() => {
     if (albumId && user) {
       fetchPrintData();
     }
-  }, [albumId, user]);
+  }, [albumId, user, locale]);
 
   const fetchPrintData = async () => {
     try {
@@ -70,13 +81,20 @@ export default function AlbumPrint() {
 
       if (dayError && dayError.code !== 'PGRST116') throw dayError;
 
+      // Numérotation à partir de la première journée de l'album, comme dans AlbumView
+      const firstDate = dayData?.[0]?.date;
+
       // Filter only days with actual content (photos > 0)
       const daysWithContent = (dayData || [])
         .filter((day: any) => day.photo_count > 0)
         .map((day: any) => ({
           id: day.id,
           date: day.date,
-          title: day.title,
+          title: calculateDayTitle(
+            { ...day, cover_photo: { location_name: day.cover_photo_location_name } },
+            dayNumberOf(day.date, firstDate),
+            { locale, template: albumData.day_title_template }
+          ),
           description: '', // Will be fetched separately
           location_name: day.location_name,
           cover_photo: day.cover_photo_file_path ? {
@@ -96,7 +114,7 @@ export default function AlbumPrint() {
       // Fetch all favorite photos for the album
       const { data: favoritePhotos, error: favError } = await supabase
         .from('photos')
-        .select('id, file_path, title, taken_at, latitude, longitude')
+        .select('id, file_path, medium_path, large_path, title, taken_at, local_date, latitude, longitude')
         .eq('album_id', albumId)
         .eq('is_favorite', true)
         .order('taken_at');
@@ -129,12 +147,8 @@ export default function AlbumPrint() {
       const daysWithDescriptions = daysWithContent.map((day: any) => {
         const dayDesc = dayDescriptions?.find(d => d.id === day.id);
         
-        // Get favorite photos for this day by filtering by date
-        const dayFavorites = (favoritePhotos || []).filter(photo => {
-          if (!photo.taken_at) return false;
-          const photoDate = photo.taken_at.split('T')[0];
-          return photoDate === day.date;
-        });
+        // Get favorite photos for this day by filtering by local date
+        const dayFavorites = (favoritePhotos || []).filter(photo => photo.local_date === day.date);
 
         return {
           ...day,
@@ -175,8 +189,8 @@ export default function AlbumPrint() {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold mb-4">Album non trouvé</h2>
-          <Button onClick={() => navigate('/')}>Retour aux albums</Button>
+          <h2 className="text-2xl font-bold mb-4">{t.album.notFound}</h2>
+          <Button onClick={() => navigate('/')}>{t.common.backToAlbums}</Button>
         </div>
       </div>
     );
@@ -191,18 +205,18 @@ export default function AlbumPrint() {
             <div className="flex items-center gap-4">
               <Button variant="ghost" onClick={() => navigate(`/album/${albumId}`)}>
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Retour à l'album
+                {t.common.backToAlbum}
               </Button>
               <div>
-                <h1 className="text-xl font-bold">Impression - {album.title}</h1>
+                <h1 className="text-xl font-bold">{t.print.title(album.title)}</h1>
                 <p className="text-sm text-muted-foreground">
-                  {dayEntries.length} journée{dayEntries.length !== 1 ? 's' : ''} avec contenu
+                  {t.print.daysWithContent(dayEntries.length)}
                 </p>
               </div>
             </div>
             <Button onClick={handlePrint} className="bg-gradient-sky hover:opacity-90">
               <Printer className="h-4 w-4 mr-2" />
-              Imprimer
+              {t.album.print}
             </Button>
           </div>
         </div>
@@ -218,7 +232,7 @@ export default function AlbumPrint() {
               {album.description && (
                 <p className="album-description">{album.description}</p>
               )}
-              <p className="album-date">{album.month}/{album.year}</p>
+              <p className="album-date">{formatAlbumPeriod(album, dateLocale)}</p>
             </div>
             
             {/* Photo mosaic */}
@@ -228,8 +242,8 @@ export default function AlbumPrint() {
                   {getRandomFavoritePhotos(allFavoritePhotos).map((photo, index) => (
                     <div key={photo.id} className={`mosaic-item mosaic-item-${index + 1}`}>
                       <img
-                        src={supabase.storage.from('photos').getPublicUrl(photo.file_path).data.publicUrl}
-                        alt={photo.title || 'Photo favorite'}
+                        src={mediumUrl(photo)}
+                        alt={photo.title || t.photo.favoriteAlt}
                         className="mosaic-photo"
                       />
                     </div>
@@ -241,7 +255,7 @@ export default function AlbumPrint() {
             {/* Mini map */}
             {mapLocations.length > 0 && (
               <div className="mini-map-container">
-                <h3 className="mini-map-title">Lieux visités</h3>
+                <h3 className="mini-map-title">{t.print.visitedPlaces}</h3>
                 <div className="mini-map">
                   <PhotoMap
                     locations={mapLocations}
@@ -260,7 +274,7 @@ export default function AlbumPrint() {
             {/* Day title */}
             <div className="day-header">
               <h1 className="day-main-title">
-                {day.title || format(new Date(day.date), 'EEEE d MMMM yyyy', { locale: fr })}
+                {day.title}
               </h1>
             </div>
 
@@ -271,8 +285,8 @@ export default function AlbumPrint() {
                   {day.favorite_photos.map((photo) => (
                     <div key={photo.id} className="photo-mosaic-item">
                       <img
-                        src={supabase.storage.from('photos').getPublicUrl(photo.file_path).data.publicUrl}
-                        alt={photo.title || 'Photo favorite'}
+                        src={largeUrl(photo)}
+                        alt={photo.title || t.photo.favoriteAlt}
                         className="photo-mosaic-img"
                       />
                     </div>
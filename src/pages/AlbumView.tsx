@@ -1,18 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { PhotoMap } from '@/components/map/PhotoMap';
 import { PhotoUploadModal } from '@/components/photo/PhotoUploadModal';
 import { PrintSettingsModal } from '@/components/album/PrintSettingsModal';
+import { AlbumSettingsModal } from '@/components/album/AlbumSettingsModal';
+import { DayTitleEditor } from '@/components/album/DayTitleEditor';
+import { TrackUploadModal } from '@/components/album/TrackUploadModal';
+import { ShareAlbumModal } from '@/components/album/ShareAlbumModal';
+import { AlbumMembersModal } from '@/components/album/AlbumMembersModal';
+import { AlbumPresence } from '@/components/album/AlbumPresence';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { ArrowLeft, Plus, Camera, Edit2, Check, X, Play, Printer, Binoculars, Settings, MapPin, Type, Palette } from 'lucide-react';
+import { ArrowLeft, Plus, Camera, Edit2, Check, X, Play, Printer, Binoculars, Settings, MapPin, Type, Palette, ImageIcon, Clock, Route, Share2, Users } from 'lucide-react';
 import { addDays, format, parseISO } from 'date-fns';
 import { toast } from 'sonner';
 import { calculateDayTitles } from '@/utils/dayTitleFormatter';
+import { usePhotoUrls } from '@/hooks/useMediaUrls';
+import { backfillAlbumDerivatives } from '@/utils/derivativeBackfill';
+import { useAlbumTracks } from '@/hooks/useAlbumTracks';
+import { useAlbumMembers } from '@/hooks/useAlbumMembers';
+import { useAlbumRealtime } from '@/hooks/useAlbumRealtime';
+import { useI18n } from '@/i18n/useI18n';
+import { formatAlbumPeriod } from '@/utils/albumPeriod';
+import { isInferredLocation } from '@shared/locationSource';
+import { placeFromColumns, placeFullName, PlaceColumns, placeToColumns } from '@shared/places';
 
 interface Album {
   id: string;
@@ -20,15 +35,26 @@ interface Album {
   description: string | null;
   year: number;
   month: number;
+  start_date: string | null;
+  end_date: string | null;
+  timezone: string | null;
+  day_cutoff_hour: number;
+  default_latitude: number | null;
+  default_longitude: number | null;
+  day_title_template: string | null;
+  exif_privacy: string;
 }
 
-interface DayEntry {
+interface DayEntry extends Partial<PlaceColumns> {
   id: string;
   date: string;
   title: string | null;
+  custom_label?: string | null;
+  title_is_custom?: boolean;
   cover_photo_id: string | null;
   photo_count: number;
   calculatedTitle: string;
+  automaticTitle: string;
   cover_photo?: {
     thumbnail_path: string;
     file_path: string;
@@ -36,6 +62,7 @@ interface DayEntry {
     location_name: string | null;
     latitude: number | null;
     longitude: number | null;
+    location_source: string | null;
   };
 }
 
@@ -43,17 +70,48 @@ export default function AlbumView() {
   const { albumId } = useParams<{ albumId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { t, locale, dateLocale } = useI18n();
   const [album, setAlbum] = useState<Album | null>(null);
-  const [dayEntries, setDayEntries] = useState<DayEntry[]>([]);
+  const [rawDayEntries, setRawDayEntries] = useState<Omit<DayEntry, 'calculatedTitle' | 'automaticTitle'>[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [printSettingsOpen, setPrintSettingsOpen] = useState(false);
+  const [albumSettingsOpen, setAlbumSettingsOpen] = useState(false);
+  const [tracksModalOpen, setTracksModalOpen] = useState(false);
+  const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [membersModalOpen, setMembersModalOpen] = useState(false);
   const [selectedDayId, setSelectedDayId] = useState<string>();
+  const [regeneratingDerivatives, setRegeneratingDerivatives] = useState(false);
+  const { tracks, refetch: refetchTracks } = useAlbumTracks(albumId);
+  const { members, canEdit, isOwner, refetch: refetchMembers } = useAlbumMembers(albumId);
+
+  // Titres calculés selon le modèle de l'album, dans la langue de l'interface
+  const dayEntries: DayEntry[] = useMemo(
+    () => calculateDayTitles(rawDayEntries, { locale, template: album?.day_title_template }),
+    [rawDayEntries, locale, album?.day_title_template]
+  );
+
+  const coverUrl = usePhotoUrls(dayEntries.map(day => day.cover_photo), 'thumbnail');
+  // Photos datées de l'album, pour reconnaître leurs suppressions parmi celles diffusées en direct
+  const photoIdsRef = useRef<Set<string>>(new Set());
+
+  // Photos, titres et miniatures modifiés par les autres membres pendant la consultation
+  const { viewers } = useAlbumRealtime(albumId, (changes) => {
+    const relevant = changes.some(change => change.eventType !== 'DELETE'
+      || (change.table === 'photos'
+        ? photoIdsRef.current.has(change.id)
+        : rawDayEntries.some(day => day.id === change.id)));
+    if (relevant) fetchAlbumData();
+  });
   
 
   useEffect(() => {
     if (albumId && user) {
       fetchAlbumData();
+      // Les commentaires et réactions déjà présents ne sont plus signalés dans la liste des albums
+      supabase.rpc('mark_album_activity_seen', { p_album_id: albumId }).then(({ error }) => {
+        if (error) console.warn('Erreur lors du marquage de l\'activité comme vue:', error);
+      });
     }
   }, [albumId, user]);
 
@@ -79,26 +137,35 @@ export default function AlbumView() {
       // Get all photos to determine date range
       const { data: photosData, error: photosError } = await supabase
         .from('photos')
-        .select('taken_at')
+        .select('id, local_date')
         .eq('album_id', albumId)
-        .not('taken_at', 'is', null)
-        .order('taken_at');
+        .not('local_date', 'is', null)
+        .order('local_date');
 
       if (photosError) throw photosError;
+      photoIdsRef.current = new Set((photosData || []).map(photo => photo.id));
 
       const dayEntriesWithCounts = (dayData || []).map((day: any) => ({
         id: day.id,
         date: day.date,
         title: day.title,
+        place_locality: day.place_locality,
+        place_municipality: day.place_municipality,
+        place_region: day.place_region,
+        place_country: day.place_country,
+        place_country_code: day.place_country_code,
+        custom_label: day.custom_label,
+        title_is_custom: day.title_is_custom,
         cover_photo_id: day.cover_photo_id,
         photo_count: day.photo_count || 0,
-        cover_photo: day.cover_photo_thumbnail_path ? {
+        cover_photo: day.cover_photo_file_path ? {
           thumbnail_path: day.cover_photo_thumbnail_path,
           file_path: day.cover_photo_file_path,
           title: day.cover_photo_title,
           location_name: day.cover_photo_location_name,
           latitude: day.cover_photo_latitude,
-          longitude: day.cover_photo_longitude
+          longitude: day.cover_photo_longitude,
+          location_source: day.cover_photo_location_source
         } : null
       }));
 
@@ -106,8 +173,8 @@ export default function AlbumView() {
       let completeDayEntries = [...dayEntriesWithCounts];
 
       if (photosData && photosData.length > 0) {
-        const firstDate = parseISO(photosData[0].taken_at.split('T')[0]);
-        const lastDate = parseISO(photosData[photosData.length - 1].taken_at.split('T')[0]);
+        const firstDate = parseISO(photosData[0].local_date);
+        const lastDate = parseISO(photosData[photosData.length - 1].local_date);
         
         const allDates = [];
         let currentDate = firstDate;
@@ -125,6 +192,9 @@ export default function AlbumView() {
               id: `placeholder-${dateStr}`,
               date: dateStr,
               title: null,
+              ...placeToColumns(null),
+              custom_label: null,
+              title_is_custom: false,
               cover_photo_id: null,
               photo_count: 0,
               cover_photo: null
@@ -136,14 +206,11 @@ export default function AlbumView() {
         completeDayEntries.sort((a, b) => a.date.localeCompare(b.date));
       }
       
-      // Calculer les titres dynamiquement
-      const dayEntriesWithCalculatedTitles = calculateDayTitles(completeDayEntries);
-      
-      setDayEntries(dayEntriesWithCalculatedTitles);
+      setRawDayEntries(completeDayEntries);
 
     } catch (error) {
       console.error('Erreur:', error);
-      toast.error('Erreur lors du chargement de l\'album');
+      toast.error(t.album.loadError);
     } finally {
       setLoading(false);
     }
@@ -152,6 +219,41 @@ export default function AlbumView() {
 
 
 
+  const updateDayTitle = (dayId: string, title: string, isCustom: boolean) => {
+    setRawDayEntries(prev => prev.map(day => day.id === dayId ? { ...day, title, title_is_custom: isCustom } : day));
+  };
+
+  const regenerateDerivatives = async () => {
+    if (!albumId) return;
+
+    setRegeneratingDerivatives(true);
+    const toastId = toast.loading(t.album.generatingThumbnails);
+    try {
+      const result = await backfillAlbumDerivatives(albumId, {
+        onProgress: ({ done, failed, total }) => {
+          toast.loading(t.album.generatingThumbnailsProgress(done + failed, total), { id: toastId });
+        }
+      });
+
+      if (result.failed > 0) {
+        toast.warning(t.album.thumbnailsPartial(result.done, result.failed), { id: toastId });
+      } else {
+        toast.success(t.album.thumbnailsGenerated(result.done), { id: toastId });
+      }
+      fetchAlbumData();
+    } catch (error) {
+      console.error('Erreur lors de la génération des vignettes:', error);
+      toast.error(t.album.thumbnailsError, { id: toastId });
+    } finally {
+      setRegeneratingDerivatives(false);
+    }
+  };
+
+  const trackLines = useMemo(
+    () => tracks.map(track => track.points.map(([latitude, longitude]): [number, number] => [latitude, longitude])),
+    [tracks]
+  );
+
   const mapLocations = dayEntries
     .filter(day => day.cover_photo?.latitude && day.cover_photo?.longitude && !day.id.startsWith('placeholder-'))
     .map((day, index) => {
@@ -161,9 +263,11 @@ export default function AlbumView() {
         latitude: day.cover_photo!.latitude!,
         longitude: day.cover_photo!.longitude!,
         title: day.calculatedTitle,
+        placeName: placeFullName(placeFromColumns(day)),
         date: day.date,
         photoCount: day.photo_count,
-        selected: day.id === selectedDayId
+        selected: day.id === selectedDayId,
+        inferred: isInferredLocation(day.cover_photo!.location_source)
       };
     });
 
@@ -179,8 +283,8 @@ export default function AlbumView() {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold mb-4">Album non trouvé</h2>
-          <Button onClick={() => navigate('/')}>Retour aux albums</Button>
+          <h2 className="text-2xl font-bold mb-4">{t.album.notFound}</h2>
+          <Button onClick={() => navigate('/')}>{t.common.backToAlbums}</Button>
         </div>
       </div>
     );
@@ -195,41 +299,74 @@ export default function AlbumView() {
             <div className="flex items-center gap-4">
               <Button variant="ghost" onClick={() => navigate('/')}>
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Retour
+                {t.common.back}
               </Button>
               <div>
                 <h1 className="text-xl font-bold">{album.title}</h1>
                 <p className="text-sm text-muted-foreground">
-                  {album.description || `Album ${album.month}/${album.year}`}
+                  {album.description || formatAlbumPeriod(album, dateLocale)}
                 </p>
               </div>
             </div>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" className="flex items-center gap-2">
-                  <Settings className="h-4 w-4" />
-                  Actions
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-56 z-[9999] bg-background">
-                <DropdownMenuItem onClick={() => setPrintSettingsOpen(true)}>
-                  <Palette className="h-4 w-4 mr-2" />
-                  Paramètres d'impression
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate(`/album/${albumId}/print`)}>
-                  <Printer className="h-4 w-4 mr-2" />
-                  Imprimer
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => navigate(`/album/${albumId}/slideshow`)}>
-                  <Play className="h-4 w-4 mr-2" />
-                  Diaporama
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setUploadModalOpen(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Ajouter des photos
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex items-center gap-4">
+              <AlbumPresence viewers={viewers} />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" className="flex items-center gap-2">
+                    <Settings className="h-4 w-4" />
+                    {t.album.actions}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56 z-[9999] bg-background">
+                  {isOwner && (
+                    <DropdownMenuItem onClick={() => setAlbumSettingsOpen(true)}>
+                      <Clock className="h-4 w-4 mr-2" />
+                      {t.albumSettings.title}
+                    </DropdownMenuItem>
+                  )}
+                  {canEdit && (
+                    <DropdownMenuItem onClick={() => setTracksModalOpen(true)}>
+                      <Route className="h-4 w-4 mr-2" />
+                      {t.tracks.title}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => setPrintSettingsOpen(true)}>
+                    <Palette className="h-4 w-4 mr-2" />
+                    {t.print.settingsTitle}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate(`/album/${albumId}/print`)}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    {t.album.print}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate(`/album/${albumId}/slideshow`)}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {t.album.slideshow}
+                  </DropdownMenuItem>
+                  {isOwner && (
+                    <DropdownMenuItem onClick={() => setShareModalOpen(true)}>
+                      <Share2 className="h-4 w-4 mr-2" />
+                      {t.album.share}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => setMembersModalOpen(true)}>
+                    <Users className="h-4 w-4 mr-2" />
+                    {t.album.members}
+                  </DropdownMenuItem>
+                  {canEdit && (
+                    <DropdownMenuItem onClick={() => setUploadModalOpen(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      {t.upload.title}
+                    </DropdownMenuItem>
+                  )}
+                  {canEdit && (
+                    <DropdownMenuItem onClick={regenerateDerivatives} disabled={regeneratingDerivatives}>
+                      <ImageIcon className="h-4 w-4 mr-2" />
+                      {t.album.generateThumbnails}
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </div>
         </div>
       </header>
@@ -239,18 +376,20 @@ export default function AlbumView() {
         {/* Sidebar with days */}
         <div className="w-full lg:w-80 border-b lg:border-b-0 lg:border-r border-border bg-card/50 overflow-y-auto custom-scrollbar max-h-[60vh] lg:max-h-none">
           <div className="p-6">
-            <h3 className="font-semibold mb-4">Jours de l'album</h3>
+            <h3 className="font-semibold mb-4">{t.album.days}</h3>
             {dayEntries.length === 0 ? (
               <div className="text-center py-8">
                 <Camera className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground mb-4">Aucune photo encore</p>
-                <Button 
-                  onClick={() => setUploadModalOpen(true)}
-                  variant="outline"
-                  size="sm"
-                >
-                  Ajouter des photos
-                </Button>
+                <p className="text-muted-foreground mb-4">{t.album.noPhotos}</p>
+                {canEdit && (
+                  <Button 
+                    onClick={() => setUploadModalOpen(true)}
+                    variant="outline"
+                    size="sm"
+                  >
+                    {t.upload.title}
+                  </Button>
+                )}
               </div>
              ) : (
                 <div className="space-y-3">
@@ -266,10 +405,10 @@ export default function AlbumView() {
                         <div className="flex gap-3">
                            {/* Vignette ou placeholder */}
                            <div className="w-16 h-16 flex-shrink-0">
-                             {day.cover_photo?.thumbnail_path ? (
+                             {day.cover_photo ? (
                                <img
-                                 src={supabase.storage.from('thumbnails').getPublicUrl(day.cover_photo.thumbnail_path).data.publicUrl}
-                                 alt="Vignette du jour"
+                                 src={coverUrl(day.cover_photo)}
+                                 alt={t.album.dayThumbnailAlt}
                                  className="w-full h-full object-cover rounded-md bg-muted"
                                  onError={(e) => {
                                    e.currentTarget.style.display = 'none';
@@ -283,8 +422,17 @@ export default function AlbumView() {
                           {/* Contenu texte */}
                           <div className="flex-1 min-w-0">
                               <div className="flex items-center justify-between mb-1">
-                                <h4 className="font-medium text-sm">
-                                  {day.calculatedTitle}
+                                <h4 className="font-medium text-sm min-w-0">
+                                  {day.id.startsWith('placeholder-') ? day.calculatedTitle : (
+                                    <DayTitleEditor
+                                      dayId={day.id}
+                                      title={day.calculatedTitle}
+                                      automaticTitle={day.automaticTitle}
+                                      isCustom={!!day.title_is_custom}
+                                      readOnly={!canEdit}
+                                      onSaved={(title, isCustom) => updateDayTitle(day.id, title, isCustom)}
+                                    />
+                                  )}
                                 </h4>
                                 {!day.id.startsWith('placeholder-') && (
                                   <Button
@@ -302,7 +450,7 @@ export default function AlbumView() {
                             </div>
                             <div className="text-xs text-muted-foreground space-y-0.5">
                               <p>{day.date}</p>
-                              <p>{day.photo_count} photo{day.photo_count !== 1 ? 's' : ''}</p>
+                              <p>{t.common.photoCount(day.photo_count)}</p>
                             </div>
                           </div>
                         </div>
@@ -321,20 +469,23 @@ export default function AlbumView() {
               locations={mapLocations}
               selectedLocationId={selectedDayId}
               onLocationClick={setSelectedDayId}
+              tracks={trackLines}
               className="w-full h-full"
             />
           ) : (
             <div className="flex items-center justify-center h-full bg-muted/20">
               <div className="text-center">
                 <Camera className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Aucune photo géolocalisée</h3>
+                <h3 className="text-lg font-semibold mb-2">{t.map.empty}</h3>
                 <p className="text-muted-foreground mb-6">
-                  Ajoutez des photos avec des données de localisation pour voir la carte
+                  {t.map.emptyHint}
                 </p>
-                <Button onClick={() => setUploadModalOpen(true)} className="bg-gradient-sky hover:opacity-90">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Ajouter des photos
-                </Button>
+                {canEdit && (
+                  <Button onClick={() => setUploadModalOpen(true)} className="bg-gradient-sky hover:opacity-90">
+                    <Plus className="h-4 w-4 mr-2" />
+                    {t.upload.title}
+                  </Button>
+                )}
               </div>
             </div>
           )}
@@ -352,6 +503,41 @@ export default function AlbumView() {
         open={printSettingsOpen}
         onOpenChange={setPrintSettingsOpen}
       />
+
+      <TrackUploadModal
+        open={tracksModalOpen}
+        onOpenChange={setTracksModalOpen}
+        albumId={albumId!}
+        tracks={tracks}
+        onTracksChanged={() => {
+          refetchTracks();
+          fetchAlbumData();
+        }}
+      />
+
+      <ShareAlbumModal
+        open={shareModalOpen}
+        onOpenChange={setShareModalOpen}
+        albumId={albumId!}
+        days={dayEntries.filter(day => !day.id.startsWith('placeholder-'))}
+      />
+
+      <AlbumMembersModal
+        open={membersModalOpen}
+        onOpenChange={setMembersModalOpen}
+        albumId={albumId!}
+        members={members}
+        isOwner={isOwner}
+        onMembersChanged={refetchMembers}
+        onLeft={() => navigate('/')}
+      />
+
+      <AlbumSettingsModal
+        open={albumSettingsOpen}
+        onOpenChange={setAlbumSettingsOpen}
+        album={album}
+        onSaved={fetchAlbumData}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -10,45 +10,81 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { ArrowLeft, MapPin, Save, Star, Binoculars } from 'lucide-react';
+import { ArrowLeft, MapPin, Save, Star, Binoculars, Play } from 'lucide-react';
 import { toast } from 'sonner';
-import { calculateDayTitle } from '@/utils/dayTitleFormatter';
+import { calculateAutomaticDayTitle, calculateDayTitle } from '@/utils/dayTitleFormatter';
+import { DayTitleEditor } from '@/components/album/DayTitleEditor';
+import { AlbumPresence } from '@/components/album/AlbumPresence';
+import { dayNumberOf } from '@shared/dayTitle';
+import { usePhotoUrls } from '@/hooks/useMediaUrls';
+import { formatDuration } from '@/utils/videoPoster';
+import { getLocalTakenAt } from '@/utils/localTime';
+import { addDays, format, parseISO } from 'date-fns';
+import { useAlbumTracks } from '@/hooks/useAlbumTracks';
+import { useAlbumMembers } from '@/hooks/useAlbumMembers';
+import { useAlbumRealtime } from '@/hooks/useAlbumRealtime';
+import { DiscussionPanel } from '@/components/comments/DiscussionPanel';
+import { trackPointsBetween } from '@shared/tracks';
+import { zonedTimeToUtc } from '@shared/timezone';
+import { isInferredLocation } from '@shared/locationSource';
+import { placeFromColumns, placeLabel, PlaceColumns } from '@shared/places';
+import { isExifPrivacy } from '@shared/exifPrivacy';
+import { useI18n } from '@/i18n/useI18n';
 
 interface Album {
   id: string;
   title: string;
+  timezone: string | null;
+  day_cutoff_hour: number;
+  day_title_template: string | null;
+  exif_privacy: string;
 }
 
-interface DayEntry {
+interface DayEntry extends PlaceColumns {
   id: string;
   date: string;
   title: string | null;
+  title_is_custom: boolean;
   description: string | null;
+  custom_label: string | null;
   cover_photo_id: string | null;
 }
 
-interface Photo {
+interface Photo extends PlaceColumns {
   id: string;
+  // Personne qui a envoyé la photo
+  user_id: string;
   title: string | null;
   thumbnail_path: string | null;
+  medium_path: string | null;
+  large_path: string | null;
   file_path: string;
+  filename: string;
+  mime_type: string | null;
   location_name: string | null;
   latitude: number | null;
   longitude: number | null;
+  location_source: string;
   taken_at: string | null;
+  utc_offset_minutes: number | null;
   is_favorite: boolean;
+  media_type: string;
+  duration_seconds: number | null;
+  live_video_path: string | null;
 }
 
 export default function DayView() {
   const { albumId, dayId } = useParams<{ albumId: string; dayId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { t, locale } = useI18n();
   const isMobile = useIsMobile();
   const [album, setAlbum] = useState<Album | null>(null);
   const [dayEntry, setDayEntry] = useState<DayEntry | null>(null);
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [selectedPhotoId, setSelectedPhotoId] = useState<string>();
   const [dayDescription, setDayDescription] = useState('');
+  const [customLabel, setCustomLabel] = useState('');
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [modalPhoto, setModalPhoto] = useState<Photo | null>(null);
@@ -56,6 +92,17 @@ export default function DayView() {
   const [editingPhotoTitle, setEditingPhotoTitle] = useState('');
   const [dayNumber, setDayNumber] = useState<number>(1);
   const [coverPhoto, setCoverPhoto] = useState<Photo | null>(null);
+  const { tracks } = useAlbumTracks(albumId);
+  const { members, canEdit, isOwner, memberName } = useAlbumMembers(albumId);
+  const thumbnailUrl = usePhotoUrls(photos, 'thumbnail');
+
+  // Photos ajoutées ou modifiées par les autres membres, et changements de la journée affichée
+  const { viewers } = useAlbumRealtime(albumId, (changes) => {
+    const relevant = changes.some(change => change.table === 'photos'
+      ? change.eventType !== 'DELETE' || photos.some(photo => photo.id === change.id)
+      : change.id === dayId);
+    if (relevant) fetchData();
+  }, dayId);
 
   useEffect(() => {
     if (albumId && dayId && user) {
@@ -68,7 +115,7 @@ export default function DayView() {
       // Fetch album info
       const { data: albumData, error: albumError } = await supabase
         .from('albums')
-        .select('id, title')
+        .select('id, title, timezone, day_cutoff_hour, day_title_template, exif_privacy')
         .eq('id', albumId)
         .single();
 
@@ -83,19 +130,23 @@ export default function DayView() {
         .single();
 
       if (dayError) throw dayError;
+      // Un rechargement de la même journée n'écrase pas un récit ou un libellé en cours de saisie
+      const keepDraft = dayEntry?.id === dayData.id;
       setDayEntry(dayData);
-      setDayDescription(dayData.description || '');
+      setDayDescription(prev => keepDraft && prev !== (dayEntry.description || '') ? prev : dayData.description || '');
+      setCustomLabel(prev => keepDraft && prev !== (dayEntry.custom_label || '') ? prev : dayData.custom_label || '');
 
-      // Calculer le numéro de jour dans l'album
-      const { data: allDaysData, error: allDaysError } = await supabase
+      // Calculer le numéro de jour dans l'album à partir de sa première journée
+      const { data: firstDayData, error: firstDayError } = await supabase
         .from('day_entries')
         .select('date')
         .eq('album_id', albumId)
-        .order('date');
+        .order('date')
+        .limit(1)
+        .maybeSingle();
 
-      if (!allDaysError && allDaysData) {
-        const dayIndex = allDaysData.findIndex(d => d.date === dayData.date);
-        setDayNumber(dayIndex + 1);
+      if (!firstDayError && firstDayData) {
+        setDayNumber(dayNumberOf(dayData.date, firstDayData.date));
       }
 
       // Fetch photos for this day
@@ -103,12 +154,12 @@ export default function DayView() {
         .from('photos')
         .select('*')
         .eq('album_id', albumId)
-        .gte('taken_at', `${dayData.date}T00:00:00`)
-        .lt('taken_at', `${dayData.date}T23:59:59`)
+        .eq('local_date', dayData.date)
         .order('taken_at');
 
       if (photosError) throw photosError;
       setPhotos(photosData || []);
+      setModalPhoto(prev => prev && (photosData?.find(photo => photo.id === prev.id) ?? prev));
 
       // Find cover photo if exists
       if (dayData.cover_photo_id && photosData) {
@@ -118,7 +169,7 @@ export default function DayView() {
 
     } catch (error) {
       console.error('Erreur:', error);
-      toast.error('Erreur lors du chargement des données');
+      toast.error(t.day.loadError);
     } finally {
       setLoading(false);
     }
@@ -131,14 +182,15 @@ export default function DayView() {
     try {
       const { error } = await supabase
         .from('day_entries')
-        .update({ description: dayDescription })
+        .update({ description: dayDescription, custom_label: customLabel.trim() || null })
         .eq('id', dayId);
 
       if (error) throw error;
-      toast.success('Description sauvegardée');
+      setDayEntry(prev => prev && { ...prev, description: dayDescription, custom_label: customLabel.trim() || null });
+      toast.success(t.day.descriptionSaved);
     } catch (error) {
       console.error('Erreur lors de la sauvegarde:', error);
-      toast.error('Erreur lors de la sauvegarde');
+      toast.error(t.day.saveError);
     } finally {
       setSaving(false);
     }
@@ -153,11 +205,11 @@ export default function DayView() {
 
       if (error) throw error;
       
-      toast.success('Photo définie comme miniature du jour');
+      toast.success(t.day.coverSet);
       fetchData(); // Refresh data
     } catch (error) {
       console.error('Erreur lors de la définition de la miniature:', error);
-      toast.error('Erreur lors de la définition de la miniature');
+      toast.error(t.day.coverError);
     }
   };
 
@@ -177,13 +229,13 @@ export default function DayView() {
 
       if (error) throw error;
       
-      toast.success('Titre modifié');
+      toast.success(t.day.titleUpdated);
       setEditingPhotoId(undefined);
       setEditingPhotoTitle('');
       fetchData();
     } catch (error) {
       console.error('Erreur lors de la modification du titre:', error);
-      toast.error('Erreur lors de la modification');
+      toast.error(t.day.updateError);
     }
   };
 
@@ -201,11 +253,11 @@ export default function DayView() {
 
       if (error) throw error;
       
-      toast.success(!currentFavoriteStatus ? 'Photo ajoutée aux favoris' : 'Photo retirée des favoris');
+      toast.success(!currentFavoriteStatus ? t.day.favoriteAdded : t.day.favoriteRemoved);
       fetchData();
     } catch (error) {
       console.error('Erreur lors de la modification des favoris:', error);
-      toast.error('Erreur lors de la modification');
+      toast.error(t.day.updateError);
     }
   };
 
@@ -217,12 +269,29 @@ export default function DayView() {
         latitude: photo.latitude!,
         longitude: photo.longitude!,
         title: photo.title || `Photo ${photo.id.slice(0, 8)}`,
+        placeName: placeLabel(placeFromColumns(photo), { detailed: true }) || photo.location_name || undefined,
         date: photo.taken_at || '',
         photoCount: 1,
-        selected: photo.id === selectedPhotoId
+        selected: photo.id === selectedPhotoId,
+        inferred: isInferredLocation(photo.location_source)
       })), [photos, selectedPhotoId, dayEntry]
   );
 
+  // Portion des traces GPS enregistrée pendant la journée (heure locale de l'album)
+  const trackLines = useMemo(() => {
+    if (!dayEntry || !album) return [];
+
+    const cutoff = `T${String(album.day_cutoff_hour).padStart(2, '0')}:00:00`;
+    const timeZone = album.timezone || 'UTC';
+    const start = zonedTimeToUtc(`${dayEntry.date}${cutoff}`, timeZone);
+    const end = zonedTimeToUtc(`${format(addDays(parseISO(dayEntry.date), 1), 'yyyy-MM-dd')}${cutoff}`, timeZone);
+
+    return tracks.map(track =>
+      trackPointsBetween(track.points, start, end)
+        .map(([latitude, longitude]): [number, number] => [latitude, longitude])
+    );
+  }, [tracks, dayEntry, album]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -235,13 +304,22 @@ export default function DayView() {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <h2 className="text-2xl font-bold mb-4">Journée non trouvée</h2>
-          <Button onClick={() => navigate(`/album/${albumId}`)}>Retour à l'album</Button>
+          <h2 className="text-2xl font-bold mb-4">{t.day.notFound}</h2>
+          <Button onClick={() => navigate(`/album/${albumId}`)}>{t.common.backToAlbum}</Button>
         </div>
       </div>
     );
   }
 
+  // Un éditeur ne supprime que les photos qu'il a envoyées
+  const canDeletePhoto = (photo: Photo) => isOwner || (canEdit && photo.user_id === user?.id);
+  // L'auteur n'est indiqué que dans un album partagé, ou pour la photo d'un ancien membre
+  const showUploader = (photo: Photo) => members.length > 1 || photo.user_id !== user?.id;
+
+  const dayForTitle = { ...dayEntry, photo_count: photos.length, cover_photo: coverPhoto };
+  const titleOptions = { locale, template: album.day_title_template };
+  const dayTitle = calculateDayTitle(dayForTitle, dayNumber, titleOptions);
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -251,17 +329,26 @@ export default function DayView() {
             <div className="flex items-center gap-4">
               <Button variant="ghost" onClick={() => navigate(`/album/${albumId}`)}>
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Retour à l'album
+                {t.common.backToAlbum}
               </Button>
               <div>
-                <h1 className="text-xl font-bold">
-                  {album.title} - {dayEntry && calculateDayTitle({ ...dayEntry, cover_photo: coverPhoto }, dayNumber)}
+                <h1 className="text-xl font-bold flex items-center gap-1">
+                  <span className="flex-shrink-0">{album.title} -</span>
+                  <DayTitleEditor
+                    dayId={dayEntry.id}
+                    title={dayTitle}
+                    automaticTitle={calculateAutomaticDayTitle(dayForTitle, dayNumber, titleOptions)}
+                    isCustom={dayEntry.title_is_custom}
+                    readOnly={!canEdit}
+                    onSaved={(title, isCustom) => setDayEntry(prev => prev && { ...prev, title, title_is_custom: isCustom })}
+                  />
                 </h1>
                 <p className="text-sm text-muted-foreground">
-                  {coverPhoto?.location_name ? `${coverPhoto.location_name} - ` : ''}{new Date(dayEntry.date).toLocaleDateString('fr-FR')} - {photos.length} photo{photos.length !== 1 ? 's' : ''}
+                  {coverPhoto?.location_name ? `${coverPhoto.location_name} - ` : ''}{new Date(dayEntry.date).toLocaleDateString(locale)} - {t.common.photoCount(photos.length)}
                 </p>
               </div>
             </div>
+            <AlbumPresence viewers={viewers} dayId={dayId} />
           </div>
         </div>
       </header>
@@ -271,11 +358,11 @@ export default function DayView() {
         {/* Photos list */}
         <div className="w-full lg:w-80 border-b lg:border-b-0 lg:border-r border-border bg-card/50 overflow-y-auto custom-scrollbar h-full lg:max-h-none">
           <div className="p-6">
-            <h3 className="font-semibold mb-4">Photos de la journée</h3>
+            <h3 className="font-semibold mb-4">{t.day.photos}</h3>
             {photos.length === 0 ? (
               <div className="text-center py-8">
                 <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">Aucune photo pour cette journée</p>
+                <p className="text-muted-foreground">{t.day.noPhotos}</p>
               </div>
             ) : (
               <div className="space-y-3">
@@ -293,16 +380,35 @@ export default function DayView() {
                       <div className="flex gap-3">
                         {/* Thumbnail */}
                         <div className="w-16 h-16 flex-shrink-0 relative">
-                          {photo.thumbnail_path && (
+                          {photo.file_path && (
                             <img
-                              src={supabase.storage.from('thumbnails').getPublicUrl(photo.thumbnail_path).data.publicUrl}
-                              alt="Vignette"
+                              src={thumbnailUrl(photo)}
+                              alt={t.day.thumbnailAlt}
                               className="w-full h-full object-cover rounded-md bg-muted"
                               onError={(e) => {
                                 e.currentTarget.style.display = 'none';
                               }}
                             />
                           )}
+                          {/* Lecture des vidéos dans la visionneuse */}
+                          {photo.media_type === 'video' && (
+                            <button
+                              type="button"
+                              className="absolute inset-0 flex items-center justify-center rounded-md bg-black/30 text-white"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setModalPhoto(photo);
+                              }}
+                              title={t.day.playVideo}
+                            >
+                              <Play className="h-5 w-5 fill-white" />
+                              {photo.duration_seconds && (
+                                <span className="absolute bottom-0.5 right-1 text-[10px] font-medium">
+                                  {formatDuration(photo.duration_seconds)}
+                                </span>
+                              )}
+                            </button>
+                          )}
                           {/* Icône étoile pour la photo de couverture */}
                           {isCoverPhoto && (
                             <div className="absolute -top-1 -right-1 bg-yellow-500 rounded-full p-1">
@@ -329,7 +435,7 @@ export default function DayView() {
                           ) : (
                             <div className="flex items-center gap-2">
                               <h4 className="font-medium text-sm mb-1">
-                                {photo.title || 'Photo sans titre'}
+                                {photo.title || t.photo.untitled}
                               </h4>
                               {isCoverPhoto && (
                                 <Star className="h-3 w-3 text-yellow-500 fill-yellow-500 flex-shrink-0" />
@@ -339,10 +445,10 @@ export default function DayView() {
                           <div className="text-xs text-muted-foreground space-y-0.5">
                             {photo.location_name && <p>{photo.location_name}</p>}
                             {photo.taken_at && (
-                              <p>{new Date(photo.taken_at).toLocaleTimeString('fr-FR', { 
-                                hour: '2-digit', 
-                                minute: '2-digit' 
-                              })}</p>
+                              <p>{format(getLocalTakenAt(photo.taken_at, photo.utc_offset_minutes, album?.timezone), 'HH:mm')}</p>
+                            )}
+                            {showUploader(photo) && (
+                              <p className="truncate">{t.day.addedBy(memberName(photo.user_id))}</p>
                             )}
                           </div>
                         </div>
@@ -354,6 +460,7 @@ export default function DayView() {
                             size="icon"
                             className="h-6 w-6"
                             onClick={() => toggleFavorite(photo.id, photo.is_favorite)}
+                            disabled={!canEdit}
                           >
                             <Star 
                               className={`h-4 w-4 ${photo.is_favorite ? 'text-blue-500 fill-blue-500' : 'text-muted-foreground'}`}
@@ -374,20 +481,23 @@ export default function DayView() {
                         </div>
                         
                         {/* Actions */}
-                        <div className="flex-shrink-0" onClick={(e) => e.stopPropagation()}>
-                          <PhotoActions
-                            photo={photo}
-                            onPhotoUpdated={fetchData}
-                            onPhotoDeleted={fetchData}
-                            onSetAsCover={() => handleSetAsCover(photo.id)}
-                            isEditingTitle={editingPhotoId === photo.id}
-                            editingTitle={editingPhotoTitle}
-                            onStartEditingTitle={() => startEditingPhotoTitle(photo)}
-                            onSaveTitle={savePhotoTitle}
-                            onCancelEditing={cancelEditingPhotoTitle}
-                            onEditingTitleChange={setEditingPhotoTitle}
-                          />
-                        </div>
+                        {canEdit && (
+                          <div className="flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                            <PhotoActions
+                              photo={photo}
+                              onPhotoUpdated={fetchData}
+                              onPhotoDeleted={fetchData}
+                              onSetAsCover={() => handleSetAsCover(photo.id)}
+                              canDelete={canDeletePhoto(photo)}
+                              isEditingTitle={editingPhotoId === photo.id}
+                              editingTitle={editingPhotoTitle}
+                              onStartEditingTitle={() => startEditingPhotoTitle(photo)}
+                              onSaveTitle={savePhotoTitle}
+                              onCancelEditing={cancelEditingPhotoTitle}
+                              onEditingTitleChange={setEditingPhotoTitle}
+                            />
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                    </Card>
@@ -405,15 +515,16 @@ export default function DayView() {
               locations={mapLocations}
               selectedLocationId={selectedPhotoId}
               onLocationClick={setSelectedPhotoId}
+              tracks={trackLines}
               className="w-full h-full"
             />
           ) : (
             <div className="flex items-center justify-center h-full bg-muted/20">
               <div className="text-center">
                 <MapPin className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Aucune photo géolocalisée</h3>
+                <h3 className="text-lg font-semibold mb-2">{t.map.empty}</h3>
                 <p className="text-muted-foreground">
-                  Les photos de cette journée n'ont pas de données de localisation
+                  {t.day.mapEmptyHint}
                 </p>
               </div>
             </div>
@@ -425,33 +536,63 @@ export default function DayView() {
       <div className="border-t border-border bg-card/50">
         <div className="max-w-4xl mx-auto p-6">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="font-semibold">Récit de la journée</h3>
-            <Button 
-              onClick={saveDescription} 
-              disabled={saving}
-              size="sm"
-              className="bg-gradient-sky hover:opacity-90"
-            >
-              <Save className="h-4 w-4 mr-2" />
-              {saving ? 'Sauvegarde...' : 'Sauvegarder'}
-            </Button>
+            <h3 className="font-semibold">{t.day.story}</h3>
+            {canEdit && (
+              <Button 
+                onClick={saveDescription} 
+                disabled={saving}
+                size="sm"
+                className="bg-gradient-sky hover:opacity-90"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? t.day.saving : t.common.save}
+              </Button>
+            )}
           </div>
-          <Textarea
-            value={dayDescription}
-            onChange={(e) => setDayDescription(e.target.value)}
-            placeholder="Racontez votre journée..."
-            className="min-h-[120px] resize-none"
-          />
+          {canEdit ? (
+            <>
+              <Input
+                value={customLabel}
+                onChange={(e) => setCustomLabel(e.target.value)}
+                placeholder={t.day.customLabelPlaceholder}
+                className="mb-3"
+              />
+              <Textarea
+                value={dayDescription}
+                onChange={(e) => setDayDescription(e.target.value)}
+                placeholder={t.day.storyPlaceholder}
+                className="min-h-[120px] resize-none"
+              />
+            </>
+          ) : (
+            <p className="whitespace-pre-line text-sm text-muted-foreground">
+              {dayDescription || t.day.noStory}
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Réactions et commentaires sur la journée */}
+      {albumId && dayEntry && (
+        <div className="border-t border-border">
+          <div className="max-w-4xl mx-auto p-6">
+            <h3 className="font-semibold mb-4">{t.day.discussion}</h3>
+            <DiscussionPanel albumId={albumId} target={{ dayEntryId: dayEntry.id }} />
+          </div>
+        </div>
+      )}
+
       {/* Photo Modal */}
       <PhotoModal
         isOpen={!!modalPhoto}
         onClose={() => setModalPhoto(null)}
         photo={modalPhoto}
         albumTitle={album?.title || ''}
-        dayTitle={dayEntry && calculateDayTitle(dayEntry, dayNumber)}
+        dayTitle={dayTitle}
+        exifPrivacy={isExifPrivacy(album?.exif_privacy) ? album.exif_privacy : undefined}
+        canEdit={canEdit}
+        canDelete={!!modalPhoto && canDeletePhoto(modalPhoto)}
+        albumId={albumId}
         photos={photos}
         onNavigate={(photoId) => {
           const photo = photos.find(p => p.id === photoId);
@@ -5,16 +5,18 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { ArrowLeft, Play, Pause, Calendar, MapPin, Image, Book } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
+import { format, parseISO } from 'date-fns';
+import { usePhotoUrls } from '@/hooks/useMediaUrls';
+import { useI18n } from '@/i18n/useI18n';
 
 interface MemoryPhoto {
   id: string;
   title: string | null;
   file_path: string;
+  large_path: string | null;
   taken_at: string | null;
   location_name: string | null;
-  album_title: string;
+  album_title: string | null;
   day_title: string | null;
   date: string;
 }
@@ -22,6 +24,7 @@ interface MemoryPhoto {
 export default function Memories() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { t, dateLocale } = useI18n();
   const [photos, setPhotos] = useState<MemoryPhoto[]>([]);
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
@@ -31,18 +34,19 @@ export default function Memories() {
     if (!user) return;
 
     try {
-      // Récupérer toutes les photos de l'utilisateur
+      // Récupérer toutes les photos des albums dont l'utilisateur est membre (règles RLS)
       const { data, error } = await supabase
         .from('photos')
         .select(`
           id,
           title,
           file_path,
+          large_path,
           taken_at,
+          local_date,
           location_name,
           album_id
         `)
-        .eq('user_id', user.id)
         .order('taken_at', { ascending: false });
 
       if (error) throw error;
@@ -60,7 +64,7 @@ export default function Memories() {
               .from('day_entries')
               .select('title, date')
               .eq('album_id', photo.album_id)
-              .eq('date', photo.taken_at ? new Date(photo.taken_at).toISOString().split('T')[0] : new Date().toISOString().split('T')[0])
+              .eq('date', photo.local_date || new Date().toISOString().split('T')[0])
               .maybeSingle()
           ]);
 
@@ -68,11 +72,12 @@ export default function Memories() {
             id: photo.id,
             title: photo.title,
             file_path: photo.file_path,
+            large_path: photo.large_path,
             taken_at: photo.taken_at,
             location_name: photo.location_name,
-            album_title: albumResult.data?.title || 'Album sans titre',
+            album_title: albumResult.data?.title || null,
             day_title: dayEntryResult.data?.title || null,
-            date: dayEntryResult.data?.date || (photo.taken_at ? new Date(photo.taken_at).toISOString().split('T')[0] : new Date().toISOString().split('T')[0])
+            date: dayEntryResult.data?.date || photo.local_date || new Date().toISOString().split('T')[0]
           };
         })
       );
@@ -114,12 +119,18 @@ export default function Memories() {
     setCurrentPhotoIndex((prev) => (prev - 1 + photos.length) % photos.length);
   };
 
+  // Photo affichée et suivante, signée à l'avance pour enchaîner sans attente
+  const largeUrl = usePhotoUrls(
+    photos.length > 0 ? [photos[currentPhotoIndex], photos[(currentPhotoIndex + 1) % photos.length]] : [],
+    'large'
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Chargement des souvenirs...</p>
+          <p className="text-muted-foreground">{t.memories.loading}</p>
         </div>
       </div>
     );
@@ -131,13 +142,13 @@ export default function Memories() {
         <Card className="max-w-md mx-auto">
           <CardContent className="text-center py-8">
             <Image className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-            <h2 className="text-xl font-semibold mb-2">Aucune photo trouvée</h2>
+            <h2 className="text-xl font-semibold mb-2">{t.memories.empty}</h2>
             <p className="text-muted-foreground mb-4">
-              Ajoutez des photos à vos albums pour créer des souvenirs.
+              {t.memories.emptyHint}
             </p>
             <Button onClick={() => navigate('/')} variant="outline">
               <ArrowLeft className="h-4 w-4 mr-2" />
-              Retour aux albums
+              {t.common.backToAlbums}
             </Button>
           </CardContent>
         </Card>
@@ -146,7 +157,7 @@ export default function Memories() {
   }
 
   const currentPhoto = photos[currentPhotoIndex];
-  const photoUrl = `https://rkpxhfigmeqicnxfvbyr.supabase.co/storage/v1/object/public/photos/${currentPhoto.file_path}`;
+  const photoUrl = largeUrl(currentPhoto);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -160,9 +171,9 @@ export default function Memories() {
             className="text-white hover:bg-white/20"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Retour
+            {t.common.back}
           </Button>
-          <h1 className="text-xl font-semibold">Souvenirs</h1>
+          <h1 className="text-xl font-semibold">{t.memories.title}</h1>
           <div className="w-16" /> {/* Spacer */}
         </div>
       </header>
@@ -171,7 +182,7 @@ export default function Memories() {
       <div className="relative h-screen flex items-center justify-center">
         <img
           src={photoUrl}
-          alt={currentPhoto.title || 'Photo souvenir'}
+          alt={currentPhoto.title || t.memories.photoAlt}
           className="max-h-full max-w-full object-contain"
           loading="lazy"
         />
@@ -183,10 +194,7 @@ export default function Memories() {
               <div className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
                 <span>
-                  {currentPhoto.taken_at 
-                    ? format(new Date(currentPhoto.taken_at), 'dd MMMM yyyy', { locale: fr })
-                    : format(new Date(currentPhoto.date), 'dd MMMM yyyy', { locale: fr })
-                  }
+                  {format(parseISO(currentPhoto.date), 'dd MMMM yyyy', { locale: dateLocale })}
                 </span>
               </div>
               {currentPhoto.location_name && (
@@ -200,7 +208,7 @@ export default function Memories() {
             <div className="space-y-1">
               <div className="flex items-center gap-2 text-white">
                 <Book className="h-4 w-4" />
-                <span className="font-medium">{currentPhoto.album_title}</span>
+                <span className="font-medium">{currentPhoto.album_title || t.memories.untitledAlbum}</span>
               </div>
               
               {currentPhoto.day_title && (
@@ -221,7 +229,7 @@ export default function Memories() {
                 {currentPhotoIndex + 1} / {photos.length}
               </div>
               <span className="text-sm text-white/60">
-                {isPlaying ? 'Lecture automatique' : 'En pause'}
+                {isPlaying ? t.memories.playing : t.memories.paused}
               </span>
             </div>
           </div>
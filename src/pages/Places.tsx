@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ChevronRight, Globe, MapPin } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { usePhotoUrls } from '@/hooks/useMediaUrls';
+import { placeFromColumns, placeLabel } from '@shared/places';
+import { useI18n } from '@/i18n/useI18n';
+import type { Database } from '@/integrations/supabase/types';
+
+type HierarchyRow = Database['public']['Functions']['get_place_hierarchy']['Returns'][number];
+
+interface MunicipalityNode {
+  name: string | null;
+  photoCount: number;
+}
+
+interface RegionNode {
+  name: string | null;
+  photoCount: number;
+  municipalities: MunicipalityNode[];
+}
+
+interface CountryNode {
+  code: string | null;
+  name: string;
+  photoCount: number;
+  regions: RegionNode[];
+}
+
+// Filtre courant : chaque niveau n'a de sens que si le précédent est choisi
+interface PlaceFilter {
+  country: CountryNode;
+  region?: RegionNode;
+  municipality?: MunicipalityNode;
+}
+
+type PlacePhoto = Pick<
+  Database['public']['Tables']['photos']['Row'],
+  'id' | 'album_id' | 'title' | 'file_path' | 'thumbnail_path' | 'medium_path' | 'large_path' | 'taken_at' | 'local_date' |
+  'location_name' | 'place_locality' | 'place_municipality' | 'place_region' | 'place_country' | 'place_country_code'
+>;
+
+// Au-delà, affiner le filtre plutôt que tout charger
+const MAX_PHOTOS = 300;
+
+/**
+ * Regroupe les lignes pays > région > commune renvoyées par get_place_hierarchy
+ */
+function buildHierarchy(rows: HierarchyRow[]): CountryNode[] {
+  const countries = new Map<string, CountryNode>();
+
+  rows.forEach(row => {
+    const countryKey = row.country_code || row.country;
+    let country = countries.get(countryKey);
+    if (!country) {
+      country = { code: row.country_code, name: row.country, photoCount: 0, regions: [] };
+      countries.set(countryKey, country);
+    }
+    country.photoCount += row.photo_count;
+
+    let region = country.regions.find(r => r.name === row.region);
+    if (!region) {
+      region = { name: row.region, photoCount: 0, municipalities: [] };
+      country.regions.push(region);
+    }
+    region.photoCount += row.photo_count;
+    region.municipalities.push({ name: row.municipality, photoCount: row.photo_count });
+  });
+
+  return Array.from(countries.values()).sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+}
+
+export default function Places() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { t, dateLocale } = useI18n();
+  const [countries, setCountries] = useState<CountryNode[]>([]);
+  const [filter, setFilter] = useState<PlaceFilter | null>(null);
+  const [photos, setPhotos] = useState<PlacePhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingPhotos, setLoadingPhotos] = useState(false);
+  const thumbnailUrl = usePhotoUrls(photos, 'thumbnail');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchHierarchy = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_place_hierarchy');
+        if (error) throw error;
+        setCountries(buildHierarchy(data || []));
+      } catch (error) {
+        console.error('Erreur lors du chargement des lieux:', error);
+        toast.error(t.places.loadError);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHierarchy();
+  }, [user, t]);
+
+  useEffect(() => {
+    if (!user || !filter) {
+      setPhotos([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchPhotos = async () => {
+      setLoadingPhotos(true);
+      try {
+        let query = supabase
+          .from('photos')
+          .select('id, album_id, title, file_path, thumbnail_path, medium_path, large_path, taken_at, local_date, location_name, place_locality, place_municipality, place_region, place_country, place_country_code')
+          .order('taken_at', { ascending: false })
+          .limit(MAX_PHOTOS);
+
+        query = filter.country.code
+          ? query.eq('place_country_code', filter.country.code)
+          : query.eq('place_country', filter.country.name);
+        if (filter.region) {
+          query = filter.region.name ? query.eq('place_region', filter.region.name) : query.is('place_region', null);
+        }
+        if (filter.municipality) {
+          query = filter.municipality.name
+            ? query.eq('place_municipality', filter.municipality.name)
+            : query.is('place_municipality', null);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        if (!cancelled) setPhotos(data || []);
+      } catch (error) {
+        console.error('Erreur lors du chargement des photos:', error);
+        toast.error(t.places.photosLoadError);
+      } finally {
+        if (!cancelled) setLoadingPhotos(false);
+      }
+    };
+
+    fetchPhotos();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, filter, t]);
+
+  const totalPhotos = useMemo(
+    () => countries.reduce((total, country) => total + country.photoCount, 0),
+    [countries]
+  );
+
+  const regionName = (region: RegionNode) => region.name || t.places.unknownRegion;
+  const municipalityName = (municipality: MunicipalityNode) => municipality.name || t.places.unknownMunicipality;
+
+  const selectedCount = filter?.municipality?.photoCount ?? filter?.region?.photoCount ?? filter?.country.photoCount ?? 0;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-card-border shadow-soft">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t.common.back}
+            </Button>
+            <div>
+              <h1 className="text-xl font-bold">{t.places.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                {t.places.summary(totalPhotos, countries.length)}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {countries.length === 0 ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="text-center py-8">
+              <Globe className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h2 className="text-xl font-semibold mb-2">{t.places.empty}</h2>
+              <p className="text-muted-foreground">
+                {t.places.emptyHint}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+            {/* Arborescence des lieux */}
+            <Card>
+              <CardContent className="p-2 space-y-1">
+                {countries.map(country => {
+                  const countrySelected = filter?.country === country;
+                  return (
+                    <div key={country.code || country.name}>
+                      <button
+                        type="button"
+                        onClick={() => setFilter({ country })}
+                        className={`w-full flex items-center justify-between rounded-md px-3 py-2 text-sm hover:bg-muted ${countrySelected && !filter?.region ? 'bg-muted font-medium' : ''}`}
+                      >
+                        <span className="flex items-center gap-2 truncate">
+                          <ChevronRight className={`h-4 w-4 flex-shrink-0 transition-transform ${countrySelected ? 'rotate-90' : ''}`} />
+                          {country.name}
+                        </span>
+                        <Badge variant="secondary">{country.photoCount}</Badge>
+                      </button>
+
+                      {countrySelected && country.regions.map(region => {
+                        const regionSelected = filter?.region === region;
+                        return (
+                          <div key={region.name ?? ''} className="ml-4">
+                            <button
+                              type="button"
+                              onClick={() => setFilter({ country, region })}
+                              className={`w-full flex items-center justify-between rounded-md px-3 py-1.5 text-sm hover:bg-muted ${regionSelected && !filter?.municipality ? 'bg-muted font-medium' : ''}`}
+                            >
+                              <span className="truncate">{regionName(region)}</span>
+                              <Badge variant="outline">{region.photoCount}</Badge>
+                            </button>
+
+                            {regionSelected && region.municipalities.map(municipality => (
+                              <button
+                                key={municipality.name ?? ''}
+                                type="button"
+                                onClick={() => setFilter({ country, region, municipality })}
+                                className={`ml-4 w-[calc(100%-1rem)] flex items-center justify-between rounded-md px-3 py-1 text-xs hover:bg-muted ${filter?.municipality === municipality ? 'bg-muted font-medium' : ''}`}
+                              >
+                                <span className="truncate">{municipalityName(municipality)}</span>
+                                <span className="text-muted-foreground">{municipality.photoCount}</span>
+                              </button>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Photos du lieu choisi */}
+            <div className="space-y-4">
+              {!filter ? (
+                <div className="text-center py-16 text-muted-foreground">
+                  <MapPin className="h-12 w-12 mx-auto mb-4" />
+                  <p>{t.places.choose}</p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold">
+                      {[
+                        filter.country.name,
+                        filter.region && regionName(filter.region),
+                        filter.municipality && municipalityName(filter.municipality)
+                      ].filter(Boolean).join(' › ')}
+                    </h2>
+                    <span className="text-sm text-muted-foreground">
+                      {t.common.photoCount(selectedCount)}
+                      {selectedCount > MAX_PHOTOS && ` ${t.places.mostRecent(MAX_PHOTOS)}`}
+                    </span>
+                  </div>
+
+                  {loadingPhotos ? (
+                    <div className="flex justify-center py-16">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                      {photos.map(photo => (
+                        <button
+                          key={photo.id}
+                          type="button"
+                          onClick={() => navigate(`/album/${photo.album_id}`)}
+                          className="group text-left rounded-lg overflow-hidden border bg-card hover:shadow-medium transition-shadow"
+                        >
+                          <div className="aspect-square bg-muted overflow-hidden">
+                            <img
+                              src={thumbnailUrl(photo)}
+                              alt={photo.title || 'Photo'}
+                              className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                              loading="lazy"
+                            />
+                          </div>
+                          <div className="p-2">
+                            <p className="text-xs font-medium truncate">
+                              {placeLabel(placeFromColumns(photo), { detailed: true }) || photo.location_name}
+                            </p>
+                            {photo.local_date && (
+                              <p className="text-xs text-muted-foreground">
+                                {format(parseISO(photo.local_date), 'PPP', { locale: dateLocale })}
+                              </p>
+                            )}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
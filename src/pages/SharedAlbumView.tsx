@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { PhotoMap } from '@/components/map/PhotoMap';
+import { useSharedAlbum } from '@/hooks/useSharedAlbum';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Binoculars, Camera, Play } from 'lucide-react';
+import { isInferredLocation } from '@shared/locationSource';
+import { placeFromColumns, placeFullName } from '@shared/places';
+import { useI18n } from '@/i18n/useI18n';
+
+/**
+ * AlbumView en lecture seule, pour un lien de partage
+ */
+export default function SharedAlbumView() {
+  const navigate = useNavigate();
+  const { shared, days } = useSharedAlbum();
+  const { t } = useI18n();
+  const [selectedDayId, setSelectedDayId] = useState<string>();
+
+  // Un lien vers une seule journée s'ouvre directement sur elle
+  if (shared.share.day_id) {
+    return <Navigate to={`day/${shared.share.day_id}`} replace />;
+  }
+
+  const photosById = new Map(shared.photos.map(photo => [photo.id, photo]));
+
+  const mapLocations = days
+    .map(day => ({ day, cover: day.cover_photo_id ? photosById.get(day.cover_photo_id) : undefined }))
+    .filter(({ cover }) => cover?.latitude && cover?.longitude)
+    .map(({ day, cover }) => ({
+      id: day.id,
+      latitude: cover!.latitude!,
+      longitude: cover!.longitude!,
+      title: day.calculatedTitle,
+      placeName: placeFullName(placeFromColumns(day)),
+      date: day.date,
+      photoCount: day.photo_count,
+      selected: day.id === selectedDayId,
+      inferred: isInferredLocation(cover!.location_source)
+    }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-card-border shadow-soft">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-xl font-bold">{shared.album.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                {shared.album.description || `Album ${shared.album.month}/${shared.album.year}`}
+              </p>
+            </div>
+            {shared.photos.length > 0 && (
+              <Button variant="outline" onClick={() => navigate('slideshow')}>
+                <Play className="h-4 w-4 mr-2" />
+                {t.album.slideshow}
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="flex flex-col lg:flex-row h-[calc(100vh-80px)]">
+        {/* Sidebar with days */}
+        <div className="w-full lg:w-80 border-b lg:border-b-0 lg:border-r border-border bg-card/50 overflow-y-auto custom-scrollbar max-h-[60vh] lg:max-h-none">
+          <div className="p-6">
+            <h3 className="font-semibold mb-4">{t.album.days}</h3>
+            {days.length === 0 ? (
+              <div className="text-center py-8">
+                <Camera className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">{t.album.noPhotos}</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {days.map(day => {
+                  const cover = day.cover_photo_id ? photosById.get(day.cover_photo_id) : undefined;
+                  return (
+                    <Card
+                      key={day.id}
+                      className={`group cursor-pointer transition-all hover:shadow-medium ${
+                        selectedDayId === day.id ? 'ring-2 ring-primary shadow-medium' : ''
+                      }`}
+                      onClick={() => setSelectedDayId(day.id)}
+                    >
+                      <CardContent className="p-3">
+                        <div className="flex gap-3">
+                          <div className="w-16 h-16 flex-shrink-0">
+                            {cover?.thumbnail_url ? (
+                              <img
+                                src={cover.thumbnail_url}
+                                alt={t.album.dayThumbnailAlt}
+                                className="w-full h-full object-cover rounded-md bg-muted"
+                              />
+                            ) : (
+                              <div className="w-full h-full bg-muted rounded-md" />
+                            )}
+                          </div>
+
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between mb-1">
+                              <h4 className="font-medium text-sm min-w-0">{day.calculatedTitle}</h4>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 w-6 p-0"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  navigate(`day/${day.id}`);
+                                }}
+                              >
+                                <Binoculars className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <div className="text-xs text-muted-foreground space-y-0.5">
+                              <p>{day.date}</p>
+                              <p>{t.common.photoCount(day.photo_count)}</p>
+                            </div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Map */}
+        <div className="flex-1">
+          {mapLocations.length > 0 ? (
+            <PhotoMap
+              locations={mapLocations}
+              selectedLocationId={selectedDayId}
+              onLocationClick={setSelectedDayId}
+              className="w-full h-full"
+            />
+          ) : (
+            <div className="flex items-center justify-center h-full bg-muted/20">
+              <div className="text-center">
+                <Camera className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">{t.map.empty}</h3>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { PhotoMap } from '@/components/map/PhotoMap';
+import { useSharedAlbum } from '@/hooks/useSharedAlbum';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, ChevronLeft, ChevronRight, MapPin, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatDuration } from '@/utils/videoPoster';
+import { getLocalTakenAt } from '@/utils/localTime';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { isInferredLocation } from '@shared/locationSource';
+import { useI18n } from '@/i18n/useI18n';
+
+/**
+ * DayView en lecture seule, pour un lien de partage
+ */
+export default function SharedDayView() {
+  const { dayId } = useParams<{ dayId: string }>();
+  const navigate = useNavigate();
+  const isMobile = useIsMobile();
+  const { token, shared, days } = useSharedAlbum();
+  const { t, locale } = useI18n();
+  const [selectedPhotoId, setSelectedPhotoId] = useState<string>();
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const day = days.find(d => d.id === dayId);
+  const photos = day ? shared.photos.filter(photo => photo.local_date === day.date) : [];
+  const viewerPhoto = viewerIndex !== null ? photos[viewerIndex] : undefined;
+  // Retour à l'album, sauf pour un lien vers cette seule journée
+  const canGoBack = !shared.share.day_id;
+
+  if (!day) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">{t.day.notFound}</h2>
+          {canGoBack && <Button onClick={() => navigate(`/share/${token}`)}>{t.common.backToAlbum}</Button>}
+        </div>
+      </div>
+    );
+  }
+
+  const mapLocations = photos
+    .filter(photo => photo.latitude && photo.longitude)
+    .map(photo => ({
+      id: photo.id,
+      latitude: photo.latitude!,
+      longitude: photo.longitude!,
+      title: photo.title || t.photo.untitled,
+      placeName: photo.location_name || undefined,
+      date: day.date,
+      photoCount: 1,
+      selected: photo.id === selectedPhotoId,
+      inferred: isInferredLocation(photo.location_source)
+    }));
+
+  const showPhoto = (offset: number) => {
+    setViewerIndex(index => index === null ? null : (index + offset + photos.length) % photos.length);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className={`bg-card border-b border-card-border shadow-soft ${isMobile ? 'h-[25vh]' : ''}`}>
+        <div className="max-w-7xl mx-auto px-6 py-4 h-full">
+          <div className="flex items-center gap-4 h-full">
+            {canGoBack && (
+              <Button variant="ghost" onClick={() => navigate(`/share/${token}`)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t.common.backToAlbum}
+              </Button>
+            )}
+            <div>
+              <h1 className="text-xl font-bold">{shared.album.title} - {day.calculatedTitle}</h1>
+              <p className="text-sm text-muted-foreground">
+                {day.location_name ? `${day.location_name} - ` : ''}{new Date(day.date).toLocaleDateString(locale)} - {t.common.photoCount(photos.length)}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="flex flex-col lg:flex-row h-[75vh] lg:h-[calc(100vh-200px)]">
+        {/* Photos */}
+        <div className="w-full lg:w-96 border-b lg:border-b-0 lg:border-r border-border bg-card/50 overflow-y-auto custom-scrollbar h-full lg:max-h-none">
+          <div className="p-6">
+            <h3 className="font-semibold mb-4">{t.day.photos}</h3>
+            {photos.length === 0 ? (
+              <div className="text-center py-8">
+                <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">{t.day.noPhotos}</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {photos.map((photo, index) => (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    className={`relative aspect-square rounded-md overflow-hidden bg-muted ${
+                      selectedPhotoId === photo.id ? 'ring-2 ring-primary' : ''
+                    }`}
+                    onClick={() => {
+                      setSelectedPhotoId(photo.id);
+                      setViewerIndex(index);
+                    }}
+                    title={[
+                      photo.title,
+                      photo.taken_at && format(getLocalTakenAt(photo.taken_at, photo.utc_offset_minutes, shared.album.timezone), 'HH:mm')
+                    ].filter(Boolean).join(' - ')}
+                  >
+                    {photo.thumbnail_url && (
+                      <img src={photo.thumbnail_url} alt={photo.title || t.day.thumbnailAlt} className="w-full h-full object-cover" />
+                    )}
+                    {photo.media_type === 'video' && (
+                      <span className="absolute inset-0 flex items-center justify-center bg-black/30 text-white">
+                        <Play className="h-5 w-5 fill-white" />
+                        {photo.duration_seconds && (
+                          <span className="absolute bottom-0.5 right-1 text-[10px] font-medium">
+                            {formatDuration(photo.duration_seconds)}
+                          </span>
+                        )}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Map - Hidden on mobile */}
+        <div className="flex-1 hidden lg:block">
+          {mapLocations.length > 0 ? (
+            <PhotoMap
+              locations={mapLocations}
+              selectedLocationId={selectedPhotoId}
+              onLocationClick={setSelectedPhotoId}
+              className="w-full h-full"
+            />
+          ) : (
+            <div className="flex items-center justify-center h-full bg-muted/20">
+              <div className="text-center">
+                <MapPin className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">{t.map.empty}</h3>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Récit */}
+      {day.description && (
+        <div className="border-t border-border bg-card/50">
+          <div className="max-w-4xl mx-auto p-6">
+            <h3 className="font-semibold mb-4">{t.day.story}</h3>
+            <p className="whitespace-pre-line text-sm">{day.description}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Visionneuse */}
+      <Dialog open={!!viewerPhoto} onOpenChange={(open) => !open && setViewerIndex(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>{viewerPhoto?.title || day.calculatedTitle}</DialogTitle>
+          </DialogHeader>
+          {viewerPhoto && (
+            <div className="relative flex items-center justify-center bg-black rounded-md min-h-[50vh]">
+              {viewerPhoto.media_type === 'video' && viewerPhoto.video_url ? (
+                <video
+                  key={viewerPhoto.id}
+                  src={viewerPhoto.video_url}
+                  poster={viewerPhoto.large_url ?? undefined}
+                  className="max-h-[75vh] max-w-full"
+                  controls
+                  autoPlay
+                  playsInline
+                />
+              ) : viewerPhoto.large_url ? (
+                <img src={viewerPhoto.large_url} alt={viewerPhoto.title || 'Photo'} className="max-h-[75vh] max-w-full object-contain" />
+              ) : (
+                <p className="text-white/70 text-sm">{t.share.previewUnavailable}</p>
+              )}
+              {photos.length > 1 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute left-2 text-white hover:bg-white/20"
+                    onClick={() => showPhoto(-1)}
+                  >
+                    <ChevronLeft className="h-6 w-6" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-2 text-white hover:bg-white/20"
+                    onClick={() => showPhoto(1)}
+                  >
+                    <ChevronRight className="h-6 w-6" />
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSharedAlbum } from '@/hooks/useSharedAlbum';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Calendar, MapPin, Pause, Play } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useI18n } from '@/i18n/useI18n';
+import type { SharedPhoto } from '@shared/sharedAlbum';
+
+/**
+ * Diaporama en lecture seule, pour un lien de partage
+ */
+export default function SharedSlideshow() {
+  const navigate = useNavigate();
+  const { t, dateLocale } = useI18n();
+  const { token, shared, days } = useSharedAlbum();
+  const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Ordre mélangé une fois : le rafraîchissement des URLs signées ne rebat pas les cartes
+  const [order] = useState(() => shared.photos.map(photo => photo.id).sort(() => Math.random() - 0.5));
+  const photos = useMemo(() => {
+    const byId = new Map(shared.photos.map(photo => [photo.id, photo]));
+    return order
+      .map(id => byId.get(id))
+      .filter((photo): photo is SharedPhoto => !!photo && !!(photo.large_url || photo.video_url));
+  }, [order, shared.photos]);
+  const dayTitles = useMemo(() => new Map(days.map(day => [day.date, day.calculatedTitle])), [days]);
+
+  const currentPhoto = photos[currentPhotoIndex % Math.max(photos.length, 1)];
+  const isVideo = currentPhoto?.media_type === 'video' && !!currentPhoto.video_url;
+
+  useEffect(() => {
+    // Une vidéo passe à la suivante à la fin de sa lecture
+    if (!isPlaying || photos.length === 0 || isVideo) return;
+
+    const interval = setInterval(() => {
+      setCurrentPhotoIndex((prev) => (prev + 1) % photos.length);
+    }, 15000);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, photos.length, isVideo]);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    if (isPlaying) {
+      videoRef.current.play().catch(() => undefined);
+    } else {
+      videoRef.current.pause();
+    }
+  }, [isPlaying, currentPhotoIndex]);
+
+  const nextPhoto = () => setCurrentPhotoIndex((prev) => (prev + 1) % photos.length);
+  const prevPhoto = () => setCurrentPhotoIndex((prev) => (prev - 1 + photos.length) % photos.length);
+  const goBack = () => navigate(`/share/${token}`);
+
+  if (!currentPhoto) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-4">{t.slideshow.empty}</h2>
+          <Button onClick={goBack} variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t.common.backToAlbum}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      {/* Header */}
+      <header className="absolute top-0 left-0 right-0 z-10 bg-gradient-to-b from-black/80 to-transparent">
+        <div className="flex items-center justify-between p-6">
+          <Button variant="ghost" size="sm" onClick={goBack} className="text-white hover:bg-white/20">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Retour
+          </Button>
+          <h1 className="text-xl font-semibold">{t.slideshow.title(shared.album.title)}</h1>
+          <div className="w-16" />
+        </div>
+      </header>
+
+      {/* Main photo display */}
+      <div className="relative h-screen flex items-center justify-center">
+        {isVideo ? (
+          <video
+            ref={videoRef}
+            key={currentPhoto.id}
+            src={currentPhoto.video_url!}
+            poster={currentPhoto.large_url ?? undefined}
+            className="max-h-full max-w-full object-contain"
+            autoPlay={isPlaying}
+            muted
+            playsInline
+            onEnded={() => {
+              if (isPlaying) nextPhoto();
+            }}
+          />
+        ) : (
+          <img
+            src={currentPhoto.large_url!}
+            alt={currentPhoto.title || t.slideshow.photoAlt}
+            className="max-h-full max-w-full object-contain"
+          />
+        )}
+
+        {/* Photo info overlay */}
+        <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent">
+          <div className="p-6 space-y-3">
+            <div className="flex items-center gap-4 text-sm text-white/80">
+              {currentPhoto.local_date && (
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  <span>{format(parseISO(currentPhoto.local_date), 'dd MMMM yyyy', { locale: dateLocale })}</span>
+                </div>
+              )}
+              {currentPhoto.location_name && (
+                <div className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  <span>{currentPhoto.location_name}</span>
+                </div>
+              )}
+            </div>
+
+            {currentPhoto.local_date && dayTitles.get(currentPhoto.local_date) && (
+              <p className="text-white/90 text-sm">{dayTitles.get(currentPhoto.local_date)}</p>
+            )}
+            {currentPhoto.title && (
+              <p className="text-white/90 text-sm italic">"{currentPhoto.title}"</p>
+            )}
+
+            <div className="text-sm text-white/60 pt-2">
+              {(currentPhotoIndex % photos.length) + 1} / {photos.length}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 flex items-center gap-4 bg-black/60 backdrop-blur-sm rounded-full px-6 py-3">
+        <Button variant="ghost" size="sm" onClick={prevPhoto} className="text-white hover:bg-white/20 rounded-full">
+          ←
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsPlaying(!isPlaying)}
+          className="text-white hover:bg-white/20 rounded-full w-12 h-12"
+        >
+          {isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={nextPhoto} className="text-white hover:bg-white/20 rounded-full">
+          →
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,23 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { ArrowLeft, Play, Pause, Calendar, MapPin, Image, Book } from 'lucide-react';
-import { format } from 'date-fns';
-import { fr } from 'date-fns/locale';
+import { format, parseISO } from 'date-fns';
+import { getOriginalMedia } from '@/utils/photoUrls';
+import { useMediaUrl, usePhotoUrls } from '@/hooks/useMediaUrls';
+import { calculateDayTitle } from '@/utils/dayTitleFormatter';
+import { dayNumberOf } from '@shared/dayTitle';
+import { useI18n } from '@/i18n/useI18n';
 
 interface SlidePhoto {
   id: string;
   title: string | null;
   file_path: string;
+  large_path: string | null;
+  media_type: string;
   taken_at: string | null;
   location_name: string | null;
   album_title: string;
@@ -23,11 +29,13 @@ export default function Slideshow() {
   const { albumId } = useParams<{ albumId: string }>();
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { t, locale, dateLocale } = useI18n();
   const [photos, setPhotos] = useState<SlidePhoto[]>([]);
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
   const [loading, setLoading] = useState(true);
   const [albumTitle, setAlbumTitle] = useState<string>('');
+  const videoRef = useRef<HTMLVideoElement>(null);
 
   const fetchAlbumPhotos = useCallback(async () => {
     if (!user || !albumId) return;
@@ -36,7 +44,7 @@ export default function Slideshow() {
       // Récupérer l'album
       const { data: albumData, error: albumError } = await supabase
         .from('albums')
-        .select('title')
+        .select('title, day_title_template')
         .eq('id', albumId)
         .single();
 
@@ -50,38 +58,52 @@ export default function Slideshow() {
           id,
           title,
           file_path,
+          large_path,
+          media_type,
           taken_at,
+          local_date,
           location_name
         `)
-        .eq('user_id', user.id)
         .eq('album_id', albumId)
         .order('taken_at', { ascending: false });
 
       if (error) throw error;
 
-      // Ensuite récupérer les informations des day_entries
-      const photosWithDetails = await Promise.all(
-        data.map(async (photo) => {
-          const dayEntryResult = await supabase
-            .from('day_entries')
-            .select('title, date')
-            .eq('album_id', albumId)
-            .eq('date', photo.taken_at ? new Date(photo.taken_at).toISOString().split('T')[0] : new Date().toISOString().split('T')[0])
-            .maybeSingle();
+      // Titres des journées selon le modèle de l'album, comme dans AlbumView
+      const { data: dayData, error: dayError } = await supabase.rpc('get_day_entries_with_photo_count', {
+        album_id: albumId
+      });
 
-          return {
-            id: photo.id,
-            title: photo.title,
-            file_path: photo.file_path,
-            taken_at: photo.taken_at,
-            location_name: photo.location_name,
-            album_title: albumData.title,
-            day_title: dayEntryResult.data?.title || null,
-            date: dayEntryResult.data?.date || (photo.taken_at ? new Date(photo.taken_at).toISOString().split('T')[0] : new Date().toISOString().split('T')[0])
-          };
-        })
+      if (dayError) throw dayError;
+
+      const firstDate = dayData?.[0]?.date;
+      const dayTitles = new Map(
+        (dayData || []).map(day => [
+          day.date,
+          calculateDayTitle(
+            { ...day, cover_photo: { location_name: day.cover_photo_location_name } },
+            dayNumberOf(day.date, firstDate),
+            { locale, template: albumData.day_title_template }
+          )
+        ])
       );
 
+      const photosWithDetails = data.map(photo => {
+        const date = photo.local_date || new Date().toISOString().split('T')[0];
+        return {
+          id: photo.id,
+          title: photo.title,
+          file_path: photo.file_path,
+          large_path: photo.large_path,
+          media_type: photo.media_type,
+          taken_at: photo.taken_at,
+          location_name: photo.location_name,
+          album_title: albumData.title,
+          day_title: dayTitles.get(date) || null,
+          date
+        };
+      });
+
       // Mélanger les photos aléatoirement
       const shuffledPhotos = photosWithDetails.sort(() => Math.random() - 0.5);
       setPhotos(shuffledPhotos);
@@ -91,21 +113,33 @@ export default function Slideshow() {
     } finally {
       setLoading(false);
     }
-  }, [user, albumId]);
+  }, [user, albumId, locale]);
 
   useEffect(() => {
     fetchAlbumPhotos();
   }, [fetchAlbumPhotos]);
 
+  const isVideo = photos[currentPhotoIndex]?.media_type === 'video';
+
   useEffect(() => {
-    if (!isPlaying || photos.length === 0) return;
+    // Une vidéo passe à la suivante à la fin de sa lecture
+    if (!isPlaying || photos.length === 0 || isVideo) return;
 
     const interval = setInterval(() => {
       setCurrentPhotoIndex((prev) => (prev + 1) % photos.length);
     }, 15000);
 
     return () => clearInterval(interval);
-  }, [isPlaying, photos.length]);
+  }, [isPlaying, photos.length, isVideo]);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    if (isPlaying) {
+      videoRef.current.play().catch(() => undefined);
+    } else {
+      videoRef.current.pause();
+    }
+  }, [isPlaying, currentPhotoIndex]);
 
   const togglePlayPause = () => {
     setIsPlaying(!isPlaying);
@@ -119,12 +153,19 @@ export default function Slideshow() {
     setCurrentPhotoIndex((prev) => (prev - 1 + photos.length) % photos.length);
   };
 
+  // Photo affichée et suivante, signée à l'avance pour enchaîner sans attente
+  const largeUrl = usePhotoUrls(
+    photos.length > 0 ? [photos[currentPhotoIndex], photos[(currentPhotoIndex + 1) % photos.length]] : [],
+    'large'
+  );
+  const videoUrl = useMediaUrl(isVideo ? getOriginalMedia(photos[currentPhotoIndex].file_path) : null);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Chargement du diaporama...</p>
+          <p className="text-muted-foreground">{t.slideshow.loading}</p>
         </div>
       </div>
     );
@@ -136,14 +177,14 @@ export default function Slideshow() {
         <Card className="max-w-md mx-auto">
           <CardContent className="text-center py-8">
             <Image className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-            <h2 className="text-xl font-semibold mb-2">Aucune photo dans cet album</h2>
+            <h2 className="text-xl font-semibold mb-2">{t.slideshow.empty}</h2>
             <p className="text-muted-foreground mb-4">
-              Ajoutez des photos à cet album pour créer un diaporama.
+              {t.slideshow.emptyHint}
             </p>
             <div className="flex gap-2 justify-center">
               <Button onClick={() => navigate(`/album/${albumId}`)} variant="outline">
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                Retour à l'album
+                {t.common.backToAlbum}
               </Button>
             </div>
           </CardContent>
@@ -153,7 +194,7 @@ export default function Slideshow() {
   }
 
   const currentPhoto = photos[currentPhotoIndex];
-  const photoUrl = `https://rkpxhfigmeqicnxfvbyr.supabase.co/storage/v1/object/public/photos/${currentPhoto.file_path}`;
+  const photoUrl = largeUrl(currentPhoto);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -169,19 +210,35 @@ export default function Slideshow() {
             <ArrowLeft className="h-4 w-4 mr-2" />
             Retour
           </Button>
-          <h1 className="text-xl font-semibold">Diaporama - {albumTitle}</h1>
+          <h1 className="text-xl font-semibold">{t.slideshow.title(albumTitle)}</h1>
           <div className="w-16" /> {/* Spacer */}
         </div>
       </header>
 
       {/* Main photo display */}
       <div className="relative h-screen flex items-center justify-center">
-        <img
-          src={photoUrl}
-          alt={currentPhoto.title || 'Photo diaporama'}
-          className="max-h-full max-w-full object-contain"
-          loading="lazy"
-        />
+        {isVideo ? (
+          <video
+            ref={videoRef}
+            key={currentPhoto.id}
+            src={videoUrl}
+            poster={currentPhoto.large_path ? photoUrl : undefined}
+            className="max-h-full max-w-full object-contain"
+            autoPlay={isPlaying}
+            muted
+            playsInline
+            onEnded={() => {
+              if (isPlaying) nextPhoto();
+            }}
+          />
+        ) : (
+          <img
+            src={photoUrl}
+            alt={currentPhoto.title || t.slideshow.photoAlt}
+            className="max-h-full max-w-full object-contain"
+            loading="lazy"
+          />
+        )}
         
         {/* Photo info overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent">
@@ -190,10 +247,7 @@ export default function Slideshow() {
               <div className="flex items-center gap-1">
                 <Calendar className="h-4 w-4" />
                 <span>
-                  {currentPhoto.taken_at 
-                    ? format(new Date(currentPhoto.taken_at), 'dd MMMM yyyy', { locale: fr })
-                    : format(new Date(currentPhoto.date), 'dd MMMM yyyy', { locale: fr })
-                  }
+                  {format(parseISO(currentPhoto.date), 'dd MMMM yyyy', { locale: dateLocale })}
                 </span>
               </div>
               {currentPhoto.location_name && (
@@ -228,7 +282,7 @@ export default function Slideshow() {
                 {currentPhotoIndex + 1} / {photos.length}
               </div>
               <span className="text-sm text-white/60">
-                {isPlaying ? 'Lecture automatique' : 'En pause'}
+                {isPlaying ? t.slideshow.playing : t.slideshow.paused}
               </span>
             </div>
           </div>
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, CalendarRange } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { differenceInCalendarDays, format, getDaysInYear } from 'date-fns';
+import { toast } from 'sonner';
+import { albumEndDate, albumStartDate, AlbumPeriod, compareAlbumsByPeriod, formatAlbumPeriod, groupAlbumsByYear } from '@/utils/albumPeriod';
+import { useI18n } from '@/i18n/useI18n';
+
+interface TimelineAlbum extends AlbumPeriod {
+  id: string;
+  title: string;
+  photo_count: number;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+/**
+ * Position d'un voyage sur la frise de son année de départ, en pourcentage de l'année.
+ * Un voyage à cheval sur deux années s'arrête au 31 décembre
+ */
+function barPosition(album: TimelineAlbum, year: number) {
+  const yearStart = new Date(year, 0, 1);
+  const daysInYear = getDaysInYear(yearStart);
+  const startDay = differenceInCalendarDays(albumStartDate(album), yearStart);
+  const endDay = Math.min(differenceInCalendarDays(albumEndDate(album), yearStart), daysInYear - 1);
+
+  return {
+    left: `${(startDay / daysInYear) * 100}%`,
+    width: `${((endDay - startDay + 1) / daysInYear) * 100}%`
+  };
+}
+
+export default function Timeline() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { t, dateLocale } = useI18n();
+  const [albums, setAlbums] = useState<TimelineAlbum[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchAlbums = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('albums')
+          .select('id, title, year, month, start_date, end_date, photos (count)');
+
+        if (error) throw error;
+
+        setAlbums((data || []).map(({ photos, ...album }) => ({
+          ...album,
+          photo_count: photos?.[0]?.count || 0
+        })).sort(compareAlbumsByPeriod));
+      } catch (error) {
+        console.error('Erreur lors du chargement de la chronologie:', error);
+        toast.error(t.timeline.loadError);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAlbums();
+  }, [user, t]);
+
+  // Années de départ des voyages, de la plus récente à la plus ancienne
+  const years = useMemo(() => groupAlbumsByYear(albums), [albums]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-card-border shadow-soft">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t.common.back}
+            </Button>
+            <div>
+              <h1 className="text-xl font-bold">{t.timeline.title}</h1>
+              <p className="text-sm text-muted-foreground">
+                {t.timeline.summary(albums.length, years.length)}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {albums.length === 0 ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="text-center py-8">
+              <CalendarRange className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h2 className="text-xl font-semibold mb-2">{t.timeline.empty}</h2>
+              <p className="text-muted-foreground">
+                {t.timeline.emptyHint}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-10">
+            {years.map(({ year, albums: yearAlbums }) => (
+              <section key={year}>
+                <h2 className="text-lg font-semibold mb-3">{year}</h2>
+
+                {/* Frise des mois */}
+                <div className="hidden md:grid grid-cols-[16rem_1fr] gap-4 mb-2">
+                  <div />
+                  <div className="grid grid-cols-12 text-xs text-muted-foreground">
+                    {MONTHS.map(month => (
+                      <span key={month} className="border-l pl-1 capitalize">
+                        {format(new Date(year, month, 1), 'MMM', { locale: dateLocale })}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {yearAlbums.map(album => (
+                    <button
+                      key={album.id}
+                      type="button"
+                      onClick={() => navigate(`/album/${album.id}`)}
+                      className="w-full grid md:grid-cols-[16rem_1fr] gap-1 md:gap-4 items-center rounded-md px-2 py-2 text-left hover:bg-muted"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{album.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatAlbumPeriod(album, dateLocale)}
+                          {' · '}
+                          {album.start_date
+                            ? t.timeline.days(differenceInCalendarDays(albumEndDate(album), albumStartDate(album)) + 1)
+                            : t.timeline.undated}
+                          {' · '}
+                          {t.common.photoCount(album.photo_count)}
+                        </p>
+                      </div>
+                      <div className="relative h-3 rounded-full bg-muted">
+                        <div
+                          className={`absolute inset-y-0 min-w-[0.5rem] rounded-full ${album.start_date ? 'bg-primary' : 'border border-dashed border-muted-foreground'}`}
+                          style={barPosition(album, year)}
+                        />
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AlbumMetadataStep = 'loading' | 'locations' | 'places' | 'titles' | 'photos' | 'days';
+
+export interface AlbumMetadataProgress {
+  step: AlbumMetadataStep;
+  done: number;
+  total: number;
+}
+
+// Valeur avant / après de chaque champ modifié
+export type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AlbumMetadataResult {
+  dryRun: boolean;
+  photosUpdated: number;
+  dayEntriesUpdated: number;
+  dayEntriesCreated: number;
+  dayEntriesDeleted: number;
+  inferredPhotos: number;
+  diff: {
+    photos: { id: string; changes: FieldChanges }[];
+    createdDays: { date: string; title: string }[];
+    updatedDays: { id: string; date: string; changes: FieldChanges }[];
+    deletedDays: { id: string; date: string; title: string | null }[];
+  };
+}
+
+interface UpdateAlbumMetadataOptions {
+  // Décrire les changements sans les enregistrer
+  dryRun?: boolean;
+  language?: string;
+  onProgress?: (progress: AlbumMetadataProgress) => void;
+}
+
+/**
+ * Relance côté serveur le traitement des métadonnées d'un album déjà importé
+ * (positions déduites, lieux-dits, journées, vignettes et titres), à partir des photos enregistrées.
+ * @param albumId - L'album à traiter
+ * @returns Le bilan, avec le détail des changements
+ */
+export async function updateAlbumMetadata(
+  albumId: string,
+  { dryRun = false, language, onProgress }: UpdateAlbumMetadataOptions = {}
+): Promise<AlbumMetadataResult> {
+  const { data, error } = await supabase.functions.invoke('update-album-metadata', {
+    body: { albumId, dryRun, language, stream: true }
+  });
+
+  if (error) throw error;
+
+  // Réponse en server-sent events : avancement, puis bilan ou erreur
+  const reader = (data as Response).body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      if (!event.startsWith('data: ')) continue;
+      const message = JSON.parse(event.slice('data: '.length));
+
+      if (message.type === 'progress') {
+        onProgress?.({ step: message.step, done: message.done, total: message.total });
+      } else if (message.type === 'result') {
+        const { type: _type, ...result } = message;
+        return result as AlbumMetadataResult;
+      } else if (message.type === 'error') {
+        throw new Error(message.error);
+      }
+    }
+  }
+
+  throw new Error('Réponse incomplète du serveur');
+}
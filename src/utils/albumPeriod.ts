@@ -0,0 +1,77 @@
+/**
+ * Période d'un voyage : du premier au dernier jour de l'album
+ */
+
+import { format, isSameMonth, isSameYear, parseISO } from 'date-fns';
+import type { Locale } from 'date-fns';
+
+export interface AlbumPeriod {
+  start_date: string | null;
+  end_date: string | null;
+  // Mois de création, pour un album encore sans photo ni dates
+  year: number;
+  month: number;
+}
+
+/**
+ * Premier jour du voyage, ou à défaut le premier jour du mois de l'album
+ */
+export function albumStartDate(album: AlbumPeriod): Date {
+  return album.start_date ? parseISO(album.start_date) : new Date(album.year, album.month - 1, 1);
+}
+
+/**
+ * Dernier jour du voyage, ou à défaut son premier jour
+ */
+export function albumEndDate(album: AlbumPeriod): Date {
+  return album.end_date ? parseISO(album.end_date) : albumStartDate(album);
+}
+
+/**
+ * Période lisible, de la plus compacte à la plus complète :
+ * « 12 – 28 juillet 2025 », « 28 juil. – 5 août 2025 », « 28 déc. 2024 – 3 janv. 2025 ».
+ * Le mois seul pour un album sans dates
+ */
+export function formatAlbumPeriod(album: AlbumPeriod, locale: Locale): string {
+  if (!album.start_date) {
+    return format(albumStartDate(album), 'MMMM yyyy', { locale });
+  }
+
+  const start = albumStartDate(album);
+  const end = albumEndDate(album);
+
+  if (start.getTime() === end.getTime()) {
+    return format(start, 'd MMMM yyyy', { locale });
+  }
+  if (isSameMonth(start, end)) {
+    return `${format(start, 'd', { locale })} – ${format(end, 'd MMMM yyyy', { locale })}`;
+  }
+  if (isSameYear(start, end)) {
+    return `${format(start, 'd MMM', { locale })} – ${format(end, 'd MMM yyyy', { locale })}`;
+  }
+  return `${format(start, 'd MMM yyyy', { locale })} – ${format(end, 'd MMM yyyy', { locale })}`;
+}
+
+/**
+ * Tri du voyage le plus récent au plus ancien
+ */
+export function compareAlbumsByPeriod(a: AlbumPeriod, b: AlbumPeriod): number {
+  return albumStartDate(b).getTime() - albumStartDate(a).getTime()
+    || albumEndDate(b).getTime() - albumEndDate(a).getTime();
+}
+
+/**
+ * Albums triés regroupés par année de début du voyage, dans le même ordre
+ */
+export function groupAlbumsByYear<T extends AlbumPeriod>(albums: T[]): { year: number; albums: T[] }[] {
+  return albums.reduce<{ year: number; albums: T[] }[]>((groups, album) => {
+    const year = albumStartDate(album).getFullYear();
+    const group = groups[groups.length - 1];
+    if (group?.year === year) {
+      group.albums.push(album);
+    } else {
+      groups.push({ year, albums: [album] });
+    }
+    return groups;
+  }, []);
+}
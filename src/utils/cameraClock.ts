@@ -0,0 +1,94 @@
+/**
+ * Correction de l'horloge des appareils photo : regroupement des photos par appareil
+ * (marque, modèle, numéro de série EXIF) et décalage de leurs heures de prise de vue
+ */
+
+import { format, parseISO } from 'date-fns';
+import { parseUtcOffset } from '@shared/timezone';
+import type { PhotoMetadata } from '@/utils/photoUpload';
+
+export interface CameraDevice {
+  key: string;
+  make?: string;
+  model?: string;
+  serial?: string;
+  // Marque et modèle lisibles, undefined pour un appareil inconnu
+  name?: string;
+}
+
+interface CameraFields {
+  cameraMake?: string | null;
+  cameraModel?: string | null;
+  cameraSerial?: string | null;
+}
+
+/**
+ * Identifie l'appareil d'une photo
+ */
+export function getCameraDevice({ cameraMake, cameraModel, cameraSerial }: CameraFields): CameraDevice {
+  const make = cameraMake?.trim() || undefined;
+  const model = cameraModel?.trim() || undefined;
+  const serial = cameraSerial?.trim() || undefined;
+
+  // Le modèle reprend souvent la marque ("Canon EOS 80D")
+  const name = model && make && !model.toLowerCase().startsWith(make.toLowerCase())
+    ? `${make} ${model}`
+    : model || make;
+
+  return {
+    key: [make, model, serial].map(part => part || '').join('|'),
+    make,
+    model,
+    serial,
+    name
+  };
+}
+
+/**
+ * Décale l'heure de prise de vue d'une photo
+ * @param metadata - Les métadonnées lues dans le fichier
+ * @param offsetMinutes - Le décalage à appliquer (positif si l'horloge retardait)
+ * @returns Une copie des métadonnées avec la date et l'heure locale corrigées
+ */
+export function shiftPhotoTime(metadata: PhotoMetadata, offsetMinutes: number): PhotoMetadata {
+  if (!offsetMinutes || !metadata.date) return { ...metadata };
+
+  return {
+    ...metadata,
+    date: new Date(metadata.date.getTime() + offsetMinutes * 60000),
+    localTime: metadata.localTime
+      ? format(new Date(parseISO(metadata.localTime).getTime() + offsetMinutes * 60000), "yyyy-MM-dd'T'HH:mm:ss")
+      : undefined
+  };
+}
+
+/**
+ * Interprète un décalage saisi ("+1:00", "-00:30", "2")
+ * @returns Le décalage en minutes, ou undefined si la saisie est invalide
+ */
+export function parseClockOffset(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  if (/^[+-]?\d{1,2}$/.test(trimmed)) return parseInt(trimmed, 10) * 60;
+
+  const signed = /^[+-]/.test(trimmed) ? trimmed : `+${trimmed}`;
+  return parseUtcOffset(signed.replace(/^([+-])(\d):/, '$10$2:'));
+}
+
+/**
+ * Formate un décalage en minutes ("+01:30")
+ */
+export function formatClockOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0');
+  return `${sign}${hours}:${String(Math.abs(minutes) % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Décalage à appliquer pour qu'une photo de référence affiche l'heure réelle
+ * @param localTime - L'heure enregistrée par l'appareil (YYYY-MM-DDTHH:mm:ss)
+ * @param actualTime - L'heure réelle de la prise de vue (saisie datetime-local)
+ */
+export function offsetFromReference(localTime: string, actualTime: string): number {
+  return Math.round((parseISO(actualTime).getTime() - parseISO(localTime).getTime()) / 60000);
+}
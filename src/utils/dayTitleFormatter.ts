@@ -1,49 +1,74 @@
 /**
  * Utilitaire pour calculer dynamiquement les titres des journées
- * selon la formule: "J{numéro}, {jour} {date} {mois}, {lieu}"
+ * selon le modèle de l'album (par défaut : "J{numéro}, {jour} {date} {mois}, {lieu}"),
+ * sauf pour les titres saisis à la main
  */
 
-const frenchDays = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
-const frenchMonths = ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 
-                     'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'];
+import { PlaceColumns, placeFromColumns } from '@shared/places';
+import { AppLocale, dayNumberOf, DEFAULT_LOCALE, formatDayTitle } from '@shared/dayTitle';
 
-export interface DayForTitle {
+export interface DayForTitle extends Partial<PlaceColumns> {
   date: string;
+  photo_count?: number;
+  custom_label?: string | null;
+  title?: string | null;
+  title_is_custom?: boolean;
   cover_photo?: {
     location_name?: string | null;
   } | null;
 }
 
+export interface DayTitleOptions {
+  locale?: AppLocale;
+  // Modèle de l'album (albums.day_title_template), null pour le modèle par défaut
+  template?: string | null;
+}
+
 /**
- * Calcule le titre d'une journée selon la formule demandée
+ * Calcule le titre d'une journée selon le modèle de l'album, sans tenir compte d'un titre saisi
  * @param day - Les données de la journée
  * @param dayNumber - Le numéro de la journée dans l'album (1, 2, 3, etc.)
  * @returns Le titre formaté
  */
-export function calculateDayTitle(day: DayForTitle, dayNumber: number): string {
-  const date = new Date(day.date + 'T00:00:00');
-  
-  const weekDay = frenchDays[date.getDay()];
-  const dayOfMonth = date.getDate();
-  const month = frenchMonths[date.getMonth()];
-  
-  // Utiliser le lieu de la photo de couverture ou ne pas en afficher
-  const locationName = day.cover_photo?.location_name || '';
-  
-  // Format: "J1, lundi 12 juillet, La Hautière"
-  const title = `J${dayNumber}, ${weekDay} ${dayOfMonth} ${month}${locationName ? `, ${locationName}` : ''}`;
-  
-  return title;
+export function calculateAutomaticDayTitle(
+  day: DayForTitle,
+  dayNumber: number,
+  { locale = DEFAULT_LOCALE, template }: DayTitleOptions = {}
+): string {
+  return formatDayTitle({
+    date: day.date,
+    dayNumber,
+    // Lieu structuré de la journée, à défaut celui de la couverture
+    place: placeFromColumns(day),
+    locationName: day.cover_photo?.location_name,
+    photoCount: day.photo_count,
+    custom: day.custom_label
+  }, locale, template);
+}
+
+/**
+ * Titre affiché d'une journée : celui saisi à la main, sinon le titre automatique
+ */
+export function calculateDayTitle(day: DayForTitle, dayNumber: number, options: DayTitleOptions = {}): string {
+  if (day.title_is_custom && day.title?.trim()) return day.title.trim();
+  return calculateAutomaticDayTitle(day, dayNumber, options);
 }
 
 /**
  * Calcule les titres pour une liste de journées triées par date
  * @param days - Liste des journées triées par date
- * @returns Liste des journées avec leurs titres calculés
+ * @returns Liste des journées avec leur titre affiché et leur titre automatique
  */
-export function calculateDayTitles<T extends DayForTitle>(days: T[]): (T & { calculatedTitle: string })[] {
-  return days.map((day, index) => ({
-    ...day,
-    calculatedTitle: calculateDayTitle(day, index + 1)
-  }));
-}
\ No newline at end of file
+export function calculateDayTitles<T extends DayForTitle>(
+  days: T[],
+  options: DayTitleOptions = {}
+): (T & { calculatedTitle: string; automaticTitle: string })[] {
+  return days.map(day => {
+    const dayNumber = dayNumberOf(day.date, days[0].date);
+    return {
+      ...day,
+      calculatedTitle: calculateDayTitle(day, dayNumber, options),
+      automaticTitle: calculateAutomaticDayTitle(day, dayNumber, options)
+    };
+  });
+}
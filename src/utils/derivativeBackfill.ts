@@ -0,0 +1,94 @@
+/**
+ * Régénération des dérivés pour les photos déjà stockées
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { uploadImageDerivatives } from '@/utils/imageDerivatives';
+import { decodeHeic } from '@/utils/heicDecoder';
+import { extractVideoPoster } from '@/utils/videoPoster';
+
+export interface BackfillProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+interface BackfillOptions {
+  // Régénérer aussi les photos qui ont déjà leurs dérivés
+  force?: boolean;
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+/**
+ * Télécharge chaque original de l'album, génère ses dérivés et met à jour la ligne photos.
+ * Les anciennes vignettes (copies de l'original) sont supprimées une fois remplacées.
+ * @param albumId - L'album à traiter
+ * @returns Le bilan du traitement
+ */
+export async function backfillAlbumDerivatives(
+  albumId: string,
+  { force = false, onProgress }: BackfillOptions = {}
+): Promise<BackfillProgress> {
+  let query = supabase
+    .from('photos')
+    .select('id, filename, file_path, thumbnail_path, medium_path, mime_type, media_type')
+    .eq('album_id', albumId)
+    .order('taken_at');
+
+  if (!force) {
+    query = query.is('medium_path', null);
+  }
+
+  const { data: photos, error } = await query;
+  if (error) throw error;
+
+  const progress: BackfillProgress = { done: 0, failed: 0, total: photos?.length || 0 };
+  onProgress?.({ ...progress });
+
+  // Traitement séquentiel : chaque original peut peser plusieurs Mo en mémoire
+  for (const photo of photos || []) {
+    try {
+      const { data: original, error: downloadError } = await supabase.storage
+        .from('photos')
+        .download(photo.file_path);
+
+      if (downloadError) throw downloadError;
+
+      const isHeic = /^image\/hei[cf]/.test(photo.mime_type || '') || /\.(heic|heif)$/i.test(photo.filename);
+      let source: Blob = original;
+      if (photo.media_type === 'video') {
+        // Les dérivés d'une vidéo sont tirés de son image d'aperçu
+        source = await extractVideoPoster(new File([original], photo.filename, { type: photo.mime_type || 'video/mp4' }));
+      } else if (isHeic) {
+        source = await decodeHeic(original, photo.filename);
+      }
+
+      const basePath = photo.file_path.replace(/\.[^/.]+$/, '');
+      const paths = await uploadImageDerivatives(source, basePath);
+
+      const { error: updateError } = await supabase
+        .from('photos')
+        .update(paths)
+        .eq('id', photo.id);
+
+      if (updateError) throw updateError;
+
+      if (photo.thumbnail_path && photo.thumbnail_path !== paths.thumbnail_path) {
+        const { error: removeError } = await supabase.storage
+          .from('thumbnails')
+          .remove([photo.thumbnail_path]);
+
+        if (removeError) console.warn('Erreur suppression ancienne vignette:', removeError);
+      }
+
+      progress.done++;
+    } catch (error) {
+      console.error(`Erreur régénération des dérivés pour ${photo.id}:`, error);
+      progress.failed++;
+    }
+
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
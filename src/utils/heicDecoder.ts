@@ -0,0 +1,37 @@
+/**
+ * Décodage des photos HEIC/HEIF (iPhone) en JPEG affichable par tous les navigateurs.
+ * L'original est conservé tel quel pour le téléchargement et la lecture des EXIF.
+ */
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+// Le décodeur WASM est lourd en mémoire : un seul décodage à la fois
+let decodingChain: Promise<unknown> = Promise.resolve();
+
+export function isHeicFile(file: File): boolean {
+  return HEIC_MIME_TYPES.includes(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+}
+
+/**
+ * Convertit un fichier HEIC/HEIF en JPEG
+ * @param file - Le fichier HEIC original
+ * @returns Un fichier JPEG portant le même nom avec l'extension .jpg
+ */
+export function decodeHeic(file: Blob, filename = 'photo.heic'): Promise<File> {
+  const decode = async () => {
+    // Chargé à la demande : le décodeur pèse plus d'1 Mo
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    // Une image HEIC peut contenir une rafale : la première image suffit
+    const jpeg = Array.isArray(result) ? result[0] : result;
+
+    return new File([jpeg], filename.replace(/\.[^/.]+$/, '') + '.jpg', {
+      type: 'image/jpeg',
+      lastModified: file instanceof File ? file.lastModified : Date.now()
+    });
+  };
+
+  const result = decodingChain.then(decode, decode);
+  decodingChain = result.catch(() => undefined);
+  return result;
+}
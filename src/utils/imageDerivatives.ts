@@ -0,0 +1,109 @@
+/**
+ * Génération des dérivés redimensionnés d'une photo (vignette, moyen, grand)
+ * avec prise en compte de l'orientation EXIF.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const DERIVATIVE_SIZES = {
+  thumbnail: 256,
+  medium: 1024,
+  large: 2048
+} as const;
+
+export type DerivativeSize = keyof typeof DERIVATIVE_SIZES;
+
+export interface ImageDerivative {
+  size: DerivativeSize;
+  blob: Blob;
+  extension: 'webp' | 'jpg';
+  width: number;
+  height: number;
+}
+
+export interface DerivativePaths {
+  thumbnail_path: string;
+  medium_path: string;
+  large_path: string;
+}
+
+const QUALITY = 0.82;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, QUALITY));
+
+/**
+ * Encode le canvas en WebP, ou en JPEG si le navigateur ne sait pas produire du WebP
+ */
+const encodeCanvas = async (canvas: HTMLCanvasElement): Promise<{ blob: Blob; extension: 'webp' | 'jpg' }> => {
+  const webp = await canvasToBlob(canvas, 'image/webp');
+  if (webp && webp.type === 'image/webp') {
+    return { blob: webp, extension: 'webp' };
+  }
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg');
+  if (!jpeg) throw new Error('Impossible d\'encoder l\'image');
+  return { blob: jpeg, extension: 'jpg' };
+};
+
+/**
+ * Génère les trois dérivés d'une image. L'orientation EXIF est appliquée au décodage,
+ * les dérivés produits sont donc toujours droits et sans métadonnées EXIF.
+ * @param source - Le fichier image original
+ * @returns Les dérivés, du plus petit au plus grand
+ */
+export async function generateImageDerivatives(source: Blob): Promise<ImageDerivative[]> {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  const derivatives: ImageDerivative[] = [];
+
+  try {
+    for (const [size, maxDimension] of Object.entries(DERIVATIVE_SIZES) as [DerivativeSize, number][]) {
+      // Ne jamais agrandir une image plus petite que la taille cible
+      const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas 2D indisponible');
+
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      const { blob, extension } = await encodeCanvas(canvas);
+      derivatives.push({ size, blob, extension, width, height });
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return derivatives;
+}
+
+/**
+ * Génère et envoie les dérivés dans le bucket thumbnails
+ * @param source - Le fichier image original
+ * @param basePath - Chemin de base sans extension, ex: "{albumId}/{nom}"
+ * @returns Les chemins à enregistrer sur la ligne photos
+ */
+export async function uploadImageDerivatives(source: Blob, basePath: string): Promise<DerivativePaths> {
+  const derivatives = await generateImageDerivatives(source);
+  const paths: Partial<DerivativePaths> = {};
+
+  for (const derivative of derivatives) {
+    const path = `${basePath}_${DERIVATIVE_SIZES[derivative.size]}.${derivative.extension}`;
+    const { error } = await supabase.storage
+      .from('thumbnails')
+      .upload(path, derivative.blob, {
+        contentType: derivative.blob.type,
+        upsert: true
+      });
+
+    if (error) throw error;
+    paths[`${derivative.size}_path`] = path;
+  }
+
+  return paths as DerivativePaths;
+}
@@ -0,0 +1,31 @@
+/**
+ * Affichage des heures de prise de vue dans l'heure locale du voyage
+ */
+
+import { getTimeZoneOffset } from '@shared/timezone';
+
+/**
+ * Heure locale de la prise de vue, sous forme d'une Date dont les champs locaux
+ * (getHours, getDate...) sont ceux de l'heure du voyage : utilisable avec date-fns
+ * @param takenAt - L'instant UTC de la prise de vue
+ * @param utcOffsetMinutes - Le décalage enregistré par l'appareil, s'il est connu
+ * @param albumTimeZone - Le fuseau de l'album, utilisé à défaut
+ */
+export function getLocalTakenAt(
+  takenAt: string,
+  utcOffsetMinutes?: number | null,
+  albumTimeZone?: string | null
+): Date {
+  const instant = new Date(takenAt);
+  const offset = utcOffsetMinutes ?? (albumTimeZone ? getTimeZoneOffset(albumTimeZone, instant) : 0);
+  const wallTime = new Date(instant.getTime() + offset * 60000);
+
+  return new Date(
+    wallTime.getUTCFullYear(),
+    wallTime.getUTCMonth(),
+    wallTime.getUTCDate(),
+    wallTime.getUTCHours(),
+    wallTime.getUTCMinutes(),
+    wallTime.getUTCSeconds()
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * URLs signées des médias, les buckets photos et thumbnails étant privés.
+ * Les demandes d'un même instant sont regroupées en un appel createSignedUrls par bucket,
+ * et chaque URL est réutilisée jusqu'à peu avant son expiration.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type MediaBucket = 'photos' | 'thumbnails';
+
+export interface MediaRef {
+  bucket: MediaBucket;
+  path: string;
+}
+
+export interface SignedMediaUrl {
+  url: string;
+  // Horodatage en ms
+  expiresAt: number;
+}
+
+// Durée de validité demandée, en secondes
+const SIGNED_URL_TTL = 60 * 60;
+
+// Une URL est renouvelée quand il lui reste moins que cette marge
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Nombre de chemins au plus par appel createSignedUrls
+const MAX_BATCH = 100;
+
+interface Waiter {
+  resolve: (entry: SignedMediaUrl) => void;
+  reject: (error: unknown) => void;
+}
+
+const cache = new Map<string, SignedMediaUrl>();
+const queued = new Map<MediaBucket, Map<string, Waiter[]>>();
+let flushScheduled = false;
+
+export const mediaKey = ({ bucket, path }: MediaRef) => `${bucket}/${path}`;
+
+/**
+ * Inverse de mediaKey : le nom du bucket ne contient pas de "/"
+ */
+export function parseMediaKey(key: string): MediaRef {
+  const separator = key.indexOf('/');
+  return { bucket: key.slice(0, separator) as MediaBucket, path: key.slice(separator + 1) };
+}
+
+const isFresh = (entry: SignedMediaUrl | undefined): entry is SignedMediaUrl =>
+  !!entry && entry.expiresAt - Date.now() > REFRESH_MARGIN_MS;
+
+async function signBatch(bucket: MediaBucket, paths: string[], waiters: Map<string, Waiter[]>) {
+  const expiresAt = Date.now() + SIGNED_URL_TTL * 1000;
+  try {
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrls(paths, SIGNED_URL_TTL);
+    if (error) throw error;
+
+    const signedByPath = new Map(data.map(item => [item.path, item]));
+    paths.forEach(path => {
+      const signed = signedByPath.get(path);
+      if (signed?.signedUrl && !signed.error) {
+        const entry = { url: signed.signedUrl, expiresAt };
+        cache.set(mediaKey({ bucket, path }), entry);
+        waiters.get(path)!.forEach(waiter => waiter.resolve(entry));
+      } else {
+        const pathError = new Error(signed?.error || `URL signée indisponible pour ${path}`);
+        waiters.get(path)!.forEach(waiter => waiter.reject(pathError));
+      }
+    });
+  } catch (error) {
+    paths.forEach(path => waiters.get(path)!.forEach(waiter => waiter.reject(error)));
+  }
+}
+
+function flush() {
+  flushScheduled = false;
+  const batches = Array.from(queued.entries());
+  queued.clear();
+
+  batches.forEach(([bucket, waiters]) => {
+    const paths = Array.from(waiters.keys());
+    for (let i = 0; i < paths.length; i += MAX_BATCH) {
+      signBatch(bucket, paths.slice(i, i + MAX_BATCH), waiters);
+    }
+  });
+}
+
+/**
+ * URL signée encore valide, sans appel réseau
+ */
+export function getCachedMediaUrl(ref: MediaRef): string | undefined {
+  const entry = cache.get(mediaKey(ref));
+  return isFresh(entry) ? entry.url : undefined;
+}
+
+/**
+ * URL signée d'un média, depuis le cache ou avec les autres demandes du même instant
+ */
+export function getSignedMediaUrl(ref: MediaRef): Promise<SignedMediaUrl> {
+  const cached = cache.get(mediaKey(ref));
+  if (isFresh(cached)) return Promise.resolve(cached);
+
+  return new Promise((resolve, reject) => {
+    let bucketQueue = queued.get(ref.bucket);
+    if (!bucketQueue) {
+      bucketQueue = new Map();
+      queued.set(ref.bucket, bucketQueue);
+    }
+    const waiters = bucketQueue.get(ref.path) ?? [];
+    waiters.push({ resolve, reject });
+    bucketQueue.set(ref.path, waiters);
+
+    if (!flushScheduled) {
+      flushScheduled = true;
+      setTimeout(flush, 0);
+    }
+  });
+}
+
+/**
+ * URLs signées de plusieurs médias ; ceux dont la signature échoue sont absents du résultat
+ * @returns Les URLs par clé (mediaKey)
+ */
+export async function getSignedMediaUrls(refs: MediaRef[]): Promise<Map<string, SignedMediaUrl>> {
+  const results = await Promise.allSettled(refs.map(getSignedMediaUrl));
+  const urls = new Map<string, SignedMediaUrl>();
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      urls.set(mediaKey(refs[index]), result.value);
+    } else {
+      console.warn('Erreur lors de la signature d\'un média:', result.reason);
+    }
+  });
+
+  return urls;
+}
@@ -0,0 +1,78 @@
+/**
+ * Empreintes de photos pour la détection des doublons :
+ * - SHA-256 du fichier pour les doublons exacts
+ * - dHash 64 bits de l'image pour les quasi-doublons (recadrage léger, réencodage...)
+ */
+
+// Nombre maximal de bits différents pour considérer deux images comme similaires
+export const NEAR_DUPLICATE_THRESHOLD = 6;
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Calcule le SHA-256 du contenu du fichier
+ */
+export async function computeContentHash(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Calcule le dHash de l'image : chaque bit indique si un pixel est plus clair
+ * que son voisin de droite sur une version 9x8 en niveaux de gris
+ * @returns 16 caractères hexadécimaux, ou undefined si l'image n'est pas décodable
+ */
+export async function computePerceptualHash(file: Blob): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file, {
+      imageOrientation: 'from-image',
+      resizeWidth: 9,
+      resizeHeight: 8,
+      resizeQuality: 'medium'
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+
+    context.drawImage(bitmap, 0, 0, 9, 8);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, 9, 8);
+    const gray = (x: number, y: number) => {
+      const offset = (y * 9 + x) * 4;
+      return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    };
+
+    const bytes = new Uint8Array(8);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        if (gray(x, y) > gray(x + 1, y)) {
+          bytes[y] |= 1 << (7 - x);
+        }
+      }
+    }
+    return toHex(bytes);
+  } catch (error) {
+    console.warn('Empreinte perceptuelle impossible:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Nombre de bits différents entre deux empreintes perceptuelles
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let xor = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
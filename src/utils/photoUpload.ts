@@ -0,0 +1,209 @@
+/**
+ * Envoi d'une photo ou d'une vidéo : original, dérivés, ligne photos et journée associée
+ */
+
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { uploadImageDerivatives, DerivativePaths } from '@/utils/imageDerivatives';
+import type { LocationSource } from '@shared/locationSource';
+import { Place, placeLabel, placeToColumns } from '@shared/places';
+import { AppLocale, dateFnsLocale, DEFAULT_LOCALE } from '@shared/dayTitle';
+import { CATALOGS } from '@/i18n/catalogs';
+
+export interface PhotoMetadata {
+  // Instant UTC de la prise de vue
+  date?: Date;
+  // Heure affichée par l'appareil, sans fuseau (YYYY-MM-DDTHH:mm:ss)
+  localTime?: string;
+  // Décalage UTC enregistré par l'appareil, en minutes
+  utcOffset?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  cameraSerial?: string;
+  latitude?: number;
+  longitude?: number;
+  // Provenance des coordonnées (GPS du fichier, trace, estimation...)
+  locationSource?: LocationSource;
+  // Lieu structuré et nom affiché de la photo
+  place?: Place;
+  locationName?: string;
+  // Lieu retenu pour la journée de la photo (niveau commun à ses photos)
+  dayPlace?: Place;
+  dayTitle?: string;
+  contentHash?: string;
+  perceptualHash?: string;
+  mediaType?: 'photo' | 'video';
+  // Durée en secondes (vidéos uniquement)
+  duration?: number;
+}
+
+interface UploadTarget {
+  userId: string;
+  albumId: string;
+  // Nom de fichier stable : un nouvel essai écrase le fichier d'un essai précédent
+  storageKey?: string;
+  // Photo de l'album que la nouvelle photo remplace (doublon)
+  replacePhotoId?: string;
+  // Image décodable par le navigateur (JPEG issu d'un HEIC, poster d'une vidéo) pour générer les dérivés
+  displaySource?: Blob;
+  // Vidéo compagnon d'une Live Photo
+  companionVideo?: File;
+  // Langue du titre provisoire d'une journée sans lieu
+  locale?: AppLocale;
+}
+
+/**
+ * Supprime une photo remplacée par un doublon nouvellement envoyé,
+ * après lui avoir transféré la miniature de journée et le statut favori
+ */
+async function replacePhoto(oldPhotoId: string, newPhotoId: string) {
+  const { data: oldPhoto, error } = await supabase
+    .from('photos')
+    .select('id, file_path, live_video_path, thumbnail_path, medium_path, large_path, is_favorite')
+    .eq('id', oldPhotoId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!oldPhoto) return;
+
+  const { error: coverError } = await supabase
+    .from('day_entries')
+    .update({ cover_photo_id: newPhotoId })
+    .eq('cover_photo_id', oldPhotoId);
+
+  if (coverError) throw coverError;
+
+  if (oldPhoto.is_favorite) {
+    await supabase.from('photos').update({ is_favorite: true }).eq('id', newPhotoId);
+  }
+
+  const derivativePaths = [oldPhoto.thumbnail_path, oldPhoto.medium_path, oldPhoto.large_path].filter(Boolean);
+  await supabase.storage.from('photos').remove([oldPhoto.file_path, oldPhoto.live_video_path].filter(Boolean));
+  if (derivativePaths.length > 0) {
+    await supabase.storage.from('thumbnails').remove(derivativePaths);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('photos')
+    .delete()
+    .eq('id', oldPhotoId);
+
+  if (deleteError) throw deleteError;
+}
+
+/**
+ * Envoie une photo ou une vidéo et crée la journée correspondante si elle n'existe pas encore
+ * @param file - Le fichier image ou vidéo
+ * @param metadata - Les métadonnées extraites et complétées par process-photo-metadata
+ * @returns L'identifiant de la photo créée
+ */
+export async function uploadPhoto(
+  file: File,
+  metadata: PhotoMetadata | undefined,
+  { userId, albumId, storageKey, replacePhotoId, displaySource, companionVideo, locale = DEFAULT_LOCALE }: UploadTarget
+): Promise<string> {
+  const fileExt = file.name.split('.').pop();
+  // Rangé sous l'album : l'accès aux fichiers suit le rôle de chaque membre
+  const basePath = `${albumId}/${storageKey || `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`}`;
+  const fileName = `${basePath}.${fileExt}`;
+
+  // Upload to storage
+  const { error: storageError } = await supabase.storage
+    .from('photos')
+    .upload(fileName, file, { upsert: !!storageKey });
+
+  if (storageError) throw storageError;
+
+  let liveVideoPath: string | undefined;
+  if (companionVideo) {
+    liveVideoPath = `${basePath}_live.${companionVideo.name.split('.').pop()}`;
+    const { error: liveError } = await supabase.storage
+      .from('photos')
+      .upload(liveVideoPath, companionVideo, { upsert: !!storageKey });
+
+    if (liveError) throw liveError;
+  }
+
+  // Dérivés redimensionnés (256, 1024 et 2048px) dans le bucket thumbnails.
+  // Sans poster, une vidéo n'a pas de dérivés et s'affiche avec une icône
+  let derivativePaths: Partial<DerivativePaths> = {};
+  try {
+    if (displaySource || metadata?.mediaType !== 'video') {
+      derivativePaths = await uploadImageDerivatives(displaySource || file, basePath);
+    }
+  } catch (derivativeError) {
+    console.warn('Erreur génération des dérivés:', derivativeError);
+  }
+
+  // Save to database
+  const { data: photoData, error: dbError } = await supabase
+    .from('photos')
+    .insert({
+      album_id: albumId,
+      user_id: userId,
+      filename: file.name,
+      file_path: fileName,
+      thumbnail_path: derivativePaths.thumbnail_path,
+      medium_path: derivativePaths.medium_path,
+      large_path: derivativePaths.large_path,
+      taken_at: metadata?.date?.toISOString(),
+      utc_offset_minutes: metadata?.utcOffset,
+      camera_make: metadata?.cameraMake,
+      camera_model: metadata?.cameraModel,
+      camera_serial: metadata?.cameraSerial,
+      latitude: metadata?.latitude,
+      longitude: metadata?.longitude,
+      location_source: metadata?.locationSource || (metadata?.latitude ? 'exif' : 'none'),
+      location_name: metadata?.locationName,
+      ...placeToColumns(metadata?.place),
+      file_size: file.size,
+      mime_type: file.type,
+      content_hash: metadata?.contentHash,
+      perceptual_hash: metadata?.perceptualHash,
+      media_type: metadata?.mediaType || 'photo',
+      duration_seconds: metadata?.duration,
+      live_video_path: liveVideoPath,
+      title: metadata?.locationName || file.name.replace(/\.[^/.]+$/, "")
+    })
+    .select()
+    .single();
+
+  if (dbError) throw dbError;
+
+  // Create day entry for this photo if needed
+  if (metadata && photoData.local_date) {
+    // Jour local calculé en base (décalage de l'appareil ou fuseau de l'album)
+    const photoDate = photoData.local_date;
+    const dayPlace = metadata.dayPlace ?? metadata.place;
+
+    // Plusieurs envois parallèles peuvent viser la même journée : la première gagne
+    const { error: dayError } = await supabase
+      .from('day_entries')
+      .upsert({
+        album_id: albumId,
+        user_id: userId,
+        date: photoDate,
+        title: metadata.dayTitle || metadata.locationName
+          || CATALOGS[locale].upload.dayFallbackTitle(format(parseISO(photoDate), 'P', { locale: dateFnsLocale(locale) })),
+        latitude: metadata.latitude,
+        longitude: metadata.longitude,
+        location_source: photoData.location_source,
+        location_name: placeLabel(dayPlace) || metadata.locationName,
+        ...placeToColumns(dayPlace),
+        cover_photo_id: photoData.id
+      }, { onConflict: 'album_id,date', ignoreDuplicates: true });
+
+    if (dayError) console.warn('Erreur création de la journée:', dayError);
+  }
+
+  if (replacePhotoId) {
+    // La nouvelle photo est en place : un échec ici ne doit pas provoquer un nouvel envoi
+    try {
+      await replacePhoto(replacePhotoId, photoData.id);
+    } catch (replaceError) {
+      console.warn('Erreur lors du remplacement de la photo:', replaceError);
+    }
+  }
+
+  return photoData.id;
+}
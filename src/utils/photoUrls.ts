@@ -0,0 +1,44 @@
+/**
+ * Média à afficher pour une photo selon la taille souhaitée.
+ * Les buckets sont privés : l'URL s'obtient par mediaUrls (usePhotoUrls dans les composants).
+ */
+
+import type { DerivativeSize } from '@/utils/imageDerivatives';
+import type { MediaRef } from '@/utils/mediaUrls';
+
+export interface PhotoPaths {
+  file_path: string;
+  thumbnail_path?: string | null;
+  medium_path?: string | null;
+  large_path?: string | null;
+}
+
+// Dérivés acceptables pour chaque taille, du plus adapté au moins adapté
+const FALLBACKS: Record<DerivativeSize, (keyof PhotoPaths)[]> = {
+  thumbnail: ['thumbnail_path', 'medium_path', 'large_path'],
+  medium: ['medium_path', 'large_path'],
+  large: ['large_path']
+};
+
+export const getDerivativeMedia = (path: string): MediaRef => ({ bucket: 'thumbnails', path });
+
+export const getOriginalMedia = (filePath: string): MediaRef => ({ bucket: 'photos', path: filePath });
+
+/**
+ * Renvoie le chemin du dérivé le plus adapté, ou null si seul l'original existe
+ */
+export function getDerivativePath(photo: PhotoPaths, size: DerivativeSize): string | null {
+  for (const key of FALLBACKS[size]) {
+    if (photo[key]) return photo[key] as string;
+  }
+  return null;
+}
+
+/**
+ * Média à utiliser pour afficher une photo, en retombant sur l'original
+ * pour les photos dont les dérivés n'ont pas encore été générés
+ */
+export function getPhotoMedia(photo: PhotoPaths, size: DerivativeSize): MediaRef {
+  const derivativePath = getDerivativePath(photo, size);
+  return derivativePath ? getDerivativeMedia(derivativePath) : getOriginalMedia(photo.file_path);
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import { canSanitizeMedia, ExifPrivacy, sanitizeMedia } from '@shared/exifPrivacy';
+
+export interface ShareablePhoto {
+  file_path: string;
+  filename?: string;
+  mime_type?: string | null;
+  large_path?: string | null;
+}
+
+const extensionOf = (path: string) => path.match(/\.[^./]+$/)?.[0] ?? '';
+
+async function downloadBlob(bucket: 'photos' | 'thumbnails', path: string): Promise<Blob> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Copie d'un original à télécharger ou partager, selon le réglage de confidentialité de l'album :
+ * l'original nettoyé de sa position et des numéros de série si son format le permet,
+ * sinon le plus grand dérivé, réencodé à l'import et donc sans métadonnées.
+ * Avec "keep", l'original est servi directement par une URL signée, sans passer par ici.
+ * @returns Le fichier et son nom
+ */
+export async function getShareableOriginal(
+  photo: ShareablePhoto,
+  privacy: Exclude<ExifPrivacy, 'keep'>
+): Promise<{ blob: Blob; filename: string }> {
+  const filename = photo.filename || photo.file_path.split('/').pop()!;
+
+  // Un HEIC ou un PNG n'est pas téléchargé pour rien
+  if (!photo.mime_type || canSanitizeMedia(photo.mime_type)) {
+    const original = await downloadBlob('photos', photo.file_path);
+    const mimeType = photo.mime_type || original.type;
+    const sanitized = sanitizeMedia(new Uint8Array(await original.arrayBuffer()), mimeType, privacy);
+    if (sanitized) {
+      return { blob: new Blob([sanitized], { type: mimeType }), filename };
+    }
+  }
+
+  if (!photo.large_path) {
+    throw new Error('Aucune copie sans métadonnées disponible pour ce fichier');
+  }
+
+  const derivative = await downloadBlob('thumbnails', photo.large_path);
+  return {
+    blob: derivative,
+    filename: filename.replace(/\.[^.]+$/, '') + extensionOf(photo.large_path)
+  };
+}
@@ -0,0 +1,37 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SHARE_FAILURE_MESSAGES, ShareFailureReason, SharedAlbumPayload } from '@shared/sharedAlbum';
+
+/**
+ * Lien refusé : inconnu, expiré, révoqué ou protégé par un mot de passe
+ */
+export class ShareAccessError extends Error {
+  constructor(public reason: ShareFailureReason) {
+    super(SHARE_FAILURE_MESSAGES[reason]);
+    this.name = 'ShareAccessError';
+  }
+}
+
+/**
+ * Ouvre un lien de partage, sans session : le jeton et le mot de passe éventuel suffisent
+ * @returns L'album ou la journée partagés, avec les URLs signées de leurs médias
+ * @throws ShareAccessError si le lien est refusé
+ */
+export async function fetchSharedAlbum(token: string, password?: string): Promise<SharedAlbumPayload> {
+  const { data, error } = await supabase.functions.invoke('shared-album', {
+    body: { token, password }
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => ({}));
+    if (body.reason in SHARE_FAILURE_MESSAGES) throw new ShareAccessError(body.reason);
+  }
+  if (error) throw error;
+
+  return data as SharedAlbumPayload;
+}
+
+/**
+ * Adresse publique d'un lien de partage
+ */
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
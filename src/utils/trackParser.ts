@@ -0,0 +1,195 @@
+/**
+ * Lecture des traces GPS (GPX, KML, GeoJSON) exportées par les montres,
+ * téléphones et applications de randonnée
+ */
+
+import type { TrackPoint } from '@shared/tracks';
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ParsedTrack {
+  name: string;
+  format: TrackFormat;
+  // Points triés par heure, les points non datés en fin de liste
+  points: TrackPoint[];
+  startedAt?: Date;
+  endedAt?: Date;
+}
+
+const TRACK_EXTENSIONS: Record<string, TrackFormat> = {
+  gpx: 'gpx',
+  kml: 'kml',
+  geojson: 'geojson',
+  json: 'geojson'
+};
+
+export function isTrackFile(file: File): boolean {
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  return extension in TRACK_EXTENSIONS;
+}
+
+const parseTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value.trim());
+  return isNaN(time) ? null : time;
+};
+
+const isValidPoint = (latitude: number, longitude: number) =>
+  !isNaN(latitude) && !isNaN(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+const parseXml = (text: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Fichier XML invalide');
+  }
+  return document;
+};
+
+// Les espaces de noms (gpx:, kml:, gx:) varient selon les exports : on compare le nom local
+const elementsByLocalName = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(element => element.localName === localName);
+
+const childText = (element: Element, localName: string) =>
+  Array.from(element.children).find(child => child.localName === localName)?.textContent ?? null;
+
+/**
+ * GPX : points de trace (trkpt), à défaut de route (rtept) ou de passage (wpt)
+ */
+const parseGpx = (text: string): TrackPoint[] => {
+  const document = parseXml(text);
+  const tagName = ['trkpt', 'rtept', 'wpt'].find(name => elementsByLocalName(document, name).length > 0);
+  if (!tagName) return [];
+
+  return elementsByLocalName(document, tagName)
+    .map((element): TrackPoint => [
+      parseFloat(element.getAttribute('lat') || ''),
+      parseFloat(element.getAttribute('lon') || ''),
+      parseTime(childText(element, 'time'))
+    ])
+    .filter(([latitude, longitude]) => isValidPoint(latitude, longitude));
+};
+
+/**
+ * KML : gx:Track (when + gx:coord) daté, sinon les coordonnées des LineString
+ */
+const parseKml = (text: string): TrackPoint[] => {
+  const document = parseXml(text);
+  const points: TrackPoint[] = [];
+
+  elementsByLocalName(document, 'Track').forEach(track => {
+    const times = Array.from(track.children).filter(child => child.localName === 'when');
+    const coords = Array.from(track.children).filter(child => child.localName === 'coord');
+    coords.forEach((coord, index) => {
+      const [longitude, latitude] = (coord.textContent || '').trim().split(/\s+/).map(parseFloat);
+      if (isValidPoint(latitude, longitude)) {
+        points.push([latitude, longitude, parseTime(times[index]?.textContent)]);
+      }
+    });
+  });
+
+  if (points.length > 0) return points;
+
+  // Les LineString ne portent pas d'heure : la trace n'est utile que pour la carte
+  elementsByLocalName(document, 'LineString').forEach(line => {
+    (childText(line, 'coordinates') || '').trim().split(/\s+/).forEach(tuple => {
+      const [longitude, latitude] = tuple.split(',').map(parseFloat);
+      if (isValidPoint(latitude, longitude)) {
+        points.push([latitude, longitude, null]);
+      }
+    });
+  });
+
+  return points;
+};
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: string;
+  geometry?: GeoJsonGeometry | null;
+  properties?: { coordTimes?: unknown; times?: unknown } | null;
+  features?: GeoJsonFeature[];
+}
+
+/**
+ * GeoJSON : LineString et MultiLineString, heures dans properties.coordTimes
+ * (convention de togeojson) ou properties.times
+ */
+const parseGeoJson = (text: string): TrackPoint[] => {
+  const root = JSON.parse(text) as GeoJsonFeature;
+  const points: TrackPoint[] = [];
+
+  const addLine = (coordinates: unknown, times: unknown) => {
+    if (!Array.isArray(coordinates)) return;
+    coordinates.forEach((position, index) => {
+      if (!Array.isArray(position)) return;
+      const [longitude, latitude] = position.map(Number);
+      const time = Array.isArray(times) ? parseTime(String(times[index] ?? '')) : null;
+      if (isValidPoint(latitude, longitude)) {
+        points.push([latitude, longitude, time]);
+      }
+    });
+  };
+
+  const addGeometry = (geometry: GeoJsonGeometry | null | undefined, times: unknown) => {
+    if (!geometry) return;
+    if (geometry.type === 'LineString') {
+      addLine(geometry.coordinates, times);
+    } else if (geometry.type === 'MultiLineString' && Array.isArray(geometry.coordinates)) {
+      geometry.coordinates.forEach((line, index) =>
+        addLine(line, Array.isArray(times) ? times[index] : undefined)
+      );
+    } else if (geometry.type === 'GeometryCollection') {
+      geometry.geometries?.forEach(child => addGeometry(child, undefined));
+    }
+  };
+
+  const addFeature = (feature: GeoJsonFeature) => {
+    if (feature.type === 'FeatureCollection') {
+      feature.features?.forEach(addFeature);
+    } else if (feature.type === 'Feature') {
+      addGeometry(feature.geometry, feature.properties?.coordTimes ?? feature.properties?.times);
+    } else {
+      addGeometry(feature as GeoJsonGeometry, undefined);
+    }
+  };
+
+  addFeature(root);
+  return points;
+};
+
+/**
+ * Lit une trace GPS
+ * @param file - Le fichier .gpx, .kml, .geojson ou .json
+ * @returns La trace, ses points datés triés par heure
+ * @throws Si le format n'est pas reconnu ou si le fichier ne contient aucun point
+ */
+export async function parseTrackFile(file: File): Promise<ParsedTrack> {
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  const format = TRACK_EXTENSIONS[extension];
+  if (!format) {
+    throw new Error('Format de trace non reconnu (GPX, KML ou GeoJSON attendu)');
+  }
+
+  const text = await file.text();
+  const points = format === 'gpx' ? parseGpx(text) : format === 'kml' ? parseKml(text) : parseGeoJson(text);
+  if (points.length === 0) {
+    throw new Error('Aucun point trouvé dans la trace');
+  }
+
+  // Les points datés sont triés pour la recherche par heure ; les autres gardent l'ordre du fichier
+  const timed = points.filter(point => point[2] !== null).sort((a, b) => (a[2] as number) - (b[2] as number));
+  const untimed = points.filter(point => point[2] === null);
+
+  return {
+    name: file.name.replace(/\.[^/.]+$/, ''),
+    format,
+    points: [...timed, ...untimed],
+    startedAt: timed.length > 0 ? new Date(timed[0][2] as number) : undefined,
+    endedAt: timed.length > 0 ? new Date(timed[timed.length - 1][2] as number) : undefined
+  };
+}
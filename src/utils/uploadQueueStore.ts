@@ -0,0 +1,90 @@
+/**
+ * Persistance de la file d'upload dans IndexedDB pour reprendre
+ * les envois interrompus (onglet fermé, rechargement de la page)
+ */
+
+import type { PhotoMetadata } from '@/utils/photoUpload';
+
+export type UploadStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export interface StoredUploadItem {
+  id: string;
+  albumId: string;
+  userId: string;
+  file: File;
+  displayFile?: File;
+  companionVideo?: File;
+  metadata?: PhotoMetadata;
+  replacePhotoId?: string;
+  status: UploadStatus;
+  attempts: number;
+  error?: string;
+  // Date avant laquelle l'élément ne doit pas être retenté (backoff)
+  nextAttemptAt?: number;
+  createdAt: number;
+}
+
+const DB_NAME = 'photo-upload-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'items';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('albumId', 'albumId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Enregistre ou met à jour un élément de la file
+ */
+export async function saveUploadItem(item: StoredUploadItem): Promise<void> {
+  await runTransaction('readwrite', store => store.put(item));
+}
+
+/**
+ * Supprime un élément de la file
+ */
+export async function deleteUploadItem(id: string): Promise<void> {
+  await runTransaction('readwrite', store => store.delete(id));
+}
+
+/**
+ * Renvoie les éléments en attente ou en échec d'un album, du plus ancien au plus récent
+ */
+export async function getUnfinishedUploadItems(albumId: string): Promise<StoredUploadItem[]> {
+  const items = await runTransaction<StoredUploadItem[]>('readonly', store =>
+    store.index('albumId').getAll(albumId)
+  );
+  return items
+    .filter(item => item.status !== 'done')
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
@@ -0,0 +1,224 @@
+/**
+ * Lecture des métadonnées d'un conteneur MP4/MOV (date de création, GPS, durée)
+ * sans dépendance : seuls les en-têtes des boîtes et la boîte moov sont lus.
+ */
+
+import { parseUtcOffset } from '@shared/timezone';
+
+export interface VideoMetadata {
+  date?: Date;
+  // Décalage UTC de l'appareil, connu seulement pour les vidéos d'iPhone
+  utcOffset?: number;
+  make?: string;
+  model?: string;
+  latitude?: number;
+  longitude?: number;
+  duration?: number;
+}
+
+// Secondes entre le 1er janvier 1904 (époque QuickTime) et le 1er janvier 1970
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+// Au-delà, la boîte moov n'est pas chargée en mémoire
+const MAX_MOOV_SIZE = 32 * 1024 * 1024;
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', '3gp'];
+
+export function isVideoFile(file: File): boolean {
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  return file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(extension);
+}
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readBoxHeader = (view: DataView, offset: number, limit: number): Box | null => {
+  if (offset + 8 > limit) return null;
+
+  let size = view.getUint32(offset);
+  const type = readType(view, offset + 4);
+  let headerSize = 8;
+
+  if (size === 1) {
+    if (offset + 16 > limit) return null;
+    size = Number(view.getBigUint64(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+
+  if (size < headerSize) return null;
+  return { type, start: offset, headerSize, size };
+};
+
+const childBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const box = readBoxHeader(view, offset, end);
+    if (!box) break;
+    boxes.push(box);
+    offset += box.size;
+  }
+  return boxes;
+};
+
+const decodeText = (view: DataView, start: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + start, length));
+
+/**
+ * Interprète une position ISO 6709, ex: "+48.8577+002.2950+035.000/"
+ */
+const parseIso6709 = (value: string): { latitude: number; longitude: number } | undefined => {
+  const match = value.match(/([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/);
+  if (!match) return undefined;
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+};
+
+/**
+ * Lit la boîte mvhd : date de création (UTC) et durée
+ */
+const parseMvhd = (view: DataView, box: Box, metadata: VideoMetadata) => {
+  const offset = box.start + box.headerSize;
+  const version = view.getUint8(offset);
+
+  let creationTime: number;
+  let timescale: number;
+  let duration: number;
+
+  if (version === 1) {
+    creationTime = Number(view.getBigUint64(offset + 4));
+    timescale = view.getUint32(offset + 20);
+    duration = Number(view.getBigUint64(offset + 24));
+  } else {
+    creationTime = view.getUint32(offset + 4);
+    timescale = view.getUint32(offset + 12);
+    duration = view.getUint32(offset + 16);
+  }
+
+  // Une date à 0 signifie que l'appareil ne l'a pas renseignée
+  if (creationTime > QUICKTIME_EPOCH_OFFSET && !metadata.date) {
+    metadata.date = new Date((creationTime - QUICKTIME_EPOCH_OFFSET) * 1000);
+  }
+  if (timescale > 0) {
+    metadata.duration = duration / timescale;
+  }
+};
+
+/**
+ * Lit la boîte udta : position "©xyz" écrite par la plupart des téléphones Android
+ */
+const parseUdta = (view: DataView, box: Box, metadata: VideoMetadata) => {
+  for (const child of childBoxes(view, box.start + box.headerSize, box.start + box.size)) {
+    if (child.type === '©xyz') {
+      const length = view.getUint16(child.start + child.headerSize);
+      const position = parseIso6709(decodeText(view, child.start + child.headerSize + 4, length));
+      if (position && metadata.latitude === undefined) {
+        Object.assign(metadata, position);
+      }
+    }
+  }
+};
+
+/**
+ * Lit la boîte meta QuickTime (keys + ilst) écrite par les iPhone :
+ * la date de création y porte le décalage horaire local
+ */
+const parseQuickTimeMeta = (view: DataView, box: Box, metadata: VideoMetadata) => {
+  const children = childBoxes(view, box.start + box.headerSize, box.start + box.size);
+  const keysBox = children.find(child => child.type === 'keys');
+  const ilstBox = children.find(child => child.type === 'ilst');
+  if (!keysBox || !ilstBox) return;
+
+  const keys: string[] = [];
+  let offset = keysBox.start + keysBox.headerSize + 4;
+  const count = view.getUint32(offset);
+  offset += 4;
+  for (let i = 0; i < count; i++) {
+    const keySize = view.getUint32(offset);
+    keys.push(decodeText(view, offset + 8, keySize - 8));
+    offset += keySize;
+  }
+
+  for (const item of childBoxes(view, ilstBox.start + ilstBox.headerSize, ilstBox.start + ilstBox.size)) {
+    const key = keys[view.getUint32(item.start + 4) - 1];
+    const dataBox = childBoxes(view, item.start + item.headerSize, item.start + item.size)
+      .find(child => child.type === 'data');
+    if (!key || !dataBox) continue;
+
+    const valueStart = dataBox.start + dataBox.headerSize + 8;
+    const value = decodeText(view, valueStart, dataBox.start + dataBox.size - valueStart);
+
+    if (key === 'com.apple.quicktime.creationdate') {
+      const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+      if (!isNaN(date.getTime())) {
+        metadata.date = date;
+        metadata.utcOffset = parseUtcOffset(value.match(/([+-]\d{2}:?\d{2}|Z)$/)?.[1]);
+      }
+    } else if (key === 'com.apple.quicktime.make') {
+      metadata.make = value.replace(/\0+$/, '');
+    } else if (key === 'com.apple.quicktime.model') {
+      metadata.model = value.replace(/\0+$/, '');
+    } else if (key === 'com.apple.quicktime.location.ISO6709') {
+      const position = parseIso6709(value);
+      if (position) Object.assign(metadata, position);
+    }
+  }
+};
+
+/**
+ * Extrait la date de prise de vue, la position, l'appareil et la durée d'une vidéo MP4/MOV
+ * @param file - Le fichier vidéo
+ * @returns Les métadonnées trouvées (objet vide si le conteneur n'est pas lisible)
+ */
+export async function parseVideoMetadata(file: Blob): Promise<VideoMetadata> {
+  const metadata: VideoMetadata = {};
+
+  try {
+    // Parcours des boîtes de premier niveau en ne lisant que leurs en-têtes
+    let offset = 0;
+    let moov: Box | null = null;
+    while (offset < file.size) {
+      const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+      const box = readBoxHeader(header, 0, Math.min(16, file.size - offset));
+      if (!box) break;
+      if (box.type === 'moov') {
+        moov = { ...box, start: offset };
+        break;
+      }
+      offset += box.size;
+    }
+
+    if (!moov || moov.size > MAX_MOOV_SIZE) return metadata;
+
+    const view = new DataView(await file.slice(moov.start, moov.start + moov.size).arrayBuffer());
+    for (const child of childBoxes(view, moov.headerSize, moov.size)) {
+      // La boîte meta QuickTime est lue en premier : sa date porte le fuseau horaire
+      if (child.type === 'meta') parseQuickTimeMeta(view, child, metadata);
+    }
+    for (const child of childBoxes(view, moov.headerSize, moov.size)) {
+      if (child.type === 'mvhd') parseMvhd(view, child, metadata);
+      if (child.type === 'udta') parseUdta(view, child, metadata);
+    }
+  } catch (error) {
+    console.warn('Erreur lors de la lecture des métadonnées vidéo:', error);
+  }
+
+  return metadata;
+}
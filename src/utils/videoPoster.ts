@@ -0,0 +1,79 @@
+/**
+ * Extraction d'une image d'aperçu (poster) d'une vidéo, utilisée comme source
+ * des dérivés redimensionnés et de l'aperçu dans la fenêtre d'import
+ */
+
+// Position de l'image extraite, en secondes (les premières images sont souvent noires)
+const POSTER_TIME = 0.5;
+
+const POSTER_TIMEOUT = 15000;
+
+/**
+ * Capture une image de la vidéo et la renvoie en JPEG
+ * @param file - Le fichier vidéo
+ * @returns Un fichier JPEG portant le nom de la vidéo avec l'extension .jpg
+ */
+export function extractVideoPoster(file: File): Promise<File> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    // Certains codecs (HEVC hors Safari) ne sont jamais décodés : on abandonne
+    const timeout = setTimeout(() => fail(new Error('Délai dépassé pour l\'aperçu vidéo')), POSTER_TIMEOUT);
+
+    video.onerror = () => fail(new Error('Vidéo illisible par le navigateur'));
+
+    video.onloadeddata = () => {
+      video.currentTime = Math.min(POSTER_TIME, (video.duration || 0) / 2);
+    };
+
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d');
+      if (!context || canvas.width === 0) {
+        fail(new Error('Aperçu vidéo impossible'));
+        return;
+      }
+
+      context.drawImage(video, 0, 0);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          fail(new Error('Aperçu vidéo impossible'));
+          return;
+        }
+        cleanup();
+        resolve(new File([blob], file.name.replace(/\.[^/.]+$/, '') + '.jpg', {
+          type: 'image/jpeg',
+          lastModified: file.lastModified
+        }));
+      }, 'image/jpeg', 0.9);
+    };
+
+    video.src = url;
+  });
+}
+
+/**
+ * Formate une durée en secondes au format m:ss
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
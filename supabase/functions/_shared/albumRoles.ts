@@ -0,0 +1,30 @@
+/**
+ * Rôles des membres d'un album partagé, du plus restreint au plus étendu.
+ * L'ordre est celui de la fonction SQL has_album_role.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+export type AlbumRole =
+  // Consulte l'album
+  | "viewer"
+  // Ajoute des photos, modifie titres et récits
+  | "editor"
+  // Créateur de l'album : réglages, partage, invitations et suppression
+  | "owner";
+
+export const ALBUM_ROLES: AlbumRole[] = ["viewer", "editor", "owner"];
+
+// Rôles proposés à l'invitation : l'album n'a qu'un propriétaire
+export const INVITABLE_ROLES: Exclude<AlbumRole, "owner">[] = ["editor", "viewer"];
+
+export function isAlbumRole(value: unknown): value is AlbumRole {
+  return ALBUM_ROLES.includes(value as AlbumRole);
+}
+
+/**
+ * Indique si un rôle donne au moins les droits d'un autre
+ * @param role - Rôle du membre, absent s'il n'est pas membre
+ */
+export function hasAlbumRole(role: AlbumRole | string | null | undefined, minRole: AlbumRole): boolean {
+  return isAlbumRole(role) && ALBUM_ROLES.indexOf(role) >= ALBUM_ROLES.indexOf(minRole);
+}
@@ -0,0 +1,85 @@
+/**
+ * Autorisation des edge functions : l'utilisateur est celui du JWT de la requête, jamais celui du corps.
+ * À utiliser avec le client service_role, qui contourne les règles RLS.
+ */
+
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { ALBUM_ROLES, AlbumRole, hasAlbumRole } from "./albumRoles.ts";
+
+export interface AuthFailure {
+  status: 401 | 403 | 404;
+  message: string;
+}
+
+export type AuthResult<T> = { ok: true; value: T } | { ok: false; failure: AuthFailure };
+
+/**
+ * Utilisateur authentifié par l'en-tête Authorization
+ * @returns Un échec 401 si le jeton est absent, expiré ou celui de la clé anonyme
+ */
+export async function authenticateRequest(client: SupabaseClient, req: Request): Promise<AuthResult<User>> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    return { ok: false, failure: { status: 401, message: "Authentification requise" } };
+  }
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    return { ok: false, failure: { status: 401, message: "Session invalide ou expirée" } };
+  }
+
+  return { ok: true, value: data.user };
+}
+
+/**
+ * Album dont l'utilisateur est membre avec au moins le rôle demandé, avec les colonnes demandées
+ * (user_id, celui du propriétaire, est toujours lu)
+ * @returns Un échec 404 si l'album n'existe pas ou si l'utilisateur n'en est pas membre :
+ * l'existence d'un album d'autrui n'est pas révélée. Un échec 403 si son rôle ne suffit pas
+ */
+export async function authorizeAlbum<T extends object>(
+  client: SupabaseClient,
+  albumId: unknown,
+  userId: string,
+  columns = "id",
+  minRole: AlbumRole = "owner",
+): Promise<AuthResult<T>> {
+  if (typeof albumId !== "string" || !albumId) {
+    return { ok: false, failure: { status: 404, message: "Album introuvable" } };
+  }
+
+  const [albumResult, memberResult] = await Promise.all([
+    client.from("albums").select(`user_id, ${columns}`).eq("id", albumId).maybeSingle(),
+    client.from("album_members").select("role").eq("album_id", albumId).eq("user_id", userId).maybeSingle(),
+  ]);
+
+  if (albumResult.error) throw albumResult.error;
+  if (memberResult.error) throw memberResult.error;
+
+  if (!albumResult.data || !memberResult.data) {
+    return { ok: false, failure: { status: 404, message: "Album introuvable" } };
+  }
+  if (!hasAlbumRole(memberResult.data.role, minRole)) {
+    return { ok: false, failure: { status: 403, message: "Droits insuffisants sur cet album" } };
+  }
+
+  return { ok: true, value: albumResult.data as unknown as T };
+}
+
+/**
+ * Albums dont l'utilisateur est membre avec au moins le rôle demandé
+ */
+export async function memberAlbumIds(
+  client: SupabaseClient,
+  userId: string,
+  minRole: AlbumRole,
+): Promise<string[]> {
+  const { data, error } = await client
+    .from("album_members")
+    .select("album_id")
+    .eq("user_id", userId)
+    .in("role", ALBUM_ROLES.filter(role => hasAlbumRole(role, minRole)));
+
+  if (error) throw error;
+  return (data || []).map(member => member.album_id);
+}
@@ -0,0 +1,155 @@
+/**
+ * Langues de l'application et titre des journées, selon un modèle propre à chaque album
+ * ("J{n}, {weekday} {day} {month}, {place}" par défaut).
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import type { Locale } from "date-fns";
+import { Place, placeLabel } from "./places.ts";
+
+export type AppLocale = "fr" | "en";
+
+export const APP_LOCALES: AppLocale[] = ["fr", "en"];
+
+export const DEFAULT_LOCALE: AppLocale = "fr";
+
+const DATE_FNS_LOCALES: Record<AppLocale, Locale> = { fr, en: enUS };
+
+// Modèle utilisé quand l'album n'en définit pas
+export const DEFAULT_DAY_TITLE_TEMPLATES: Record<AppLocale, string> = {
+  fr: "J{n}, {weekday} {day} {month}, {place}",
+  en: "D{n}, {weekday} {month} {day}, {place}",
+};
+
+// Jetons reconnus, en plus de {date:motif} (motif date-fns, par exemple {date:dd/MM})
+export const DAY_TITLE_TOKENS = [
+  "n",
+  "weekday",
+  "day",
+  "month",
+  "year",
+  "place",
+  "locality",
+  "municipality",
+  "region",
+  "country",
+  "photoCount",
+  "custom",
+] as const;
+
+export type DayTitleToken = typeof DAY_TITLE_TOKENS[number];
+
+export interface DayTitleValues {
+  // Jour local (YYYY-MM-DD)
+  date: string;
+  // Numéro de la journée dans l'album (1, 2, 3...)
+  dayNumber: number;
+  place?: Place;
+  // Lieu-dit enregistré, pour les journées sans lieu structuré
+  locationName?: string | null;
+  photoCount?: number;
+  // Libellé libre saisi pour la journée
+  custom?: string | null;
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+
+/**
+ * Langue de l'application correspondant à une langue quelconque ("en-GB", "fr_FR"...)
+ * @returns La langue par défaut si elle n'est pas prise en charge
+ */
+export function resolveLocale(language: string | null | undefined): AppLocale {
+  const base = language?.toLowerCase().split(/[-_]/)[0];
+  return APP_LOCALES.find((locale) => locale === base) ?? DEFAULT_LOCALE;
+}
+
+export function dateFnsLocale(locale: AppLocale): Locale {
+  return DATE_FNS_LOCALES[locale];
+}
+
+/**
+ * Numéro d'une journée : nombre de jours calendaires depuis la première journée de l'album, plus un
+ */
+export function dayNumberOf(date: string, firstDate: string): number {
+  return differenceInCalendarDays(parseISO(date), parseISO(firstDate)) + 1;
+}
+
+/**
+ * Jetons inconnus ou motifs de date invalides d'un modèle
+ * @returns La liste des jetons fautifs, vide si le modèle est valide
+ */
+export function invalidDayTitleTokens(template: string): string[] {
+  const invalid: string[] = [];
+  for (const [token, name, pattern] of template.matchAll(TOKEN_PATTERN)) {
+    if (name === "date") {
+      try {
+        format(new Date(2000, 0, 1), pattern ?? "");
+        if (!pattern) invalid.push(token);
+      } catch {
+        invalid.push(token);
+      }
+    } else if (!(DAY_TITLE_TOKENS as readonly string[]).includes(name) || pattern !== undefined) {
+      invalid.push(token);
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Retire les séparateurs laissés par les jetons vides : "J1, lundi 12 juillet, " devient "J1, lundi 12 juillet"
+ */
+const tidyTitle = (title: string) =>
+  title
+    .replace(/\(\s*\)|\[\s*\]/g, "")
+    .replace(/\s*([,;·|–-])(\s*[,;·|–-])+/g, "$1")
+    .replace(/^[\s,;·|–-]+|[\s,;·|–-]+$/g, "")
+    .replace(/\s+([,;])/g, "$1")
+    .replace(/\s{2,}/g, " ");
+
+/**
+ * Titre d'une journée selon un modèle
+ * @param template - Modèle de l'album, ou null pour le modèle par défaut de la langue
+ */
+export function formatDayTitle(
+  values: DayTitleValues,
+  locale: AppLocale = DEFAULT_LOCALE,
+  template?: string | null,
+): string {
+  const dateLocale = DATE_FNS_LOCALES[locale];
+  const date = parseISO(values.date);
+  const formatDate = (pattern: string) => format(date, pattern, { locale: dateLocale });
+
+  const tokens: Record<DayTitleToken, () => string | number | undefined | null> = {
+    n: () => values.dayNumber,
+    weekday: () => formatDate("EEEE"),
+    day: () => formatDate("d"),
+    month: () => formatDate("MMMM"),
+    year: () => formatDate("yyyy"),
+    place: () => placeLabel(values.place) || values.locationName,
+    locality: () => values.place?.locality,
+    municipality: () => values.place?.municipality,
+    region: () => values.place?.region,
+    country: () => values.place?.country,
+    photoCount: () => values.photoCount,
+    custom: () => values.custom?.trim(),
+  };
+
+  const rendered = (template?.trim() || DEFAULT_DAY_TITLE_TEMPLATES[locale]).replace(
+    TOKEN_PATTERN,
+    (token, name: string, pattern?: string) => {
+      if (name === "date" && pattern) {
+        try {
+          return formatDate(pattern);
+        } catch {
+          return token;
+        }
+      }
+      if (pattern !== undefined || !(name in tokens)) return token;
+      return String(tokens[name as DayTitleToken]() ?? "");
+    },
+  );
+
+  return tidyTitle(rendered);
+}
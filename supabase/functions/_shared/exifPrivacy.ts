@@ -0,0 +1,346 @@
+/**
+ * Copies partagées ou téléchargées des originaux : position GPS retirée ou arrondie,
+ * numéros de série de l'appareil retirés. Les métadonnées restent intactes en base et dans le stockage.
+ * Les fichiers sont modifiés sur place, sans réencodage : JPEG (EXIF, XMP) et vidéos MP4 / MOV (ISO 6709).
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import { normalizePlace } from "./places.ts";
+import type { Place } from "./places.ts";
+
+// keep : original intact ; coarse : position arrondie, lieu réduit à la région ; strip : aucune position ni lieu
+export type ExifPrivacy = "keep" | "coarse" | "strip";
+
+export const EXIF_PRIVACY_LEVELS: ExifPrivacy[] = ["keep", "coarse", "strip"];
+
+export const DEFAULT_EXIF_PRIVACY: ExifPrivacy = "keep";
+
+// Décimales de degré conservées par "coarse" : 0,1° soit une dizaine de kilomètres
+export const COARSE_LOCATION_DECIMALS = 1;
+
+export const isExifPrivacy = (value: unknown): value is ExifPrivacy =>
+  EXIF_PRIVACY_LEVELS.includes(value as ExifPrivacy);
+
+/**
+ * Coordonnée arrondie à la précision de "coarse"
+ */
+export function coarsenCoordinate(value: number): number {
+  const factor = 10 ** COARSE_LOCATION_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Coordonnées telles qu'elles peuvent être partagées
+ * @returns null si le niveau "strip" interdit toute position
+ */
+export function shareableCoordinates(
+  latitude: number | null,
+  longitude: number | null,
+  privacy: ExifPrivacy,
+): { latitude: number; longitude: number } | null {
+  if (latitude === null || longitude === null || privacy === "strip") return null;
+  if (privacy === "coarse") {
+    return { latitude: coarsenCoordinate(latitude), longitude: coarsenCoordinate(longitude) };
+  }
+  return { latitude, longitude };
+}
+
+/**
+ * Lieu tel qu'il peut être partagé : "coarse" ne garde que la région et le pays
+ * @returns undefined si le niveau "strip" interdit tout lieu
+ */
+export function shareablePlace(place: Place | undefined, privacy: ExifPrivacy): Place | undefined {
+  if (!place || privacy === "strip") return undefined;
+  if (privacy === "coarse") {
+    return normalizePlace({ region: place.region, country: place.country, countryCode: place.countryCode });
+  }
+  return place;
+}
+
+class MalformedMediaError extends Error {}
+
+const check = (condition: boolean) => {
+  if (!condition) throw new MalformedMediaError("Fichier mal formé");
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// --- JPEG / EXIF ---
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADERS = ["http://ns.adobe.com/xap/1.0/\0", "http://ns.adobe.com/xmp/extension/\0"];
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_CAMERA_SERIAL = 0xc62f;
+const TAG_MAKER_NOTE = 0x927c;
+const TAG_BODY_SERIAL = 0xa431;
+const TAG_LENS_SERIAL = 0xa435;
+
+// Version, références et valeurs de latitude et de longitude : seules balises GPS gardées par "coarse"
+const COARSE_GPS_TAGS = [0, 1, 2, 3, 4];
+const GPS_LATITUDE = 2;
+const GPS_LONGITUDE = 4;
+
+// Taille en octets de chaque type TIFF
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Position de l'entrée dans le bloc TIFF
+  position: number;
+}
+
+/**
+ * Édition sur place d'un bloc TIFF (contenu du segment APP1 Exif)
+ */
+class TiffEditor {
+  private view: DataView;
+  private little: boolean;
+
+  constructor(private tiff: Uint8Array) {
+    check(tiff.length >= 8);
+    const order = ascii(tiff, 0, 2);
+    check(order === "II" || order === "MM");
+    this.little = order === "II";
+    this.view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  }
+
+  u16 = (offset: number) => this.view.getUint16(offset, this.little);
+  u32 = (offset: number) => this.view.getUint32(offset, this.little);
+  setU32 = (offset: number, value: number) => this.view.setUint32(offset, value, this.little);
+
+  get firstIfd() {
+    return this.u32(4);
+  }
+
+  entries(ifd: number): IfdEntry[] {
+    check(ifd + 2 <= this.tiff.length);
+    const count = this.u16(ifd);
+    check(ifd + 2 + count * 12 + 4 <= this.tiff.length);
+    return Array.from({ length: count }, (_, index) => {
+      const position = ifd + 2 + index * 12;
+      return { tag: this.u16(position), type: this.u16(position + 2), count: this.u32(position + 4), position };
+    });
+  }
+
+  /**
+   * Position de la valeur d'une entrée : dans l'entrée si elle tient sur 4 octets, ailleurs sinon
+   */
+  valueRange(entry: IfdEntry): [number, number] {
+    const length = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+    const start = length <= 4 ? entry.position + 8 : this.u32(entry.position + 8);
+    check(start + length <= this.tiff.length);
+    return [start, start + length];
+  }
+
+  /**
+   * Retire d'un IFD les entrées choisies, en effaçant aussi leurs valeurs
+   */
+  removeEntries(ifd: number, remove: (entry: IfdEntry) => boolean) {
+    const entries = this.entries(ifd);
+    const nextIfd = this.u32(ifd + 2 + entries.length * 12);
+    const kept = entries.filter(entry => !remove(entry));
+    if (kept.length === entries.length) return;
+
+    entries.filter(remove).forEach(entry => this.tiff.fill(0, ...this.valueRange(entry)));
+
+    // Entrées gardées recopiées en tête de table, suivies du lien vers l'IFD suivant
+    const keptBytes = kept.map(entry => this.tiff.slice(entry.position, entry.position + 12));
+    this.tiff.fill(0, ifd, ifd + 2 + entries.length * 12 + 4);
+    this.view.setUint16(ifd, kept.length, this.little);
+    keptBytes.forEach((bytes, index) => this.tiff.set(bytes, ifd + 2 + index * 12));
+    this.setU32(ifd + 2 + kept.length * 12, nextIfd);
+  }
+
+  /**
+   * Remplace une coordonnée en degrés, minutes, secondes par sa valeur arrondie
+   */
+  coarsenDms(entry: IfdEntry) {
+    check(entry.type === 5 && entry.count === 3);
+    const [start] = this.valueRange(entry);
+    const rational = (index: number) => {
+      const denominator = this.u32(start + index * 8 + 4);
+      return denominator ? this.u32(start + index * 8) / denominator : 0;
+    };
+
+    const decimal = coarsenCoordinate(rational(0) + rational(1) / 60 + rational(2) / 3600);
+    const degrees = Math.floor(decimal);
+    const minutes = Math.round((decimal - degrees) * 60);
+    [degrees, minutes, 0].forEach((value, index) => {
+      this.setU32(start + index * 8, value);
+      this.setU32(start + index * 8 + 4, 1);
+    });
+  }
+}
+
+function sanitizeTiff(tiff: Uint8Array, privacy: ExifPrivacy) {
+  const editor = new TiffEditor(tiff);
+  const ifd0 = editor.firstIfd;
+  const ifd0Entries = editor.entries(ifd0);
+  const exifIfd = ifd0Entries.find(entry => entry.tag === TAG_EXIF_IFD);
+  const gpsIfd = ifd0Entries.find(entry => entry.tag === TAG_GPS_IFD);
+
+  // Numéros de série, y compris dans les notes du fabricant, dont le format n'est pas documenté
+  if (exifIfd) {
+    editor.removeEntries(editor.u32(exifIfd.position + 8), entry =>
+      [TAG_BODY_SERIAL, TAG_LENS_SERIAL, TAG_MAKER_NOTE].includes(entry.tag)
+    );
+  }
+
+  if (gpsIfd) {
+    const gpsOffset = editor.u32(gpsIfd.position + 8);
+    if (privacy === "coarse") {
+      editor.removeEntries(gpsOffset, entry => !COARSE_GPS_TAGS.includes(entry.tag));
+      editor.entries(gpsOffset)
+        .filter(entry => entry.tag === GPS_LATITUDE || entry.tag === GPS_LONGITUDE)
+        .forEach(entry => editor.coarsenDms(entry));
+    } else {
+      editor.removeEntries(gpsOffset, () => true);
+    }
+  }
+
+  editor.removeEntries(ifd0, entry =>
+    entry.tag === TAG_CAMERA_SERIAL || (privacy === "strip" && entry.tag === TAG_GPS_IFD)
+  );
+}
+
+function sanitizeJpeg(bytes: Uint8Array, privacy: ExifPrivacy): Uint8Array {
+  check(bytes[0] === 0xff && bytes[1] === 0xd8);
+  const segments: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    check(bytes[offset] === 0xff && offset + 4 <= bytes.length);
+    const marker = bytes[offset + 1];
+
+    // Début des données d'image : le reste du fichier est recopié tel quel
+    if (marker === 0xda) {
+      segments.push(bytes.subarray(offset));
+      break;
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    check(end <= bytes.length);
+    const segment = bytes.slice(offset, end);
+    offset = end;
+
+    if (marker === 0xe1) {
+      // XMP : peut répéter la position, retiré en entier
+      if (XMP_HEADERS.some(header => ascii(segment, 4, header.length) === header)) continue;
+      if (ascii(segment, 4, EXIF_HEADER.length) === EXIF_HEADER) {
+        sanitizeTiff(segment.subarray(4 + EXIF_HEADER.length), privacy);
+      }
+    }
+    segments.push(segment);
+  }
+
+  const output = new Uint8Array(segments.reduce((total, segment) => total + segment.length, 0));
+  segments.reduce((position, segment) => {
+    output.set(segment, position);
+    return position + segment.length;
+  }, 0);
+  return output;
+}
+
+// --- MP4 / MOV ---
+
+// Position ISO 6709 (©xyz, com.apple.quicktime.location.ISO6709), par exemple "+48.8584+002.2945+035.000/" :
+// degrés sur 2 et 3 chiffres avec décimales, comme l'écrivent les appareils, pour ne rien confondre avec les données binaires
+const ISO6709_PATTERN = /([+-]\d{2}\.\d+)([+-]\d{3}\.\d+)((?:[+-]\d+(?:\.\d+)?)?(?:CRS[^/]*)?)\//g;
+
+/**
+ * Coordonnée arrondie, réécrite avec exactement le même nombre de chiffres pour ne pas décaler le fichier
+ */
+function coarsenFixedWidth(field: string): string | undefined {
+  const [integer, decimals] = field.slice(1).split(".");
+  const value = coarsenCoordinate(Number(field));
+  const [roundedInteger, roundedDecimals] = Math.abs(value).toFixed(decimals.length).split(".");
+  const formatted = `${value < 0 ? "-" : "+"}${roundedInteger.padStart(integer.length, "0")}.${roundedDecimals}`;
+  return formatted.length === field.length ? formatted : undefined;
+}
+
+function sanitizeIso6709(text: string, privacy: ExifPrivacy): string {
+  return text.replace(ISO6709_PATTERN, (match, latitude: string, longitude: string, rest: string) => {
+    const zeroed = match.replace(/\d/g, "0");
+    if (privacy === "strip") return zeroed;
+
+    const coarseLatitude = coarsenFixedWidth(latitude);
+    const coarseLongitude = coarsenFixedWidth(longitude);
+    if (!coarseLatitude || !coarseLongitude) return zeroed;
+
+    // L'altitude n'est pas partagée
+    return `${coarseLatitude}${coarseLongitude}${rest.replace(/\d/g, "0")}/`;
+  });
+}
+
+/**
+ * Boîte "moov" de premier niveau, qui porte les métadonnées de la vidéo
+ */
+function findMoovBox(bytes: Uint8Array): [number, number] | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      check(offset + 16 <= bytes.length);
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    check(size >= header && offset + size <= bytes.length);
+
+    if (ascii(bytes, offset + 4, 4) === "moov") return [offset, offset + size];
+    offset += size;
+  }
+  return undefined;
+}
+
+function sanitizeVideo(bytes: Uint8Array, privacy: ExifPrivacy): Uint8Array {
+  const output = bytes.slice();
+  const moov = findMoovBox(output);
+  if (!moov) return output;
+
+  // Lecture octet par octet (latin1) : les remplacements gardent la même longueur
+  const [start, end] = moov;
+  const text = Array.from(output.subarray(start, end), byte => String.fromCharCode(byte)).join("");
+  const sanitized = sanitizeIso6709(text, privacy);
+  for (let index = 0; index < sanitized.length; index++) {
+    output[start + index] = sanitized.charCodeAt(index);
+  }
+  return output;
+}
+
+const JPEG_TYPES = ["image/jpeg", "image/jpg"];
+const VIDEO_TYPES = ["video/mp4", "video/quicktime"];
+
+/**
+ * Format dont la copie peut être nettoyée ; les autres (HEIC, PNG…) sont remplacés par un dérivé réencodé
+ */
+export const canSanitizeMedia = (mimeType: string | null | undefined) =>
+  !!mimeType && [...JPEG_TYPES, ...VIDEO_TYPES].includes(mimeType.toLowerCase());
+
+/**
+ * Copie d'un original respectant le niveau de confidentialité ; l'original n'est pas modifié
+ * @param bytes - Contenu de l'original
+ * @param mimeType - Type de l'original
+ * @returns undefined si le format n'est pas pris en charge ou si le fichier n'a pas pu être lu :
+ * l'original ne doit alors pas être partagé
+ */
+export function sanitizeMedia(bytes: Uint8Array, mimeType: string, privacy: ExifPrivacy): Uint8Array | undefined {
+  if (privacy === "keep") return bytes;
+  if (!canSanitizeMedia(mimeType)) return undefined;
+
+  try {
+    return JPEG_TYPES.includes(mimeType.toLowerCase()) ? sanitizeJpeg(bytes, privacy) : sanitizeVideo(bytes, privacy);
+  } catch (error) {
+    if (error instanceof MalformedMediaError || error instanceof RangeError) return undefined;
+    throw error;
+  }
+}
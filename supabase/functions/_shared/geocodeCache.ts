@@ -0,0 +1,42 @@
+/**
+ * Cache de géocodage persistant dans la table geocode_cache.
+ * Réservé au client service_role : la table n'est pas exposée aux utilisateurs.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { GeocodeCacheStore } from "./geocoding.ts";
+import { placeFromColumns, placeFullName, placeToColumns } from "./places.ts";
+
+export function createSupabaseGeocodeCache(client: SupabaseClient): GeocodeCacheStore {
+  return {
+    async get({ latitudeKey, longitudeKey, language, provider }) {
+      const { data, error } = await client
+        .from("geocode_cache")
+        .select("place_locality, place_municipality, place_region, place_country, place_country_code")
+        .eq("latitude_key", latitudeKey)
+        .eq("longitude_key", longitudeKey)
+        .eq("language", language)
+        .eq("provider", provider)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return undefined;
+      return placeFromColumns(data) ?? null;
+    },
+
+    async set({ latitudeKey, longitudeKey, language, provider }, place) {
+      const { error } = await client
+        .from("geocode_cache")
+        .upsert({
+          latitude_key: latitudeKey,
+          longitude_key: longitudeKey,
+          language,
+          provider,
+          location_name: placeFullName(place) ?? null,
+          ...placeToColumns(place),
+        }, { onConflict: "latitude_key,longitude_key,language,provider" });
+
+      if (error) throw error;
+    },
+  };
+}
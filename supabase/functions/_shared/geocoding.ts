@@ -0,0 +1,342 @@
+/**
+ * Géocodage inverse : fournisseurs interchangeables (Nominatim, Photon, instance auto-hébergée,
+ * jeu de données GeoNames hors ligne, bouchon de test), limitation du débit et cache persistant.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import { GeoNamesDataset } from "./geonames.ts";
+import { normalizePlace, Place } from "./places.ts";
+
+export type GeocoderProvider = "nominatim" | "photon" | "geonames" | "stub";
+
+export interface ReverseGeocoder {
+  provider: GeocoderProvider;
+  /**
+   * Lieu à une position, décomposé en quartier, commune, région et pays
+   * @returns Le lieu, ou undefined si aucun lieu n'est connu à cet endroit
+   * @throws En cas d'erreur réseau ou de réponse invalide du service
+   */
+  reverse(latitude: number, longitude: number, language: string): Promise<Place | undefined>;
+}
+
+export interface GeocoderConfig {
+  provider: GeocoderProvider;
+  // Adresse d'une instance auto-hébergée, sinon le service public du fournisseur
+  url?: string;
+  language: string;
+  // Intervalle minimal entre deux requêtes (la politique de Nominatim impose 1 s)
+  minIntervalMs: number;
+  timeoutMs: number;
+  userAgent: string;
+  // Dossier des fichiers GeoNames (fournisseur geonames)
+  geonamesDir?: string;
+  // Distance au-delà de laquelle aucune localité GeoNames n'est retenue
+  geonamesMaxDistanceKm: number;
+}
+
+export interface GeocoderResources {
+  // Jeu de données chargé par l'appelant, requis pour le fournisseur geonames
+  geonames?: GeoNamesDataset;
+}
+
+const PUBLIC_URLS: Record<"nominatim" | "photon", string> = {
+  nominatim: "https://nominatim.openstreetmap.org",
+  photon: "https://photon.komoot.io",
+};
+
+/**
+ * Lit la configuration du géocodeur dans les variables d'environnement :
+ * GEOCODER_PROVIDER, GEOCODER_URL, GEOCODER_LANGUAGE, GEOCODER_MIN_INTERVAL_MS,
+ * GEOCODER_TIMEOUT_MS, GEOCODER_USER_AGENT, GEOCODER_GEONAMES_DIR et GEOCODER_GEONAMES_MAX_KM
+ * @param getEnv - Accès aux variables (Deno.env.get, process.env...)
+ */
+export function geocoderConfigFromEnv(getEnv: (name: string) => string | undefined): GeocoderConfig {
+  const provider = (getEnv("GEOCODER_PROVIDER") || "nominatim").toLowerCase();
+  if (provider !== "nominatim" && provider !== "photon" && provider !== "geonames" && provider !== "stub") {
+    throw new Error(`Fournisseur de géocodage inconnu : ${provider}`);
+  }
+
+  const number = (name: string, fallback: number) => {
+    const value = Number(getEnv(name));
+    return getEnv(name) && !isNaN(value) ? value : fallback;
+  };
+
+  return {
+    provider,
+    url: getEnv("GEOCODER_URL") || undefined,
+    language: getEnv("GEOCODER_LANGUAGE") || "fr",
+    // Les fournisseurs locaux n'ont pas de limite de débit
+    minIntervalMs: number("GEOCODER_MIN_INTERVAL_MS", provider === "stub" || provider === "geonames" ? 0 : 1000),
+    timeoutMs: number("GEOCODER_TIMEOUT_MS", 8000),
+    userAgent: getEnv("GEOCODER_USER_AGENT") || "PhotoApp/1.0",
+    geonamesDir: getEnv("GEOCODER_GEONAMES_DIR") || undefined,
+    geonamesMaxDistanceKm: number("GEOCODER_GEONAMES_MAX_KM", 50),
+  };
+}
+
+/**
+ * Sérialise des appels en imposant un intervalle minimal entre leurs débuts.
+ * L'état est conservé d'une invocation à l'autre tant que l'instance reste chaude.
+ */
+export function createThrottle(minIntervalMs: number) {
+  let nextSlot = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      const wait = nextSlot - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      nextSlot = Date.now() + minIntervalMs;
+      return task();
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
+
+const fetchJson = async (url: string, config: GeocoderConfig): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { "User-Agent": config.userAgent },
+    });
+    if (!response.ok) {
+      throw new Error(`Géocodage impossible (HTTP ${response.status})`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Champs de l'adresse Nominatim, du plus précis au plus général (https://nominatim.org/release-docs/latest/api/Output/#addressdetails)
+interface NominatimAddress {
+  neighbourhood?: string;
+  quarter?: string;
+  hamlet?: string;
+  suburb?: string;
+  city_district?: string;
+  village?: string;
+  town?: string;
+  city?: string;
+  municipality?: string;
+  county?: string;
+  state?: string;
+  province?: string;
+  region?: string;
+  country?: string;
+  country_code?: string;
+}
+
+/**
+ * Nominatim (service public OpenStreetMap ou instance auto-hébergée)
+ */
+export function createNominatimGeocoder(config: GeocoderConfig): ReverseGeocoder {
+  const baseUrl = (config.url || PUBLIC_URLS.nominatim).replace(/\/$/, "");
+  const throttle = createThrottle(config.minIntervalMs);
+
+  return {
+    provider: "nominatim",
+    reverse: (latitude, longitude, language) =>
+      throttle(async () => {
+        const data = await fetchJson(
+          `${baseUrl}/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=14&addressdetails=1&accept-language=${encodeURIComponent(language)}`,
+          config,
+        ) as { address?: NominatimAddress };
+
+        const address = data?.address;
+        if (!address) return undefined;
+        return normalizePlace({
+          locality: address.suburb || address.city_district || address.quarter || address.neighbourhood || address.hamlet,
+          municipality: address.city || address.town || address.village || address.municipality,
+          region: address.state || address.province || address.region || address.county,
+          country: address.country,
+          countryCode: address.country_code,
+        });
+      }),
+  };
+}
+
+interface PhotonFeature {
+  properties?: {
+    name?: string;
+    // Type OSM de l'objet trouvé (city, town, village, suburb...)
+    type?: string;
+    district?: string;
+    locality?: string;
+    city?: string;
+    county?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+  };
+}
+
+/**
+ * Photon (service public de Komoot ou instance auto-hébergée)
+ */
+export function createPhotonGeocoder(config: GeocoderConfig): ReverseGeocoder {
+  const baseUrl = (config.url || PUBLIC_URLS.photon).replace(/\/$/, "");
+  const throttle = createThrottle(config.minIntervalMs);
+
+  return {
+    provider: "photon",
+    reverse: (latitude, longitude, language) =>
+      throttle(async () => {
+        const data = await fetchJson(
+          `${baseUrl}/reverse?lat=${latitude}&lon=${longitude}&limit=1&lang=${encodeURIComponent(language)}`,
+          config,
+        ) as { features?: PhotonFeature[] };
+
+        const properties = data?.features?.[0]?.properties;
+        if (!properties) return undefined;
+
+        // Quand l'objet trouvé est lui-même une localité, Photon ne renseigne que son nom
+        const isSettlement = ["city", "town", "village"].includes(properties.type || "");
+        return normalizePlace({
+          locality: properties.district || properties.locality,
+          municipality: properties.city || (isSettlement ? properties.name : undefined),
+          region: properties.state || properties.county,
+          country: properties.country,
+          countryCode: properties.countrycode,
+        });
+      }),
+  };
+}
+
+/**
+ * GeoNames : localité la plus proche dans un jeu de données chargé en mémoire, sans appel réseau.
+ * Les noms sont ceux du fichier GeoNames quelle que soit la langue demandée.
+ */
+export function createGeoNamesGeocoder(dataset: GeoNamesDataset, config: GeocoderConfig): ReverseGeocoder {
+  return {
+    provider: "geonames",
+    reverse: (latitude, longitude) => {
+      const match = dataset.nearest(latitude, longitude, config.geonamesMaxDistanceKm);
+      return Promise.resolve(match
+        ? normalizePlace({
+          municipality: match.place.name,
+          region: match.region,
+          country: match.country,
+          countryCode: match.place.countryCode,
+        })
+        : undefined);
+    },
+  };
+}
+
+/**
+ * Bouchon hors ligne : lieu déterministe dérivé de la position, sans aucun appel réseau
+ */
+export function createStubGeocoder(): ReverseGeocoder {
+  return {
+    provider: "stub",
+    reverse: (latitude, longitude) =>
+      Promise.resolve({
+        municipality: `Lieu ${latitude.toFixed(2)}, ${longitude.toFixed(2)}`,
+        region: `Région ${Math.round(latitude)}, ${Math.round(longitude)}`,
+        country: "Pays test",
+        countryCode: "XX",
+      }),
+  };
+}
+
+/**
+ * Instancie le géocodeur choisi par la configuration
+ */
+export function createGeocoder(config: GeocoderConfig, resources: GeocoderResources = {}): ReverseGeocoder {
+  switch (config.provider) {
+    case "photon":
+      return createPhotonGeocoder(config);
+    case "geonames":
+      if (!resources.geonames) {
+        throw new Error("Le fournisseur geonames nécessite le jeu de données GeoNames");
+      }
+      return createGeoNamesGeocoder(resources.geonames, config);
+    case "stub":
+      return createStubGeocoder();
+    default:
+      return createNominatimGeocoder(config);
+  }
+}
+
+// Trois décimales : environ 110 m, bien en deçà de la précision d'un nom de quartier
+export const GEOCODE_CACHE_PRECISION = 3;
+
+export interface GeocodeCacheKey {
+  latitudeKey: number;
+  longitudeKey: number;
+  language: string;
+  // Chaque fournisseur a ses propres lieux : un lieu de test ne doit pas servir en production
+  provider: GeocoderProvider;
+}
+
+export interface GeocodeCacheStore {
+  // undefined : absent du cache ; null : position connue pour n'avoir aucun lieu
+  get(key: GeocodeCacheKey): Promise<Place | null | undefined>;
+  set(key: GeocodeCacheKey, place: Place | null): Promise<void>;
+}
+
+export function geocodeCacheKey(
+  latitude: number,
+  longitude: number,
+  language: string,
+  provider: GeocoderProvider,
+): GeocodeCacheKey {
+  const factor = 10 ** GEOCODE_CACHE_PRECISION;
+  return {
+    latitudeKey: Math.round(latitude * factor) / factor,
+    longitudeKey: Math.round(longitude * factor) / factor,
+    language,
+    provider,
+  };
+}
+
+/**
+ * Ajoute au géocodeur un cache en mémoire et un cache persistant.
+ * Les erreurs du service sont journalisées et ne sont pas mises en cache.
+ */
+export function withGeocodeCache(geocoder: ReverseGeocoder, store: GeocodeCacheStore): ReverseGeocoder {
+  const memory = new Map<string, Promise<Place | undefined>>();
+
+  const resolve = async (key: GeocodeCacheKey): Promise<Place | undefined> => {
+    try {
+      const cached = await store.get(key);
+      if (cached !== undefined) return cached ?? undefined;
+    } catch (error) {
+      console.warn("Lecture du cache de géocodage impossible:", error);
+    }
+
+    let place: Place | undefined;
+    try {
+      place = await geocoder.reverse(key.latitudeKey, key.longitudeKey, key.language);
+    } catch (error) {
+      console.warn("Erreur lors de la géolocalisation inverse:", error);
+      memory.delete(`${key.latitudeKey},${key.longitudeKey},${key.language}`);
+      return undefined;
+    }
+
+    try {
+      await store.set(key, place ?? null);
+    } catch (error) {
+      console.warn("Écriture du cache de géocodage impossible:", error);
+    }
+    return place;
+  };
+
+  return {
+    provider: geocoder.provider,
+    reverse: (latitude, longitude, language) => {
+      const key = geocodeCacheKey(latitude, longitude, language, geocoder.provider);
+      const memoryKey = `${key.latitudeKey},${key.longitudeKey},${key.language}`;
+      if (!memory.has(memoryKey)) {
+        memory.set(memoryKey, resolve(key));
+      }
+      return memory.get(memoryKey)!;
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Géocodage inverse hors ligne à partir des exports GeoNames (https://download.geonames.org/export/dump/) :
+ * localité peuplée la plus proche, avec sa région (admin1) et son pays.
+ * Module sans dépendance à Deno : les fichiers sont lus par l'appelant.
+ */
+
+export interface GeoNamesPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  admin1Code: string;
+  population: number;
+}
+
+export interface GeoNamesMatch {
+  place: GeoNamesPlace;
+  // Nom de la région (admin1), s'il est connu
+  region?: string;
+  // Nom du pays (en anglais dans countryInfo.txt)
+  country?: string;
+  distanceKm: number;
+}
+
+export interface GeoNamesFiles {
+  // cities500.txt, cities1000.txt, cities5000.txt ou cities15000.txt
+  cities: string;
+  // admin1CodesASCII.txt
+  admin1: string;
+  // countryInfo.txt
+  countries: string;
+}
+
+export interface GeoNamesDataset {
+  placeCount: number;
+  /**
+   * Localité la plus proche d'une position
+   * @param maxDistanceKm - Au-delà, la position est considérée comme isolée
+   */
+  nearest(latitude: number, longitude: number, maxDistanceKm: number): GeoNamesMatch | undefined;
+}
+
+// Côté des cellules de l'index spatial, en degrés
+const CELL_SIZE = 1;
+const KM_PER_DEGREE = 111.2;
+
+const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const cellIndex = (value: number) => Math.floor(value / CELL_SIZE);
+
+// Les longitudes bouclent autour de l'antiméridien
+const cellKey = (latIndex: number, lonIndex: number) => {
+  const lonCells = 360 / CELL_SIZE;
+  return `${latIndex}:${((lonIndex % lonCells) + lonCells) % lonCells}`;
+};
+
+const dataLines = (text: string) =>
+  text.split("\n").filter((line) => line.trim() && !line.startsWith("#"));
+
+/**
+ * Construit l'index des localités à partir du contenu des fichiers GeoNames
+ */
+export function loadGeoNamesDataset(files: GeoNamesFiles): GeoNamesDataset {
+  // admin1CodesASCII.txt : code "FR.52", nom, nom ASCII, geonameid
+  const regions = new Map<string, string>();
+  dataLines(files.admin1).forEach((line) => {
+    const [code, name] = line.split("\t");
+    if (code && name) regions.set(code, name);
+  });
+
+  // countryInfo.txt : ISO, ISO3, numéro, FIPS, nom du pays...
+  const countries = new Map<string, string>();
+  dataLines(files.countries).forEach((line) => {
+    const columns = line.split("\t");
+    if (columns[0] && columns[4]) countries.set(columns[0], columns[4]);
+  });
+
+  // citiesXXX.txt : geonameid, nom, nom ASCII, autres noms, latitude, longitude, classe, code,
+  // pays, autres pays, admin1, admin2, admin3, admin4, population...
+  const cells = new Map<string, GeoNamesPlace[]>();
+  let placeCount = 0;
+  dataLines(files.cities).forEach((line) => {
+    const columns = line.split("\t");
+    const latitude = parseFloat(columns[4]);
+    const longitude = parseFloat(columns[5]);
+    if (!columns[1] || isNaN(latitude) || isNaN(longitude)) return;
+
+    const place: GeoNamesPlace = {
+      name: columns[1],
+      latitude,
+      longitude,
+      countryCode: columns[8] || "",
+      admin1Code: columns[10] || "",
+      population: parseInt(columns[14], 10) || 0,
+    };
+
+    const key = cellKey(cellIndex(latitude), cellIndex(longitude));
+    const cell = cells.get(key);
+    if (cell) cell.push(place);
+    else cells.set(key, [place]);
+    placeCount++;
+  });
+
+  return {
+    placeCount,
+    nearest(latitude, longitude, maxDistanceKm) {
+      // Nombre de cellules à parcourir pour couvrir le rayon de recherche à cette latitude
+      const latRange = Math.ceil(maxDistanceKm / (KM_PER_DEGREE * CELL_SIZE));
+      const lonScale = Math.max(Math.cos(latitude * Math.PI / 180), 0.01);
+      const lonRange = Math.min(Math.ceil(maxDistanceKm / (KM_PER_DEGREE * CELL_SIZE * lonScale)), 180 / CELL_SIZE);
+
+      const latIndex = cellIndex(latitude);
+      const lonIndex = cellIndex(longitude);
+      let best: { place: GeoNamesPlace; distanceKm: number } | undefined;
+
+      for (let dLat = -latRange; dLat <= latRange; dLat++) {
+        for (let dLon = -lonRange; dLon <= lonRange; dLon++) {
+          const cell = cells.get(cellKey(latIndex + dLat, lonIndex + dLon));
+          if (!cell) continue;
+          for (const place of cell) {
+            const distanceKm = haversineKm(latitude, longitude, place.latitude, place.longitude);
+            if (distanceKm <= maxDistanceKm && (!best || distanceKm < best.distanceKm)) {
+              best = { place, distanceKm };
+            }
+          }
+        }
+      }
+
+      if (!best) return undefined;
+      return {
+        ...best,
+        region: regions.get(`${best.place.countryCode}.${best.place.admin1Code}`),
+        country: countries.get(best.place.countryCode),
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Lecture des fichiers GeoNames sur disque, pour les edge functions et les scripts Deno.
+ * Les fichiers sont téléchargés par scripts/download-geonames.sh.
+ */
+
+import { GeoNamesDataset, loadGeoNamesDataset } from "./geonames.ts";
+
+export const DEFAULT_GEONAMES_DIR = new URL("./geonames", import.meta.url).pathname;
+
+// Du plus détaillé au plus léger : le premier fichier présent est utilisé
+const CITY_FILES = ["cities500.txt", "cities1000.txt", "cities5000.txt", "cities15000.txt"];
+
+const readIfExists = async (path: string): Promise<string | undefined> => {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Charge le jeu de données GeoNames d'un dossier
+ * @throws Si le fichier des localités, admin1CodesASCII.txt ou countryInfo.txt manque
+ */
+export async function readGeoNamesDataset(dir: string = DEFAULT_GEONAMES_DIR): Promise<GeoNamesDataset> {
+  let cities: string | undefined;
+  for (const file of CITY_FILES) {
+    cities = await readIfExists(`${dir}/${file}`);
+    if (cities) break;
+  }
+
+  const admin1 = await readIfExists(`${dir}/admin1CodesASCII.txt`);
+  const countries = await readIfExists(`${dir}/countryInfo.txt`);
+  if (!cities || !admin1 || !countries) {
+    throw new Error(`Jeu de données GeoNames incomplet dans ${dir} (voir scripts/download-geonames.sh)`);
+  }
+
+  const dataset = loadGeoNamesDataset({ cities, admin1, countries });
+  console.log(`GeoNames dataset loaded: ${dataset.placeCount} places`);
+  return dataset;
+}
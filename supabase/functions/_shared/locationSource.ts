@@ -0,0 +1,24 @@
+/**
+ * Provenance des coordonnées d'une photo ou d'une journée.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+export type LocationSource =
+  // GPS enregistré par l'appareil (EXIF ou métadonnées vidéo)
+  | "exif"
+  // Reprise de la photo la plus proche dans le temps le même jour
+  | "interpolated"
+  // Interpolée sur une trace GPS importée
+  | "track"
+  // Saisie par l'utilisateur
+  | "manual"
+  // Position par défaut de l'album
+  | "album-default"
+  | "none";
+
+/**
+ * Indique si une position a été estimée plutôt que mesurée ou saisie
+ */
+export function isInferredLocation(source: LocationSource | string | null | undefined): boolean {
+  return source === "interpolated" || source === "track" || source === "album-default";
+}
@@ -0,0 +1,308 @@
+/**
+ * Pipeline de métadonnées d'un lot de photos datées : positions déduites (traces, photos voisines,
+ * position par défaut), lieux-dits, vignettes, lieux et titres des journées.
+ * Utilisé à l'import (process-photo-metadata) comme pour retraiter un album (update-album-metadata).
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import { locateOnTracks, TimedTrack } from "./tracks.ts";
+import { LocationSource } from "./locationSource.ts";
+import { commonPlace, Place, placeLabel } from "./places.ts";
+import { AppLocale, dayNumberOf, formatDayTitle } from "./dayTitle.ts";
+
+export interface PipelinePhoto {
+  id: string;
+  // Heure UTC de la prise de vue
+  date?: Date | string;
+  // Jour local (YYYY-MM-DD)
+  localDate?: string;
+  latitude?: number;
+  longitude?: number;
+  locationSource?: LocationSource;
+  place?: Place;
+  locationName?: string;
+  dayPlace?: Place;
+  dayTitle?: string;
+}
+
+export interface PipelineDay {
+  date: string;
+  coverPhotoId?: string;
+  latitude?: number;
+  longitude?: number;
+  locationSource: LocationSource;
+  place?: Place;
+  locationName?: string;
+  title: string;
+}
+
+export type PipelineStep = "locations" | "places" | "titles";
+
+export interface PipelineOptions {
+  tracks: TimedTrack[];
+  // Position par défaut de l'album, pour les journées sans aucune photo géolocalisée
+  albumCoords?: { latitude: number; longitude: number };
+  reverseGeocode: (latitude: number, longitude: number) => Promise<Place | undefined>;
+  titleLocale: AppLocale;
+  titleTemplate?: string | null;
+  // Première journée de l'album, qui peut précéder les photos traitées
+  firstDate?: string;
+  onProgress?: (step: PipelineStep, done: number, total: number) => void;
+}
+
+// Rayon dans lequel une photo reprend le lieu-dit d'une photo voisine
+const PLACE_RADIUS_KM = 5;
+
+// Géocodages supplémentaires au plus par journée, pour les photos éloignées de la vignette
+const MAX_EXTRA_GEOCODES_PER_DAY = 5;
+
+/**
+ * Distance Haversine en km
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Rayon de la Terre en km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+const time = (photo: PipelinePhoto) => new Date(photo.date!).getTime();
+
+const setPhotoPlace = (photo: PipelinePhoto, place: Place) => {
+  photo.place = place;
+  photo.locationName = placeLabel(place, { detailed: true });
+};
+
+/**
+ * Complète les photos (position, provenance, lieu-dit, lieu et titre de leur journée) et calcule les journées.
+ * Les photos sont modifiées sur place ; celles sans date ni jour local ne sont rattachées à aucune journée.
+ * @returns Les journées, triées par date
+ */
+export async function runMetadataPipeline(photos: PipelinePhoto[], options: PipelineOptions): Promise<PipelineDay[]> {
+  const { tracks, albumCoords, reverseGeocode, onProgress } = options;
+
+  // Les coordonnées reçues sans provenance viennent du fichier
+  photos.forEach((photo) => {
+    if (photo.latitude && photo.longitude) {
+      photo.locationSource = photo.locationSource || "exif";
+    } else {
+      photo.latitude = undefined;
+      photo.longitude = undefined;
+      photo.locationSource = "none";
+    }
+  });
+
+  // Photos sans GPS : position interpolée sur les traces GPS importées pour l'album
+  if (tracks.length > 0) {
+    let interpolatedCount = 0;
+    photos.forEach((photo) => {
+      if (photo.date && (!photo.latitude || !photo.longitude)) {
+        const position = locateOnTracks(tracks, new Date(photo.date));
+        if (position) {
+          photo.latitude = position.latitude;
+          photo.longitude = position.longitude;
+          photo.locationSource = "track";
+          interpolatedCount++;
+        }
+      }
+    });
+    console.log(`${interpolatedCount} photos located from ${tracks.length} GPS tracks`);
+  }
+
+  // Trier les photos par date
+  const photosWithDate = photos
+    .filter((photo) => photo.date && photo.localDate)
+    .sort((a, b) => time(a) - time(b));
+
+  console.log(`${photosWithDate.length} photos with dates found`);
+  if (photosWithDate.length === 0) return [];
+
+  // Organiser par jour local
+  const photosByDay = new Map<string, PipelinePhoto[]>();
+  photosWithDate.forEach((photo) => {
+    const dayKey = photo.localDate!;
+    if (!photosByDay.has(dayKey)) {
+      photosByDay.set(dayKey, []);
+    }
+    photosByDay.get(dayKey)!.push(photo);
+  });
+
+  const sortedDays = Array.from(photosByDay.keys()).sort();
+  console.log(`Photos organized into ${sortedDays.length} days`);
+
+  if (!albumCoords) {
+    console.log("No album default coordinates, days without GPS stay unlocated");
+  }
+
+  // A2 - Coordonnées et vignettes par jour
+  const dayCoords = new Map<string, Omit<PipelineDay, "date" | "title">>();
+  sortedDays.forEach((day) => {
+    const dayPhotos = photosByDay.get(day)!;
+    // Une position GPS réelle est préférée à une position de trace
+    const photosWithGps = dayPhotos.filter((p) => p.locationSource === "exif");
+    const photosWithCoords = photosWithGps.length > 0
+      ? photosWithGps
+      : dayPhotos.filter((p) => p.latitude && p.longitude);
+
+    if (photosWithCoords.length > 0) {
+      // Dernière photo avec coordonnées = vignette du jour
+      const lastPhoto = photosWithCoords[photosWithCoords.length - 1];
+      dayCoords.set(day, {
+        latitude: lastPhoto.latitude!,
+        longitude: lastPhoto.longitude!,
+        locationSource: lastPhoto.locationSource!,
+        coverPhotoId: lastPhoto.id,
+      });
+    } else {
+      // Dernière photo du jour = vignette
+      const lastPhoto = dayPhotos[dayPhotos.length - 1];
+      dayCoords.set(day, {
+        latitude: albumCoords?.latitude,
+        longitude: albumCoords?.longitude,
+        locationSource: albumCoords ? "album-default" : "none",
+        coverPhotoId: lastPhoto.id,
+      });
+    }
+  });
+
+  // A3 - Appliquer coordonnées aux photos qui n'en ont pas
+  photosWithDate.forEach((photo) => {
+    if (photo.latitude && photo.longitude) return;
+
+    const photosWithCoords = photosByDay.get(photo.localDate!)!.filter((p) => p.latitude && p.longitude);
+    if (photosWithCoords.length > 0) {
+      // Trouver la photo la plus proche en heure
+      let closestPhoto = photosWithCoords[0];
+      let minTimeDiff = Math.abs(time(photo) - time(closestPhoto));
+
+      photosWithCoords.forEach((coordPhoto) => {
+        const timeDiff = Math.abs(time(photo) - time(coordPhoto));
+        if (timeDiff < minTimeDiff) {
+          minTimeDiff = timeDiff;
+          closestPhoto = coordPhoto;
+        }
+      });
+
+      photo.latitude = closestPhoto.latitude!;
+      photo.longitude = closestPhoto.longitude!;
+      photo.locationSource = "interpolated";
+    } else if (albumCoords) {
+      // Utiliser la position par défaut de l'album
+      photo.latitude = albumCoords.latitude;
+      photo.longitude = albumCoords.longitude;
+      photo.locationSource = "album-default";
+    }
+  });
+
+  onProgress?.("locations", photosWithDate.length, photosWithDate.length);
+  console.log("Coordinates assignment completed");
+
+  // B - Lieux-dits
+  const dayLocations = new Map<string, Place>();
+  let placedDays = 0;
+
+  for (const day of sortedDays) {
+    const dayPhotos = photosByDay.get(day)!;
+    const dayCoordinate = dayCoords.get(day)!;
+
+    // B1 - Lieu-dit de la vignette du jour ; la position par défaut de l'album n'en donne pas
+    const dayPlace = dayCoordinate.latitude !== undefined && dayCoordinate.locationSource !== "album-default"
+      ? await reverseGeocode(dayCoordinate.latitude, dayCoordinate.longitude!)
+      : undefined;
+
+    // Les photos placées à la position par défaut restent sans lieu-dit
+    const locatedPhotos = dayPhotos.filter((photo) =>
+      photo.latitude && photo.longitude && photo.locationSource !== "album-default"
+    );
+
+    // B2 - Photos à moins de 5km utilisent le lieu dit du jour
+    if (dayPlace) {
+      locatedPhotos.forEach((photo) => {
+        const distance = haversineDistance(
+          photo.latitude!,
+          photo.longitude!,
+          dayCoordinate.latitude!,
+          dayCoordinate.longitude!,
+        );
+        if (distance < PLACE_RADIUS_KM) {
+          setPhotoPlace(photo, dayPlace);
+        }
+      });
+    }
+
+    // B3 - Logique itérative pour les photos sans lieu dit
+    // Photos déjà géocodées sans résultat : la suivante est essayée à leur place
+    const attemptedPhotos = new Set<PipelinePhoto>();
+    for (let iteration = 0; iteration < MAX_EXTRA_GEOCODES_PER_DAY; iteration++) {
+      // Trouver la première photo avec coordonnées mais sans lieu dit
+      const photoWithoutLocation = locatedPhotos.find((photo) => !photo.place && !attemptedPhotos.has(photo));
+      if (!photoWithoutLocation) break;
+
+      attemptedPhotos.add(photoWithoutLocation);
+      const photoPlace = await reverseGeocode(photoWithoutLocation.latitude!, photoWithoutLocation.longitude!);
+      if (!photoPlace) continue;
+
+      setPhotoPlace(photoWithoutLocation, photoPlace);
+
+      // B2 - Appliquer ce lieu dit aux autres photos à moins de 5km
+      locatedPhotos.forEach((otherPhoto) => {
+        if (otherPhoto.place) return;
+        const distance = haversineDistance(
+          otherPhoto.latitude!,
+          otherPhoto.longitude!,
+          photoWithoutLocation.latitude!,
+          photoWithoutLocation.longitude!,
+        );
+        if (distance < PLACE_RADIUS_KM) {
+          setPhotoPlace(otherPhoto, photoPlace);
+        }
+      });
+    }
+
+    // B4 - Lieu de la journée : niveau commun à toutes ses photos (commune, sinon région, sinon pays)
+    const sharedPlace = commonPlace(locatedPhotos.map((photo) => photo.place)) ?? dayPlace;
+    if (sharedPlace) {
+      dayLocations.set(day, sharedPlace);
+    }
+
+    onProgress?.("places", ++placedDays, sortedDays.length);
+  }
+
+  console.log("Location processing completed");
+
+  // Génération des titres de journée, numérotés depuis la première journée de l'album
+  const firstDate = options.firstDate && options.firstDate < sortedDays[0] ? options.firstDate : sortedDays[0];
+
+  const days = sortedDays.map((day): PipelineDay => {
+    const dayPhotos = photosByDay.get(day)!;
+    const dayPlace = dayLocations.get(day);
+    const title = formatDayTitle(
+      { date: day, dayNumber: dayNumberOf(day, firstDate), place: dayPlace, photoCount: dayPhotos.length },
+      options.titleLocale,
+      options.titleTemplate,
+    );
+
+    // Mettre le titre dans les métadonnées des photos du jour
+    dayPhotos.forEach((photo) => {
+      photo.dayPlace = dayPlace;
+      photo.dayTitle = title;
+    });
+
+    return {
+      date: day,
+      ...dayCoords.get(day)!,
+      place: dayPlace,
+      locationName: placeLabel(dayPlace) || "",
+      title,
+    };
+  });
+
+  onProgress?.("titles", days.length, days.length);
+  console.log(`Generated ${days.length} day entries`);
+
+  return days;
+}
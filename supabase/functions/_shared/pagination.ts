@@ -0,0 +1,24 @@
+/**
+ * Lecture complète d'une requête PostgREST, qui renvoie au plus 1000 lignes par appel.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+export const PAGE_SIZE = 1000;
+
+/**
+ * Lit toutes les lignes d'une requête, page par page. La requête doit être triée sur une clé unique,
+ * sans quoi des lignes peuvent manquer ou se répéter d'une page à l'autre
+ * @param fetchPage La requête, bornée par .range(from, to)
+ * @returns Les lignes lues, et l'erreur de la première page en échec
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
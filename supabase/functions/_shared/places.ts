@@ -0,0 +1,123 @@
+/**
+ * Lieu structuré issu du géocodage inverse : quartier, commune, région, pays.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+export interface Place {
+  // Quartier, hameau ou lieu-dit
+  locality?: string;
+  // Ville, village ou commune
+  municipality?: string;
+  // Région, État ou province
+  region?: string;
+  country?: string;
+  // Code ISO 3166-1 alpha-2, en majuscules
+  countryCode?: string;
+}
+
+// Du plus général au plus précis
+const PLACE_LEVELS = ["country", "region", "municipality", "locality"] as const;
+
+export type PlaceLevel = typeof PLACE_LEVELS[number];
+
+// Colonnes place_* des tables photos, day_entries et geocode_cache
+export interface PlaceColumns {
+  place_locality: string | null;
+  place_municipality: string | null;
+  place_region: string | null;
+  place_country: string | null;
+  place_country_code: string | null;
+}
+
+const clean = (value: string | null | undefined) => value?.trim() || undefined;
+
+/**
+ * Normalise un lieu : champs vides retirés, code pays en majuscules
+ * @returns undefined si aucun niveau n'est renseigné
+ */
+export function normalizePlace(place: Place | null | undefined): Place | undefined {
+  if (!place) return undefined;
+
+  const normalized: Place = {
+    locality: clean(place.locality),
+    municipality: clean(place.municipality),
+    region: clean(place.region),
+    country: clean(place.country),
+    countryCode: clean(place.countryCode)?.toUpperCase(),
+  };
+  // Un quartier homonyme de sa commune n'apporte rien
+  if (normalized.locality === normalized.municipality) normalized.locality = undefined;
+
+  return PLACE_LEVELS.some((level) => normalized[level]) ? normalized : undefined;
+}
+
+export function placeToColumns(place: Place | null | undefined): PlaceColumns {
+  return {
+    place_locality: place?.locality ?? null,
+    place_municipality: place?.municipality ?? null,
+    place_region: place?.region ?? null,
+    place_country: place?.country ?? null,
+    place_country_code: place?.countryCode ?? null,
+  };
+}
+
+export function placeFromColumns(columns: Partial<PlaceColumns> | null | undefined): Place | undefined {
+  if (!columns) return undefined;
+  return normalizePlace({
+    locality: columns.place_locality ?? undefined,
+    municipality: columns.place_municipality ?? undefined,
+    region: columns.place_region ?? undefined,
+    country: columns.place_country ?? undefined,
+    countryCode: columns.place_country_code ?? undefined,
+  });
+}
+
+/**
+ * Nom affiché d'un lieu, au niveau le plus significatif disponible :
+ * la commune, à défaut la région, à défaut le pays
+ * @param detailed - Précède la commune du quartier (popups de la carte)
+ */
+export function placeLabel(place: Place | null | undefined, { detailed = false } = {}): string | undefined {
+  if (!place) return undefined;
+
+  const main = place.municipality || place.region || place.country;
+  if (!main) return place.locality;
+  if (detailed && place.locality && place.locality !== main) {
+    return `${place.locality}, ${main}`;
+  }
+  return main;
+}
+
+/**
+ * Nom complet d'un lieu, du plus précis au plus général, sans répétition
+ */
+export function placeFullName(place: Place | null | undefined): string | undefined {
+  if (!place) return undefined;
+  const parts = [place.locality, place.municipality, place.region, place.country]
+    .filter((part, index, all): part is string => !!part && all.indexOf(part) === index);
+  return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+const sameLevel = (a: Place, b: Place, level: PlaceLevel) =>
+  level === "country" && a.countryCode && b.countryCode
+    ? a.countryCode === b.countryCode
+    : a[level] === b[level];
+
+/**
+ * Partie commune de plusieurs lieux : les niveaux partagés par tous, du pays jusqu'au plus précis.
+ * Une journée passée dans deux communes d'une même région est ainsi rattachée à la région.
+ * @returns undefined si les lieux n'ont pas même le pays en commun
+ */
+export function commonPlace(places: Array<Place | undefined>): Place | undefined {
+  const known = places.filter((place): place is Place => !!place);
+  if (known.length === 0) return undefined;
+
+  const [first, ...others] = known;
+  const common: Place = {};
+  for (const level of PLACE_LEVELS) {
+    if (!first[level] || !others.every((place) => sameLevel(first, place, level))) break;
+    common[level] = first[level];
+    if (level === "country") common.countryCode = first.countryCode;
+  }
+  return normalizePlace(common);
+}
@@ -0,0 +1,76 @@
+/**
+ * Contenu d'un lien de partage, tel que l'edge function shared-album le sert à la page publique.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import type { PlaceColumns } from "./places.ts";
+import type { ExifPrivacy } from "./exifPrivacy.ts";
+
+// Raison du refus d'un lien, status de open_album_share en dehors de "ok"
+export type ShareFailureReason = "not_found" | "password_required" | "invalid_password" | "expired" | "revoked";
+
+export const SHARE_FAILURE_MESSAGES: Record<ShareFailureReason, string> = {
+  not_found: "Ce lien de partage n'existe pas",
+  password_required: "Ce lien est protégé par un mot de passe",
+  invalid_password: "Mot de passe incorrect",
+  expired: "Ce lien de partage a expiré",
+  revoked: "Ce lien de partage a été révoqué",
+};
+
+export interface SharedAlbumInfo {
+  title: string;
+  description: string | null;
+  year: number;
+  month: number;
+  timezone: string | null;
+  day_title_template: string | null;
+  // Première journée de l'album, pour numéroter les journées même quand une seule est partagée
+  first_date: string | null;
+}
+
+export interface SharedDay extends PlaceColumns {
+  id: string;
+  date: string;
+  title: string | null;
+  title_is_custom: boolean;
+  custom_label: string | null;
+  description: string | null;
+  location_name: string | null;
+  cover_photo_id: string | null;
+  photo_count: number;
+}
+
+export interface SharedPhoto {
+  id: string;
+  title: string | null;
+  local_date: string | null;
+  taken_at: string | null;
+  utc_offset_minutes: number | null;
+  media_type: string;
+  duration_seconds: number | null;
+  location_name: string | null;
+  // Arrondies ou retirées selon le réglage du lien
+  latitude: number | null;
+  longitude: number | null;
+  location_source: string | null;
+  // URLs signées des dérivés (sans métadonnées), null si le dérivé manque
+  thumbnail_url: string | null;
+  large_url: string | null;
+  // Vidéo nettoyée selon le réglage du lien
+  video_url: string | null;
+}
+
+export interface SharedAlbumPayload {
+  share: {
+    label: string | null;
+    expires_at: string | null;
+    // Journée partagée seule, null pour tout l'album
+    day_id: string | null;
+    exif_privacy: ExifPrivacy;
+  };
+  album: SharedAlbumInfo;
+  days: SharedDay[];
+  photos: SharedPhoto[];
+  // Horodatage en ms de la première expiration des URLs signées
+  urls_expire_at: number;
+}
@@ -0,0 +1,93 @@
+/**
+ * Fuseaux horaires et dates locales des photos.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+import tzlookup from "tz-lookup";
+
+/**
+ * Vérifie qu'un identifiant de fuseau IANA est reconnu (ex: "Asia/Tokyo")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Déduit le fuseau horaire d'une position GPS
+ * @returns L'identifiant IANA, ou undefined si la position est invalide
+ */
+export function timeZoneFromCoordinates(latitude: number, longitude: number): string | undefined {
+  try {
+    return tzlookup(latitude, longitude);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Interprète un décalage EXIF ("+02:00", "-0530", "Z") en minutes
+ */
+export function parseUtcOffset(value: string | undefined | null): number | undefined {
+  if (!value) return undefined;
+  if (value.trim().toUpperCase() === "Z") return 0;
+
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return undefined;
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/**
+ * Décalage d'un fuseau par rapport à UTC à un instant donné, en minutes (heure d'été comprise)
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || "0", 10);
+  const wallTime = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+
+  return Math.round((wallTime - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convertit une heure locale sans fuseau en instant UTC pour un décalage connu
+ */
+export function offsetTimeToUtc(localTime: string, utcOffsetMinutes: number): Date {
+  return new Date(new Date(`${localTime.slice(0, 19)}Z`).getTime() - utcOffsetMinutes * 60000);
+}
+
+/**
+ * Convertit une heure locale sans fuseau ("2024-07-14T21:30:00", heure EXIF) en instant UTC
+ * @param localTime - L'heure affichée par l'appareil
+ * @param timeZone - Le fuseau dans lequel l'appareil était réglé
+ */
+export function zonedTimeToUtc(localTime: string, timeZone: string): Date {
+  const wallTime = offsetTimeToUtc(localTime, 0);
+  // Deux passes suffisent pour tomber juste autour d'un changement d'heure
+  let offset = getTimeZoneOffset(timeZone, wallTime);
+  offset = getTimeZoneOffset(timeZone, new Date(wallTime.getTime() - offset * 60000));
+  return offsetTimeToUtc(localTime, offset);
+}
+
+/**
+ * Date locale (YYYY-MM-DD) d'un instant pour un décalage donné
+ * @param dayCutoffHour - Heure locale à laquelle commence une journée (0 = minuit)
+ */
+export function localDateKey(date: Date, utcOffsetMinutes: number, dayCutoffHour = 0): string {
+  return new Date(date.getTime() + (utcOffsetMinutes - dayCutoffHour * 60) * 60000).toISOString().split("T")[0];
+}
@@ -0,0 +1,91 @@
+/**
+ * Traces GPS d'un album et interpolation de la position des photos sans GPS.
+ * Module sans dépendance à Deno : partagé entre les edge functions et le front (alias @shared).
+ */
+
+/**
+ * Point de trace tel qu'enregistré dans album_tracks.points :
+ * [latitude, longitude, horodatage en ms ou null si le point n'est pas daté]
+ */
+export type TrackPoint = [number, number, number | null];
+
+export interface TimedTrack {
+  points: TrackPoint[];
+  maxGapMinutes: number;
+}
+
+export interface TrackPosition {
+  latitude: number;
+  longitude: number;
+  // Écart en minutes avec le point de trace le plus proche
+  gapMinutes: number;
+}
+
+const isTimed = (point: TrackPoint): point is [number, number, number] => typeof point[2] === "number";
+
+/**
+ * Position d'une trace à un instant donné
+ * @param track - La trace, ses points datés triés par heure
+ * @param date - L'instant de la prise de vue
+ * @returns La position interpolée, ou undefined si aucun point n'est assez proche dans le temps
+ */
+export function interpolateTrackPosition(track: TimedTrack, date: Date): TrackPosition | undefined {
+  const points = track.points.filter(isTimed);
+  if (points.length === 0) return undefined;
+
+  const time = date.getTime();
+  const maxGap = track.maxGapMinutes * 60000;
+
+  // Premier point daté à ou après l'instant recherché
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (points[middle][2] < time) low = middle + 1;
+    else high = middle;
+  }
+
+  const before = low > 0 ? points[low - 1] : undefined;
+  const after = low < points.length ? points[low] : undefined;
+  const gapBefore = before ? time - before[2] : Infinity;
+  const gapAfter = after ? after[2] - time : Infinity;
+
+  if (before && after && gapBefore <= maxGap && gapAfter <= maxGap) {
+    const ratio = gapBefore + gapAfter === 0 ? 0 : gapBefore / (gapBefore + gapAfter);
+    return {
+      latitude: before[0] + (after[0] - before[0]) * ratio,
+      longitude: before[1] + (after[1] - before[1]) * ratio,
+      gapMinutes: Math.min(gapBefore, gapAfter) / 60000,
+    };
+  }
+
+  // Hors de la trace ou trou d'enregistrement : le point le plus proche, s'il est assez près
+  const nearest = gapBefore <= gapAfter ? before : after;
+  const gap = Math.min(gapBefore, gapAfter);
+  if (!nearest || gap > maxGap) return undefined;
+
+  return { latitude: nearest[0], longitude: nearest[1], gapMinutes: gap / 60000 };
+}
+
+/**
+ * Position la plus fiable parmi toutes les traces d'un album
+ */
+export function locateOnTracks(tracks: TimedTrack[], date: Date): TrackPosition | undefined {
+  let best: TrackPosition | undefined;
+  for (const track of tracks) {
+    const position = interpolateTrackPosition(track, date);
+    if (position && (!best || position.gapMinutes < best.gapMinutes)) {
+      best = position;
+    }
+  }
+  return best;
+}
+
+/**
+ * Portion datée d'une trace comprise dans une période [start, end[
+ */
+export function trackPointsBetween(points: TrackPoint[], start: Date, end: Date): TrackPoint[] {
+  return points.filter(
+    (point) => isTimed(point) && point[2] >= start.getTime() && point[2] < end.getTime()
+  );
+}
@@ -0,0 +1,332 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ExifPrivacy, isExifPrivacy, sanitizeMedia, shareableCoordinates, shareablePlace } from '../_shared/exifPrivacy.ts';
+import { PlaceColumns, placeFromColumns, placeLabel, placeToColumns } from '../_shared/places.ts';
+import {
+  SHARE_FAILURE_MESSAGES,
+  ShareFailureReason,
+  SharedAlbumPayload,
+  SharedDay,
+  SharedPhoto
+} from '../_shared/sharedAlbum.ts';
+import { fetchAllPages } from '../_shared/pagination.ts';
+
+// Fonction publique (verify_jwt = false) : le jeton du lien tient lieu d'authentification.
+// Toutes les lectures passent par le client service_role et sont limitées à l'album (ou la journée) du lien.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Durée de validité des URLs signées et des liens vers les vidéos, en secondes
+const SIGNED_URL_TTL = 60 * 60;
+
+// Nombre de chemins au plus par appel createSignedUrls
+const MAX_BATCH = 100;
+
+interface OpenedShare {
+  share_id: string;
+  album_id: string;
+  day_entry_id: string | null;
+  exif_privacy: string;
+  label: string | null;
+  expires_at: string | null;
+  status: 'ok' | ShareFailureReason;
+}
+
+interface PhotoRow extends Omit<SharedPhoto, 'thumbnail_url' | 'large_url' | 'video_url'>, PlaceColumns {
+  file_path: string;
+  mime_type: string | null;
+  thumbnail_path: string | null;
+  medium_path: string | null;
+  large_path: string | null;
+}
+
+type DayRow = Omit<SharedDay, 'photo_count'>;
+
+const PHOTO_COLUMNS = 'id, title, local_date, taken_at, utc_offset_minutes, media_type, duration_seconds, location_name, latitude, longitude, location_source, file_path, mime_type, thumbnail_path, medium_path, large_path, place_locality, place_municipality, place_region, place_country, place_country_code';
+
+const DAY_COLUMNS = 'id, date, title, title_is_custom, custom_label, description, location_name, cover_photo_id, place_locality, place_municipality, place_region, place_country, place_country_code';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const failureResponse = (reason: ShareFailureReason) =>
+  jsonResponse(
+    { error: SHARE_FAILURE_MESSAGES[reason], reason },
+    reason === 'not_found' ? 404 : reason === 'expired' || reason === 'revoked' ? 410 : 401
+  );
+
+/**
+ * Signature HMAC d'un lien vers une vidéo : le mot de passe du partage n'a pas à y figurer
+ */
+async function signAccess(value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function sameSignature(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+async function openShare(client: SupabaseClient, token: unknown, password: unknown): Promise<OpenedShare | ShareFailureReason> {
+  if (typeof token !== 'string' || !token) return 'not_found';
+
+  const { data, error } = await client.rpc('open_album_share', {
+    p_token: token,
+    p_password: typeof password === 'string' ? password : null
+  });
+  if (error) throw error;
+
+  const share = (data as OpenedShare[] | null)?.[0];
+  if (!share) return 'not_found';
+  return share;
+}
+
+/**
+ * URLs signées d'un bucket, par chemin ; les chemins en échec sont absents
+ */
+async function signPaths(client: SupabaseClient, bucket: string, paths: string[]): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  const unique = Array.from(new Set(paths));
+
+  for (let i = 0; i < unique.length; i += MAX_BATCH) {
+    const { data, error } = await client.storage.from(bucket).createSignedUrls(unique.slice(i, i + MAX_BATCH), SIGNED_URL_TTL);
+    if (error) throw error;
+    data.forEach(item => {
+      if (item.path && item.signedUrl && !item.error) urls.set(item.path, item.signedUrl);
+    });
+  }
+
+  return urls;
+}
+
+/**
+ * Journée réduite aux lieux permis par le lien. Les titres automatiques sont recalculés par la page
+ * à partir de ces lieux : le titre enregistré n'est gardé que s'il a été saisi à la main
+ */
+function shareableDay(day: DayRow, privacy: ExifPrivacy): DayRow {
+  if (privacy === 'keep') return day;
+
+  const place = shareablePlace(placeFromColumns(day), privacy);
+  return {
+    ...day,
+    ...placeToColumns(place),
+    location_name: placeLabel(place) ?? null,
+    title: day.title_is_custom ? day.title : null
+  };
+}
+
+/**
+ * Lieu-dit d'une photo selon le lien ; le titre par défaut d'une photo est ce lieu-dit (photoUpload)
+ */
+function shareablePhotoPlace(photo: PhotoRow, privacy: ExifPrivacy): Pick<SharedPhoto, 'title' | 'location_name'> {
+  if (privacy === 'keep') return { title: photo.title, location_name: photo.location_name };
+
+  const locationName = placeLabel(shareablePlace(placeFromColumns(photo), privacy)) ?? null;
+  return {
+    title: photo.location_name && photo.title === photo.location_name ? locationName : photo.title,
+    location_name: locationName
+  };
+}
+
+/**
+ * Photos visibles par le lien : tout l'album, ou le jour local de la journée partagée
+ */
+function sharedPhotosQuery(client: SupabaseClient, share: OpenedShare, day: { date: string } | null) {
+  const query = client
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('album_id', share.album_id);
+
+  return day ? query.eq('local_date', day.date) : query;
+}
+
+async function buildPayload(client: SupabaseClient, share: OpenedShare, token: string): Promise<SharedAlbumPayload> {
+  const privacy: ExifPrivacy = isExifPrivacy(share.exif_privacy) ? share.exif_privacy : 'strip';
+
+  const { data: album, error: albumError } = await client
+    .from('albums')
+    .select('title, description, year, month, timezone, day_title_template')
+    .eq('id', share.album_id)
+    .single();
+  if (albumError) throw albumError;
+
+  const { data: allDays, error: daysError } = await fetchAllPages<DayRow>((from, to) =>
+    client
+      .from('day_entries')
+      .select(DAY_COLUMNS)
+      .eq('album_id', share.album_id)
+      .order('date')
+      .order('id')
+      .range(from, to)
+  );
+  if (daysError) throw daysError;
+
+  const days = share.day_entry_id ? allDays.filter(day => day.id === share.day_entry_id) : allDays;
+  // Ne pas retomber sur tout l'album : la journée d'un lien ne disparaît pourtant pas sans lui (ON DELETE CASCADE)
+  if (share.day_entry_id && days.length === 0) throw new Error('Journée partagée introuvable');
+
+  const { data: photos, error: photosError } = await fetchAllPages<PhotoRow>((from, to) =>
+    sharedPhotosQuery(client, share, share.day_entry_id ? days[0] : null)
+      .order('taken_at', { ascending: true, nullsFirst: false })
+      .order('id')
+      .range(from, to)
+  );
+  if (photosError) throw photosError;
+
+  // Dérivés réencodés à l'import, sans aucune métadonnée. Avant eux (medium_path vide), la vignette
+  // était une copie de l'original, position comprise : sans dérivés régénérés, la photo reste sans image
+  // (sauf lien qui conserve toutes les métadonnées, servi par l'original)
+  const reencoded = (photo: PhotoRow) => !!photo.medium_path;
+  const derivativeUrls = await signPaths(
+    client,
+    'thumbnails',
+    photos.filter(reencoded).flatMap(photo => [photo.thumbnail_path, photo.large_path].filter((path): path is string => !!path))
+  );
+
+  // Originaux servis tels quels seulement si le lien conserve toutes les métadonnées
+  const originalUrls = privacy === 'keep'
+    ? await signPaths(client, 'photos', photos.filter(photo => photo.media_type === 'video' || !reencoded(photo) || !photo.large_path).map(photo => photo.file_path))
+    : new Map<string, string>();
+
+  // Sinon les vidéos sont nettoyées à la volée par cette fonction, derrière un lien signé
+  const functionUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/shared-album`;
+  const accessExpires = Math.floor(Date.now() / 1000) + SIGNED_URL_TTL;
+  const videoUrl = async (photo: PhotoRow) => {
+    if (photo.media_type !== 'video') return null;
+    if (privacy === 'keep') return originalUrls.get(photo.file_path) ?? null;
+
+    const signature = await signAccess(`${share.share_id}:${photo.id}:${accessExpires}`);
+    const params = new URLSearchParams({ token, photo: photo.id, expires: String(accessExpires), signature });
+    return `${functionUrl}?${params}`;
+  };
+
+  const photoCounts = new Map<string, number>();
+  photos.forEach(photo => {
+    if (photo.local_date) photoCounts.set(photo.local_date, (photoCounts.get(photo.local_date) ?? 0) + 1);
+  });
+
+  return {
+    share: {
+      label: share.label,
+      expires_at: share.expires_at,
+      day_id: share.day_entry_id,
+      exif_privacy: privacy
+    },
+    album: { ...album, first_date: allDays[0]?.date ?? null },
+    days: days.map((day): SharedDay => ({ ...shareableDay(day, privacy), photo_count: photoCounts.get(day.date) ?? 0 })),
+    photos: await Promise.all(photos.map(async (photo): Promise<SharedPhoto> => {
+      const {
+        file_path, mime_type: _mimeType, thumbnail_path, medium_path: _mediumPath, large_path,
+        place_locality: _locality, place_municipality: _municipality, place_region: _region, place_country: _country, place_country_code: _countryCode,
+        ...fields
+      } = photo;
+      const coordinates = shareableCoordinates(photo.latitude, photo.longitude, privacy);
+      return {
+        ...fields,
+        ...shareablePhotoPlace(photo, privacy),
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        thumbnail_url: (thumbnail_path && derivativeUrls.get(thumbnail_path)) || originalUrls.get(file_path) || null,
+        large_url: (large_path && derivativeUrls.get(large_path)) || originalUrls.get(file_path) || null,
+        video_url: await videoUrl(photo)
+      };
+    })),
+    urls_expire_at: Date.now() + SIGNED_URL_TTL * 1000
+  };
+}
+
+/**
+ * Vidéo d'un lien, nettoyée de sa position selon le réglage du lien
+ */
+async function serveVideo(client: SupabaseClient, params: URLSearchParams): Promise<Response> {
+  const photoId = params.get('photo') ?? '';
+  const expires = Number(params.get('expires'));
+  const signature = params.get('signature') ?? '';
+
+  const opened = await openShare(client, params.get('token'), null);
+  if (typeof opened === 'string') return failureResponse(opened);
+  // Le mot de passe a été vérifié à l'émission du lien signé
+  if (opened.status === 'expired' || opened.status === 'revoked') return failureResponse(opened.status);
+
+  const expected = await signAccess(`${opened.share_id}:${photoId}:${expires}`);
+  if (!(expires * 1000 > Date.now()) || !sameSignature(signature, expected)) {
+    return jsonResponse({ error: 'Lien vers la vidéo invalide ou expiré' }, 403);
+  }
+
+  let day: { date: string } | null = null;
+  if (opened.day_entry_id) {
+    const { data, error } = await client.from('day_entries').select('date').eq('id', opened.day_entry_id).single();
+    if (error) throw error;
+    day = data;
+  }
+
+  const { data: photo, error: photoError } = await sharedPhotosQuery(client, opened, day)
+    .eq('id', photoId)
+    .eq('media_type', 'video')
+    .maybeSingle();
+  if (photoError) throw photoError;
+  if (!photo) return jsonResponse({ error: 'Vidéo introuvable' }, 404);
+
+  const { data: file, error: fileError } = await client.storage.from('photos').download(photo.file_path);
+  if (fileError) throw fileError;
+
+  const mimeType = photo.mime_type || file.type;
+  const privacy: ExifPrivacy = isExifPrivacy(opened.exif_privacy) ? opened.exif_privacy : 'strip';
+  const sanitized = sanitizeMedia(new Uint8Array(await file.arrayBuffer()), mimeType, privacy);
+  if (!sanitized) return jsonResponse({ error: 'Format de vidéo non partageable' }, 415);
+
+  return new Response(sanitized, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': mimeType,
+      'Cache-Control': `private, max-age=${SIGNED_URL_TTL}`
+    }
+  });
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (req.method === 'GET') {
+      return await serveVideo(supabaseClient, new URL(req.url).searchParams);
+    }
+
+    const { token, password } = await req.json().catch(() => ({}));
+
+    const opened = await openShare(supabaseClient, token, password);
+    if (typeof opened === 'string') return failureResponse(opened);
+    if (opened.status !== 'ok') return failureResponse(opened.status);
+
+    return jsonResponse(await buildPayload(supabaseClient, opened, token));
+
+  } catch (error) {
+    console.error('Erreur du lien de partage:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Erreur inconnue' }, 500);
+  }
+});
@@ -0,0 +1,141 @@
+/**
+ * Autorisations des edge functions update-day-titles, process-photo-metadata et update-album-metadata,
+ * contre une pile Supabase locale qui sert les fonctions (supabase start).
+ * Crée ses propres comptes et son album, supprimés en fin de test.
+ *
+ * Usage :
+ *   ./scripts/test-functions.sh
+ *
+ * Variables d'environnement :
+ *   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2";
+import { assertEquals } from "https://deno.land/std@0.177.0/testing/asserts.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const PASSWORD = "test-autorisations";
+
+// Sans session persistée ni rafraîchie, pour ne laisser aucun timer en fin de test
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+const admin = createClient(supabaseUrl, serviceRoleKey, clientOptions);
+
+type Persona = "owner" | "editor" | "viewer" | "stranger";
+
+interface Account {
+  user: User;
+  accessToken: string;
+}
+
+interface FunctionCase {
+  name: string;
+  // Corps minimal qui réussit pour un éditeur : simulation, ou lot vide
+  body: (albumId: string) => Record<string, unknown>;
+}
+
+const FUNCTIONS: FunctionCase[] = [
+  { name: "update-day-titles", body: (albumId) => ({ albumId, dryRun: true }) },
+  { name: "process-photo-metadata", body: (albumId) => ({ albumId, photos: [] }) },
+  { name: "update-album-metadata", body: (albumId) => ({ albumId, dryRun: true }) },
+];
+
+// Statut attendu selon le rôle : 404 pour un non-membre, qui ne doit pas apprendre que l'album existe
+const EXPECTED_STATUS: Record<Persona, number> = {
+  stranger: 404,
+  viewer: 403,
+  editor: 200,
+  owner: 200,
+};
+
+async function createAccount(persona: Persona): Promise<Account> {
+  const email = `${persona}-${crypto.randomUUID()}@example.test`;
+  const { data, error } = await admin.auth.admin.createUser({ email, password: PASSWORD, email_confirm: true });
+  if (error) throw error;
+
+  const client = createClient(supabaseUrl, anonKey, clientOptions);
+  const { data: signIn, error: signInError } = await client.auth.signInWithPassword({ email, password: PASSWORD });
+  if (signInError) throw signInError;
+
+  return { user: data.user, accessToken: signIn.session.access_token };
+}
+
+/**
+ * Appelle une fonction et renvoie le statut HTTP, corps consommé
+ * @param token Jeton de l'en-tête Authorization, aucun en-tête s'il est absent
+ */
+async function invoke(name: string, body: Record<string, unknown>, token?: string): Promise<number> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  await response.body?.cancel();
+  return response.status;
+}
+
+Deno.test("autorisations des edge functions", async (t) => {
+  if (!supabaseUrl || !anonKey || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL, SUPABASE_ANON_KEY et SUPABASE_SERVICE_ROLE_KEY sont requis");
+  }
+
+  const accounts: Partial<Record<Persona, Account>> = {};
+  let albumId: string | undefined;
+
+  try {
+    for (const persona of ["owner", "editor", "viewer", "stranger"] as Persona[]) {
+      accounts[persona] = await createAccount(persona);
+    }
+
+    // Le propriétaire devient membre 'owner' à la création de l'album (trigger add_albums_owner_member)
+    const { data: album, error: albumError } = await admin
+      .from("albums")
+      .insert({ user_id: accounts.owner!.user.id, title: "Test autorisations", year: 2025, month: 10 })
+      .select("id")
+      .single();
+    if (albumError) throw albumError;
+    albumId = album.id;
+
+    const { error: membersError } = await admin.from("album_members").insert([
+      { album_id: albumId, user_id: accounts.editor!.user.id, role: "editor", email: accounts.editor!.user.email },
+      { album_id: albumId, user_id: accounts.viewer!.user.id, role: "viewer", email: accounts.viewer!.user.email },
+    ]);
+    if (membersError) throw membersError;
+
+    for (const fn of FUNCTIONS) {
+      await t.step(fn.name, async (t) => {
+        const body = fn.body(albumId!);
+
+        await t.step("refuse une requête sans jeton", async () => {
+          assertEquals(await invoke(fn.name, body), 401);
+        });
+
+        await t.step("refuse un jeton invalide", async () => {
+          assertEquals(await invoke(fn.name, body, "jeton-invalide"), 401);
+        });
+
+        // La clé anonyme passe la passerelle (JWT valide) mais ne désigne aucun utilisateur
+        await t.step("refuse la clé anonyme", async () => {
+          assertEquals(await invoke(fn.name, body, anonKey), 401);
+        });
+
+        for (const persona of ["stranger", "viewer", "editor", "owner"] as Persona[]) {
+          await t.step(`répond ${EXPECTED_STATUS[persona]} à ${persona}`, async () => {
+            assertEquals(await invoke(fn.name, body, accounts[persona]!.accessToken), EXPECTED_STATUS[persona]);
+          });
+        }
+      });
+    }
+  } finally {
+    if (albumId) await admin.from("albums").delete().eq("id", albumId);
+    for (const account of Object.values(accounts)) {
+      await admin.auth.admin.deleteUser(account.user.id);
+    }
+  }
+});
@@ -0,0 +1,369 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { TimedTrack, TrackPoint } from '../_shared/tracks.ts';
+import { isInferredLocation } from '../_shared/locationSource.ts';
+import { PlaceColumns, placeToColumns } from '../_shared/places.ts';
+import { resolveLocale } from '../_shared/dayTitle.ts';
+import { PipelinePhoto, PipelineStep, runMetadataPipeline } from '../_shared/metadataPipeline.ts';
+import { createGeocoder, geocoderConfigFromEnv, withGeocodeCache } from '../_shared/geocoding.ts';
+import { createSupabaseGeocodeCache } from '../_shared/geocodeCache.ts';
+import { readGeoNamesDataset } from '../_shared/geonamesFiles.ts';
+import { authenticateRequest, authorizeAlbum } from '../_shared/auth.ts';
+import { fetchAllPages } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Instancié une fois : la limitation de débit vaut pour toutes les requêtes de l'instance
+const geocoderConfig = geocoderConfigFromEnv((name) => Deno.env.get(name));
+const baseGeocoder = createGeocoder(geocoderConfig, {
+  geonames: geocoderConfig.provider === 'geonames'
+    ? await readGeoNamesDataset(geocoderConfig.geonamesDir)
+    : undefined
+});
+
+interface AlbumRow {
+  id: string;
+  user_id: string;
+  default_latitude: number | null;
+  default_longitude: number | null;
+  day_title_template: string | null;
+}
+
+interface PhotoRow extends PlaceColumns {
+  id: string;
+  taken_at: string | null;
+  local_date: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_source: string;
+  location_name: string | null;
+}
+
+interface DayEntryRow extends PlaceColumns {
+  id: string;
+  date: string;
+  title: string | null;
+  title_is_custom: boolean;
+  description: string | null;
+  cover_photo_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_source: string | null;
+  location_name: string | null;
+}
+
+type PhotoUpdate = Pick<PhotoRow, 'latitude' | 'longitude' | 'location_source' | 'location_name'> & PlaceColumns;
+type DayUpdate = Partial<Omit<DayEntryRow, 'id' | 'date' | 'description' | 'title_is_custom'>>;
+
+// Valeur avant / après de chaque champ modifié
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+interface MetadataDiff {
+  photos: { id: string; changes: FieldChanges }[];
+  createdDays: { date: string; title: string }[];
+  updatedDays: { id: string; date: string; changes: FieldChanges }[];
+  deletedDays: { id: string; date: string; title: string | null }[];
+}
+
+type ProgressStep = 'loading' | PipelineStep | 'photos' | 'days';
+
+type ProgressEvent = { type: 'progress'; step: ProgressStep; done: number; total: number };
+
+const PHOTO_COLUMNS = 'id, taken_at, local_date, latitude, longitude, location_source, location_name, place_locality, place_municipality, place_region, place_country, place_country_code';
+const DAY_COLUMNS = 'id, date, title, title_is_custom, description, cover_photo_id, latitude, longitude, location_source, location_name, place_locality, place_municipality, place_region, place_country, place_country_code';
+
+// Les positions mesurées ou saisies sont conservées ; les autres sont recalculées
+const KEPT_LOCATION_SOURCES = ['exif', 'manual'];
+
+const BATCH_SIZE = 10;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Les coordonnées numeric peuvent revenir sous forme de chaîne
+const sameValue = (before: unknown, after: unknown) => {
+  if (before == null || after == null) return before == null && after == null;
+  return typeof before === 'number' || typeof after === 'number'
+    ? Number(before) === Number(after)
+    : before === after;
+};
+
+/**
+ * Champs de `next` qui diffèrent de `current`
+ */
+function diffFields<T extends object>(current: T, next: Partial<T>): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const [field, after] of Object.entries(next)) {
+    const before = (current as Record<string, unknown>)[field];
+    if (!sameValue(before, after)) {
+      changes[field] = { before: before ?? null, after: after ?? null };
+    }
+  }
+  return changes;
+}
+
+const changedValues = (changes: FieldChanges) =>
+  Object.fromEntries(Object.entries(changes).map(([field, { after }]) => [field, after]));
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const auth = await authenticateRequest(supabaseClient, req);
+    if (!auth.ok) {
+      return jsonResponse({ error: auth.failure.message }, auth.failure.status);
+    }
+    const user = auth.value;
+
+    // dryRun : décrire les changements sans les enregistrer ; stream : suivre l'avancement (text/event-stream)
+    const { albumId, dryRun = false, stream = false, language } = await req.json().catch(() => ({}));
+
+    if (!albumId) {
+      return jsonResponse({ error: 'albumId manquant' }, 400);
+    }
+
+    const albumAuth = await authorizeAlbum<AlbumRow>(
+      supabaseClient, albumId, user.id, 'id, default_latitude, default_longitude, day_title_template', 'editor'
+    );
+    if (!albumAuth.ok) {
+      return jsonResponse({ error: albumAuth.failure.message }, albumAuth.failure.status);
+    }
+    const album = albumAuth.value;
+
+    const run = async (report: (event: ProgressEvent) => void) => {
+      report({ type: 'progress', step: 'loading', done: 0, total: 1 });
+
+      // Toutes les lignes : une journée dont les photos manqueraient serait supprimée
+      const [photosResult, daysResult, tracksResult, preferenceResult] = await Promise.all([
+        fetchAllPages<PhotoRow>((from, to) =>
+          supabaseClient.from('photos').select(PHOTO_COLUMNS).eq('album_id', albumId).order('taken_at').order('id').range(from, to)
+        ),
+        fetchAllPages<DayEntryRow>((from, to) =>
+          supabaseClient.from('day_entries').select(DAY_COLUMNS).eq('album_id', albumId).order('date').order('id').range(from, to)
+        ),
+        supabaseClient.from('album_tracks').select('points, max_gap_minutes').eq('album_id', albumId),
+        supabaseClient.from('user_preferences').select('locale').eq('user_id', user.id).maybeSingle()
+      ]);
+
+      if (photosResult.error) throw photosResult.error;
+      if (daysResult.error) throw daysResult.error;
+      if (tracksResult.error) console.error('Error loading album tracks:', tracksResult.error);
+
+      const photoRows = photosResult.data;
+      const dayRows = daysResult.data;
+
+      const tracks: TimedTrack[] = (tracksResult.data || []).map((track: { points: TrackPoint[]; max_gap_minutes: number }) => ({
+        points: track.points,
+        maxGapMinutes: track.max_gap_minutes
+      }));
+
+      report({ type: 'progress', step: 'loading', done: 1, total: 1 });
+
+      // Seules les photos datées sont retraitées : le jour local a déjà été calculé en base
+      const datedRows = photoRows.filter(photo => photo.taken_at && photo.local_date);
+      const pipelinePhotos: PipelinePhoto[] = datedRows.map(photo => {
+        const kept = KEPT_LOCATION_SOURCES.includes(photo.location_source) && photo.latitude != null && photo.longitude != null;
+        return {
+          id: photo.id,
+          date: photo.taken_at!,
+          localDate: photo.local_date!,
+          latitude: kept ? Number(photo.latitude) : undefined,
+          longitude: kept ? Number(photo.longitude) : undefined,
+          locationSource: kept ? photo.location_source as PipelinePhoto['locationSource'] : undefined
+        };
+      });
+
+      // Journées conservées sans photo (description saisie) : elles comptent dans la numérotation
+      const photoDates = new Set(datedRows.map(photo => photo.local_date!));
+      const keptEmptyDays = dayRows.filter(day => !photoDates.has(day.date) && (day.description || '') !== '');
+
+      const geocoder = withGeocodeCache(baseGeocoder, createSupabaseGeocodeCache(supabaseClient));
+      const geocodeLanguage: string = language || preferenceResult.data?.locale || geocoderConfig.language;
+      console.log(`Updating metadata of album ${albumId} with ${geocoder.provider} (${geocodeLanguage})`);
+
+      const days = await runMetadataPipeline(pipelinePhotos, {
+        tracks,
+        albumCoords: album.default_latitude != null && album.default_longitude != null
+          ? { latitude: Number(album.default_latitude), longitude: Number(album.default_longitude) }
+          : undefined,
+        reverseGeocode: (latitude, longitude) => geocoder.reverse(latitude, longitude, geocodeLanguage),
+        titleLocale: resolveLocale(preferenceResult.data?.locale || geocodeLanguage),
+        titleTemplate: album.day_title_template,
+        firstDate: keptEmptyDays[0]?.date,
+        onProgress: (step, done, total) => report({ type: 'progress', step, done, total })
+      });
+
+      // Différences photo par photo
+      const rowsById = new Map(photoRows.map(photo => [photo.id, photo]));
+      const diff: MetadataDiff = { photos: [], createdDays: [], updatedDays: [], deletedDays: [] };
+
+      pipelinePhotos.forEach(photo => {
+        const next: PhotoUpdate = {
+          latitude: photo.latitude ?? null,
+          longitude: photo.longitude ?? null,
+          location_source: photo.locationSource || 'none',
+          location_name: photo.locationName ?? null,
+          ...placeToColumns(photo.place)
+        };
+        const changes = diffFields(rowsById.get(photo.id)!, next);
+        if (Object.keys(changes).length > 0) {
+          diff.photos.push({ id: photo.id, changes });
+        }
+      });
+
+      // Différences journée par journée
+      const dayRowsByDate = new Map(dayRows.map(day => [day.date, day]));
+      const photoDateById = new Map(datedRows.map(photo => [photo.id, photo.local_date]));
+
+      days.forEach(day => {
+        const existing = dayRowsByDate.get(day.date);
+        if (!existing) {
+          diff.createdDays.push({ date: day.date, title: day.title });
+          return;
+        }
+
+        const next: DayUpdate = {
+          // Une vignette choisie dans la journée est conservée
+          cover_photo_id: existing.cover_photo_id && photoDateById.get(existing.cover_photo_id) === day.date
+            ? existing.cover_photo_id
+            : day.coverPhotoId ?? null,
+          latitude: day.latitude ?? null,
+          longitude: day.longitude ?? null,
+          location_source: day.locationSource,
+          location_name: day.locationName || null,
+          ...placeToColumns(day.place)
+        };
+        // Les titres saisis à la main sont conservés
+        if (!existing.title_is_custom) {
+          next.title = day.title;
+        }
+
+        const changes = diffFields(existing, next);
+        if (Object.keys(changes).length > 0) {
+          diff.updatedDays.push({ id: existing.id, date: day.date, changes });
+        }
+      });
+
+      const dayDates = new Set(days.map(day => day.date));
+      dayRows
+        .filter(day => !dayDates.has(day.date) && !photoDates.has(day.date) && (day.description || '') === '')
+        .forEach(day => diff.deletedDays.push({ id: day.id, date: day.date, title: day.title }));
+
+      const summary = {
+        dryRun,
+        photosUpdated: diff.photos.length,
+        dayEntriesUpdated: diff.createdDays.length + diff.updatedDays.length + diff.deletedDays.length,
+        dayEntriesCreated: diff.createdDays.length,
+        dayEntriesDeleted: diff.deletedDays.length,
+        inferredPhotos: pipelinePhotos.filter(photo => isInferredLocation(photo.locationSource)).length,
+        diff
+      };
+
+      if (dryRun) return summary;
+
+      // Enregistrement par lots
+      for (let i = 0; i < diff.photos.length; i += BATCH_SIZE) {
+        const batch = diff.photos.slice(i, i + BATCH_SIZE);
+        const results = await Promise.all(batch.map(({ id, changes }) =>
+          supabaseClient.from('photos').update(changedValues(changes)).eq('id', id)
+        ));
+        const failed = results.find(result => result.error);
+        if (failed) throw failed.error;
+        report({ type: 'progress', step: 'photos', done: Math.min(i + BATCH_SIZE, diff.photos.length), total: diff.photos.length });
+      }
+
+      const dayWrites = summary.dayEntriesUpdated;
+      let dayWritesDone = 0;
+
+      if (diff.createdDays.length > 0) {
+        const createdDates = new Set(diff.createdDays.map(day => day.date));
+        const { error } = await supabaseClient
+          .from('day_entries')
+          .upsert(days.filter(day => createdDates.has(day.date)).map(day => ({
+            album_id: albumId,
+            user_id: album.user_id,
+            date: day.date,
+            title: day.title,
+            cover_photo_id: day.coverPhotoId,
+            latitude: day.latitude,
+            longitude: day.longitude,
+            location_source: day.locationSource,
+            location_name: day.locationName || null,
+            ...placeToColumns(day.place)
+          })), { onConflict: 'album_id,date', ignoreDuplicates: true });
+        if (error) throw error;
+        dayWritesDone += diff.createdDays.length;
+        report({ type: 'progress', step: 'days', done: dayWritesDone, total: dayWrites });
+      }
+
+      for (let i = 0; i < diff.updatedDays.length; i += BATCH_SIZE) {
+        const batch = diff.updatedDays.slice(i, i + BATCH_SIZE);
+        const results = await Promise.all(batch.map(({ id, changes }) => {
+          const query = supabaseClient.from('day_entries').update(changedValues(changes)).eq('id', id);
+          // Un titre saisi entre-temps n'est pas écrasé
+          return 'title' in changes ? query.eq('title_is_custom', false) : query;
+        }));
+        const failed = results.find(result => result.error);
+        if (failed) throw failed.error;
+        dayWritesDone += batch.length;
+        report({ type: 'progress', step: 'days', done: dayWritesDone, total: dayWrites });
+      }
+
+      if (diff.deletedDays.length > 0) {
+        const { error } = await supabaseClient
+          .from('day_entries')
+          .delete()
+          .in('id', diff.deletedDays.map(day => day.id))
+          .or('description.is.null,description.eq.');
+        if (error) throw error;
+        dayWritesDone += diff.deletedDays.length;
+        report({ type: 'progress', step: 'days', done: dayWritesDone, total: dayWrites });
+      }
+
+      console.log(`Album ${albumId}: ${summary.photosUpdated} photos, ${summary.dayEntriesUpdated} day entries updated`);
+      return summary;
+    };
+
+    if (!stream) {
+      return jsonResponse(await run(() => {}));
+    }
+
+    // Avancement puis bilan, en server-sent events
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      async start(controller) {
+        const send = (event: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        try {
+          const result = await run(send);
+          send({ type: 'result', ...result });
+        } catch (error) {
+          console.error('Erreur lors de la mise à jour des métadonnées:', error);
+          send({ type: 'error', error: 'Erreur lors de la mise à jour des métadonnées' });
+        } finally {
+          controller.close();
+        }
+      }
+    });
+
+    return new Response(body, {
+      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+    });
+
+  } catch (error) {
+    console.error('Erreur lors de la mise à jour des métadonnées:', error);
+    return jsonResponse({ error: 'Erreur interne du serveur' }, 500);
+  }
+});
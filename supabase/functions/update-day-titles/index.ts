@@ -1,24 +1,47 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PlaceColumns, placeFromColumns } from '../_shared/places.ts';
+import { AppLocale, dayNumberOf, formatDayTitle, resolveLocale } from '../_shared/dayTitle.ts';
+import { authenticateRequest, authorizeAlbum, memberAlbumIds } from '../_shared/auth.ts';
+import { fetchAllPages } from '../_shared/pagination.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface DayEntry {
+interface DayEntry extends PlaceColumns {
   id: string;
   album_id: string;
+  user_id: string;
   date: string;
+  title: string | null;
+  title_is_custom: boolean;
   latitude: number;
   longitude: number;
   location_name: string;
+  custom_label: string | null;
 }
 
 interface Album {
   id: string;
-  title: string;
+  day_title_template: string | null;
 }
 
+// Titre qui changerait (ou a changé) à la régénération
+interface TitleChange {
+  id: string;
+  albumId: string;
+  date: string;
+  before: string | null;
+  after: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -31,25 +54,44 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Récupérer toutes les journées groupées par album
-    const { data: dayEntries, error: dayEntriesError } = await supabaseClient
-      .from('day_entries')
-      .select('id, album_id, date, latitude, longitude, location_name')
-      .order('album_id, date');
+    // Seules les journées des albums que l'appelant peut modifier sont régénérées
+    const auth = await authenticateRequest(supabaseClient, req);
+    if (!auth.ok) {
+      return jsonResponse({ error: auth.failure.message }, auth.failure.status);
+    }
+    const user = auth.value;
+
+    // albumId : limiter à un album ; dryRun : décrire les changements sans les enregistrer
+    const { albumId: onlyAlbumId, dryRun = false } = await req.json().catch(() => ({}));
+
+    if (onlyAlbumId) {
+      const albumAuth = await authorizeAlbum(supabaseClient, onlyAlbumId, user.id, 'id', 'editor');
+      if (!albumAuth.ok) {
+        return jsonResponse({ error: albumAuth.failure.message }, albumAuth.failure.status);
+      }
+    }
+
+    // Sans album précisé : tous ceux où l'appelant peut modifier les titres
+    const albumIds = onlyAlbumId ? [onlyAlbumId] : await memberAlbumIds(supabaseClient, user.id, 'editor');
+
+    const { data: dayEntries, error: dayEntriesError } = await fetchAllPages<DayEntry>((from, to) =>
+      supabaseClient
+        .from('day_entries')
+        .select('id, album_id, user_id, date, title, title_is_custom, latitude, longitude, location_name, custom_label, place_locality, place_municipality, place_region, place_country, place_country_code')
+        .in('album_id', albumIds)
+        .order('album_id')
+        .order('date')
+        .order('id')
+        .range(from, to)
+    );
 
     if (dayEntriesError) {
       console.error('Erreur lors de la récupération des journées:', dayEntriesError);
-      return new Response(
-        JSON.stringify({ error: 'Erreur lors de la récupération des journées' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Erreur lors de la récupération des journées' }, 500);
     }
 
     if (!dayEntries || dayEntries.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'Aucune journée trouvée' }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ message: 'Aucune journée trouvée', dryRun, totalProcessed: 0, updated: 0, skippedCustom: 0, changes: [] });
     }
 
     // Grouper les journées par album
@@ -61,34 +103,96 @@ Deno.serve(async (req) => {
       daysByAlbum.get(day.album_id)!.push(day);
     });
 
-    const frenchDays = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
-    const frenchMonths = ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 
-                         'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'];
+    // Langue choisie par chaque propriétaire d'album
+    const userIds = [...new Set(dayEntries.map(day => day.user_id))];
+    const { data: preferences, error: preferencesError } = await supabaseClient
+      .from('user_preferences')
+      .select('user_id, locale')
+      .in('user_id', userIds);
+
+    if (preferencesError) {
+      console.warn('Préférences de langue indisponibles:', preferencesError);
+    }
+
+    const localeByUser = new Map<string, AppLocale>(
+      (preferences || []).map(preference => [preference.user_id, resolveLocale(preference.locale)])
+    );
 
-    const updates: { id: string; title: string }[] = [];
+    // Modèle de titre de chaque album
+    const { data: albums, error: albumsError } = await supabaseClient
+      .from('albums')
+      .select('id, day_title_template')
+      .in('id', [...daysByAlbum.keys()]);
+
+    if (albumsError) {
+      console.warn('Modèles de titre indisponibles:', albumsError);
+    }
+
+    const templateByAlbum = new Map<string, string | null>(
+      (albums as Album[] || []).map(album => [album.id, album.day_title_template])
+    );
+
+    // Nombre de photos par journée, pour le jeton {photoCount}, compté par la base
+    const photoCountByDay = new Map<string, number>();
+    for (const albumId of daysByAlbum.keys()) {
+      const { data: dayCounts, error: photosError } = await fetchAllPages<{ id: string; photo_count: number }>((from, to) =>
+        supabaseClient
+          .rpc('get_day_entries_with_photo_count', { album_id: albumId })
+          .select('id, photo_count')
+          .range(from, to)
+      );
+
+      if (photosError) {
+        console.warn('Nombre de photos indisponible:', photosError);
+      }
+
+      dayCounts.forEach(day => photoCountByDay.set(day.id, Number(day.photo_count)));
+    }
+
+    const updates: TitleChange[] = [];
+    let skippedCustom = 0;
 
     // Traiter chaque album
     for (const [albumId, albumDays] of daysByAlbum) {
       // Trier les journées par date
       const sortedDays = albumDays.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
       
-      sortedDays.forEach((day, index) => {
-        const date = new Date(day.date + 'T00:00:00');
-        const dayNumber = index + 1;
-        const weekDay = frenchDays[date.getDay()];
-        const dayOfMonth = date.getDate();
-        const month = frenchMonths[date.getMonth()];
-        
-        // Utiliser le lieu existant ou une valeur par défaut
-        const locationName = day.location_name || '';
-        
-        // Format: "J1, lundi 12 juillet, La Hautière"
-        const title = `J${dayNumber}, ${weekDay} ${dayOfMonth} ${month}${locationName ? `, ${locationName}` : ''}`;
+      sortedDays.forEach((day) => {
+        // Les titres saisis à la main sont conservés, mais comptent dans la numérotation
+        if (day.title_is_custom) {
+          skippedCustom++;
+          return;
+        }
+
+        // Lieu structuré de la journée, à défaut le lieu-dit enregistré
+        const title = formatDayTitle(
+          {
+            date: day.date,
+            dayNumber: dayNumberOf(day.date, sortedDays[0].date),
+            place: placeFromColumns(day),
+            locationName: day.location_name,
+            photoCount: photoCountByDay.get(day.id) ?? 0,
+            custom: day.custom_label
+          },
+          localeByUser.get(day.user_id),
+          templateByAlbum.get(albumId)
+        );
         
-        updates.push({
-          id: day.id,
-          title: title
-        });
+        // Idempotent : seuls les titres qui changent sont réécrits
+        if (title !== day.title) {
+          updates.push({ id: day.id, albumId, date: day.date, before: day.title, after: title });
+        }
+      });
+    }
+
+    if (dryRun) {
+      return jsonResponse({
+        message: `${updates.length} titres de journées seraient mis à jour`,
+        dryRun,
+        totalProcessed: dayEntries.length,
+        updated: 0,
+        skippedCustom,
+        changes: updates
       });
     }
 
@@ -102,16 +206,19 @@ Deno.serve(async (req) => {
       const batch = updates.slice(i, i + batchSize);
       
       const updatePromises = batch.map(async (update) => {
-        const { error } = await supabaseClient
+        const { data: updated, error } = await supabaseClient
           .from('day_entries')
-          .update({ title: update.title })
-          .eq('id', update.id);
+          .update({ title: update.after })
+          .eq('id', update.id)
+          // Un titre saisi entre-temps n'est pas écrasé
+          .eq('title_is_custom', false)
+          .select('id');
         
         if (error) {
           console.error(`Erreur mise à jour journée ${update.id}:`, error);
           return false;
         }
-        return true;
+        return (updated?.length ?? 0) > 0;
       });
 
       const results = await Promise.all(updatePromises);
@@ -123,23 +230,17 @@ Deno.serve(async (req) => {
       }
     }
 
-    return new Response(
-      JSON.stringify({ 
-        message: `${updatedCount} titres de journées mis à jour avec succès`,
-        totalProcessed: updates.length,
-        updated: updatedCount
-      }),
-      { 
-        status: 200, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    return jsonResponse({
+      message: `${updatedCount} titres de journées mis à jour avec succès`,
+      dryRun,
+      totalProcessed: dayEntries.length,
+      updated: updatedCount,
+      skippedCustom,
+      changes: updates
+    });
 
   } catch (error) {
     console.error('Erreur lors de la mise à jour des titres:', error);
-    return new Response(
-      JSON.stringify({ error: 'Erreur interne du serveur' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: 'Erreur interne du serveur' }, 500);
   }
 });
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Chemins des dérivés redimensionnés (bucket thumbnails)
+-- thumbnail_path : 256px, medium_path : 1024px, large_path : 2048px
+ALTER TABLE public.photos
+ADD COLUMN medium_path TEXT,
+ADD COLUMN large_path TEXT;
@@ -0,0 +1,8 @@
+-- Empreintes pour détecter les doublons à l'import
+-- content_hash : SHA-256 du fichier original
+-- perceptual_hash : dHash 64 bits (16 caractères hexadécimaux) de l'image
+ALTER TABLE public.photos
+ADD COLUMN content_hash TEXT,
+ADD COLUMN perceptual_hash TEXT;
+
+CREATE INDEX idx_photos_album_content_hash ON public.photos (album_id, content_hash);
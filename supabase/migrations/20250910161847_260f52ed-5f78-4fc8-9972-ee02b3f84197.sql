@@ -0,0 +1,8 @@
+-- Prise en charge des vidéos dans les albums
+-- media_type : 'photo' ou 'video'
+-- duration_seconds : durée des vidéos, lue dans le conteneur MP4/MOV
+-- live_video_path : vidéo compagnon d'une Live Photo (bucket photos)
+ALTER TABLE public.photos
+ADD COLUMN media_type TEXT NOT NULL DEFAULT 'photo' CHECK (media_type IN ('photo', 'video')),
+ADD COLUMN duration_seconds NUMERIC,
+ADD COLUMN live_video_path TEXT;
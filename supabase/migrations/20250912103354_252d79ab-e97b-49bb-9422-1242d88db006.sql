@@ -0,0 +1,128 @@
+-- Regroupement des photos par jour en heure locale du voyage
+-- albums.timezone : fuseau IANA de l'album (ex: 'Asia/Tokyo'), déduit du GPS à l'import si absent
+-- photos.utc_offset_minutes : décalage enregistré par l'appareil (EXIF OffsetTimeOriginal, QuickTime)
+-- photos.local_date : jour local de la prise de vue, calculé par trigger
+ALTER TABLE public.albums
+ADD COLUMN timezone TEXT;
+
+ALTER TABLE public.photos
+ADD COLUMN utc_offset_minutes INTEGER,
+ADD COLUMN local_date DATE;
+
+-- Jour local d'une prise de vue : décalage de l'appareil, sinon fuseau de l'album, sinon UTC
+CREATE OR REPLACE FUNCTION public.compute_photo_local_date(
+  p_taken_at TIMESTAMPTZ,
+  p_utc_offset_minutes INTEGER,
+  p_album_id UUID
+)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN p_taken_at IS NULL THEN NULL
+    WHEN p_utc_offset_minutes IS NOT NULL
+      THEN ((p_taken_at AT TIME ZONE 'UTC') + make_interval(mins => p_utc_offset_minutes))::date
+    ELSE (p_taken_at AT TIME ZONE COALESCE(
+      (SELECT timezone FROM albums WHERE id = p_album_id),
+      'UTC'
+    ))::date
+  END
+$function$;
+
+CREATE OR REPLACE FUNCTION public.set_photo_local_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.local_date = compute_photo_local_date(NEW.taken_at, NEW.utc_offset_minutes, NEW.album_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_photos_local_date
+  BEFORE INSERT OR UPDATE OF taken_at, utc_offset_minutes, album_id ON public.photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_photo_local_date();
+
+-- Un changement de fuseau recalcule le jour des photos sans décalage d'appareil
+CREATE OR REPLACE FUNCTION public.refresh_album_local_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE photos
+  SET local_date = compute_photo_local_date(taken_at, utc_offset_minutes, album_id)
+  WHERE album_id = NEW.id
+    AND utc_offset_minutes IS NULL;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER refresh_albums_local_dates
+  AFTER UPDATE OF timezone ON public.albums
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION public.refresh_album_local_dates();
+
+-- Photos existantes : même jour qu'auparavant (UTC)
+UPDATE public.photos
+SET local_date = (taken_at AT TIME ZONE 'UTC')::date
+WHERE taken_at IS NOT NULL;
+
+CREATE INDEX idx_photos_album_local_date ON public.photos (album_id, local_date);
+
+-- Comptage des photos par jour local
+DROP FUNCTION IF EXISTS public.get_day_entries_with_photo_count(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_day_entries_with_photo_count(album_id uuid)
+ RETURNS TABLE(
+   id uuid, 
+   date date, 
+   title text, 
+   location_name text, 
+   cover_photo_id uuid, 
+   photo_count bigint, 
+   cover_photo_thumbnail_path text, 
+   cover_photo_file_path text, 
+   cover_photo_title text,
+   cover_photo_location_name text,
+   cover_photo_latitude numeric,
+   cover_photo_longitude numeric
+ )
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    de.id,
+    de.date,
+    de.title,
+    de.location_name,
+    de.cover_photo_id,
+    COALESCE(pc.photo_count, 0) as photo_count,
+    cp.thumbnail_path as cover_photo_thumbnail_path,
+    cp.file_path as cover_photo_file_path,
+    cp.title as cover_photo_title,
+    cp.location_name as cover_photo_location_name,
+    cp.latitude as cover_photo_latitude,
+    cp.longitude as cover_photo_longitude
+  FROM day_entries de
+  LEFT JOIN (
+    SELECT 
+      photos.local_date as photo_date,
+      COUNT(*) as photo_count
+    FROM photos 
+    WHERE photos.album_id = get_day_entries_with_photo_count.album_id
+    GROUP BY photos.local_date
+  ) pc ON de.date = pc.photo_date
+  LEFT JOIN photos cp ON de.cover_photo_id = cp.id
+  WHERE de.album_id = get_day_entries_with_photo_count.album_id
+  ORDER BY de.date;
+END;
+$function$;
@@ -0,0 +1,142 @@
+-- Heure de changement de jour par album : une photo prise avant cette heure
+-- (ex: 01:30 avec un changement à 4h) appartient à la journée précédente
+ALTER TABLE public.albums
+ADD COLUMN day_cutoff_hour SMALLINT NOT NULL DEFAULT 0 CHECK (day_cutoff_hour BETWEEN 0 AND 12);
+
+-- Jour local d'une prise de vue, décalé de l'heure de changement de jour de l'album
+CREATE OR REPLACE FUNCTION public.compute_photo_local_date(
+  p_taken_at TIMESTAMPTZ,
+  p_utc_offset_minutes INTEGER,
+  p_album_id UUID
+)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_timezone TEXT;
+  v_cutoff_hour SMALLINT;
+BEGIN
+  IF p_taken_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT timezone, day_cutoff_hour INTO v_timezone, v_cutoff_hour
+  FROM albums
+  WHERE id = p_album_id;
+
+  RETURN (
+    CASE
+      WHEN p_utc_offset_minutes IS NOT NULL
+        THEN (p_taken_at AT TIME ZONE 'UTC') + make_interval(mins => p_utc_offset_minutes)
+      ELSE p_taken_at AT TIME ZONE COALESCE(v_timezone, 'UTC')
+    END
+    - make_interval(hours => COALESCE(v_cutoff_hour, 0))
+  )::date;
+END;
+$function$;
+
+-- Le fuseau ne concerne que les photos sans décalage d'appareil, l'heure de changement toutes les photos
+CREATE OR REPLACE FUNCTION public.refresh_album_local_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE photos
+  SET local_date = compute_photo_local_date(taken_at, utc_offset_minutes, album_id)
+  WHERE album_id = NEW.id
+    AND (utc_offset_minutes IS NULL OR OLD.day_cutoff_hour IS DISTINCT FROM NEW.day_cutoff_hour);
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS refresh_albums_local_dates ON public.albums;
+
+CREATE TRIGGER refresh_albums_local_dates
+  AFTER UPDATE OF timezone, day_cutoff_hour ON public.albums
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone OR OLD.day_cutoff_hour IS DISTINCT FROM NEW.day_cutoff_hour)
+  EXECUTE FUNCTION public.refresh_album_local_dates();
+
+-- Réaligne les journées de l'album sur le jour local des photos :
+-- 1. une journée suit sa photo de couverture quand celle-ci change de jour (titre et récit conservés)
+-- 2. les jours de photos sans journée en reçoivent une
+-- 3. chaque journée reçoit une couverture prise ce jour-là
+-- 4. les journées vides sans récit sont supprimées
+-- S'exécute avec les droits de l'appelant : les règles RLS s'appliquent
+CREATE OR REPLACE FUNCTION public.rebucket_album_days(p_album_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT de.id, cp.local_date AS new_date
+    FROM day_entries de
+    JOIN photos cp ON cp.id = de.cover_photo_id
+    WHERE de.album_id = p_album_id
+      AND cp.local_date IS NOT NULL
+      AND cp.local_date <> de.date
+    ORDER BY de.date
+  LOOP
+    UPDATE day_entries
+    SET date = v_entry.new_date
+    WHERE id = v_entry.id
+      AND NOT EXISTS (
+        SELECT 1 FROM day_entries other
+        WHERE other.album_id = p_album_id AND other.date = v_entry.new_date
+      );
+  END LOOP;
+
+  UPDATE day_entries de
+  SET cover_photo_id = NULL
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND cp.local_date IS DISTINCT FROM de.date;
+
+  INSERT INTO day_entries (album_id, user_id, date, title)
+  SELECT DISTINCT p.album_id, a.user_id, p.local_date, 'Photos du ' || to_char(p.local_date, 'DD/MM/YYYY')
+  FROM photos p
+  JOIN albums a ON a.id = p.album_id
+  WHERE p.album_id = p_album_id
+    AND p.local_date IS NOT NULL
+  ON CONFLICT (album_id, date) DO NOTHING;
+
+  -- Couverture : dernière photo géolocalisée du jour, sinon dernière photo du jour
+  UPDATE day_entries de
+  SET cover_photo_id = (
+    SELECT p.id
+    FROM photos p
+    WHERE p.album_id = de.album_id
+      AND p.local_date = de.date
+    ORDER BY (p.latitude IS NOT NULL AND p.longitude IS NOT NULL) DESC, p.taken_at DESC
+    LIMIT 1
+  )
+  WHERE de.album_id = p_album_id
+    AND de.cover_photo_id IS NULL;
+
+  -- Les nouvelles journées prennent la position de leur couverture
+  UPDATE day_entries de
+  SET latitude = cp.latitude,
+      longitude = cp.longitude,
+      location_name = cp.location_name
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND de.latitude IS NULL
+    AND cp.latitude IS NOT NULL;
+
+  DELETE FROM day_entries de
+  WHERE de.album_id = p_album_id
+    AND COALESCE(de.description, '') = ''
+    AND NOT EXISTS (
+      SELECT 1 FROM photos p
+      WHERE p.album_id = de.album_id AND p.local_date = de.date
+    );
+END;
+$function$;
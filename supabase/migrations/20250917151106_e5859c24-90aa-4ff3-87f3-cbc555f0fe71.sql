@@ -0,0 +1,38 @@
+-- Appareil de prise de vue (EXIF Make, Model, BodySerialNumber) pour corriger
+-- l'horloge d'un appareil mal réglé sur toutes ses photos
+ALTER TABLE public.photos
+ADD COLUMN camera_make TEXT,
+ADD COLUMN camera_model TEXT,
+ADD COLUMN camera_serial TEXT;
+
+-- Décale l'heure des photos d'un appareil puis réaligne les journées de l'album
+-- S'exécute avec les droits de l'appelant : les règles RLS s'appliquent
+CREATE OR REPLACE FUNCTION public.shift_album_photo_times(
+  p_album_id UUID,
+  p_camera_make TEXT,
+  p_camera_model TEXT,
+  p_camera_serial TEXT,
+  p_offset_minutes INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE photos
+  SET taken_at = taken_at + make_interval(mins => p_offset_minutes)
+  WHERE album_id = p_album_id
+    AND taken_at IS NOT NULL
+    AND camera_make IS NOT DISTINCT FROM p_camera_make
+    AND camera_model IS NOT DISTINCT FROM p_camera_model
+    AND camera_serial IS NOT DISTINCT FROM p_camera_serial;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM rebucket_album_days(p_album_id);
+
+  RETURN v_count;
+END;
+$function$;
@@ -0,0 +1,47 @@
+-- Traces GPS (GPX, KML, GeoJSON) importées pour un album : elles servent à
+-- géolocaliser les photos sans GPS et sont tracées sur la carte
+CREATE TABLE public.album_tracks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  source_format TEXT NOT NULL CHECK (source_format IN ('gpx', 'kml', 'geojson')),
+  -- Points [latitude, longitude, horodatage en ms ou null], triés par heure
+  points JSONB NOT NULL DEFAULT '[]'::jsonb,
+  point_count INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  -- Écart maximal entre une photo et le point de trace le plus proche
+  max_gap_minutes INTEGER NOT NULL DEFAULT 15 CHECK (max_gap_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_album_tracks_album_id ON public.album_tracks(album_id);
+
+ALTER TABLE public.album_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own album tracks"
+ON public.album_tracks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own album tracks"
+ON public.album_tracks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own album tracks"
+ON public.album_tracks
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own album tracks"
+ON public.album_tracks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_album_tracks_updated_at
+BEFORE UPDATE ON public.album_tracks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
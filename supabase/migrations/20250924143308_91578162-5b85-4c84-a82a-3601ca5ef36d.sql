@@ -0,0 +1,169 @@
+-- Provenance des coordonnées : les positions estimées ne doivent plus se confondre
+-- avec le GPS enregistré par l'appareil
+ALTER TABLE public.photos
+ADD COLUMN location_source TEXT NOT NULL DEFAULT 'none'
+  CHECK (location_source IN ('exif', 'interpolated', 'track', 'manual', 'album-default', 'none'));
+
+ALTER TABLE public.day_entries
+ADD COLUMN location_source TEXT NOT NULL DEFAULT 'none'
+  CHECK (location_source IN ('exif', 'interpolated', 'track', 'manual', 'album-default', 'none'));
+
+-- Position par défaut de l'album, remplace les coordonnées de Nantes codées en dur
+ALTER TABLE public.albums
+ADD COLUMN default_latitude DECIMAL(10,8),
+ADD COLUMN default_longitude DECIMAL(11,8);
+
+-- Les positions de Nantes attribuées par défaut sont retirées avec leur lieu-dit
+UPDATE public.photos
+SET latitude = NULL,
+    longitude = NULL,
+    location_name = NULL
+WHERE latitude = 47.2184 AND longitude = -1.5536;
+
+UPDATE public.day_entries
+SET latitude = NULL,
+    longitude = NULL,
+    location_name = NULL
+WHERE latitude = 47.2184 AND longitude = -1.5536;
+
+-- Les autres positions existantes ne peuvent plus être distinguées : elles sont considérées comme GPS
+UPDATE public.photos
+SET location_source = 'exif'
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+UPDATE public.day_entries
+SET location_source = 'exif'
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- La couverture d'une journée privilégie désormais une position GPS réelle
+CREATE OR REPLACE FUNCTION public.rebucket_album_days(p_album_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT de.id, cp.local_date AS new_date
+    FROM day_entries de
+    JOIN photos cp ON cp.id = de.cover_photo_id
+    WHERE de.album_id = p_album_id
+      AND cp.local_date IS NOT NULL
+      AND cp.local_date <> de.date
+    ORDER BY de.date
+  LOOP
+    UPDATE day_entries
+    SET date = v_entry.new_date
+    WHERE id = v_entry.id
+      AND NOT EXISTS (
+        SELECT 1 FROM day_entries other
+        WHERE other.album_id = p_album_id AND other.date = v_entry.new_date
+      );
+  END LOOP;
+
+  UPDATE day_entries de
+  SET cover_photo_id = NULL
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND cp.local_date IS DISTINCT FROM de.date;
+
+  INSERT INTO day_entries (album_id, user_id, date, title)
+  SELECT DISTINCT p.album_id, a.user_id, p.local_date, 'Photos du ' || to_char(p.local_date, 'DD/MM/YYYY')
+  FROM photos p
+  JOIN albums a ON a.id = p.album_id
+  WHERE p.album_id = p_album_id
+    AND p.local_date IS NOT NULL
+  ON CONFLICT (album_id, date) DO NOTHING;
+
+  -- Couverture : dernière photo avec GPS du jour, sinon géolocalisée, sinon dernière photo du jour
+  UPDATE day_entries de
+  SET cover_photo_id = (
+    SELECT p.id
+    FROM photos p
+    WHERE p.album_id = de.album_id
+      AND p.local_date = de.date
+    ORDER BY p.location_source IN ('exif', 'manual') DESC,
+      (p.latitude IS NOT NULL AND p.longitude IS NOT NULL) DESC,
+      p.taken_at DESC
+    LIMIT 1
+  )
+  WHERE de.album_id = p_album_id
+    AND de.cover_photo_id IS NULL;
+
+  -- Les nouvelles journées prennent la position de leur couverture
+  UPDATE day_entries de
+  SET latitude = cp.latitude,
+      longitude = cp.longitude,
+      location_name = cp.location_name,
+      location_source = cp.location_source
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND de.latitude IS NULL
+    AND cp.latitude IS NOT NULL;
+
+  DELETE FROM day_entries de
+  WHERE de.album_id = p_album_id
+    AND COALESCE(de.description, '') = ''
+    AND NOT EXISTS (
+      SELECT 1 FROM photos p
+      WHERE p.album_id = de.album_id AND p.local_date = de.date
+    );
+END;
+$function$;
+
+-- Provenance de la position de couverture, pour distinguer les positions estimées sur la carte
+DROP FUNCTION IF EXISTS public.get_day_entries_with_photo_count(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_day_entries_with_photo_count(album_id uuid)
+ RETURNS TABLE(
+   id uuid, 
+   date date, 
+   title text, 
+   location_name text, 
+   cover_photo_id uuid, 
+   photo_count bigint, 
+   cover_photo_thumbnail_path text, 
+   cover_photo_file_path text, 
+   cover_photo_title text,
+   cover_photo_location_name text,
+   cover_photo_latitude numeric,
+   cover_photo_longitude numeric,
+   cover_photo_location_source text
+ )
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    de.id,
+    de.date,
+    de.title,
+    de.location_name,
+    de.cover_photo_id,
+    COALESCE(pc.photo_count, 0) as photo_count,
+    cp.thumbnail_path as cover_photo_thumbnail_path,
+    cp.file_path as cover_photo_file_path,
+    cp.title as cover_photo_title,
+    cp.location_name as cover_photo_location_name,
+    cp.latitude as cover_photo_latitude,
+    cp.longitude as cover_photo_longitude,
+    cp.location_source as cover_photo_location_source
+  FROM day_entries de
+  LEFT JOIN (
+    SELECT 
+      photos.local_date as photo_date,
+      COUNT(*) as photo_count
+    FROM photos 
+    WHERE photos.album_id = get_day_entries_with_photo_count.album_id
+    GROUP BY photos.local_date
+  ) pc ON de.date = pc.photo_date
+  LEFT JOIN photos cp ON de.cover_photo_id = cp.id
+  WHERE de.album_id = get_day_entries_with_photo_count.album_id
+  ORDER BY de.date;
+END;
+$function$;
@@ -0,0 +1,22 @@
+-- Cache persistant du géocodage inverse, partagé entre les imports :
+-- une position déjà résolue n'est plus redemandée au fournisseur
+CREATE TABLE public.geocode_cache (
+  -- Coordonnées arrondies à 3 décimales (environ 110 m)
+  latitude_key NUMERIC(8,3) NOT NULL,
+  longitude_key NUMERIC(9,3) NOT NULL,
+  language TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  -- NULL : le fournisseur ne connaît aucun lieu à cette position
+  location_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (latitude_key, longitude_key, language)
+);
+
+-- Aucune règle : seules les edge functions (service_role) y accèdent
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_geocode_cache_updated_at
+BEFORE UPDATE ON public.geocode_cache
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
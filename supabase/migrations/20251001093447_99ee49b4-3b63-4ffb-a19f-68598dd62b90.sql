@@ -0,0 +1,29 @@
+-- Préférences de l'utilisateur, à commencer par la langue de l'interface et des titres de journées
+CREATE TABLE public.user_preferences (
+  user_id UUID NOT NULL PRIMARY KEY,
+  locale TEXT NOT NULL DEFAULT 'fr' CHECK (locale IN ('fr', 'en')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences"
+ON public.user_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own preferences"
+ON public.user_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+ON public.user_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+BEFORE UPDATE ON public.user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
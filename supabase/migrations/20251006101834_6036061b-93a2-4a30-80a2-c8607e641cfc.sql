@@ -0,0 +1,71 @@
+-- Titre saisi à la main : ni la régénération ni le modèle de l'album ne le remplacent
+ALTER TABLE public.day_entries
+ADD COLUMN title_is_custom BOOLEAN NOT NULL DEFAULT false;
+
+-- Les journées sont renvoyées avec l'origine de leur titre
+DROP FUNCTION IF EXISTS public.get_day_entries_with_photo_count(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_day_entries_with_photo_count(album_id uuid)
+ RETURNS TABLE(
+   id uuid,
+   date date,
+   title text,
+   location_name text,
+   place_locality text,
+   place_municipality text,
+   place_region text,
+   place_country text,
+   place_country_code text,
+   custom_label text,
+   title_is_custom boolean,
+   cover_photo_id uuid,
+   photo_count bigint,
+   cover_photo_thumbnail_path text,
+   cover_photo_file_path text,
+   cover_photo_title text,
+   cover_photo_location_name text,
+   cover_photo_latitude numeric,
+   cover_photo_longitude numeric,
+   cover_photo_location_source text
+ )
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.date,
+    de.title,
+    de.location_name,
+    de.place_locality,
+    de.place_municipality,
+    de.place_region,
+    de.place_country,
+    de.place_country_code,
+    de.custom_label,
+    de.title_is_custom,
+    de.cover_photo_id,
+    COALESCE(pc.photo_count, 0) as photo_count,
+    cp.thumbnail_path as cover_photo_thumbnail_path,
+    cp.file_path as cover_photo_file_path,
+    cp.title as cover_photo_title,
+    cp.location_name as cover_photo_location_name,
+    cp.latitude as cover_photo_latitude,
+    cp.longitude as cover_photo_longitude,
+    cp.location_source as cover_photo_location_source
+  FROM day_entries de
+  LEFT JOIN (
+    SELECT
+      photos.local_date as photo_date,
+      COUNT(*) as photo_count
+    FROM photos
+    WHERE photos.album_id = get_day_entries_with_photo_count.album_id
+    GROUP BY photos.local_date
+  ) pc ON de.date = pc.photo_date
+  LEFT JOIN photos cp ON de.cover_photo_id = cp.id
+  WHERE de.album_id = get_day_entries_with_photo_count.album_id
+  ORDER BY de.date;
+END;
+$function$;
@@ -0,0 +1,20 @@
+-- Buckets privés : les médias ne sont plus servis par URL publique, mais par URL signée
+UPDATE storage.buckets
+SET public = false
+WHERE id IN ('photos', 'thumbnails');
+
+DROP POLICY IF EXISTS "Photos are publicly viewable" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view thumbnails" ON storage.objects;
+
+-- Lecture réservée au propriétaire : le premier dossier du chemin est son identifiant
+DROP POLICY IF EXISTS "Users can view their own photos" ON storage.objects;
+
+CREATE POLICY "Users can view their own photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own thumbnails"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'thumbnails' AND auth.uid()::text = (storage.foldername(name))[1]);
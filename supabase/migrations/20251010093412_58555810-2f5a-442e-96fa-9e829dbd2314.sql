@@ -0,0 +1,6 @@
+-- Métadonnées des copies partagées ou téléchargées des originaux :
+-- keep (intactes), coarse (position arrondie, numéros de série retirés), strip (ni position ni numéros de série).
+-- Les métadonnées des photos restent intactes en base et dans le stockage.
+ALTER TABLE public.albums
+ADD COLUMN exif_privacy TEXT NOT NULL DEFAULT 'keep'
+CHECK (exif_privacy IN ('keep', 'coarse', 'strip'));
@@ -0,0 +1,118 @@
+-- Liens de partage d'un album, ou d'une seule de ses journées, pour des proches sans compte.
+-- Le jeton du lien est le seul identifiant : il n'ouvre que les données de son album (ou de sa journée),
+-- servies en lecture seule par l'edge function shared-album. Aucune règle n'est ouverte au rôle anon.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.album_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  -- NULL : tout l'album
+  day_entry_id UUID REFERENCES public.day_entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  label TEXT,
+  -- Empreinte bcrypt, définie par set_album_share_password
+  password_hash TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  -- Métadonnées des originaux partagés ; NULL : réglage de l'album
+  exif_privacy TEXT CHECK (exif_privacy IN ('keep', 'coarse', 'strip')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_album_shares_album_id ON public.album_shares(album_id);
+
+ALTER TABLE public.album_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own album shares"
+ON public.album_shares
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own album shares"
+ON public.album_shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.albums a WHERE a.id = album_id AND a.user_id = auth.uid())
+  AND (
+    day_entry_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.day_entries de WHERE de.id = day_entry_id AND de.album_id = album_shares.album_id)
+  )
+);
+
+CREATE POLICY "Users can update their own album shares"
+ON public.album_shares
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own album shares"
+ON public.album_shares
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_album_shares_updated_at
+BEFORE UPDATE ON public.album_shares
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Définit ou retire (NULL ou vide) le mot de passe d'un lien
+-- S'exécute avec les droits de l'appelant : les règles RLS s'appliquent
+CREATE OR REPLACE FUNCTION public.set_album_share_password(p_share_id UUID, p_password TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE album_shares
+  SET password_hash = CASE
+    WHEN COALESCE(p_password, '') = '' THEN NULL
+    ELSE extensions.crypt(p_password, extensions.gen_salt('bf'))
+  END
+  WHERE id = p_share_id;
+END;
+$function$;
+
+-- Ouvre un lien : état du lien et, s'il est valide, ce qu'il donne à voir.
+-- status : ok, password_required, invalid_password, expired ou revoked ; aucune ligne si le jeton est inconnu.
+-- Réservée à l'edge function shared-album (service_role)
+CREATE OR REPLACE FUNCTION public.open_album_share(p_token TEXT, p_password TEXT)
+RETURNS TABLE(
+  share_id UUID,
+  album_id UUID,
+  day_entry_id UUID,
+  exif_privacy TEXT,
+  label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.album_id,
+    s.day_entry_id,
+    COALESCE(s.exif_privacy, a.exif_privacy),
+    s.label,
+    s.expires_at,
+    CASE
+      WHEN s.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN s.expires_at IS NOT NULL AND s.expires_at <= now() THEN 'expired'
+      WHEN s.password_hash IS NULL THEN 'ok'
+      WHEN COALESCE(p_password, '') = '' THEN 'password_required'
+      WHEN extensions.crypt(p_password, s.password_hash) = s.password_hash THEN 'ok'
+      ELSE 'invalid_password'
+    END
+  FROM album_shares s
+  JOIN albums a ON a.id = s.album_id
+  WHERE s.token = p_token;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.open_album_share(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_album_share(TEXT, TEXT) TO service_role;
@@ -0,0 +1,349 @@
+-- Albums partagés entre plusieurs comptes : les accès ne reposent plus sur albums.user_id seul,
+-- mais sur l'appartenance à l'album avec un rôle :
+--   owner  : le créateur de l'album (albums.user_id), seul à régler, partager, inviter et supprimer l'album
+--   editor : ajoute des photos et modifie titres et récits
+--   viewer : consulte l'album
+CREATE TABLE public.album_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  -- Adresse du compte au moment de l'ajout, pour afficher qui a ajouté chaque photo
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (album_id, user_id)
+);
+
+CREATE INDEX idx_album_members_user_id ON public.album_members(user_id);
+
+CREATE TRIGGER update_album_members_updated_at
+BEFORE UPDATE ON public.album_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Invitations en attente, adressées à une adresse email : elles apparaissent au compte
+-- connecté avec cette adresse, qui les accepte par accept_album_invitation
+CREATE TABLE public.album_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (album_id, email)
+);
+
+CREATE INDEX idx_album_invitations_email ON public.album_invitations(email);
+
+CREATE TRIGGER update_album_invitations_updated_at
+BEFORE UPDATE ON public.album_invitations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Le propriétaire de chaque album existant en devient membre
+INSERT INTO public.album_members (album_id, user_id, role, email)
+SELECT a.id, a.user_id, 'owner', u.email
+FROM public.albums a
+LEFT JOIN auth.users u ON u.id = a.user_id
+ON CONFLICT (album_id, user_id) DO NOTHING;
+
+-- Puis chaque nouvel album, à sa création
+CREATE OR REPLACE FUNCTION public.add_album_owner_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO album_members (album_id, user_id, role, email)
+  VALUES (NEW.id, NEW.user_id, 'owner', (SELECT email FROM auth.users WHERE id = NEW.user_id))
+  ON CONFLICT (album_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER add_albums_owner_member
+AFTER INSERT ON public.albums
+FOR EACH ROW
+EXECUTE FUNCTION public.add_album_owner_member();
+
+-- L'appelant a-t-il au moins ce rôle sur l'album (viewer < editor < owner) ?
+-- SECURITY DEFINER : lit album_members sans repasser par ses propres règles RLS
+CREATE OR REPLACE FUNCTION public.has_album_role(p_album_id UUID, p_min_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM album_members m
+    WHERE m.album_id = p_album_id
+      AND m.user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'editor', 'owner'], m.role)
+        >= array_position(ARRAY['viewer', 'editor', 'owner'], p_min_role)
+  )
+$function$;
+
+-- Album d'un fichier des buckets photos et thumbnails : le dernier dossier de son chemin,
+-- "{albumId}/{nom}" ou, pour les fichiers envoyés avant les albums partagés, "{userId}/{albumId}/{nom}"
+CREATE OR REPLACE FUNCTION public.storage_album_id(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_folders TEXT[] := storage.foldername(p_name);
+BEGIN
+  RETURN v_folders[array_length(v_folders, 1)]::uuid;
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN NULL;
+END;
+$function$;
+
+ALTER TABLE public.album_members ENABLE ROW LEVEL SECURITY;
+
+-- Les membres se voient entre eux ; les ajouts passent par le trigger ou une invitation acceptée
+CREATE POLICY "Members can view album members"
+ON public.album_members
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+CREATE POLICY "Owners can update album members"
+ON public.album_members
+FOR UPDATE
+USING (public.has_album_role(album_id, 'owner') AND role <> 'owner')
+WITH CHECK (role <> 'owner');
+
+-- Le propriétaire retire un membre, un membre peut quitter l'album ; le propriétaire reste
+CREATE POLICY "Owners and members themselves can delete album members"
+ON public.album_members
+FOR DELETE
+USING (role <> 'owner' AND (public.has_album_role(album_id, 'owner') OR auth.uid() = user_id));
+
+ALTER TABLE public.album_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and invitees can view album invitations"
+ON public.album_invitations
+FOR SELECT
+USING (public.has_album_role(album_id, 'owner') OR email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Owners can create album invitations"
+ON public.album_invitations
+FOR INSERT
+WITH CHECK (auth.uid() = invited_by AND public.has_album_role(album_id, 'owner'));
+
+CREATE POLICY "Owners can update album invitations"
+ON public.album_invitations
+FOR UPDATE
+USING (public.has_album_role(album_id, 'owner'));
+
+-- Annulée par le propriétaire, ou déclinée par la personne invitée
+CREATE POLICY "Owners and invitees can delete album invitations"
+ON public.album_invitations
+FOR DELETE
+USING (public.has_album_role(album_id, 'owner') OR email = lower(auth.jwt() ->> 'email'));
+
+-- Invitations adressées à l'appelant, avec le titre de l'album qu'il ne peut pas encore lire
+CREATE OR REPLACE FUNCTION public.get_pending_album_invitations()
+RETURNS TABLE(
+  id UUID,
+  album_id UUID,
+  album_title TEXT,
+  role TEXT,
+  invited_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT i.id, i.album_id, a.title, i.role, m.email, i.created_at
+  FROM album_invitations i
+  JOIN albums a ON a.id = i.album_id
+  LEFT JOIN album_members m ON m.album_id = i.album_id AND m.user_id = i.invited_by
+  WHERE i.email = lower(auth.jwt() ->> 'email')
+    AND NOT EXISTS (
+      SELECT 1 FROM album_members existing
+      WHERE existing.album_id = i.album_id AND existing.user_id = auth.uid()
+    )
+  ORDER BY i.created_at DESC
+$function$;
+
+-- Accepte une invitation adressée à l'appelant : il devient membre avec le rôle prévu
+-- @returns L'album rejoint
+CREATE OR REPLACE FUNCTION public.accept_album_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_invitation album_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM album_invitations
+  WHERE id = p_invitation_id
+    AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND OR auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Invitation introuvable';
+  END IF;
+
+  INSERT INTO album_members (album_id, user_id, role, email)
+  VALUES (v_invitation.album_id, auth.uid(), v_invitation.role, v_invitation.email)
+  ON CONFLICT (album_id, user_id) DO UPDATE
+  SET role = EXCLUDED.role, email = EXCLUDED.email
+  WHERE album_members.role <> 'owner';
+
+  DELETE FROM album_invitations WHERE id = v_invitation.id;
+
+  RETURN v_invitation.album_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_pending_album_invitations() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_album_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_pending_album_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_album_invitation(UUID) TO authenticated;
+
+-- Albums : lisibles par leurs membres ; réglages et suppression restent au propriétaire.
+-- La comparaison directe à user_id garde l'album lisible dans le RETURNING de sa création,
+-- avant que le trigger n'en fasse un membre
+DROP POLICY IF EXISTS "Users can view their own albums" ON public.albums;
+
+CREATE POLICY "Members can view albums"
+ON public.albums
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_album_role(id, 'viewer'));
+
+-- Photos : user_id désigne désormais la personne qui a envoyé la photo
+DROP POLICY IF EXISTS "Users can view their own photos" ON public.photos;
+DROP POLICY IF EXISTS "Users can create their own photos" ON public.photos;
+DROP POLICY IF EXISTS "Users can update their own photos" ON public.photos;
+DROP POLICY IF EXISTS "Users can delete their own photos" ON public.photos;
+
+CREATE POLICY "Members can view photos"
+ON public.photos
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+CREATE POLICY "Editors can create photos"
+ON public.photos
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_album_role(album_id, 'editor'));
+
+CREATE POLICY "Editors can update photos"
+ON public.photos
+FOR UPDATE
+USING (public.has_album_role(album_id, 'editor'))
+WITH CHECK (public.has_album_role(album_id, 'editor'));
+
+-- Un éditeur ne supprime que les photos qu'il a envoyées
+CREATE POLICY "Owners and uploaders can delete photos"
+ON public.photos
+FOR DELETE
+USING (
+  public.has_album_role(album_id, 'owner')
+  OR (auth.uid() = user_id AND public.has_album_role(album_id, 'editor'))
+);
+
+-- Journées : créées, renommées et regroupées par les éditeurs
+DROP POLICY IF EXISTS "Users can view their own day entries" ON public.day_entries;
+DROP POLICY IF EXISTS "Users can create their own day entries" ON public.day_entries;
+DROP POLICY IF EXISTS "Users can update their own day entries" ON public.day_entries;
+DROP POLICY IF EXISTS "Users can delete their own day entries" ON public.day_entries;
+
+CREATE POLICY "Members can view day entries"
+ON public.day_entries
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+CREATE POLICY "Editors can create day entries"
+ON public.day_entries
+FOR INSERT
+WITH CHECK (public.has_album_role(album_id, 'editor'));
+
+CREATE POLICY "Editors can update day entries"
+ON public.day_entries
+FOR UPDATE
+USING (public.has_album_role(album_id, 'editor'))
+WITH CHECK (public.has_album_role(album_id, 'editor'));
+
+CREATE POLICY "Editors can delete day entries"
+ON public.day_entries
+FOR DELETE
+USING (public.has_album_role(album_id, 'editor'));
+
+-- Traces GPS : tracées pour tous les membres, importées par les éditeurs
+DROP POLICY IF EXISTS "Users can view their own album tracks" ON public.album_tracks;
+DROP POLICY IF EXISTS "Users can create their own album tracks" ON public.album_tracks;
+DROP POLICY IF EXISTS "Users can update their own album tracks" ON public.album_tracks;
+DROP POLICY IF EXISTS "Users can delete their own album tracks" ON public.album_tracks;
+
+CREATE POLICY "Members can view album tracks"
+ON public.album_tracks
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+CREATE POLICY "Editors can create album tracks"
+ON public.album_tracks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_album_role(album_id, 'editor'));
+
+CREATE POLICY "Editors can update album tracks"
+ON public.album_tracks
+FOR UPDATE
+USING (public.has_album_role(album_id, 'editor'))
+WITH CHECK (public.has_album_role(album_id, 'editor'));
+
+CREATE POLICY "Editors can delete album tracks"
+ON public.album_tracks
+FOR DELETE
+USING (public.has_album_role(album_id, 'editor'));
+
+-- Le comptage des journées suit désormais les règles RLS de l'appelant
+ALTER FUNCTION public.get_day_entries_with_photo_count(uuid) SECURITY INVOKER;
+
+-- Stockage : l'accès dépend de l'album du chemin, plus de son premier dossier
+DROP POLICY IF EXISTS "Users can view their own photos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own photos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own photos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own photos" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own thumbnails" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own thumbnails" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own thumbnails" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own thumbnails" ON storage.objects;
+
+CREATE POLICY "Members can view album media"
+ON storage.objects
+FOR SELECT
+USING (bucket_id IN ('photos', 'thumbnails') AND public.has_album_role(public.storage_album_id(name), 'viewer'));
+
+CREATE POLICY "Editors can upload album media"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id IN ('photos', 'thumbnails') AND public.has_album_role(public.storage_album_id(name), 'editor'));
+
+CREATE POLICY "Editors can update album media"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id IN ('photos', 'thumbnails') AND public.has_album_role(public.storage_album_id(name), 'editor'));
+
+-- Comme pour les photos : un éditeur ne supprime que les fichiers qu'il a envoyés
+CREATE POLICY "Owners and uploaders can delete album media"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id IN ('photos', 'thumbnails')
+  AND (
+    public.has_album_role(public.storage_album_id(name), 'owner')
+    OR (owner = auth.uid() AND public.has_album_role(public.storage_album_id(name), 'editor'))
+  )
+);
@@ -0,0 +1,153 @@
+-- Commentaires (en fils de discussion) et réactions des membres d'un album, sur une photo ou une journée.
+-- Tout membre, lecteur compris, peut réagir ; le propriétaire de l'album modère en supprimant.
+CREATE TABLE public.comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  photo_id UUID REFERENCES public.photos(id) ON DELETE CASCADE,
+  day_entry_id UUID REFERENCES public.day_entries(id) ON DELETE CASCADE,
+  -- Commentaire auquel celui-ci répond ; ses réponses disparaissent avec lui
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((photo_id IS NULL) <> (day_entry_id IS NULL))
+);
+
+CREATE INDEX idx_comments_photo_id ON public.comments(photo_id) WHERE photo_id IS NOT NULL;
+CREATE INDEX idx_comments_day_entry_id ON public.comments(day_entry_id) WHERE day_entry_id IS NOT NULL;
+CREATE INDEX idx_comments_album_created ON public.comments(album_id, created_at);
+
+-- Une réaction par personne et par emoji ; la liste des emojis est celle de REACTION_EMOJIS
+CREATE TABLE public.reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  album_id UUID NOT NULL REFERENCES public.albums(id) ON DELETE CASCADE,
+  photo_id UUID REFERENCES public.photos(id) ON DELETE CASCADE,
+  day_entry_id UUID REFERENCES public.day_entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '😂', '😮', '😢', '👍', '🎉')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((photo_id IS NULL) <> (day_entry_id IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_reactions_photo_user_emoji ON public.reactions(photo_id, user_id, emoji) WHERE photo_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_reactions_day_user_emoji ON public.reactions(day_entry_id, user_id, emoji) WHERE day_entry_id IS NOT NULL;
+CREATE INDEX idx_reactions_album_created ON public.reactions(album_id, created_at);
+
+-- La photo ou la journée visée appartient-elle bien à l'album indiqué ?
+-- S'exécute avec les droits de l'appelant : les règles RLS s'appliquent
+CREATE OR REPLACE FUNCTION public.is_album_target(p_album_id UUID, p_photo_id UUID, p_day_entry_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN p_photo_id IS NOT NULL
+      THEN EXISTS (SELECT 1 FROM photos WHERE id = p_photo_id AND album_id = p_album_id)
+    ELSE EXISTS (SELECT 1 FROM day_entries WHERE id = p_day_entry_id AND album_id = p_album_id)
+  END
+$function$;
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments"
+ON public.comments
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+-- Une réponse porte sur la même photo ou la même journée que le commentaire d'origine
+CREATE POLICY "Members can create their own comments"
+ON public.comments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_album_role(album_id, 'viewer')
+  AND public.is_album_target(album_id, photo_id, day_entry_id)
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.comments parent
+      WHERE parent.id = parent_id
+        AND parent.photo_id IS NOT DISTINCT FROM comments.photo_id
+        AND parent.day_entry_id IS NOT DISTINCT FROM comments.day_entry_id
+    )
+  )
+);
+
+CREATE POLICY "Authors and album owners can delete comments"
+ON public.comments
+FOR DELETE
+USING (auth.uid() = user_id OR public.has_album_role(album_id, 'owner'));
+
+ALTER TABLE public.reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view reactions"
+ON public.reactions
+FOR SELECT
+USING (public.has_album_role(album_id, 'viewer'));
+
+CREATE POLICY "Members can create their own reactions"
+ON public.reactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_album_role(album_id, 'viewer')
+  AND public.is_album_target(album_id, photo_id, day_entry_id)
+);
+
+CREATE POLICY "Authors and album owners can delete reactions"
+ON public.reactions
+FOR DELETE
+USING (auth.uid() = user_id OR public.has_album_role(album_id, 'owner'));
+
+-- Dernière visite de l'album par le membre : l'activité des autres depuis ce moment est « nouvelle ».
+-- NULL : depuis son arrivée dans l'album
+ALTER TABLE public.album_members
+ADD COLUMN activity_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Marque l'activité de l'album comme vue par l'appelant.
+-- SECURITY DEFINER : un membre ne peut pas modifier sa ligne d'album_members (rôle)
+CREATE OR REPLACE FUNCTION public.mark_album_activity_seen(p_album_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE album_members
+  SET activity_seen_at = now()
+  WHERE album_id = p_album_id
+    AND user_id = auth.uid();
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_album_activity_seen(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_album_activity_seen(UUID) TO authenticated;
+
+-- Nombre de commentaires et réactions laissés par les autres membres depuis la dernière visite,
+-- pour chaque album de l'appelant qui en a.
+-- S'exécute avec les droits de l'appelant : les règles RLS s'appliquent
+CREATE OR REPLACE FUNCTION public.get_album_activity_counts()
+RETURNS TABLE(album_id UUID, comment_count BIGINT, reaction_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  WITH seen AS (
+    SELECT m.album_id, COALESCE(m.activity_seen_at, m.created_at) AS since
+    FROM album_members m
+    WHERE m.user_id = auth.uid()
+  ),
+  activity AS (
+    SELECT c.album_id, 1 AS is_comment
+    FROM comments c
+    JOIN seen s ON s.album_id = c.album_id
+    WHERE c.user_id <> auth.uid() AND c.created_at > s.since
+    UNION ALL
+    SELECT r.album_id, 0 AS is_comment
+    FROM reactions r
+    JOIN seen s ON s.album_id = r.album_id
+    WHERE r.user_id <> auth.uid() AND r.created_at > s.since
+  )
+  SELECT a.album_id, SUM(a.is_comment)::bigint, SUM(1 - a.is_comment)::bigint
+  FROM activity a
+  GROUP BY a.album_id
+$function$;
@@ -0,0 +1,31 @@
+-- Mises à jour en direct des vues d'album : les changements de photos et de journées sont diffusés
+-- aux membres (les règles RLS de SELECT filtrent ce que chacun reçoit ; une suppression ne transmet que l'id)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.photos, public.day_entries;
+
+-- Canal privé « album:<id> » : seuls les membres de l'album le rejoignent,
+-- y reçoivent les changements et y voient qui consulte l'album (présence)
+CREATE OR REPLACE FUNCTION public.realtime_album_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN p_topic ~ '^album:[0-9a-fA-F]{8}(-[0-9a-fA-F]{4}){3}-[0-9a-fA-F]{12}$' THEN substring(p_topic FROM 7)::uuid
+  END
+$function$;
+
+CREATE POLICY "Members can receive album realtime messages"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (public.has_album_role(public.realtime_album_id(realtime.topic()), 'viewer'));
+
+CREATE POLICY "Members can track their album presence"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND public.has_album_role(public.realtime_album_id(realtime.topic()), 'viewer')
+);
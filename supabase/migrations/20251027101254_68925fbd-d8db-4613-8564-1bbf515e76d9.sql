@@ -0,0 +1,113 @@
+-- Période du voyage : du premier au dernier jour local des photos, sauf si le propriétaire l'a fixée.
+-- year et month suivent le début de la période (impression, liens de partage)
+ALTER TABLE public.albums
+ADD COLUMN start_date DATE,
+ADD COLUMN end_date DATE,
+ADD COLUMN dates_are_custom BOOLEAN NOT NULL DEFAULT false,
+ADD CONSTRAINT albums_date_range_check CHECK (end_date >= start_date);
+
+-- Recalcule la période d'un album d'après ses photos, sauf si elle est fixée à la main.
+-- SECURITY DEFINER : déclenché par les photos d'un éditeur, qui ne peut pas modifier l'album
+CREATE OR REPLACE FUNCTION public.refresh_album_dates(p_album_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE albums a
+  SET start_date = p.first_date, end_date = p.last_date
+  FROM (
+    SELECT MIN(local_date) AS first_date, MAX(local_date) AS last_date
+    FROM photos
+    WHERE album_id = p_album_id
+  ) p
+  WHERE a.id = p_album_id
+    AND NOT a.dates_are_custom
+    AND (a.start_date IS DISTINCT FROM p.first_date OR a.end_date IS DISTINCT FROM p.last_date);
+$function$;
+
+-- Réservée aux déclencheurs
+REVOKE EXECUTE ON FUNCTION public.refresh_album_dates(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Une fois par requête : un import ou un changement de fuseau modifie beaucoup de photos d'un coup
+CREATE OR REPLACE FUNCTION public.refresh_photos_album_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_album_id UUID;
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    FOR v_album_id IN SELECT DISTINCT album_id FROM new_photos LOOP
+      PERFORM refresh_album_dates(v_album_id);
+    END LOOP;
+  END IF;
+
+  -- Album d'origine d'une photo déplacée ou supprimée
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    FOR v_album_id IN SELECT DISTINCT album_id FROM old_photos LOOP
+      PERFORM refresh_album_dates(v_album_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER refresh_album_dates_on_photos_insert
+AFTER INSERT ON public.photos
+REFERENCING NEW TABLE AS new_photos
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_photos_album_dates();
+
+CREATE TRIGGER refresh_album_dates_on_photos_update
+AFTER UPDATE ON public.photos
+REFERENCING OLD TABLE AS old_photos NEW TABLE AS new_photos
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_photos_album_dates();
+
+CREATE TRIGGER refresh_album_dates_on_photos_delete
+AFTER DELETE ON public.photos
+REFERENCING OLD TABLE AS old_photos
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.refresh_photos_album_dates();
+
+-- Revenir à la période automatique la recalcule ; year et month suivent le début de la période
+CREATE OR REPLACE FUNCTION public.sync_album_dates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.dates_are_custom AND NOT NEW.dates_are_custom THEN
+    SELECT MIN(local_date), MAX(local_date) INTO NEW.start_date, NEW.end_date
+    FROM photos
+    WHERE album_id = NEW.id;
+  END IF;
+
+  IF NEW.start_date IS NOT NULL THEN
+    NEW.year := EXTRACT(YEAR FROM NEW.start_date);
+    NEW.month := EXTRACT(MONTH FROM NEW.start_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_albums_dates
+BEFORE INSERT OR UPDATE OF start_date, dates_are_custom ON public.albums
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_album_dates();
+
+-- Période des albums existants, qui reclasse aussi ceux créés après le voyage
+UPDATE public.albums a
+SET start_date = p.first_date, end_date = p.last_date
+FROM (
+  SELECT album_id, MIN(local_date) AS first_date, MAX(local_date) AS last_date
+  FROM public.photos
+  WHERE local_date IS NOT NULL
+  GROUP BY album_id
+) p
+WHERE a.id = p.album_id;
@@ -0,0 +1,21 @@
+-- Un éditeur peut modifier les photos de l'album, mais ni leur auteur ni leur album :
+-- la règle de suppression repose sur user_id, et une photo déplacée échapperait à l'album d'origine
+CREATE OR REPLACE FUNCTION public.prevent_photo_reassignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.album_id IS DISTINCT FROM OLD.album_id THEN
+    RAISE EXCEPTION 'L''auteur et l''album d''une photo ne peuvent pas être modifiés'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_photos_reassignment
+BEFORE UPDATE OF user_id, album_id ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_photo_reassignment();
@@ -0,0 +1,6 @@
+-- Le cache est propre à chaque fournisseur : les lieux du géocodeur de test
+-- (ou d'un ancien fournisseur) ne doivent pas être servis par un autre
+ALTER TABLE public.geocode_cache DROP CONSTRAINT geocode_cache_pkey;
+
+ALTER TABLE public.geocode_cache
+ADD PRIMARY KEY (latitude_key, longitude_key, language, provider);
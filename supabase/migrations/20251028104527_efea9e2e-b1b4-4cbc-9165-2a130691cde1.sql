@@ -0,0 +1,31 @@
+-- Les photos d'un appareil sont regroupées sur leurs valeurs sans espaces, une valeur vide valant NULL
+-- (getCameraDevice) : la correction d'horloge compare les mêmes valeurs normalisées
+CREATE OR REPLACE FUNCTION public.shift_album_photo_times(
+  p_album_id UUID,
+  p_camera_make TEXT,
+  p_camera_model TEXT,
+  p_camera_serial TEXT,
+  p_offset_minutes INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE photos
+  SET taken_at = taken_at + make_interval(mins => p_offset_minutes)
+  WHERE album_id = p_album_id
+    AND taken_at IS NOT NULL
+    AND NULLIF(btrim(camera_make), '') IS NOT DISTINCT FROM NULLIF(btrim(p_camera_make), '')
+    AND NULLIF(btrim(camera_model), '') IS NOT DISTINCT FROM NULLIF(btrim(p_camera_model), '')
+    AND NULLIF(btrim(camera_serial), '') IS NOT DISTINCT FROM NULLIF(btrim(p_camera_serial), '');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM rebucket_album_days(p_album_id);
+
+  RETURN v_count;
+END;
+$function$;
@@ -0,0 +1,89 @@
+-- Titre provisoire des journées créées au réalignement dans la langue de l'appelant,
+-- comme à l'import (upload.dayFallbackTitle)
+CREATE OR REPLACE FUNCTION public.rebucket_album_days(p_album_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_entry RECORD;
+BEGIN
+  FOR v_entry IN
+    SELECT de.id, cp.local_date AS new_date
+    FROM day_entries de
+    JOIN photos cp ON cp.id = de.cover_photo_id
+    WHERE de.album_id = p_album_id
+      AND cp.local_date IS NOT NULL
+      AND cp.local_date <> de.date
+    ORDER BY de.date
+  LOOP
+    UPDATE day_entries
+    SET date = v_entry.new_date
+    WHERE id = v_entry.id
+      AND NOT EXISTS (
+        SELECT 1 FROM day_entries other
+        WHERE other.album_id = p_album_id AND other.date = v_entry.new_date
+      );
+  END LOOP;
+
+  UPDATE day_entries de
+  SET cover_photo_id = NULL
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND cp.local_date IS DISTINCT FROM de.date;
+
+  INSERT INTO day_entries (album_id, user_id, date, title)
+  SELECT DISTINCT p.album_id, a.user_id, p.local_date,
+    CASE up.locale
+      WHEN 'en' THEN 'Photos from ' || to_char(p.local_date, 'MM/DD/YYYY')
+      ELSE 'Photos du ' || to_char(p.local_date, 'DD/MM/YYYY')
+    END
+  FROM photos p
+  JOIN albums a ON a.id = p.album_id
+  LEFT JOIN user_preferences up ON up.user_id = auth.uid()
+  WHERE p.album_id = p_album_id
+    AND p.local_date IS NOT NULL
+  ON CONFLICT (album_id, date) DO NOTHING;
+
+  -- Couverture : dernière photo avec GPS du jour, sinon géolocalisée, sinon dernière photo du jour
+  UPDATE day_entries de
+  SET cover_photo_id = (
+    SELECT p.id
+    FROM photos p
+    WHERE p.album_id = de.album_id
+      AND p.local_date = de.date
+    ORDER BY p.location_source IN ('exif', 'manual') DESC,
+      (p.latitude IS NOT NULL AND p.longitude IS NOT NULL) DESC,
+      p.taken_at DESC
+    LIMIT 1
+  )
+  WHERE de.album_id = p_album_id
+    AND de.cover_photo_id IS NULL;
+
+  -- Les nouvelles journées prennent la position de leur couverture
+  UPDATE day_entries de
+  SET latitude = cp.latitude,
+      longitude = cp.longitude,
+      location_name = cp.location_name,
+      location_source = cp.location_source,
+      place_locality = cp.place_locality,
+      place_municipality = cp.place_municipality,
+      place_region = cp.place_region,
+      place_country = cp.place_country,
+      place_country_code = cp.place_country_code
+  FROM photos cp
+  WHERE de.album_id = p_album_id
+    AND cp.id = de.cover_photo_id
+    AND de.latitude IS NULL
+    AND cp.latitude IS NOT NULL;
+
+  DELETE FROM day_entries de
+  WHERE de.album_id = p_album_id
+    AND COALESCE(de.description, '') = ''
+    AND NOT EXISTS (
+      SELECT 1 FROM photos p
+      WHERE p.album_id = de.album_id AND p.local_date = de.date
+    );
+END;
+$function$;
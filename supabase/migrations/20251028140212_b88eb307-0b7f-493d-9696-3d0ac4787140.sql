@@ -0,0 +1,64 @@
+-- Le propriétaire d'un album ne règle que les membres et invitations de cet album :
+-- sans contrôle de la nouvelle ligne, il pouvait rattacher un membre ou une invitation à un autre album,
+-- et s'y donner accès
+DROP POLICY "Owners can update album members" ON public.album_members;
+
+CREATE POLICY "Owners can update album members"
+ON public.album_members
+FOR UPDATE
+USING (public.has_album_role(album_id, 'owner') AND role <> 'owner')
+WITH CHECK (public.has_album_role(album_id, 'owner') AND role <> 'owner');
+
+DROP POLICY "Owners can update album invitations" ON public.album_invitations;
+
+CREATE POLICY "Owners can update album invitations"
+ON public.album_invitations
+FOR UPDATE
+USING (public.has_album_role(album_id, 'owner'))
+WITH CHECK (public.has_album_role(album_id, 'owner'));
+
+-- Seul le rôle d'un membre se modifie : album, compte et adresse restent ceux de l'ajout
+CREATE OR REPLACE FUNCTION public.prevent_album_member_reassignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.album_id IS DISTINCT FROM OLD.album_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.email IS DISTINCT FROM OLD.email THEN
+    RAISE EXCEPTION 'L''album, le compte et l''adresse d''un membre ne peuvent pas être modifiés'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_album_members_reassignment
+BEFORE UPDATE OF album_id, user_id, email ON public.album_members
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_album_member_reassignment();
+
+-- De même pour une invitation : seul son rôle se modifie
+CREATE OR REPLACE FUNCTION public.prevent_album_invitation_reassignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.album_id IS DISTINCT FROM OLD.album_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.invited_by IS DISTINCT FROM OLD.invited_by THEN
+    RAISE EXCEPTION 'L''album, l''adresse et l''auteur d''une invitation ne peuvent pas être modifiés'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_album_invitations_reassignment
+BEFORE UPDATE OF album_id, email, invited_by ON public.album_invitations
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_album_invitation_reassignment();
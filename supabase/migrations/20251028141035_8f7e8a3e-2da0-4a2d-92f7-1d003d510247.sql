@@ -0,0 +1,38 @@
+-- Un lien modifié reste un lien d'un album de son auteur, vers une journée de cet album :
+-- sans contrôle de la nouvelle ligne, il pouvait viser n'importe quel album dont l'identifiant est connu,
+-- servi ensuite par shared-album avec la clé service_role
+DROP POLICY "Users can update their own album shares" ON public.album_shares;
+
+CREATE POLICY "Users can update their own album shares"
+ON public.album_shares
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.albums a WHERE a.id = album_id AND a.user_id = auth.uid())
+  AND (
+    day_entry_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.day_entries de WHERE de.id = day_entry_id AND de.album_id = album_shares.album_id)
+  )
+);
+
+-- Ce qu'un lien donne à voir est fixé à sa création : pour un autre album ou une autre journée, nouveau lien
+CREATE OR REPLACE FUNCTION public.prevent_album_share_retarget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.album_id IS DISTINCT FROM OLD.album_id OR NEW.day_entry_id IS DISTINCT FROM OLD.day_entry_id THEN
+    RAISE EXCEPTION 'L''album et la journée d''un lien de partage ne peuvent pas être modifiés'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_album_shares_retarget
+BEFORE UPDATE OF album_id, day_entry_id ON public.album_shares
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_album_share_retarget();